@@ -0,0 +1,114 @@
+/**
+ * Chatbot Eval Runner
+ *
+ * Runs every case in eval/cases.json through the configured LLM provider in-process
+ * (same system prompt, public tools and generation config as POST /api/chat) and
+ * scores tool selection, arguments, answer assertions, number grounding and latency.
+ *
+ * Usage:
+ *   LLM_PROVIDER=mock npx tsx eval/run.ts              # offline, deterministic
+ *   npx tsx eval/run.ts --tag curriculum --delay 1000  # Gemini, one tag, rate-limited
+ *
+ * Options:
+ *   --cases <file>       Case file (default: eval/cases.json)
+ *   --out <dir>          Report directory (default: eval/reports)
+ *   --tag <tag>          Only run cases with this tag
+ *   --delay <ms>         Pause between cases (default: 0)
+ *   --fail-under <rate>  Exit 1 when the case pass rate is below this (e.g. 0.9)
+ *
+ * Writes <out>/<provider>.md (stable, one line per case, meant to be diffed in review)
+ * and <out>/<provider>.json (full scores).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createProvider, runToolLoop, type LLMProvider } from '../server/src/llm/index.ts';
+import { db } from '../server/src/mcp/tools/db.ts';
+import { handleFunctionCall, publicDefinitions } from '../server/src/mcp/tools/index.ts';
+import { initModels } from '../server/src/models/index.ts';
+import { getSystemPromptBase } from '../server/src/prompts/system.ts';
+import { AI_CONFIG } from '../server/src/routes/chat.ts';
+import { renderReport, scoreCase, summarize, type CaseScore, type EvalCase, type EvalRun } from './scoring.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function runCase(llm: LLMProvider, evalCase: EvalCase): Promise<EvalRun> {
+  const chat = llm.startChat({
+    systemInstruction: getSystemPromptBase(),
+    tools: publicDefinitions,
+    history: [],
+    generation: AI_CONFIG,
+  });
+
+  const startTime = Date.now();
+  try {
+    const { turn, toolCalls } = await runToolLoop(chat, evalCase.prompt, call => handleFunctionCall(call.name, call.args));
+    return { text: turn.text, toolCalls, latencyMs: Date.now() - startTime };
+  } catch (error) {
+    return {
+      text: '',
+      toolCalls: [],
+      latencyMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function main(): Promise<void> {
+  const casesPath = option('cases') || path.join(__dirname, 'cases.json');
+  const outDir = option('out') || path.join(__dirname, 'reports');
+  const tag = option('tag');
+  const delay = Number(option('delay')) || 0;
+  const failUnder = option('fail-under');
+
+  const cases = (JSON.parse(fs.readFileSync(casesPath, 'utf-8')) as EvalCase[])
+    .filter(c => !tag || c.tags?.includes(tag));
+  const llm = createProvider();
+  initModels(db);
+
+  console.log(`🧪 Chatbot eval: ${cases.length} cases on ${llm.name}/${llm.model}\n`);
+
+  const scores: CaseScore[] = [];
+  for (const evalCase of cases) {
+    const score = scoreCase(evalCase, await runCase(llm, evalCase));
+    scores.push(score);
+
+    const problems = [
+      ...score.missing_tools.map(t => `missing ${t}`),
+      ...score.unexpected_tools.map(t => `unexpected ${t}`),
+      ...score.failed_args,
+      ...score.failed_answer,
+      ...score.ungrounded_numbers.map(n => `ungrounded ${n}`),
+      ...(score.error ? [score.error] : []),
+    ];
+    console.log(`${score.passed ? '✅' : '❌'} ${evalCase.id} (${score.latency_ms}ms)${problems.length ? ` → ${problems.join('; ')}` : ''}`);
+
+    if (delay > 0) await new Promise(r => setTimeout(r, delay));
+  }
+
+  const summary = summarize(scores);
+  fs.mkdirSync(outDir, { recursive: true });
+  const reportBase = path.join(outDir, llm.name);
+  fs.writeFileSync(`${reportBase}.md`, renderReport(summary, scores, `${llm.name}/${llm.model}`));
+  fs.writeFileSync(`${reportBase}.json`, JSON.stringify({ model: `${llm.name}/${llm.model}`, summary, scores }, null, 2) + '\n');
+
+  console.log(`\n🏁 ${summary.passed}/${summary.cases} passed`);
+  console.log(`   tools ${summary.tool_selection_accuracy}, args ${summary.argument_accuracy}, answers ${summary.answer_accuracy}, grounded ${summary.grounded_number_rate}`);
+  console.log(`   latency p50 ${summary.latency_ms.p50}ms, p95 ${summary.latency_ms.p95}ms`);
+  console.log(`   report: ${reportBase}.md`);
+
+  if (failUnder && summary.passed / Math.max(1, summary.cases) < Number(failUnder)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Eval failed:', error);
+  process.exitCode = 1;
+});
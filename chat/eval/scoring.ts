@@ -0,0 +1,254 @@
+/**
+ * Evaluation Scoring
+ *
+ * Checks one chatbot run against an eval case:
+ * - Tool selection: every expected tool was called (or none, when tools is [])
+ * - Arguments: constraints like `course_code == "CSCI 111"` on the calls of a tool
+ * - Answer: contains / not_contains / matches assertions on the final text
+ * - Grounding: every number in the answer appears in the prompt or a tool result
+ */
+
+export interface EvalCase {
+  id: string;
+  prompt: string;
+  tools: string[];                           // Expected tool names ([] = answer without tools)
+  args?: Record<string, string[]>;           // Tool name -> constraints, e.g. ['year == 1']
+  answer?: {
+    contains?: string[];                     // Case-insensitive substrings
+    not_contains?: string[];
+    matches?: string;                        // Case-insensitive regex
+  };
+  allow_numbers?: string[];                  // Numbers the answer may state without a tool source
+  tags?: string[];
+}
+
+export interface EvalRun {
+  text: string;
+  toolCalls: Array<{ name: string; args: Record<string, unknown>; result: unknown }>;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface CaseScore {
+  id: string;
+  tool_selection: boolean;
+  missing_tools: string[];
+  unexpected_tools: string[];
+  args_passed: number;
+  args_total: number;
+  failed_args: string[];
+  answer_passed: number;
+  answer_total: number;
+  failed_answer: string[];
+  numbers_total: number;
+  ungrounded_numbers: string[];
+  latency_ms: number;
+  error?: string;
+  passed: boolean;
+}
+
+// `field op value`, op is one of == != ~= >= <= > < or `field exists`
+const CONSTRAINT = /^\s*([\w.]+)\s*(==|!=|~=|>=|<=|>|<)\s*(.+?)\s*$/;
+
+function normalize(value: unknown): string {
+  return String(value ?? '').toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+function parseLiteral(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw; // Bare words, e.g. year == first
+  }
+}
+
+function getPath(args: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    args
+  );
+}
+
+/**
+ * Check one constraint against a tool call's arguments
+ */
+export function checkConstraint(args: Record<string, unknown>, constraint: string): boolean {
+  const exists = constraint.match(/^\s*([\w.]+)\s+exists\s*$/);
+  if (exists) return getPath(args, exists[1]) !== undefined;
+
+  const match = constraint.match(CONSTRAINT);
+  if (!match) throw new Error(`Invalid argument constraint: ${constraint}`);
+  const [, path, op, raw] = match;
+  const actual = getPath(args, path);
+  const expected = parseLiteral(raw);
+
+  const actualNumber = Number(actual);
+  const expectedNumber = Number(expected);
+  const numeric = actual !== undefined && actual !== '' && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber);
+
+  switch (op) {
+    case '==': return numeric ? actualNumber === expectedNumber : normalize(actual) === normalize(expected);
+    case '!=': return numeric ? actualNumber !== expectedNumber : normalize(actual) !== normalize(expected);
+    case '~=': return normalize(actual).includes(normalize(expected));
+    case '>=': return numeric && actualNumber >= expectedNumber;
+    case '<=': return numeric && actualNumber <= expectedNumber;
+    case '>': return numeric && actualNumber > expectedNumber;
+    case '<': return numeric && actualNumber < expectedNumber;
+    default: return false;
+  }
+}
+
+/**
+ * Numbers stated in an answer, ignoring list markers ("1. ", "2) ")
+ */
+export function extractNumbers(text: string): string[] {
+  const body = text.replace(/^\s*\d+[.)]\s+/gm, '');
+  return [...new Set(body.match(/\d+(?:\.\d+)?/g) || [])];
+}
+
+/**
+ * Numbers a tool result supports: every number in it plus the length of every list
+ * (answers like "There are 5 sections" count items)
+ */
+function resultNumbers(value: unknown, into: Set<string>): void {
+  if (Array.isArray(value)) {
+    into.add(String(value.length));
+    value.forEach(item => resultNumbers(item, into));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => resultNumbers(item, into));
+  } else if (value !== null && value !== undefined) {
+    for (const n of String(value).match(/\d+(?:\.\d+)?/g) || []) into.add(n);
+  }
+}
+
+export function scoreCase(evalCase: EvalCase, run: EvalRun): CaseScore {
+  const called = run.toolCalls.map(c => c.name);
+  const missing = evalCase.tools.filter(tool => !called.includes(tool));
+  const unexpected = evalCase.tools.length === 0 ? [...new Set(called)] : [];
+  const toolSelection = !run.error && missing.length === 0 && unexpected.length === 0;
+
+  // A constraint passes when any call of that tool satisfies it
+  const failedArgs: string[] = [];
+  let argsTotal = 0;
+  for (const [tool, constraints] of Object.entries(evalCase.args || {})) {
+    const calls = run.toolCalls.filter(c => c.name === tool);
+    for (const constraint of constraints) {
+      argsTotal++;
+      if (!calls.some(call => checkConstraint(call.args, constraint))) {
+        failedArgs.push(`${tool}: ${constraint}`);
+      }
+    }
+  }
+
+  const text = run.text.toLowerCase();
+  const failedAnswer: string[] = [];
+  const answer = evalCase.answer || {};
+  for (const needle of answer.contains || []) {
+    if (!text.includes(needle.toLowerCase())) failedAnswer.push(`contains "${needle}"`);
+  }
+  for (const needle of answer.not_contains || []) {
+    if (text.includes(needle.toLowerCase())) failedAnswer.push(`not_contains "${needle}"`);
+  }
+  if (answer.matches && !new RegExp(answer.matches, 'i').test(run.text)) {
+    failedAnswer.push(`matches /${answer.matches}/`);
+  }
+  const answerTotal = (answer.contains?.length || 0) + (answer.not_contains?.length || 0) + (answer.matches ? 1 : 0);
+
+  // Every number in the answer must come from somewhere the model was shown
+  const sourceNumbers = new Set([...(evalCase.prompt.match(/\d+(?:\.\d+)?/g) || []), ...(evalCase.allow_numbers || [])]);
+  for (const call of run.toolCalls) resultNumbers(call.result, sourceNumbers);
+  const numbers = extractNumbers(run.text);
+  const ungrounded = numbers.filter(n => !sourceNumbers.has(n) && !sourceNumbers.has(String(Number(n))));
+
+  return {
+    id: evalCase.id,
+    tool_selection: toolSelection,
+    missing_tools: missing,
+    unexpected_tools: unexpected,
+    args_passed: argsTotal - failedArgs.length,
+    args_total: argsTotal,
+    failed_args: failedArgs,
+    answer_passed: answerTotal - failedAnswer.length,
+    answer_total: answerTotal,
+    failed_answer: failedAnswer,
+    numbers_total: numbers.length,
+    ungrounded_numbers: ungrounded,
+    latency_ms: run.latencyMs,
+    error: run.error,
+    passed: toolSelection && failedArgs.length === 0 && failedAnswer.length === 0 && ungrounded.length === 0,
+  };
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  tool_selection_accuracy: number;
+  argument_accuracy: number;
+  answer_accuracy: number;
+  grounded_number_rate: number;
+  latency_ms: { p50: number; p95: number; max: number };
+}
+
+function ratio(part: number, total: number): number {
+  return total === 0 ? 1 : Math.round((part / total) * 1000) / 1000;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarize(scores: CaseScore[]): EvalSummary {
+  const sum = (pick: (s: CaseScore) => number) => scores.reduce((total, s) => total + pick(s), 0);
+  const latencies = scores.map(s => s.latency_ms).sort((a, b) => a - b);
+  const numbers = sum(s => s.numbers_total);
+
+  return {
+    cases: scores.length,
+    passed: scores.filter(s => s.passed).length,
+    tool_selection_accuracy: ratio(scores.filter(s => s.tool_selection).length, scores.length),
+    argument_accuracy: ratio(sum(s => s.args_passed), sum(s => s.args_total)),
+    answer_accuracy: ratio(sum(s => s.answer_passed), sum(s => s.answer_total)),
+    grounded_number_rate: ratio(numbers - sum(s => s.ungrounded_numbers.length), numbers),
+    latency_ms: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      max: latencies[latencies.length - 1] || 0,
+    },
+  };
+}
+
+/**
+ * Markdown report: one stable line per case so reports diff cleanly between runs.
+ * Latency only appears in the summary header.
+ */
+export function renderReport(summary: EvalSummary, scores: CaseScore[], model: string): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    `# Chatbot Eval Report (${model})`,
+    '',
+    `- Cases passed: ${summary.passed}/${summary.cases}`,
+    `- Tool selection accuracy: ${pct(summary.tool_selection_accuracy)}`,
+    `- Argument accuracy: ${pct(summary.argument_accuracy)}`,
+    `- Answer assertions: ${pct(summary.answer_accuracy)}`,
+    `- Grounded numbers: ${pct(summary.grounded_number_rate)}`,
+    `- Latency: p50 ${summary.latency_ms.p50}ms, p95 ${summary.latency_ms.p95}ms, max ${summary.latency_ms.max}ms`,
+    '',
+    '| Case | Result | Tools | Args | Answer | Ungrounded numbers |',
+    '| ---- | ------ | ----- | ---- | ------ | ------------------ |',
+  ];
+
+  for (const s of [...scores].sort((a, b) => a.id.localeCompare(b.id))) {
+    const tools = s.error
+      ? `error: ${s.error}`
+      : s.tool_selection
+        ? 'ok'
+        : [...s.missing_tools.map(t => `missing ${t}`), ...s.unexpected_tools.map(t => `unexpected ${t}`)].join('; ');
+    const args = s.failed_args.length > 0 ? s.failed_args.join('; ') : `${s.args_passed}/${s.args_total}`;
+    const answer = s.failed_answer.length > 0 ? s.failed_answer.join('; ') : `${s.answer_passed}/${s.answer_total}`;
+    const cells = [s.id, s.passed ? 'PASS' : 'FAIL', tools, args, answer, s.ungrounded_numbers.join(', ') || '-'];
+    lines.push(`| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -18,7 +18,6 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import http from 'http';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -26,6 +25,7 @@ import { fileURLToPath } from 'url';
 // Import MCP tools and models
 import { handleFunctionCall } from './src/mcp/tools/index.js';
 import { initModels } from './src/models/index.js';
+import { createProvider } from './src/llm/index.js';
 
 // Import routes
 import { authRouter } from './src/routes/auth.js';
@@ -33,11 +33,17 @@ import { aisisRouter } from './src/routes/aisis.js';
 import { createChatRouter } from './src/routes/chat.js';
 import { analyticsRouter } from './src/routes/analytics.js';
 import { createHealthRouter } from './src/routes/health.js';
+import { termsRouter } from './src/routes/terms.js';
+import { reportsRouter } from './src/routes/reports.js';
+import { createV1Router } from './src/routes/v1.js';
+import { createGraphQLRouter } from './src/routes/graphql.js';
+import { createMcpRouter } from './src/routes/mcp.js';
 
 // Import services
 import { queryCache } from './cache.js';
 import { EmbeddingSearch } from './embedding.js';
 import { wsServer } from './websocket.js';
+import { SlotWatcher } from './slotWatcher.js';
 
 
 
@@ -52,11 +58,14 @@ const db = new Database(path.join(__dirname, '../../sisia.db'), { readonly: true
 // Initialize models with database connection
 initModels(db);
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// Initialize the LLM provider (LLM_PROVIDER=gemini|openai|mock)
+const llm = createProvider();
 
 // Initialize embedding search
-const embeddingSearch = new EmbeddingSearch(genAI, db);
+const embeddingSearch = new EmbeddingSearch(llm, db);
+
+// Push slot_change events for watched courses after each scrape run
+const slotWatcher = new SlotWatcher(db, wsServer, Number(process.env.SLOT_WATCH_INTERVAL_MS) || 60000);
 
 // === MOUNT ROUTES ===
 
@@ -65,14 +74,29 @@ app.use('/api/auth', authRouter);
 app.use('/api/aisis', aisisRouter);
 
 // Chat routes (public, personal, stream, history)
-app.use('/api/chat', createChatRouter(genAI, db));
+app.use('/api/chat', createChatRouter(llm, db));
 
 // Analytics routes
 app.use('/api/analytics', analyticsRouter);
 app.use('/api/usage', analyticsRouter);
 
+// Term routes
+app.use('/api/terms', termsRouter);
+
+// Room utilization reports (JSON, CSV, SVG/PNG heatmaps)
+app.use('/api/reports', reportsRouter);
+
+// Public REST API (read-only catalog, OpenAPI at /api/v1/openapi.json)
+app.use('/api/v1', createV1Router(db));
+
+// GraphQL over the normalized schedule schema
+app.use('/api/graphql', createGraphQLRouter(db));
+
+// MCP over streamable HTTP (stdio: server/mcp.ts)
+app.use('/api/mcp', createMcpRouter());
+
 // Health routes
-const healthRouter = createHealthRouter(db, queryCache, embeddingSearch, wsServer);
+const healthRouter = createHealthRouter(db, queryCache, embeddingSearch, wsServer, slotWatcher, llm);
 app.use('/api/health', healthRouter);
 app.use('/api/cache', healthRouter);
 app.use('/api/ws', healthRouter);
@@ -105,6 +129,7 @@ const PORT = process.env.PORT || 6102;
 // Create HTTP server and attach WebSocket
 const server = http.createServer(app);
 wsServer.attach(server);
+slotWatcher.start();
 
 // === PRE-WARMING ===
 async function prewarmCache() {
@@ -114,7 +139,7 @@ async function prewarmCache() {
   const commonQueries = ['CSCI', 'MATH', 'ENGL', 'PHILO', 'THEO'];
   for (const query of commonQueries) {
     try {
-      await handleFunctionCall('search_courses', { query, term: '2025-2', limit: 10 });
+      await handleFunctionCall('search_courses', { query, limit: 10 });
     } catch {
       // Ignore errors during pre-warming
     }
@@ -142,5 +167,5 @@ server.listen(PORT, () => {
   console.log(`🛠️  Public tools: ${publicDefinitions.length}`);
   console.log(`🔒 Personal tools: ${personalDefinitions.length}`);
   console.log(`📝 Message logging: enabled`);
-  console.log(`⚡ AI Config: temp=${AI_CONFIG.temperature}, topP=${AI_CONFIG.topP}`);
+  console.log(`⚡ AI Config: ${llm.name}/${llm.model}, temp=${AI_CONFIG.temperature}, topP=${AI_CONFIG.topP}`);
 });
@@ -1,11 +1,11 @@
 /**
  * Embedding-based semantic search for SISIA
- * Uses Gemini embeddings for semantic similarity matching
+ * Uses the configured LLM provider's embeddings for semantic similarity matching
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import Database from 'better-sqlite3';
 import { embeddingCache, createCacheKey } from './cache.js';
+import type { LLMProvider } from './src/llm/index.js';
 
 // Cosine similarity between two vectors
 function cosineSimilarity(a: number[], b: number[]): number {
@@ -26,13 +26,13 @@ function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 export class EmbeddingSearch {
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
   private db: Database.Database;
   private courseEmbeddings: Map<string, { embedding: number[]; course_code: string; title: string }>;
   private initialized = false;
 
-  constructor(genAI: GoogleGenerativeAI, db: Database.Database) {
-    this.genAI = genAI;
+  constructor(llm: LLMProvider, db: Database.Database) {
+    this.llm = llm;
     this.db = db;
     this.courseEmbeddings = new Map();
   }
@@ -40,14 +40,12 @@ export class EmbeddingSearch {
   // Generate embedding for a text
   async getEmbedding(text: string): Promise<number[]> {
     // Check cache first
-    const cacheKey = createCacheKey('embedding', { text });
+    const cacheKey = createCacheKey('embedding', { text, model: this.llm.embeddingModel });
     const cached = embeddingCache.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const model = this.genAI.getGenerativeModel({ model: 'text-embedding-004' });
-      const result = await model.embedContent(text);
-      const embedding = result.embedding.values;
+      const embedding = await this.llm.embed(text);
       
       // Cache the result
       embeddingCache.set(cacheKey, embedding, 3600); // 1 hour TTL
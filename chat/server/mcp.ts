@@ -0,0 +1,48 @@
+/**
+ * SISIA MCP Server (stdio)
+ *
+ * Entry point for desktop MCP clients that spawn the server as a process:
+ *
+ *   npx tsx server/mcp.ts
+ *
+ * Publishes the public tools; set SISIA_ACCESS_TOKEN to a Supabase access token of a user
+ * with a linked AISIS account to also publish the personal tools. The same server is
+ * available over streamable HTTP at POST /api/mcp of the API server.
+ */
+
+import type { UserContext } from './src/mcp/tools/index.js';
+
+// stdout carries the protocol: send all logging (tool calls, dotenv) to stderr before
+// anything else loads, hence the dynamic imports below
+console.log = console.error;
+console.info = console.error;
+
+const { default: Database } = await import('better-sqlite3');
+const { default: path } = await import('path');
+const { fileURLToPath } = await import('url');
+await import('dotenv/config');
+const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+const { initModels } = await import('./src/models/index.js');
+const { createMcpServer } = await import('./src/mcp/server.js');
+const { verifyAccessToken } = await import('./src/routes/auth.js');
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Same database as the API server
+const db = new Database(path.join(__dirname, '../../sisia.db'), { readonly: true });
+initModels(db);
+
+let userContext: UserContext | undefined;
+const token = process.env.SISIA_ACCESS_TOKEN;
+if (token) {
+  const user = await verifyAccessToken(token).catch(() => null);
+  if (!user) {
+    console.error('SISIA_ACCESS_TOKEN is invalid or expired');
+    process.exit(1);
+  }
+  userContext = { userId: user.id, accessToken: user.accessToken };
+}
+
+const server = createMcpServer(userContext);
+await server.connect(new StdioServerTransport());
+console.error(`SISIA MCP server on stdio (${userContext ? 'public + personal' : 'public'} tools)`);
@@ -0,0 +1,132 @@
+/**
+ * Slot watcher for SISIA real-time notifications
+ * Diffs class_section.free_slots for courses that WebSocket clients watch
+ * and pushes slot_change events when a scrape run changes them
+ */
+
+import Database from 'better-sqlite3';
+import type { SISIAWebSocket } from './websocket.js';
+import { resolveTerm } from './src/utils/terms.js';
+
+interface SlotRow {
+  course_code: string;
+  section: string;
+  free_slots: number;
+}
+
+export class SlotWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  // "TERM|COURSE|SECTION" -> free slots at the last check
+  private snapshot: Map<string, number> = new Map();
+  private baselineCourses: Set<string> = new Set();
+  private lastRunId: number | null = null;
+  private lastTerm: string | null = null;
+  private lastCheckedAt: string | null = null;
+  private changesPushed = 0;
+
+  constructor(
+    private db: Database.Database,
+    private ws: SISIAWebSocket,
+    private intervalMs: number = 60000
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      try {
+        this.check();
+      } catch (err) {
+        console.error('Slot watcher error:', err);
+      }
+    }, this.intervalMs);
+    console.log(`👀 Slot watcher polling every ${Math.round(this.intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compare free slots of watched courses in the current term against the last check.
+   * Only queries when a new schedule scrape run of that term finished or new courses were watched;
+   * runs of other terms (--all-terms, backfills) are ignored.
+   * Returns the number of slot_change events pushed.
+   */
+  check(): number {
+    const courses = this.ws.getSubscribedCourses();
+    if (courses.length === 0) {
+      this.snapshot.clear();
+      this.baselineCourses.clear();
+      return 0;
+    }
+
+    const term = resolveTerm();
+    const run = this.db.prepare(`
+      SELECT id FROM scrape_run
+      WHERE scrape_type = 'schedule' AND status = 'completed' AND term_code = ?
+      ORDER BY id DESC LIMIT 1
+    `).get(term) as { id: number } | undefined;
+
+    const runId = run?.id ?? null;
+    const hasNewCourses = courses.some(c => !this.baselineCourses.has(c));
+    const termChanged = this.lastTerm !== null && this.lastTerm !== term;
+    if (runId === this.lastRunId && !hasNewCourses && !termChanged) return 0;
+
+    const placeholders = courses.map(() => '?').join(', ');
+    const rows = this.db.prepare(`
+      SELECT c.course_code, cs.section, cs.free_slots
+      FROM class_section cs
+      JOIN course c ON cs.course_id = c.id
+      JOIN term t ON cs.term_id = t.id
+      WHERE t.code = ? AND UPPER(c.course_code) IN (${placeholders})
+    `).all(term, ...courses) as SlotRow[];
+
+    const next = new Map<string, number>();
+    let pushed = 0;
+
+    for (const row of rows) {
+      const key = `${term}|${row.course_code.toUpperCase()}|${row.section}`;
+      const previous = this.snapshot.get(key);
+
+      // Courses seen for the first time only set a baseline
+      if (previous !== undefined && previous !== row.free_slots) {
+        this.ws.notifySlotChange(row.course_code, {
+          term,
+          section: row.section,
+          oldSlots: previous,
+          newSlots: row.free_slots,
+          scrapeRunId: runId,
+        });
+        pushed++;
+      }
+      next.set(key, row.free_slots);
+    }
+
+    this.snapshot = next;
+    this.baselineCourses = new Set(courses);
+    this.lastRunId = runId;
+    this.lastTerm = term;
+    this.lastCheckedAt = new Date().toISOString();
+    this.changesPushed += pushed;
+
+    if (pushed > 0) {
+      console.log(`👀 Slot watcher: pushed ${pushed} slot change(s) after scrape run ${runId}`);
+    }
+    return pushed;
+  }
+
+  getStats(): { running: boolean; intervalMs: number; watchedCourses: number; trackedSections: number; lastRunId: number | null; lastCheckedAt: string | null; changesPushed: number } {
+    return {
+      running: this.timer !== null,
+      intervalMs: this.intervalMs,
+      watchedCourses: this.baselineCourses.size,
+      trackedSections: this.snapshot.size,
+      lastRunId: this.lastRunId,
+      lastCheckedAt: this.lastCheckedAt,
+      changesPushed: this.changesPushed,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchema, parse, validate } from 'graphql';
+import { depthLimit } from './depthLimit.js';
+
+// Cyclic like the real schema: course -> sections -> instructor -> sections -> course
+const schema = buildSchema(`
+  type Query { course(code: String!): Course }
+  type Course { code: String, sections: [Section] }
+  type Section { section: String, course: Course, instructor: Instructor }
+  type Instructor { name: String, sections: [Section] }
+`);
+
+const errors = (query: string, maxDepth = 3) =>
+  validate(schema, parse(query), [depthLimit(maxDepth)]).map(error => error.message);
+
+describe('depthLimit', () => {
+  it('accepts queries at the limit', () => {
+    expect(errors('{ course(code: "CSCI 21") { sections { instructor { name } } } }', 4)).toEqual([]);
+  });
+
+  it('rejects deeper nesting with the operation name', () => {
+    expect(errors('query Deep { course(code: "CSCI 21") { sections { course { code } } } }'))
+      .toEqual(["'Deep' has depth 4, the maximum is 3"]);
+  });
+
+  it('follows fragments and inline fragments', () => {
+    const query = `
+      { course(code: "CSCI 21") { ...Sections } }
+      fragment Sections on Course { sections { ... on Section { instructor { name } } } }
+    `;
+    expect(errors(query)).toEqual(['Query has depth 4, the maximum is 3']);
+  });
+
+  it('does not count introspection fields', () => {
+    expect(errors('{ __schema { types { fields { type { name } } } } }', 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * GraphQL Query Depth Limit
+ *
+ * The schema is cyclic (course → sections → instructor → sections → course ...), so a
+ * client could nest selections until one query touches the whole catalog. This validation
+ * rule rejects operations whose field nesting, followed through fragments, is deeper
+ * than the limit before anything executes.
+ */
+
+import {
+  GraphQLError,
+  Kind,
+  type ASTVisitor,
+  type FragmentDefinitionNode,
+  type SelectionSetNode,
+  type ValidationContext,
+} from 'graphql';
+
+/**
+ * Deepest field nesting of a selection set (a top-level field is depth 1)
+ */
+function selectionDepth(
+  selectionSet: SelectionSetNode | undefined,
+  fragments: Record<string, FragmentDefinitionNode>,
+  visited: Set<string> = new Set()
+): number {
+  if (!selectionSet) return 0;
+
+  let depth = 0;
+  for (const selection of selectionSet.selections) {
+    switch (selection.kind) {
+      case Kind.FIELD:
+        // Introspection fields are excluded so tooling can always load the schema
+        if (!selection.name.value.startsWith('__')) {
+          depth = Math.max(depth, 1 + selectionDepth(selection.selectionSet, fragments, visited));
+        }
+        break;
+      case Kind.INLINE_FRAGMENT:
+        depth = Math.max(depth, selectionDepth(selection.selectionSet, fragments, visited));
+        break;
+      case Kind.FRAGMENT_SPREAD: {
+        const name = selection.name.value;
+        // Fragment cycles are reported by the standard NoFragmentCycles rule
+        if (visited.has(name) || !fragments[name]) break;
+        depth = Math.max(depth, selectionDepth(fragments[name].selectionSet, fragments, new Set([...visited, name])));
+        break;
+      }
+    }
+  }
+  return depth;
+}
+
+export function depthLimit(maxDepth: number) {
+  return (context: ValidationContext): ASTVisitor => {
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    for (const definition of context.getDocument().definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments[definition.name.value] = definition;
+    }
+
+    return {
+      OperationDefinition(node) {
+        const depth = selectionDepth(node.selectionSet, fragments);
+        if (depth > maxDepth) {
+          const name = node.name ? `'${node.name.value}'` : 'Query';
+          context.reportError(new GraphQLError(`${name} has depth ${depth}, the maximum is ${maxDepth}`, { nodes: [node] }));
+        }
+      },
+    };
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * GraphQL Data Loaders
+ *
+ * Batched lookups against the normalized schema. Resolvers never query per row: each
+ * loader collects the keys requested while a level of the query executes and fetches
+ * them with one statement (ids passed as a JSON array to json_each, so any number of
+ * keys binds to a single parameter). Loaders are created per request, so their cache
+ * never outlives one query.
+ */
+
+import Database from 'better-sqlite3';
+import DataLoader from 'dataloader';
+import { getFeedbackSummaries, type FeedbackSummary } from '../models/Feedback.js';
+
+export interface CourseRow {
+  id: number;
+  course_code: string;
+  title: string;
+  units: number;
+  department: string | null;
+}
+
+export interface SectionRow {
+  id: number;
+  course_id: number;
+  instructor_id: number | null;
+  term: string;
+  department: string | null;
+  section: string;
+  max_capacity: number;
+  free_slots: number;
+  lang: string | null;
+  level: string | null;
+  remarks: string | null;
+  has_prerequisites: number;
+}
+
+export interface SlotRow {
+  id: number;
+  section_id: number;
+  room_id: number | null;
+  day: string;
+  start_time: string;
+  end_time: string;
+  modality: string | null;
+}
+
+export interface InstructorRow {
+  id: number;
+  name: string;
+  department: string | null;
+}
+
+export interface RoomRow {
+  id: number;
+  code: string;
+  building: string | null;
+  room_number: string | null;
+}
+
+export interface ProgramRow {
+  id: number;
+  code: string;
+  name: string;
+  is_honors: number;
+  track: string | null;
+  specialization: string | null;
+  version_year: number | null;
+  version_semester: number | null;
+}
+
+export interface CurriculumCourseRow {
+  id: number;
+  degree_id: number;
+  course_id: number;
+  year: number | null;
+  semester: number | null;
+  prerequisites_raw: string | null;
+  corequisites_raw: string | null;
+  category: string | null;
+  is_elective: number;
+}
+
+// Key of loaders scoped to a term (sections of a course/instructor, slots of a room)
+export interface TermKey {
+  id: number;
+  term: string;
+}
+
+const COURSE_COLUMNS = `c.id, c.course_code, c.title, c.units, d.code as department`;
+const SECTION_COLUMNS = `
+  cs.id, cs.course_id, cs.instructor_id, t.code as term, d.code as department, cs.section,
+  cs.max_capacity, cs.free_slots, cs.lang, cs.level, cs.remarks, cs.has_prerequisites`;
+const SLOT_COLUMNS = `ss.id, ss.section_id, ss.room_id, ss.day, ss.start_time, ss.end_time, ss.modality`;
+
+// Week order for slots, so schedules read Monday to Saturday
+const DAY_ORDER = `CASE ss.day
+  WHEN 'Monday' THEN 1 WHEN 'Tuesday' THEN 2 WHEN 'Wednesday' THEN 3
+  WHEN 'Thursday' THEN 4 WHEN 'Friday' THEN 5 WHEN 'Saturday' THEN 6 ELSE 7 END`;
+
+/**
+ * Rows in the order of the requested keys (null for missing keys)
+ */
+function byKey<K, R>(keys: readonly K[], rows: R[], keyOf: (row: R) => K): (R | null)[] {
+  const map = new Map(rows.map(row => [keyOf(row), row]));
+  return keys.map(key => map.get(key) ?? null);
+}
+
+/**
+ * Rows grouped per requested key, in the order of the keys
+ */
+function groupByKey<K, R>(keys: readonly K[], rows: R[], keyOf: (row: R) => K): R[][] {
+  const groups = new Map<K, R[]>(keys.map(key => [key, []]));
+  for (const row of rows) groups.get(keyOf(row))?.push(row);
+  return keys.map(key => groups.get(key) ?? []);
+}
+
+/**
+ * Batch function for term-scoped keys: one query per distinct term in the batch
+ */
+function byTerm<R>(
+  fetch: (ids: number[], term: string) => R[],
+  idOf: (row: R) => number
+): (keys: readonly TermKey[]) => Promise<R[][]> {
+  return async keys => {
+    const terms = new Map<string, R[][]>();
+    for (const term of new Set(keys.map(k => k.term))) {
+      const ids = keys.filter(k => k.term === term).map(k => k.id);
+      terms.set(term, groupByKey(ids, fetch(ids, term), idOf));
+    }
+    const cursor = new Map<string, number>();
+    return keys.map(key => {
+      const index = cursor.get(key.term) ?? 0;
+      cursor.set(key.term, index + 1);
+      return terms.get(key.term)![index];
+    });
+  };
+}
+
+const termCacheKey = (key: TermKey) => `${key.id}|${key.term}`;
+
+export function createLoaders(db: Database.Database) {
+  const all = <R>(sql: string, ...params: unknown[]) => db.prepare(sql).all(...params) as R[];
+  const json = (keys: readonly unknown[]) => JSON.stringify(keys);
+
+  return {
+    courseById: new DataLoader<number, CourseRow | null>(async ids => byKey(ids, all<CourseRow>(`
+      SELECT ${COURSE_COLUMNS}
+      FROM course c LEFT JOIN department d ON c.department_id = d.id
+      WHERE c.id IN (SELECT value FROM json_each(?))
+    `, json(ids)), r => r.id)),
+
+    sectionById: new DataLoader<number, SectionRow | null>(async ids => byKey(ids, all<SectionRow>(`
+      SELECT ${SECTION_COLUMNS}
+      FROM class_section cs
+      JOIN term t ON cs.term_id = t.id
+      LEFT JOIN department d ON cs.department_id = d.id
+      WHERE cs.id IN (SELECT value FROM json_each(?))
+    `, json(ids)), r => r.id)),
+
+    instructorById: new DataLoader<number, InstructorRow | null>(async ids => byKey(ids, all<InstructorRow>(`
+      SELECT i.id, i.name, d.code as department
+      FROM instructor i LEFT JOIN department d ON i.department_id = d.id
+      WHERE i.id IN (SELECT value FROM json_each(?))
+    `, json(ids)), r => r.id)),
+
+    roomById: new DataLoader<number, RoomRow | null>(async ids => byKey(ids, all<RoomRow>(`
+      SELECT id, code, building, room_number FROM room
+      WHERE id IN (SELECT value FROM json_each(?))
+    `, json(ids)), r => r.id)),
+
+    programById: new DataLoader<number, ProgramRow | null>(async ids => byKey(ids, all<ProgramRow>(`
+      SELECT id, code, name, is_honors, track, specialization, version_year, version_semester
+      FROM degree_program
+      WHERE id IN (SELECT value FROM json_each(?))
+    `, json(ids)), r => r.id)),
+
+    sectionsByCourse: new DataLoader<TermKey, SectionRow[], string>(byTerm((ids, term) => all<SectionRow>(`
+      SELECT ${SECTION_COLUMNS}
+      FROM class_section cs
+      JOIN term t ON cs.term_id = t.id
+      LEFT JOIN department d ON cs.department_id = d.id
+      WHERE cs.course_id IN (SELECT value FROM json_each(?)) AND t.code = ?
+      ORDER BY cs.section
+    `, json(ids), term), r => r.course_id), { cacheKeyFn: termCacheKey }),
+
+    sectionsByInstructor: new DataLoader<TermKey, SectionRow[], string>(byTerm((ids, term) => all<SectionRow>(`
+      SELECT ${SECTION_COLUMNS}
+      FROM class_section cs
+      JOIN term t ON cs.term_id = t.id
+      JOIN course c ON cs.course_id = c.id
+      LEFT JOIN department d ON cs.department_id = d.id
+      WHERE cs.instructor_id IN (SELECT value FROM json_each(?)) AND t.code = ?
+      ORDER BY c.course_code, cs.section
+    `, json(ids), term), r => r.instructor_id!), { cacheKeyFn: termCacheKey }),
+
+    slotsBySection: new DataLoader<number, SlotRow[]>(async ids => groupByKey(ids, all<SlotRow>(`
+      SELECT ${SLOT_COLUMNS}
+      FROM schedule_slot ss
+      WHERE ss.section_id IN (SELECT value FROM json_each(?))
+      ORDER BY ${DAY_ORDER}, ss.start_time
+    `, json(ids)), r => r.section_id)),
+
+    slotsByRoom: new DataLoader<TermKey, SlotRow[], string>(byTerm((ids, term) => all<SlotRow>(`
+      SELECT ${SLOT_COLUMNS}
+      FROM schedule_slot ss
+      JOIN class_section cs ON ss.section_id = cs.id
+      JOIN term t ON cs.term_id = t.id
+      WHERE ss.room_id IN (SELECT value FROM json_each(?)) AND t.code = ?
+      ORDER BY ${DAY_ORDER}, ss.start_time
+    `, json(ids), term), r => r.room_id!), { cacheKeyFn: termCacheKey }),
+
+    curriculumByProgram: new DataLoader<number, CurriculumCourseRow[]>(async ids => groupByKey(ids, all<CurriculumCourseRow>(`
+      SELECT id, degree_id, course_id, year, semester, prerequisites_raw, corequisites_raw, category, is_elective
+      FROM curriculum_course
+      WHERE degree_id IN (SELECT value FROM json_each(?))
+      ORDER BY year, semester, id
+    `, json(ids)), r => r.degree_id)),
+
+    curriculumByCourse: new DataLoader<number, CurriculumCourseRow[]>(async ids => groupByKey(ids, all<CurriculumCourseRow>(`
+      SELECT id, degree_id, course_id, year, semester, prerequisites_raw, corequisites_raw, category, is_elective
+      FROM curriculum_course
+      WHERE course_id IN (SELECT value FROM json_each(?))
+      ORDER BY degree_id
+    `, json(ids)), r => r.course_id)),
+
+    // Keyed by instructor name; one feedback database connection per batch
+    feedbackByInstructor: new DataLoader<string, FeedbackSummary | null>(async names => {
+      const summaries = getFeedbackSummaries([...names]);
+      return names.map(name => summaries.get(name) ?? null);
+    }),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
+
+// ============================================
+// ROOT LOOKUPS
+// ============================================
+
+function likeOrAll(search?: string | null): string {
+  return search?.trim() ? `%${search.trim()}%` : '%';
+}
+
+export function findCourseByCode(db: Database.Database, code: string): CourseRow | null {
+  return (db.prepare(`
+    SELECT ${COURSE_COLUMNS}
+    FROM course c LEFT JOIN department d ON c.department_id = d.id
+    WHERE c.course_code = ?
+  `).get(code) as CourseRow | undefined) ?? null;
+}
+
+export function findCourses(
+  db: Database.Database,
+  args: { search?: string | null; department?: string | null; limit: number }
+): CourseRow[] {
+  return db.prepare(`
+    SELECT ${COURSE_COLUMNS}
+    FROM course c LEFT JOIN department d ON c.department_id = d.id
+    WHERE (c.course_code LIKE ? OR c.title LIKE ?) ${args.department ? 'AND d.code = ?' : ''}
+    ORDER BY c.course_code
+    LIMIT ?
+  `).all(likeOrAll(args.search), likeOrAll(args.search), ...(args.department ? [args.department] : []), args.limit) as CourseRow[];
+}
+
+export function findInstructors(db: Database.Database, args: { search?: string | null; limit: number }): InstructorRow[] {
+  return db.prepare(`
+    SELECT i.id, i.name, d.code as department
+    FROM instructor i LEFT JOIN department d ON i.department_id = d.id
+    WHERE i.name LIKE ?
+    ORDER BY i.name
+    LIMIT ?
+  `).all(likeOrAll(args.search), args.limit) as InstructorRow[];
+}
+
+export function findRooms(db: Database.Database, args: { search?: string | null; building?: string | null; limit: number }): RoomRow[] {
+  return db.prepare(`
+    SELECT id, code, building, room_number FROM room
+    WHERE code LIKE ? ${args.building ? 'AND building = ?' : ''}
+    ORDER BY code
+    LIMIT ?
+  `).all(likeOrAll(args.search), ...(args.building ? [args.building] : []), args.limit) as RoomRow[];
+}
+
+export function findPrograms(db: Database.Database, args: { search?: string | null; limit: number }): ProgramRow[] {
+  return db.prepare(`
+    SELECT id, code, name, is_honors, track, specialization, version_year, version_semester
+    FROM degree_program
+    WHERE code LIKE ? OR name LIKE ?
+    ORDER BY code
+    LIMIT ?
+  `).all(likeOrAll(args.search), likeOrAll(args.search), args.limit) as ProgramRow[];
+}
+
+const NATURAL_KEYS = { instructor: 'name', room: 'code', degree_program: 'code' } as const;
+
+/**
+ * Id of an instructor, room or degree program by its natural key (exact match)
+ */
+export function findId(db: Database.Database, table: keyof typeof NATURAL_KEYS, key: string): number | null {
+  const row = db.prepare(`SELECT id FROM ${table} WHERE ${NATURAL_KEYS[table]} = ?`).get(key) as { id: number } | undefined;
+  return row?.id ?? null;
+}
@@ -0,0 +1,291 @@
+/**
+ * GraphQL Schema
+ *
+ * Mirrors the normalized tables (course, class_section, schedule_slot, instructor, room,
+ * degree_program, curriculum_course) with their relations as fields, so a front-end can
+ * fetch e.g. a course with its sections, slots, instructors and feedback in one request.
+ * Field names follow the column names. Relations resolve through the per-request loaders
+ * in loaders.ts; term-scoped relations default to the current term.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  GraphQLBoolean,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  type GraphQLFieldConfigArgumentMap,
+  type GraphQLNullableType,
+} from 'graphql';
+import type { FeedbackSummary } from '../models/Feedback.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../utils/pagination.js';
+import { resolveTerm } from '../utils/terms.js';
+import {
+  findCourseByCode,
+  findCourses,
+  findId,
+  findInstructors,
+  findPrograms,
+  findRooms,
+  type CourseRow,
+  type CurriculumCourseRow,
+  type InstructorRow,
+  type Loaders,
+  type ProgramRow,
+  type RoomRow,
+  type SectionRow,
+  type SlotRow,
+} from './loaders.js';
+
+export interface GraphQLContext {
+  db: Database.Database;
+  loaders: Loaders;
+}
+
+const nonNull = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(type);
+const listOf = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+const termArg: GraphQLFieldConfigArgumentMap = {
+  term: { type: GraphQLString, description: 'Term code, e.g. 2025-2 (default: current term)' },
+};
+
+const listArgs: GraphQLFieldConfigArgumentMap = {
+  search: { type: GraphQLString, description: 'Substring of the code or name' },
+  limit: { type: GraphQLInt, defaultValue: DEFAULT_PAGE_SIZE, description: `At most ${MAX_PAGE_SIZE}` },
+};
+
+const clampLimit = (limit: number) => Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+
+const FeedbackSummaryType = new GraphQLObjectType<FeedbackSummary, GraphQLContext>({
+  name: 'FeedbackSummary',
+  description: 'Student feedback on an instructor, from the profs scraper database',
+  fields: {
+    score: { type: GraphQLFloat, description: '0-5, share of positive comments among the most-reacted ones' },
+    comment_count: { type: nonNull(GraphQLInt) },
+    positive: { type: nonNull(GraphQLInt) },
+    negative: { type: nonNull(GraphQLInt) },
+  },
+});
+
+const CourseType: GraphQLObjectType<CourseRow, GraphQLContext> = new GraphQLObjectType<CourseRow, GraphQLContext>({
+  name: 'Course',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    course_code: { type: nonNull(GraphQLString) },
+    title: { type: nonNull(GraphQLString) },
+    units: { type: nonNull(GraphQLFloat) },
+    department: { type: GraphQLString },
+    sections: {
+      type: listOf(SectionType),
+      args: termArg,
+      resolve: (course, args, { loaders }) =>
+        loaders.sectionsByCourse.load({ id: course.id, term: resolveTerm(args.term) }),
+    },
+    curricula: {
+      type: listOf(CurriculumCourseType),
+      description: 'Degree programs whose curriculum includes this course',
+      resolve: (course, _args, { loaders }) => loaders.curriculumByCourse.load(course.id),
+    },
+  }),
+});
+
+const SectionType: GraphQLObjectType<SectionRow, GraphQLContext> = new GraphQLObjectType<SectionRow, GraphQLContext>({
+  name: 'Section',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    term: { type: nonNull(GraphQLString) },
+    section: { type: nonNull(GraphQLString) },
+    department: { type: GraphQLString },
+    max_capacity: { type: nonNull(GraphQLInt) },
+    free_slots: { type: nonNull(GraphQLInt) },
+    lang: { type: GraphQLString },
+    level: { type: GraphQLString },
+    remarks: { type: GraphQLString },
+    has_prerequisites: { type: nonNull(GraphQLBoolean) },
+    course: {
+      type: nonNull(CourseType),
+      resolve: (section, _args, { loaders }) => loaders.courseById.load(section.course_id),
+    },
+    instructor: {
+      type: InstructorType,
+      resolve: (section, _args, { loaders }) =>
+        section.instructor_id === null ? null : loaders.instructorById.load(section.instructor_id),
+    },
+    slots: {
+      type: listOf(SlotType),
+      resolve: (section, _args, { loaders }) => loaders.slotsBySection.load(section.id),
+    },
+  }),
+});
+
+const SlotType: GraphQLObjectType<SlotRow, GraphQLContext> = new GraphQLObjectType<SlotRow, GraphQLContext>({
+  name: 'Slot',
+  description: 'One weekly meeting of a section',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    day: { type: nonNull(GraphQLString) },
+    start_time: { type: nonNull(GraphQLString) },
+    end_time: { type: nonNull(GraphQLString) },
+    modality: { type: GraphQLString },
+    room: {
+      type: RoomType,
+      resolve: (slot, _args, { loaders }) => (slot.room_id === null ? null : loaders.roomById.load(slot.room_id)),
+    },
+    section: {
+      type: nonNull(SectionType),
+      resolve: (slot, _args, { loaders }) => loaders.sectionById.load(slot.section_id),
+    },
+  }),
+});
+
+const InstructorType: GraphQLObjectType<InstructorRow, GraphQLContext> = new GraphQLObjectType<InstructorRow, GraphQLContext>({
+  name: 'Instructor',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    name: { type: nonNull(GraphQLString) },
+    department: { type: GraphQLString },
+    sections: {
+      type: listOf(SectionType),
+      args: termArg,
+      resolve: (instructor, args, { loaders }) =>
+        loaders.sectionsByInstructor.load({ id: instructor.id, term: resolveTerm(args.term) }),
+    },
+    feedback: {
+      type: FeedbackSummaryType,
+      description: 'Null when there is no feedback or the feedback database is unavailable',
+      resolve: (instructor, _args, { loaders }) => loaders.feedbackByInstructor.load(instructor.name),
+    },
+  }),
+});
+
+const RoomType: GraphQLObjectType<RoomRow, GraphQLContext> = new GraphQLObjectType<RoomRow, GraphQLContext>({
+  name: 'Room',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    code: { type: nonNull(GraphQLString) },
+    building: { type: GraphQLString },
+    room_number: { type: GraphQLString },
+    slots: {
+      type: listOf(SlotType),
+      args: termArg,
+      resolve: (room, args, { loaders }) => loaders.slotsByRoom.load({ id: room.id, term: resolveTerm(args.term) }),
+    },
+  }),
+});
+
+const DegreeProgramType: GraphQLObjectType<ProgramRow, GraphQLContext> = new GraphQLObjectType<ProgramRow, GraphQLContext>({
+  name: 'DegreeProgram',
+  description: 'One version of a degree program curriculum',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    code: { type: nonNull(GraphQLString) },
+    name: { type: nonNull(GraphQLString) },
+    is_honors: { type: nonNull(GraphQLBoolean) },
+    track: { type: GraphQLString },
+    specialization: { type: GraphQLString },
+    version_year: { type: GraphQLInt },
+    version_semester: { type: GraphQLInt },
+    courses: {
+      type: listOf(CurriculumCourseType),
+      args: {
+        year: { type: GraphQLInt },
+        semester: { type: GraphQLInt, description: '0 = intersession' },
+      },
+      resolve: async (program, args, { loaders }) => {
+        const rows = await loaders.curriculumByProgram.load(program.id);
+        return rows.filter(r =>
+          (args.year == null || r.year === args.year) && (args.semester == null || r.semester === args.semester));
+      },
+    },
+  }),
+});
+
+const CurriculumCourseType: GraphQLObjectType<CurriculumCourseRow, GraphQLContext> = new GraphQLObjectType<CurriculumCourseRow, GraphQLContext>({
+  name: 'CurriculumCourse',
+  description: 'A course in a degree program curriculum',
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    year: { type: GraphQLInt },
+    semester: { type: GraphQLInt },
+    prerequisites_raw: { type: GraphQLString },
+    corequisites_raw: { type: GraphQLString },
+    category: { type: GraphQLString },
+    is_elective: { type: nonNull(GraphQLBoolean) },
+    course: {
+      type: nonNull(CourseType),
+      resolve: (entry, _args, { loaders }) => loaders.courseById.load(entry.course_id),
+    },
+    program: {
+      type: nonNull(DegreeProgramType),
+      resolve: (entry, _args, { loaders }) => loaders.programById.load(entry.degree_id),
+    },
+  }),
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: 'Query',
+  fields: {
+    course: {
+      type: CourseType,
+      args: { code: { type: nonNull(GraphQLString), description: 'Exact course code, e.g. CSCI 21' } },
+      resolve: (_root, args, { db }) => findCourseByCode(db, args.code),
+    },
+    courses: {
+      type: listOf(CourseType),
+      args: { ...listArgs, department: { type: GraphQLString, description: 'Department code, e.g. DISCS' } },
+      resolve: (_root, args, { db }) =>
+        findCourses(db, { search: args.search, department: args.department, limit: clampLimit(args.limit) }),
+    },
+    section: {
+      type: SectionType,
+      args: { id: { type: nonNull(GraphQLInt) } },
+      resolve: (_root, args, { loaders }) => loaders.sectionById.load(args.id),
+    },
+    instructor: {
+      type: InstructorType,
+      args: { name: { type: nonNull(GraphQLString), description: 'Exact name as scraped, e.g. "YAP, ROMINA"' } },
+      resolve: (_root, args, { db, loaders }) => {
+        const id = findId(db, 'instructor', args.name);
+        return id === null ? null : loaders.instructorById.load(id);
+      },
+    },
+    instructors: {
+      type: listOf(InstructorType),
+      args: listArgs,
+      resolve: (_root, args, { db }) => findInstructors(db, { search: args.search, limit: clampLimit(args.limit) }),
+    },
+    room: {
+      type: RoomType,
+      args: { code: { type: nonNull(GraphQLString), description: 'Exact room code, e.g. SEC-A201' } },
+      resolve: (_root, args, { db, loaders }) => {
+        const id = findId(db, 'room', args.code);
+        return id === null ? null : loaders.roomById.load(id);
+      },
+    },
+    rooms: {
+      type: listOf(RoomType),
+      args: { ...listArgs, building: { type: GraphQLString, description: 'Building code, e.g. SEC-A' } },
+      resolve: (_root, args, { db }) =>
+        findRooms(db, { search: args.search, building: args.building, limit: clampLimit(args.limit) }),
+    },
+    degree_program: {
+      type: DegreeProgramType,
+      args: { code: { type: nonNull(GraphQLString), description: 'Exact version code, e.g. BS CS_2024_1' } },
+      resolve: (_root, args, { db, loaders }) => {
+        const id = findId(db, 'degree_program', args.code);
+        return id === null ? null : loaders.programById.load(id);
+      },
+    },
+    degree_programs: {
+      type: listOf(DegreeProgramType),
+      args: listArgs,
+      resolve: (_root, args, { db }) => findPrograms(db, { search: args.search, limit: clampLimit(args.limit) }),
+    },
+  },
+});
+
+export const schema = new GraphQLSchema({ query: QueryType });
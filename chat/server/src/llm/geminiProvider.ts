@@ -0,0 +1,101 @@
+/**
+ * Gemini Provider
+ *
+ * Wraps @google/generative-ai chat sessions and text embeddings.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ChatSession as GeminiChat, EnhancedGenerateContentResponse, FunctionDeclaration, Part } from '@google/generative-ai';
+import type { ChatOptions, ChatSession, ChatTurn, LLMProvider, ToolResult } from './types.js';
+
+// Max context tokens for Gemini 2.0 Flash
+const GEMINI_CONTEXT_TOKENS = 1048576;
+
+function toParts(input: string | ToolResult[]): string | Part[] {
+  if (typeof input === 'string') return input;
+  return input.map(result => ({
+    functionResponse: {
+      name: result.name,
+      response: result.response as object,
+    },
+  }));
+}
+
+function toTurn(response: EnhancedGenerateContentResponse, text: string): ChatTurn {
+  const usage = response.usageMetadata;
+  return {
+    text,
+    functionCalls: (response.functionCalls() || []).map(call => ({
+      name: call.name,
+      args: (call.args || {}) as Record<string, unknown>,
+    })),
+    usage: usage
+      ? {
+          promptTokens: usage.promptTokenCount || 0,
+          responseTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || 0,
+        }
+      : undefined,
+  };
+}
+
+class GeminiSession implements ChatSession {
+  constructor(private chat: GeminiChat) {}
+
+  async send(input: string | ToolResult[]): Promise<ChatTurn> {
+    const result = await this.chat.sendMessage(toParts(input));
+    const calls = result.response.functionCalls();
+    // text() throws on a turn that only holds function calls
+    const text = calls && calls.length > 0 ? '' : result.response.text();
+    return toTurn(result.response, text);
+  }
+
+  async sendStream(input: string | ToolResult[], onToken: (text: string) => void): Promise<ChatTurn> {
+    const result = await this.chat.sendMessageStream(toParts(input));
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+    }
+    return toTurn(await result.response, text);
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly maxContextTokens = GEMINI_CONTEXT_TOKENS;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    readonly model = 'gemini-2.0-flash',
+    readonly embeddingModel = 'text-embedding-004'
+  ) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  startChat(options: ChatOptions): ChatSession {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      systemInstruction: options.systemInstruction,
+      tools: [{ functionDeclarations: options.tools as FunctionDeclaration[] }],
+      generationConfig: options.generation,
+    });
+
+    return new GeminiSession(model.startChat({
+      history: options.history.map(msg => ({
+        role: msg.role === 'assistant' ? 'model' : msg.role,
+        parts: [{ text: msg.content }],
+      })),
+    }));
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.genAI.getGenerativeModel({ model: this.embeddingModel });
+    const result = await model.embedContent(text);
+    return result.embedding.values;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * LLM Provider Registry
+ *
+ * Picks the chat/embedding backend from the environment:
+ *   LLM_PROVIDER     gemini (default) | openai | mock
+ *   LLM_MODEL        chat model (gemini-2.0-flash, or e.g. "llama3.1" for Ollama)
+ *   EMBEDDING_MODEL  embedding model (text-embedding-004, or e.g. "nomic-embed-text")
+ *   LLM_BASE_URL     OpenAI-compatible base URL (default: http://localhost:11434/v1, Ollama)
+ *   LLM_API_KEY      OpenAI-compatible API key (optional for local servers)
+ *   LLM_MOCK_SCRIPTS JSON file of mock scripts (default: data/mock_llm_scripts.json)
+ */
+
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAICompatibleProvider } from './openaiProvider.js';
+import { MockProvider, loadMockScripts } from './mockProvider.js';
+import type { ChatSession, ChatTurn, LLMProvider, ToolCall } from './types.js';
+
+export type * from './types.js';
+export { GeminiProvider, OpenAICompatibleProvider, MockProvider, loadMockScripts };
+
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider(
+        env.GEMINI_API_KEY || '',
+        env.LLM_MODEL || undefined,
+        env.EMBEDDING_MODEL || undefined
+      );
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        env.LLM_MODEL || 'llama3.1',
+        env.EMBEDDING_MODEL || 'nomic-embed-text',
+        env.LLM_API_KEY || '',
+        Number(env.LLM_CONTEXT_TOKENS) || undefined
+      );
+    case 'mock':
+      return new MockProvider(loadMockScripts(env.LLM_MOCK_SCRIPTS));
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use gemini, openai, or mock.`);
+  }
+}
+
+/**
+ * Send a message and keep answering tool calls until the model replies with text.
+ * For callers without per-call logging needs (scripts, offline prompt tests).
+ */
+export async function runToolLoop(
+  session: ChatSession,
+  message: string,
+  runTool: (call: ToolCall) => Promise<unknown>,
+  maxRounds = 10
+): Promise<{ turn: ChatTurn; toolCalls: Array<ToolCall & { result: unknown }> }> {
+  const toolCalls: Array<ToolCall & { result: unknown }> = [];
+  let turn = await session.send(message);
+
+  for (let round = 0; turn.functionCalls.length > 0 && round < maxRounds; round++) {
+    const results = [];
+    for (const call of turn.functionCalls) {
+      const result = await runTool(call);
+      toolCalls.push({ ...call, result });
+      results.push({ id: call.id, name: call.name, response: result });
+    }
+    turn = await session.send(results);
+  }
+
+  return { turn, toolCalls };
+}
@@ -0,0 +1,146 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline stand-in for an LLM. Each script matches the user message
+ * with a regex and replays a fixed sequence of tool calls, then answers with a
+ * reply template filled from the tool results.
+ *
+ * Script placeholders:
+ * - "$N" in a string arg is replaced by regex capture N ("$0" = whole match)
+ * - "#N" makes the arg a number from capture N ("2", "second" -> 2)
+ * - "{{args.X}}" in the reply is the first call's arg X, "{{results}}" one line per tool result
+ */
+
+import defaultScripts from '../data/mock_llm_scripts.json' with { type: 'json' };
+import { readFileSync } from 'fs';
+import { summarizeToolResult } from '../utils/streamEvents.js';
+import type { ChatOptions, ChatSession, ChatTurn, LLMProvider, ToolCall, ToolResult } from './types.js';
+
+export interface MockScript {
+  name: string;
+  match: string;                                          // Case-insensitive regex
+  steps: Array<Array<{ name: string; args: Record<string, unknown> }>>;
+  reply: string;
+}
+
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5 };
+
+function fillArgs(args: Record<string, unknown>, captures: RegExpMatchArray): Record<string, unknown> {
+  const filled: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value !== 'string') {
+      filled[key] = value;
+    } else if (/^#\d$/.test(value)) {
+      const capture = (captures[Number(value.slice(1))] || '').toLowerCase();
+      filled[key] = ORDINALS[capture] ?? Number(capture);
+    } else {
+      filled[key] = value.replace(/\$(\d)/g, (_, index) => (captures[Number(index)] || '').trim());
+    }
+  }
+  return filled;
+}
+
+class MockSession implements ChatSession {
+  private steps: ToolCall[][] = [];
+  private stepIndex = 0;
+  private reply = '';
+  private firstArgs: Record<string, unknown> = {};
+  private results: string[] = [];
+  private promptChars: number;
+
+  constructor(private scripts: MockScript[], private options: ChatOptions) {
+    this.promptChars = options.systemInstruction.length
+      + options.history.reduce((sum, msg) => sum + msg.content.length, 0);
+  }
+
+  private start(message: string): void {
+    const available = new Set(this.options.tools.map(t => t.name));
+    for (const script of this.scripts) {
+      const captures = message.match(new RegExp(script.match, 'i'));
+      if (!captures) continue;
+
+      // Only call tools this session was given (public chat has no personal tools)
+      this.steps = script.steps
+        .map(step => step.filter(call => available.has(call.name)).map(call => ({ name: call.name, args: fillArgs(call.args, captures) })))
+        .filter(step => step.length > 0);
+      this.firstArgs = this.steps[0]?.[0]?.args || {};
+      this.reply = script.reply;
+      return;
+    }
+
+    this.steps = [];
+    this.reply = `[mock] No script matches "${message}". Add one to data/mock_llm_scripts.json or LLM_MOCK_SCRIPTS.`;
+  }
+
+  private renderReply(): string {
+    return this.reply
+      .replace(/\{\{args\.(\w+)\}\}/g, (_, key) => String(this.firstArgs[key] ?? ''))
+      .replace('{{results}}', this.results.join('\n') || '(no tool results)');
+  }
+
+  async send(input: string | ToolResult[]): Promise<ChatTurn> {
+    if (typeof input === 'string') {
+      this.promptChars += input.length;
+      this.start(input);
+      this.stepIndex = 0;
+      this.results = [];
+    } else {
+      for (const result of input) {
+        this.results.push(`- ${result.name}: ${summarizeToolResult(result.response).summary}`);
+        this.promptChars += JSON.stringify(result.response ?? null).length;
+      }
+      this.stepIndex++;
+    }
+
+    const calls = this.steps[this.stepIndex] || [];
+    const text = calls.length > 0 ? '' : this.renderReply();
+    const promptTokens = Math.ceil(this.promptChars / 4);
+    const responseTokens = Math.ceil(text.length / 4); // ~4 chars per token, same estimate the routes use
+    return {
+      text,
+      functionCalls: calls,
+      usage: { promptTokens, responseTokens, totalTokens: promptTokens + responseTokens },
+    };
+  }
+
+  async sendStream(input: string | ToolResult[], onToken: (text: string) => void): Promise<ChatTurn> {
+    const turn = await this.send(input);
+    // Replay the reply word by word so streaming clients see several deltas
+    for (const piece of turn.text.match(/\S+\s*/g) || []) onToken(piece);
+    return turn;
+  }
+}
+
+/**
+ * Load scripts from a JSON file (LLM_MOCK_SCRIPTS), falling back to the bundled set
+ */
+export function loadMockScripts(filePath?: string): MockScript[] {
+  if (!filePath) return defaultScripts as MockScript[];
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as MockScript[];
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-scripted';
+  readonly embeddingModel = 'mock-hash';
+  readonly maxContextTokens = 1048576;
+
+  constructor(private scripts: MockScript[] = loadMockScripts()) {}
+
+  startChat(options: ChatOptions): ChatSession {
+    return new MockSession(this.scripts, options);
+  }
+
+  /**
+   * Deterministic bag-of-words embedding: texts sharing words get similar vectors
+   */
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(64).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+      let hash = 0;
+      for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+      vector[hash % vector.length] += 1;
+    }
+    return vector;
+  }
+}
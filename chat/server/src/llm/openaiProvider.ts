@@ -0,0 +1,232 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any server exposing /chat/completions and /embeddings in the OpenAI format,
+ * e.g. a local Ollama (http://localhost:11434/v1) or llama.cpp server.
+ * Tool declarations are already JSON Schema, so they are passed through as-is.
+ */
+
+import type { ChatOptions, ChatSession, ChatTurn, LLMProvider, TokenCounts, ToolCall, ToolDeclaration, ToolResult } from './types.js';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+function toUsage(usage: OpenAIUsage | undefined): TokenCounts | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    responseTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0,
+  };
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toFunctionCalls(toolCalls: OpenAIToolCall[]): ToolCall[] {
+  return toolCalls.map(call => ({
+    id: call.id,
+    name: call.function.name,
+    args: parseArguments(call.function.arguments),
+  }));
+}
+
+class OpenAISession implements ChatSession {
+  private messages: OpenAIMessage[];
+  private pendingCalls: OpenAIToolCall[] = [];
+
+  constructor(private provider: OpenAICompatibleProvider, private options: ChatOptions) {
+    this.messages = [
+      { role: 'system', content: options.systemInstruction },
+      ...options.history.map(msg => ({ role: msg.role, content: msg.content }) as OpenAIMessage),
+    ];
+  }
+
+  private append(input: string | ToolResult[]): void {
+    if (typeof input === 'string') {
+      this.messages.push({ role: 'user', content: input });
+      return;
+    }
+    // Tool results answer the calls of the previous turn by call id, so two calls to the
+    // same tool keep their own results; results without an id fall back to the tool name
+    for (const result of input) {
+      const index = result.id
+        ? this.pendingCalls.findIndex(call => call.id === result.id)
+        : this.pendingCalls.findIndex(call => call.function.name === result.name);
+      const [call] = index >= 0 ? this.pendingCalls.splice(index, 1) : [];
+      this.messages.push({
+        role: 'tool',
+        tool_call_id: call?.id || result.id || `call_${result.name}`,
+        content: JSON.stringify(result.response),
+      });
+    }
+  }
+
+  private record(text: string, toolCalls: OpenAIToolCall[]): void {
+    // Some local servers omit call ids; results are matched by id, so every call needs one
+    toolCalls.forEach((call, i) => { call.id ||= `call_${this.messages.length}_${i}`; });
+    this.messages.push({ role: 'assistant', content: text || null, tool_calls: toolCalls.length > 0 ? toolCalls : undefined });
+    this.pendingCalls = [...toolCalls];
+  }
+
+  async send(input: string | ToolResult[]): Promise<ChatTurn> {
+    this.append(input);
+    const response = await this.provider.request('/chat/completions', this.body(false));
+    const data = await response.json() as {
+      choices: Array<{ message: { content: string | null; tool_calls?: OpenAIToolCall[] } }>;
+      usage?: OpenAIUsage;
+    };
+
+    const message = data.choices[0]?.message || { content: '' };
+    const toolCalls = message.tool_calls || [];
+    this.record(message.content || '', toolCalls);
+    return { text: message.content || '', functionCalls: toFunctionCalls(toolCalls), usage: toUsage(data.usage) };
+  }
+
+  async sendStream(input: string | ToolResult[], onToken: (text: string) => void): Promise<ChatTurn> {
+    this.append(input);
+    const response = await this.provider.request('/chat/completions', this.body(true));
+    if (!response.body) throw new Error('OpenAI-compatible stream returned no body');
+
+    let text = '';
+    let usage: OpenAIUsage | undefined;
+    // Tool call fragments arrive by index; arguments are streamed as string pieces
+    const toolCalls: OpenAIToolCall[] = [];
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') continue;
+
+        let chunk: {
+          choices?: Array<{ delta?: { content?: string | null; tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }> } }>;
+          usage?: OpenAIUsage;
+        };
+        try {
+          chunk = JSON.parse(payload);
+        } catch {
+          continue; // Ignore malformed chunks
+        }
+
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          onToken(delta.content);
+        }
+        for (const fragment of delta?.tool_calls || []) {
+          const call = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    this.record(text, calls);
+    return { text, functionCalls: toFunctionCalls(calls), usage: toUsage(usage) };
+  }
+
+  private body(stream: boolean): Record<string, unknown> {
+    const { generation, tools } = this.options;
+    return {
+      model: this.provider.model,
+      messages: this.messages,
+      tools: tools.length > 0 ? tools.map(toOpenAITool) : undefined,
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      max_tokens: generation.maxOutputTokens,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined,
+    };
+  }
+}
+
+function toOpenAITool(tool: ToolDeclaration) {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters || { type: 'object', properties: {} },
+    },
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private baseUrl: string,
+    readonly model: string,
+    readonly embeddingModel: string,
+    private apiKey = '',
+    readonly maxContextTokens = 128000
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * POST JSON to the endpoint and throw on HTTP errors
+   */
+  async request(path: string, body: Record<string, unknown>): Promise<globalThis.Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.baseUrl}${path} returned ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  startChat(options: ChatOptions): ChatSession {
+    return new OpenAISession(this, options);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.request('/embeddings', { model: this.embeddingModel, input: text });
+    const data = await response.json() as { data: Array<{ embedding: number[] }> };
+    return data.data[0]?.embedding || [];
+  }
+}
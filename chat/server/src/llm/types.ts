@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-neutral shapes for chat with function calling, streaming and embeddings.
+ * Routes only talk to these; see providers in this folder for Gemini,
+ * OpenAI-compatible endpoints and the scripted mock.
+ */
+
+// Tool declaration as exported by mcp/tools (Gemini schema, which is plain JSON Schema with lowercase types)
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: object;
+}
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ToolCall {
+  id?: string;                   // Provider call id (OpenAI); Gemini answers by name
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  id?: string;                   // Id of the call this answers, copied from ToolCall
+  name: string;
+  response: unknown;
+}
+
+export interface TokenCounts {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * One model turn: either text to show, tool calls to run, or both
+ */
+export interface ChatTurn {
+  text: string;
+  functionCalls: ToolCall[];
+  usage?: TokenCounts;           // Missing when the provider does not report usage
+}
+
+export interface GenerationConfig {
+  temperature: number;
+  maxOutputTokens: number;
+  topP: number;
+  topK: number;
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  tools: ToolDeclaration[];
+  history: ChatHistoryMessage[];
+  generation: GenerationConfig;
+}
+
+/**
+ * A conversation that keeps its own history between sends.
+ * Send the user message first, then the results of every requested tool call.
+ */
+export interface ChatSession {
+  send(input: string | ToolResult[]): Promise<ChatTurn>;
+  sendStream(input: string | ToolResult[], onToken: (text: string) => void): Promise<ChatTurn>;
+}
+
+export interface LLMProvider {
+  readonly name: string;               // "gemini" | "openai" | "mock"
+  readonly model: string;
+  readonly embeddingModel: string;
+  readonly maxContextTokens: number;
+  startChat(options: ChatOptions): ChatSession;
+  embed(text: string): Promise<number[]>;
+}
@@ -0,0 +1,74 @@
+/**
+ * Gemini Schema → JSON Schema
+ *
+ * Tool definitions declare parameters in Gemini's OpenAPI subset (SchemaType, nullable,
+ * format: 'enum'). MCP clients expect plain JSON Schema, so the MCP server converts each
+ * definition once at startup.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+
+// Parameter schema as written in the tool definitions
+export interface ToolSchema {
+  type: SchemaType | string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  format?: string;
+  items?: ToolSchema;
+  properties?: Record<string, ToolSchema>;
+  required?: string[];
+}
+
+// A type alias (not an interface) so it satisfies the SDK's index-signature schema type
+export type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  enum?: string[];
+  format?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const TYPES: Record<SchemaType, string> = {
+  [SchemaType.STRING]: 'string',
+  [SchemaType.NUMBER]: 'number',
+  [SchemaType.INTEGER]: 'integer',
+  [SchemaType.BOOLEAN]: 'boolean',
+  [SchemaType.ARRAY]: 'array',
+  [SchemaType.OBJECT]: 'object',
+};
+
+/**
+ * Convert one Gemini schema (recursively) to JSON Schema
+ */
+export function toJsonSchema(schema: ToolSchema): JsonSchema {
+  // Gemini types are enum members; tools written as plain objects may use 'STRING' etc.
+  const type = TYPES[String(schema.type).toLowerCase() as SchemaType] ?? 'string';
+  const result: JsonSchema = { type: schema.nullable ? [type, 'null'] : type };
+
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  // Gemini marks enums with format: 'enum'; JSON Schema only knows the enum keyword
+  if (schema.format && schema.format !== 'enum') result.format = schema.format;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toJsonSchema(property)])
+    );
+    if (schema.required?.length) result.required = schema.required;
+  }
+
+  return result;
+}
+
+/**
+ * Input schema of a tool for MCP tools/list (always an object schema)
+ */
+export function toInputSchema(parameters?: ToolSchema): JsonSchema & { type: 'object' } {
+  if (!parameters) return { type: 'object', properties: {} };
+  const schema = toJsonSchema(parameters);
+  return { ...schema, type: 'object', properties: schema.properties ?? {} };
+}
@@ -0,0 +1,69 @@
+/**
+ * MCP Server
+ *
+ * Publishes the tool registry over the Model Context Protocol, so desktop MCP clients and
+ * other agents can call the same tools the chatbot uses. Public tools are always listed;
+ * personal tools only when the connection is authenticated (a Supabase access token).
+ * Calls go through handleFunctionCall, like Gemini function calls.
+ *
+ * Transports: stdio (server/mcp.ts) and streamable HTTP (POST /api/mcp, routes/mcp.ts).
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { handleFunctionCall, personalDefinitions, publicDefinitions, type UserContext } from './tools/index.js';
+import { toInputSchema, type ToolSchema } from './jsonSchema.js';
+
+export const MCP_SERVER_INFO = { name: 'sisia', version: '1.0.0' };
+
+const INSTRUCTIONS = 'Ateneo de Manila class schedules, courses, instructors, rooms, curricula and handbook rules, '
+  + 'scraped from AISIS. Terms are coded YYYY-S (e.g. 2025-2 = 2nd semester of SY 2025-2026); '
+  + 'tools default to the current term.';
+
+function toMcpTool(definition: { name: string; description: string; parameters?: ToolSchema }): Tool {
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: toInputSchema(definition.parameters),
+  };
+}
+
+// Converted once; the registry does not change at runtime
+const publicTools = publicDefinitions.map(toMcpTool);
+const allTools = [...publicTools, ...personalDefinitions.map(toMcpTool)];
+
+/**
+ * Create an MCP server for one connection (stdio process or HTTP request)
+ */
+export function createMcpServer(userContext?: UserContext): Server {
+  const tools = userContext ? allTools : publicTools;
+  const toolNames = new Set(tools.map(t => t.name));
+
+  const server = new Server(MCP_SERVER_INFO, {
+    capabilities: { tools: {} },
+    instructions: INSTRUCTIONS,
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+  server.setRequestHandler(CallToolRequestSchema, async request => {
+    const { name, arguments: args } = request.params;
+
+    if (!toolNames.has(name)) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+    }
+
+    const result = await handleFunctionCall(name, args ?? {}, userContext);
+    const isError = typeof result === 'object' && result !== null && 'error' in result;
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      isError,
+    };
+  });
+
+  return server;
+}
@@ -8,10 +8,14 @@
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
 import { buildSchedule } from '../../models/ClassSection.js';
+import { normalizeCourseCodes } from '../../utils/courseAliases.js';
+import { resolveProgram } from '../../utils/aliases.js';
+import { parseStoredPrerequisites, evaluatePrerequisites } from '../../utils/prerequisites.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'build_curriculum_schedule',
-  description: 'Automatically build a conflict-free schedule from a degree program curriculum. Specify program, year, and semester to get courses, then builds optimal schedule.',
+  description: 'Automatically build a conflict-free schedule from a degree program curriculum. Specify program, year, and semester to get courses, then builds optimal schedule. If passed_courses is given, courses whose prerequisites are not met are left out of the schedule.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -53,101 +57,17 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
+      },
+      passed_courses: {
+        type: SchemaType.STRING,
+        description: 'Optional comma-separated courses already passed, used to check prerequisites (e.g., "CSCI 21, MATH 31.1")'
       },
     },
     required: ['program', 'year', 'semester'],
   },
 };
 
-// Program alias expansion - maps common queries to database program codes
-const PROGRAM_ALIASES: Record<string, string[]> = {
-  // Computer Science
-  'cs': ['Computer Science', 'BSCS', 'BS CS'],
-  'compsci': ['Computer Science', 'BSCS', 'BS CS'],
-  'computer science': ['BS CS', 'BSCS'],
-  
-  // Mathematics
-  'math': ['Mathematics', 'BS Mathematics', 'BSMA'],
-  'maths': ['Mathematics', 'BS Mathematics', 'BSMA'],
-  
-  // Management Engineering
-  'me': ['Management Engineering', 'BS ME', 'BSME'],
-  'mgt eng': ['Management Engineering', 'BS ME'],
-  'management engineering': ['BS ME', 'BSME'],
-  'bs me': ['BS ME'],
-  'bs management engineering': ['BS ME'],
-  'bsme': ['BS ME'],
-  
-  // Management - regular and honors
-  'management': ['BS Management', 'BS MGT', 'BSMGT'],
-  'mgt': ['BS Management', 'BS MGT'],
-  'management honors': ['BS MGT-H', 'BACHELOR OF SCIENCE IN MANAGEMENT (HONORS PROGRAM)'],
-  'bs mgt honors': ['BS MGT-H'],
-  'bsmgt-h': ['BS MGT-H'],
-  
-  // Economics - regular and honors
-  'eco': ['Economics', 'AB Economics', 'ABEC'],
-  'econ': ['Economics', 'AB Economics', 'ABEC'],
-  'economics': ['AB Economics', 'AB EC'],
-  'economics honors': ['AB EC-H', 'BACHELOR OF ARTS IN ECONOMICS (HONORS PROGRAM)'],
-  'ab ec honors': ['AB EC-H'],
-  'eco honors': ['AB EC-H'],
-  
-  // Psychology
-  'psych': ['Psychology', 'AB Psychology', 'ABPS'],
-  'psychology': ['AB Psychology', 'AB PSY'],
-  
-  // Communication
-  'comm': ['Communication', 'AB Communication', 'ABCOMM'],
-  'comms': ['Communication', 'AB Communication'],
-  
-  // Chinese Studies - all tracks
-  'chinese studies': ['AB ChnS', 'BACHELOR OF ARTS IN CHINESE STUDIES'],
-  'chns': ['AB ChnS'],
-  'chinese studies business': ['AB ChnS-B', 'Chinese Studies Business Track'],
-  'chns-b': ['AB ChnS-B'],
-  'chinese studies humanities': ['AB ChnS-H'],
-  'chns-h': ['AB ChnS-H'],
-  'chinese studies applied chinese': ['AB ChnS-AC'],
-  'chns-ac': ['AB ChnS-AC'],
-  'chinese studies social sciences': ['AB ChnS-S'],
-  'chns-s': ['AB ChnS-S'],
-  
-  // Humanities
-  'humanities': ['AB HUM', 'AB Humanities', 'BACHELOR OF ARTS IN HUMANITIES'],
-  'hum': ['AB HUM'],
-  
-  // Information Systems
-  'mis': ['BS MIS', 'Management Information Systems'],
-  'information systems': ['BS MIS', 'BSMIS'],
-  
-  // Chemistry
-  'chem': ['BS Chemistry', 'BS CHE'],
-  'chemistry': ['BS Chemistry', 'BS CHE'],
-  'applied chemistry': ['BS MAC', 'Management of Applied Chemistry'],
-  'mac': ['BS MAC'],
-  
-  // Physics
-  'physics': ['BS Physics', 'BS PHY'],
-  'phy': ['BS Physics'],
-  
-  // Biology
-  'bio': ['BS Biology', 'BS BIO'],
-  'biology': ['BS Biology'],
-  
-  // Legal Management
-  'legal management': ['BS LM', 'BSLM'],
-  'lm': ['BS LM'],
-};
-
-function expandProgramAlias(program: string): string[] {
-  const lower = program.toLowerCase();
-  const aliases = PROGRAM_ALIASES[lower];
-  if (aliases) return [program, ...aliases];
-  return [program];
-}
-
 export function handler(args: { 
   program: string; 
   year: number; 
@@ -158,17 +78,18 @@ export function handler(args: {
   start_after?: string;
   start_before?: string;
   building_filter?: string;
-  term?: string 
+  term?: string;
+  passed_courses?: string;
 }) {
-  const term = args.term || '2025-2';
-  const programVariants = expandProgramAlias(args.program);
-  
-  // Find matching program
-  const programConditions = programVariants.map(() => 'dp.name LIKE ?').join(' OR ');
-  const programParams = programVariants.map(p => `%${p}%`);
+  const term = resolveTerm(args.term);
+
+  // Find matching program: the code an alias resolves to, else a name match
+  const [programCode] = resolveProgram(args.program);
+  const programConditions = programCode ? `dp.code LIKE ? ESCAPE '\\'` : 'dp.name LIKE ?';
+  const programParams = [programCode ? `${programCode}\\_%` : `%${args.program}%`];
   
   const curriculumCourses = db.prepare(`
-    SELECT DISTINCT c.course_code, c.title, c.units, cc.year, cc.semester, cc.category
+    SELECT DISTINCT c.course_code, c.title, c.units, cc.year, cc.semester, cc.category, cc.prerequisites_ast
     FROM curriculum_course cc
     JOIN course c ON cc.course_id = c.id
     JOIN degree_program dp ON cc.degree_id = dp.id
@@ -182,6 +103,7 @@ export function handler(args: {
     year: number;
     semester: number;
     category: string | null;
+    prerequisites_ast: string | null;
   }>;
   
   if (curriculumCourses.length === 0) {
@@ -194,8 +116,26 @@ export function handler(args: {
   // Get total units
   const totalUnits = curriculumCourses.reduce((sum, c) => sum + (c.units || 0), 0);
   
+  // Check prerequisites when the student's passed courses are known.
+  // Courses in the same curriculum term count as concurrent for co-requisites.
+  const prerequisiteChecks: Record<string, ReturnType<typeof evaluatePrerequisites>> = {};
+  const blockedCourses: string[] = [];
+  if (args.passed_courses) {
+    const passed = normalizeCourseCodes(args.passed_courses).split(',').map(c => c.trim()).filter(Boolean);
+    const concurrent = curriculumCourses.map(c => c.course_code);
+    for (const course of curriculumCourses) {
+      const tree = parseStoredPrerequisites(course.prerequisites_ast);
+      if (!tree) continue;
+      const evaluation = evaluatePrerequisites(tree, { passed, concurrent, yearLevel: args.year });
+      prerequisiteChecks[course.course_code] = evaluation;
+      if (evaluation.status === 'missing') blockedCourses.push(course.course_code);
+    }
+  }
+  
   // Check which courses are offered this term
-  const courseCodes = curriculumCourses.map(c => c.course_code);
+  const courseCodes = curriculumCourses
+    .map(c => c.course_code)
+    .filter(code => !blockedCourses.includes(code));
   const offeredCourses: string[] = [];
   const notOfferedCourses: string[] = [];
   
@@ -269,7 +209,10 @@ export function handler(args: {
       total_units: totalUnits,
       offered_this_term: [],
       not_offered: notOfferedCourses,
-      message: 'None of the curriculum courses are offered this term.',
+      blocked_by_prerequisites: blockedCourses.length > 0 ? blockedCourses : undefined,
+      message: blockedCourses.length > 0 && courseCodes.length === 0
+        ? 'All curriculum courses are blocked by unmet prerequisites.'
+        : 'None of the curriculum courses are offered this term.',
       schedule: null
     };
   }
@@ -296,11 +239,13 @@ export function handler(args: {
       code: c.course_code,
       title: c.title,
       units: c.units,
-      category: c.category
+      category: c.category,
+      prerequisite_check: prerequisiteChecks[c.course_code]
     })),
     total_units: totalUnits,
     offered_this_term: offeredCourses,
     not_offered: notOfferedCourses,
+    blocked_by_prerequisites: blockedCourses.length > 0 ? blockedCourses : undefined,
     schedule: scheduleResult.success ? scheduleResult : null,
     schedule_message: scheduleResult.message
   };
@@ -1,16 +1,20 @@
 /**
  * Build Schedule Tool
  * 
- * Builds a conflict-free schedule from multiple courses.
+ * Builds conflict-free schedules from multiple courses and ranks the options.
  */
 
 import { SchemaType } from '@google/generative-ai';
 import { buildSchedule } from '../../models/ClassSection.js';
-import { normalizeCourseCodes } from '../../utils/courseAliases.js';
+import { normalizeCourseCode, normalizeCourseCodes } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { parseWalkingTimeMode } from '../../utils/campus.js';
 
 export const definition = {
   name: 'build_schedule',
-  description: 'Build a conflict-free class schedule from multiple courses. Returns weekly grid view. Supports time constraints, day preferences, and schedule style preferences.',
+  description: `Build a conflict-free class schedule from multiple courses. Returns weekly grid view of the best option plus ranked alternatives.
+Options are scored on gaps, early starts, days on campus, building changes between back-to-back classes, walks longer than the break between them, instructor feedback, and sections about to fill. Each option has an explanation of its score.
+Supports time constraints, day preferences, schedule style preferences, locking sections the student already has, and excluding instructors.`,
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -64,9 +68,27 @@ export const definition = {
         type: SchemaType.BOOLEAN,
         description: 'Prefer compact schedule with back-to-back classes (minimize waiting time)'
       },
+      lock_sections: {
+        type: SchemaType.ARRAY,
+        items: { type: SchemaType.STRING },
+        description: 'Sections that must be in the schedule, as course code plus section (e.g., ["CSCI 111 A", "MATH 30.13 B"]). Locked courses are added if not listed.'
+      },
+      exclude_instructors: {
+        type: SchemaType.ARRAY,
+        items: { type: SchemaType.STRING },
+        description: 'Instructors to avoid (e.g., ["SANTOS", "Garcia, Maria"])'
+      },
+      walking_time: {
+        type: SchemaType.STRING,
+        description: 'Back-to-back classes whose walk between buildings is longer than the break (e.g. SEC C to Gonzaga, ~10 min): "warn" (default, listed in walking_warnings and scored lower), "reject" (treated as conflicts), or "ignore"'
+      },
+      top_n: {
+        type: SchemaType.NUMBER,
+        description: 'Number of ranked schedule options to return (default: 3, max: 10)'
+      },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['courses'],
@@ -86,11 +108,25 @@ export function handler(args: {
   building_filter?: string;
   prefer_breaks?: boolean;
   prefer_compact?: boolean;
+  lock_sections?: string[];
+  exclude_instructors?: string[];
+  walking_time?: string;
+  top_n?: number;
   term?: string 
 }) {
   // Normalize course codes to handle abbreviations like CS -> CSCI
   const normalizedCourses = normalizeCourseCodes(args.courses);
-  const courseCodes = normalizedCourses.split(',').map(c => c.trim());
+  const courseCodes = normalizedCourses.split(',').map(c => c.trim()).filter(Boolean);
+
+  // "CSCI 111 A" -> { "CSCI 111": "A" } (the section is the last word)
+  const lockedSections: Record<string, string> = {};
+  for (const entry of args.lock_sections || []) {
+    const match = entry.trim().match(/^(.+?)\s+([A-Z0-9-]+)$/i);
+    if (!match) {
+      return { success: false, error: `Could not read locked section "${entry}". Use course code plus section, e.g. "CSCI 111 A".` };
+    }
+    lockedSections[normalizeCourseCode(match[1])] = match[2].toUpperCase();
+  }
   
   return buildSchedule(
     courseCodes,
@@ -105,8 +141,12 @@ export function handler(args: {
       end_before: args.end_before,
       building_filter: args.building_filter,
       prefer_breaks: args.prefer_breaks,
-      prefer_compact: args.prefer_compact
+      prefer_compact: args.prefer_compact,
+      locked_sections: lockedSections,
+      exclude_instructors: args.exclude_instructors,
+      walking_time: parseWalkingTimeMode(args.walking_time),
+      top_n: args.top_n
     },
-    args.term || '2025-2'
+    resolveTerm(args.term)
   );
 }
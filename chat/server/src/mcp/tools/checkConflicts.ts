@@ -1,16 +1,19 @@
 /**
  * Check Conflicts Tool
  * 
- * Detects schedule conflicts between two specific sections.
+ * Detects schedule conflicts between two specific sections, including back-to-back
+ * classes whose walk between buildings is longer than the break.
  */
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
 import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { describeTransfer, parseWalkingTimeMode, transfersBetween } from '../../utils/campus.js';
 
 export const definition = {
   name: 'check_conflicts',
-  description: 'Check if two class sections have a schedule conflict. Use this when comparing sections from different courses.',
+  description: 'Check if two class sections have a schedule conflict. Use this when comparing sections from different courses. Also reports back-to-back classes whose walk between buildings is longer than the break.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -22,9 +25,13 @@ export const definition = {
         type: SchemaType.STRING, 
         description: 'Second section in format "COURSE_CODE SECTION" (e.g., "ENGL 11 B")' 
       },
+      walking_time: {
+        type: SchemaType.STRING,
+        description: 'Walk longer than the break between back-to-back classes: "warn" (default, listed in walking_warnings), "reject" (counts as a conflict), or "ignore"'
+      },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['section1', 'section2'],
@@ -35,6 +42,7 @@ interface ScheduleSlot {
   day: string;
   start_time: string;
   end_time: string;
+  room: string | null;
 }
 
 interface SectionInfo {
@@ -59,12 +67,13 @@ function parseSectionInput(input: string): { courseCode: string; section: string
 function getSectionSchedule(courseCode: string, section: string, term: string): SectionInfo | null {
   const rows = db.prepare(`
     SELECT c.course_code, cs.section, i.name as instructor,
-           ss.day, ss.start_time, ss.end_time
+           ss.day, ss.start_time, ss.end_time, r.code as room
     FROM class_section cs
     JOIN course c ON cs.course_id = c.id
     JOIN term t ON cs.term_id = t.id
     LEFT JOIN instructor i ON cs.instructor_id = i.id
     LEFT JOIN schedule_slot ss ON ss.section_id = cs.id
+    LEFT JOIN room r ON ss.room_id = r.id
     WHERE c.course_code = ? AND cs.section = ? AND t.code = ?
   `).all(courseCode, section, term) as Array<{
     course_code: string;
@@ -73,6 +82,7 @@ function getSectionSchedule(courseCode: string, section: string, term: string):
     day: string;
     start_time: string;
     end_time: string;
+    room: string | null;
   }>;
 
   if (rows.length === 0) return null;
@@ -83,7 +93,7 @@ function getSectionSchedule(courseCode: string, section: string, term: string):
     instructor: rows[0].instructor,
     schedule: rows
       .filter(r => r.day && r.start_time)
-      .map(r => ({ day: r.day, start_time: r.start_time, end_time: r.end_time }))
+      .map(r => ({ day: r.day, start_time: r.start_time, end_time: r.end_time, room: r.room }))
   };
 }
 
@@ -99,8 +109,9 @@ function checkTimeConflict(s1: ScheduleSlot, s2: ScheduleSlot): boolean {
   return start1 < end2 && start2 < end1;
 }
 
-export function handler(args: { section1: string; section2: string; term?: string }) {
-  const term = args.term || '2025-2';
+export function handler(args: { section1: string; section2: string; walking_time?: string; term?: string }) {
+  const term = resolveTerm(args.term);
+  const walkingTime = parseWalkingTimeMode(args.walking_time);
   
   // Parse section inputs
   const parsed1 = parseSectionInput(args.section1);
@@ -153,10 +164,33 @@ export function handler(args: { section1: string; section2: string; term?: strin
     }
   }
   
+  // Back-to-back meetings of the two sections with less break than the walk
+  const label1 = `${section1Info.course_code} ${section1Info.section}`;
+  const label2 = `${section2Info.course_code} ${section2Info.section}`;
+  const tightTransfers = walkingTime === 'ignore' ? [] : transfersBetween([
+    ...section1Info.schedule.map(s => ({ ...s, label: label1 })),
+    ...section2Info.schedule.map(s => ({ ...s, label: label2 })),
+  ]).filter(t => t.status === 'tight' && t.from.label !== t.to.label);
+  const walkingWarnings = tightTransfers.length > 0 ? tightTransfers.map(describeTransfer) : undefined;
+
+  if (conflicts.length === 0 && walkingTime === 'reject' && tightTransfers.length > 0) {
+    return {
+      has_conflict: true,
+      conflict_type: 'walking_time',
+      conflict_count: tightTransfers.length,
+      message: `CONFLICT DETECTED between ${label1} and ${label2}: not enough time to walk between buildings.`,
+      details: walkingWarnings!.join('; '),
+      section1: { course: section1Info.course_code, section: section1Info.section, instructor: section1Info.instructor || 'TBA' },
+      section2: { course: section2Info.course_code, section: section2Info.section, instructor: section2Info.instructor || 'TBA' }
+    };
+  }
+
   if (conflicts.length === 0) {
     return {
       has_conflict: false,
-      message: `No conflict between ${section1Info.course_code} ${section1Info.section} and ${section2Info.course_code} ${section2Info.section}.`,
+      message: `No conflict between ${section1Info.course_code} ${section1Info.section} and ${section2Info.course_code} ${section2Info.section}.`
+        + (walkingWarnings ? ' Warning: some back-to-back classes leave less break than the walk between buildings.' : ''),
+      walking_warnings: walkingWarnings,
       section1: {
         course: section1Info.course_code,
         section: section1Info.section,
@@ -6,6 +6,9 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { peopleTables } from '../../utils/people.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
 
 export const definition = {
   name: 'compare_instructors',
@@ -19,7 +22,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['course_code'],
@@ -45,15 +48,17 @@ interface InstructorComparison {
 }
 
 export async function handler(args: { course_code: string; term?: string }) {
-  const term = args.term || '2025-2';
-  const courseCode = args.course_code.toUpperCase();
+  const term = resolveTerm(args.term);
+  const courseCode = normalizeCourseCode(args.course_code);
+  const { people, links } = peopleTables(db);
   
   // Get all sections for this course with instructor info
   const sections = db.prepare(`
     SELECT 
       cs.section,
-      i.name as instructor,
-      i.id as instructor_id,
+      (SELECT GROUP_CONCAT(p.name, '|') FROM ${links} si
+       JOIN ${people} p ON si.person_id = p.id
+       WHERE si.section_id = cs.id) as instructors,
       ss.day,
       ss.start_time,
       ss.end_time,
@@ -63,15 +68,13 @@ export async function handler(args: { course_code: string; term?: string }) {
     FROM class_section cs
     JOIN course c ON cs.course_id = c.id
     JOIN term t ON cs.term_id = t.id
-    LEFT JOIN instructor i ON cs.instructor_id = i.id
     LEFT JOIN schedule_slot ss ON ss.section_id = cs.id
     LEFT JOIN room r ON ss.room_id = r.id
     WHERE c.course_code = ? AND t.code = ?
-    ORDER BY i.name, cs.section, ss.day
+    ORDER BY cs.section, ss.day
   `).all(courseCode, term) as {
     section: string;
-    instructor: string | null;
-    instructor_id: number | null;
+    instructors: string | null;
     day: string | null;
     start_time: string | null;
     end_time: string | null;
@@ -89,37 +92,39 @@ export async function handler(args: { course_code: string; term?: string }) {
     };
   }
   
-  // Group by instructor
+  // Group by instructor (a co-taught section is listed under each of its teachers)
   const instructorMap = new Map<string, InstructorComparison>();
   
   for (const row of sections) {
-    const instrName = row.instructor || 'TBA';
+    const names = row.instructors ? row.instructors.split('|') : ['TBA'];
     
-    if (!instructorMap.has(instrName)) {
-      instructorMap.set(instrName, {
-        name: instrName,
-        sections: [],
-        section_count: 0,
-        feedback_score: null,
-        feedback_count: 0,
-        sample_comments: []
-      });
-    }
-    
-    const instr = instructorMap.get(instrName)!;
-    
-    // Check if section already added
-    const existingSection = instr.sections.find(s => s.section === row.section);
-    if (!existingSection && row.section) {
-      instr.sections.push({
-        section: row.section,
-        day: row.day || 'TBA',
-        time: row.start_time && row.end_time ? `${row.start_time}-${row.end_time}` : 'TBA',
-        room: row.room || 'TBA',
-        free_slots: row.free_slots || 0,
-        max_capacity: row.max_capacity || 0
-      });
-      instr.section_count = instr.sections.length;
+    for (const instrName of names) {
+      if (!instructorMap.has(instrName)) {
+        instructorMap.set(instrName, {
+          name: instrName,
+          sections: [],
+          section_count: 0,
+          feedback_score: null,
+          feedback_count: 0,
+          sample_comments: []
+        });
+      }
+      
+      const instr = instructorMap.get(instrName)!;
+      
+      // Check if section already added
+      const existingSection = instr.sections.find(s => s.section === row.section);
+      if (!existingSection && row.section) {
+        instr.sections.push({
+          section: row.section,
+          day: row.day || 'TBA',
+          time: row.start_time && row.end_time ? `${row.start_time}-${row.end_time}` : 'TBA',
+          room: row.room || 'TBA',
+          free_slots: row.free_slots || 0,
+          max_capacity: row.max_capacity || 0
+        });
+        instr.section_count = instr.sections.length;
+      }
     }
   }
   
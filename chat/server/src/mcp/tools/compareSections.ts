@@ -7,6 +7,7 @@
 import { SchemaType } from '@google/generative-ai';
 import { compareSections } from '../../models/Course.js';
 import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'compare_sections',
@@ -24,7 +25,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['course_code'],
@@ -37,7 +38,7 @@ export function handler(args: { course_code: string; sort_by?: string; term?: st
   
   return compareSections(
     normalizedCode, 
-    args.term || '2025-2', 
+    resolveTerm(args.term), 
     args.sort_by || 'slots'
   );
 }
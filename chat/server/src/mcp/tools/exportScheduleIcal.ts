@@ -6,6 +6,8 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
 
 export const definition = {
   name: 'export_schedule_ical',
@@ -20,7 +22,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       semester_start: { 
         type: SchemaType.STRING, 
@@ -85,7 +87,7 @@ export function handler(args: {
   semester_end?: string;
   include_location?: boolean;
 }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const semesterStart = new Date(args.semester_start || '2025-01-13');
   const semesterEnd = new Date(args.semester_end || '2025-05-16');
   const includeLocation = args.include_location !== false;
@@ -94,7 +96,7 @@ export function handler(args: {
   const sectionQueries = args.sections.map(s => {
     const parts = s.trim().split(/\s+/);
     const section = parts.pop();
-    const courseCode = parts.join(' ');
+    const courseCode = normalizeCourseCode(parts.join(' '));
     return { courseCode, section };
   });
   
@@ -6,6 +6,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'find_free_rooms',
@@ -27,7 +28,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['day', 'time'],
@@ -35,7 +36,7 @@ export const definition = {
 };
 
 export function handler(args: { day: string; time: string; building?: string; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const day = args.day.charAt(0).toUpperCase() + args.day.slice(1).toLowerCase();
   const timeStr = args.time.replace(':', '');
   const timeNum = parseInt(timeStr.length === 3 ? '0' + timeStr : timeStr);
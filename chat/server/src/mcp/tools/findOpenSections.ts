@@ -6,6 +6,8 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { resolveDepartment } from '../../utils/aliases.js';
 
 export const definition = {
   name: 'find_open_sections',
@@ -43,7 +45,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       limit: { 
         type: SchemaType.NUMBER, 
@@ -65,7 +67,7 @@ export function handler(args: {
   term?: string; 
   limit?: number 
 }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const minSlots = args.min_slots || 1;
   const limit = Math.min(args.limit || 30, 50);
   
@@ -87,7 +89,8 @@ export function handler(args: {
   
   if (args.department) {
     query += ` AND (d.code LIKE ? OR c.course_code LIKE ?)`;
-    params.push(`%${args.department}%`, `${args.department}%`);
+    const department = resolveDepartment(args.department);
+    params.push(`%${department}%`, `${department}%`);
   }
   
   // Units filtering
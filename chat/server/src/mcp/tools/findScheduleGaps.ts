@@ -6,6 +6,8 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
 
 export const definition = {
   name: 'find_schedule_gaps',
@@ -28,7 +30,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       suggest_rooms: { 
         type: SchemaType.BOOLEAN, 
@@ -76,7 +78,7 @@ export function handler(args: {
   term?: string;
   suggest_rooms?: boolean;
 }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const minDuration = args.min_duration_minutes || 30;
   const suggestRooms = args.suggest_rooms !== false;
   
@@ -84,7 +86,7 @@ export function handler(args: {
   const sectionQueries = args.sections.map(s => {
     const parts = s.trim().split(/\s+/);
     const section = parts.pop();
-    const courseCode = parts.join(' ');
+    const courseCode = normalizeCourseCode(parts.join(' '));
     return { courseCode, section };
   });
   
@@ -36,11 +36,14 @@ export async function handler(
       'compare_sections - Compare sections by slots, time, or instructor',
       'build_schedule - Generate conflict-free schedules',
       'check_conflicts - Check if courses have schedule conflicts',
+      'get_route_between_classes - Walking route and time between your classes on a day',
+      'get_section_history - See how a section\'s slots, instructor, or room changed over time',
     ],
     personal_aisis: [
       'get_my_schedule - Your personal class schedule',
       'get_my_grades - Your grades and QPI',
       'get_my_ips - Your Individual Plan of Study progress',
+      'get_my_degree_audit - What you still need to graduate and how many terms are left',
       'get_my_enrolled_classes - Your enrolled classes with instructors',
       'get_my_hold_orders - Check for any holds on your account',
     ],
@@ -49,11 +52,13 @@ export async function handler(
       'get_instructor_schedule - See what an instructor teaches',
       'get_professor_feedback - Get student reviews of a professor',
       'compare_instructors - Compare instructors for a course',
+      'get_term_trends - See how often a course is offered and who usually teaches it',
     ],
     rooms_facilities: [
       'get_room_schedule - See schedule for a specific room',
       'find_free_rooms - Find available rooms at a specific time',
       'get_room_stats - Room usage statistics',
+      'get_room_utilization - Building and room utilization heatmaps, peak times, and empty rooms',
     ],
     academic_policies: [
       'get_grading_system - Ateneo grading scale and QPI calculation',
@@ -65,6 +70,7 @@ export async function handler(
       'get_curriculum - View program curriculum by year/semester',
       'get_prerequisites - Get prerequisites for a course',
       'list_programs - List available degree programs',
+      'plan_semesters - Plan remaining courses term by term until graduation',
     ],
   };
 
@@ -7,6 +7,7 @@
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
 import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'get_course_info',
@@ -20,7 +21,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term to check offering status (default: 2025-2)' 
+        description: 'Term to check offering status (default: current term)' 
       },
     },
     required: ['course_code'],
@@ -28,7 +29,7 @@ export const definition = {
 };
 
 export function handler(args: { course_code: string; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const normalizedCode = normalizeCourseCode(args.course_code);
   
   // Get course details
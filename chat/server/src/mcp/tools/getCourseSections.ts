@@ -7,6 +7,7 @@
 import { SchemaType } from '@google/generative-ai';
 import { getCourseSections, getSimilarCourseCodes } from '../../models/Course.js';
 import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'get_course_sections',
@@ -20,7 +21,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['course_code'],
@@ -33,13 +34,13 @@ export function handler(args: { course_code: string; term?: string }) {
   
   const results = getCourseSections(
     normalizedCode,
-    args.term || '2025-2'
+    resolveTerm(args.term)
   );
   
   // If no results, try to find similar course codes
   let suggestions: string[] = [];
   if (results.sections.length === 0) {
-    suggestions = getSimilarCourseCodes(normalizedCode, args.term || '2025-2');
+    suggestions = getSimilarCourseCodes(normalizedCode, resolveTerm(args.term));
   }
   
   // Add enrolled count to each section
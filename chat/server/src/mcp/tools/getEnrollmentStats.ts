@@ -6,6 +6,9 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveDepartment } from '../../utils/aliases.js';
 
 export const definition = {
   name: 'get_enrollment_stats',
@@ -23,7 +26,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       sort_by: { 
         type: SchemaType.STRING, 
@@ -64,7 +67,7 @@ export function handler(args: {
   show_open_only?: boolean;
   limit?: number;
 }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = args.limit || 30;
   const sortBy = args.sort_by || 'fill_rate';
   
@@ -88,12 +91,13 @@ export function handler(args: {
   
   if (args.course_code) {
     query += ` AND c.course_code = ?`;
-    params.push(args.course_code.toUpperCase());
+    params.push(normalizeCourseCode(args.course_code));
   }
   
   if (args.department) {
     query += ` AND (d.code = ? OR c.course_code LIKE ?)`;
-    params.push(args.department.toUpperCase(), `${args.department.toUpperCase()}%`);
+    const department = resolveDepartment(args.department);
+    params.push(department, `${department}%`);
   }
   
   const rows = db.prepare(query).all(...params) as EnrollmentRow[];
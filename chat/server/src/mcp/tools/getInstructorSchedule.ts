@@ -6,6 +6,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { getInstructorSchedule } from '../../models/Instructor.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'get_instructor_schedule',
@@ -19,7 +20,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       day: { 
         type: SchemaType.STRING, 
@@ -37,7 +38,7 @@ export const definition = {
 export function handler(args: { instructor_name: string; term?: string; day?: string; limit?: number }) {
   return getInstructorSchedule(
     args.instructor_name,
-    args.term || '2025-2',
+    resolveTerm(args.term),
     args.day,
     args.limit || 50
   );
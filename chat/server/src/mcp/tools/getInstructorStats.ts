@@ -6,6 +6,9 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { peopleTables } from '../../utils/people.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { resolveDepartment } from '../../utils/aliases.js';
 
 export const definition = {
   name: 'get_instructor_stats',
@@ -23,7 +26,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: [],
@@ -31,33 +34,36 @@ export const definition = {
 };
 
 export function handler(args: { department?: string; limit?: number; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = Math.min(args.limit || 20, 50);
+  const { people, links } = peopleTables(db);
   
   let query = `
     SELECT 
-      i.name,
+      p.name,
       COUNT(DISTINCT cs.id) as section_count,
       COUNT(DISTINCT c.id) as unique_courses,
       SUM(cs.max_capacity - cs.free_slots) as total_students,
       GROUP_CONCAT(DISTINCT c.course_code) as courses_taught
-    FROM instructor i
-    JOIN class_section cs ON cs.instructor_id = i.id
+    FROM ${people} p
+    JOIN ${links} si ON si.person_id = p.id
+    JOIN class_section cs ON si.section_id = cs.id
     JOIN course c ON cs.course_id = c.id
     JOIN term t ON cs.term_id = t.id
     LEFT JOIN department d ON cs.department_id = d.id
-    WHERE t.code = ? AND i.name NOT LIKE '%TBA%'
+    WHERE t.code = ?
   `;
   
   const params: unknown[] = [term];
   
   if (args.department) {
     query += ` AND (d.code LIKE ? OR c.course_code LIKE ?)`;
-    params.push(`%${args.department}%`, `${args.department}%`);
+    const department = resolveDepartment(args.department);
+    params.push(`%${department}%`, `${department}%`);
   }
   
   query += `
-    GROUP BY i.id 
+    GROUP BY p.id 
     ORDER BY section_count DESC 
     LIMIT ?
   `;
@@ -0,0 +1,155 @@
+/**
+ * Get My Degree Audit Tool
+ *
+ * Reconciles the authenticated user's IPS and grades with their program's
+ * curriculum: remaining requirements per category, unmet prerequisites,
+ * and an estimate of the minimum number of terms to graduate.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { scrapePersonalIPS, type IPSCourse } from '../../scrapers/personalIPS.js';
+import { scrapePersonalGrades } from '../../scrapers/personalGrades.js';
+import { getDecryptedCredentials } from '../../routes/aisis.js';
+import { getCachedData } from '../../scrapers/aisisDataCache.js';
+import { getCurriculumRequirements } from '../../models/Curriculum.js';
+import { auditDegree, type AuditGradeEntry, type AuditIPSEntry } from '../../utils/degreeAudit.js';
+
+export const definition = {
+  name: 'get_my_degree_audit',
+  description: `Run a graduation audit for the user: matches their IPS and grades against their program's curriculum (including elective slots and course-code variants).
+Returns remaining requirements per category, courses whose prerequisites are not yet met, and the estimated minimum number of regular terms left to graduate.
+Use for "what do I still need to graduate", "how many semesters left", "can I take X next sem".`,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      program: {
+        type: SchemaType.STRING,
+        description: 'Program code to audit against (default: the program on the user\'s AISIS record, e.g., "BS CS")'
+      },
+      version: {
+        type: SchemaType.STRING,
+        description: 'Curriculum version year (default: from the user\'s AISIS record)'
+      },
+      max_units_per_term: {
+        type: SchemaType.NUMBER,
+        description: 'Unit load per term for the graduation estimate (default: 21)'
+      },
+    },
+    required: [],
+  },
+};
+
+// Grade rows come from either get_my_grades (subject/grade) or the raw scraper (subject_code/final_grade)
+interface CachedGradeRow {
+  subject?: string;
+  subject_code?: string;
+  grade?: string;
+  final_grade?: string;
+  units?: number;
+}
+
+function flattenIPS(coursesByYear: Record<number, Record<number, IPSCourse[]>> | undefined): IPSCourse[] {
+  if (!coursesByYear) return [];
+  return Object.values(coursesByYear).flatMap(semesters => Object.values(semesters).flat());
+}
+
+/**
+ * Split "BS CS (Version 1, 2025)" into program "BS CS" and version "2025"
+ */
+function parseProgramLabel(label: string | undefined): { program?: string; version?: string } {
+  if (!label || label === 'Unknown Program') return {};
+  const version = label.match(/\b(20\d{2})\b/)?.[1];
+  return { program: label.replace(/\(.*\)/, '').trim(), version };
+}
+
+export async function handler(
+  args: { program?: string; version?: string; max_units_per_term?: number },
+  context: { userId: string; accessToken: string }
+) {
+  const credentials = await getDecryptedCredentials(context.userId, context.accessToken);
+
+  if (!credentials) {
+    return {
+      error: 'AISIS account not linked. Please link your account first.',
+      action_required: 'link_aisis'
+    };
+  }
+
+  try {
+    // Reuse data fetched by other personal tools when available
+    const cachedIps = getCachedData(context.userId, 'ips');
+    const cachedGrades = getCachedData(context.userId, 'grades');
+
+    const [ips, grades] = await Promise.all([
+      cachedIps && !cachedIps.error
+        ? Promise.resolve(cachedIps)
+        : scrapePersonalIPS(credentials.username, credentials.password),
+      cachedGrades && !cachedGrades.error
+        ? Promise.resolve(cachedGrades)
+        : scrapePersonalGrades(credentials.username, credentials.password),
+    ]);
+
+    const ipsCourses = flattenIPS(ips.courses_by_year);
+    const fromRecord = parseProgramLabel(ips.program);
+    const program = args.program || fromRecord.program;
+
+    if (!program) {
+      return {
+        error: 'Could not determine your degree program from AISIS.',
+        hint: 'Ask the user for their program code (e.g., "BS CS") and pass it as program.'
+      };
+    }
+
+    const curriculum = getCurriculumRequirements(program, args.version || (args.program ? undefined : fromRecord.version))
+      || getCurriculumRequirements(program);
+    if (!curriculum || curriculum.requirements.length === 0) {
+      return {
+        error: `No curriculum found for "${program}".`,
+        hint: 'Use list_programs to find the program code, then call again with program.'
+      };
+    }
+
+    const ipsEntries: AuditIPSEntry[] = ipsCourses.map(c => ({
+      course_code: c.course_code,
+      status: c.status,
+      units: c.units,
+    }));
+    const gradeEntries: AuditGradeEntry[] = ((grades.grades || []) as CachedGradeRow[])
+      .map(g => ({
+        course_code: g.subject_code || g.subject || '',
+        grade: g.final_grade || g.grade || '',
+        units: g.units,
+      }))
+      .filter(g => g.course_code && g.grade);
+
+    const audit = auditDegree(curriculum.requirements, ipsEntries, gradeEntries, {
+      yearLevel: ips.year_level,
+      maxUnitsPerTerm: args.max_units_per_term,
+    });
+
+    return {
+      program_code: curriculum.program_code,
+      program_name: curriculum.program_name,
+      curriculum_version: curriculum.version,
+      year_level: ips.year_level,
+      completed_units: audit.completed_units,
+      in_progress_units: audit.in_progress_units,
+      remaining_units: audit.remaining_units,
+      progress_percentage: audit.progress_percentage,
+      remaining_by_category: audit.categories.filter(c => c.remaining > 0),
+      completed_categories: audit.categories.filter(c => c.remaining === 0).map(c => c.category),
+      unmet_prerequisites: audit.unmet_prerequisites,
+      graduation_estimate: audit.graduation_estimate,
+      unmatched_passed_courses: audit.unmatched_passed_courses,
+      courses: audit.courses,
+      _strict_data_warning: `This audit covers exactly ${audit.courses.length} curriculum requirements. The term estimate ignores which semester courses are offered in. unmatched_passed_courses did not match a specific requirement; they may have filled an elective slot that AISIS already marks as passed. Do NOT invent requirements.`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[get_my_degree_audit] Error:', message);
+    return {
+      error: 'Failed to run degree audit.',
+      details: message
+    };
+  }
+}
@@ -6,6 +6,8 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { resolveDepartment } from '../../utils/aliases.js';
 
 export const definition = {
   name: 'get_popular_courses',
@@ -27,7 +29,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: [],
@@ -35,7 +37,7 @@ export const definition = {
 };
 
 export function handler(args: { department?: string; sort_by?: string; limit?: number; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = Math.min(args.limit || 20, 50);
   
   // Determine sort order
@@ -75,7 +77,8 @@ export function handler(args: { department?: string; sort_by?: string; limit?: n
   
   if (args.department) {
     query += ` AND (d.code LIKE ? OR c.course_code LIKE ?)`;
-    params.push(`%${args.department}%`, `${args.department}%`);
+    const department = resolveDepartment(args.department);
+    params.push(`%${department}%`, `${department}%`);
   }
   
   query += `
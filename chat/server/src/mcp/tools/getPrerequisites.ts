@@ -1,15 +1,22 @@
 /**
  * Get Prerequisites Tool
- * Returns prerequisites for a course from curriculum data
+ * Returns prerequisites for a course from curriculum data.
+ * When passed courses are given, evaluates the AND/OR prerequisite tree against them.
  */
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
-import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { normalizeCourseCode, normalizeCourseCodes } from '../../utils/courseAliases.js';
+import {
+  parseStoredPrerequisites,
+  describePrerequisites,
+  evaluatePrerequisites,
+} from '../../utils/prerequisites.js';
 
 export const definition = {
   name: 'get_prerequisites',
   description: `Get prerequisites for a course. Returns the prerequisite courses and which programs require them. Common abbreviations like CS, Math, Eng are accepted.
+Prerequisites are parsed into AND/OR expressions (e.g., "MATH 31.1 or MATH 31.2" needs only one). If the user lists courses they have passed, pass them in passed_courses to get which branch is satisfied and what is still missing.
 IMPORTANT: Only report prerequisites that exist in the results. Do not hallucinate.`,
   parameters: {
     type: SchemaType.OBJECT,
@@ -17,21 +24,33 @@ IMPORTANT: Only report prerequisites that exist in the results. Do not hallucina
       course_code: {
         type: SchemaType.STRING,
         description: 'Course code (e.g., "MATH 31.3", "CS 30", "Phil 11")'
+      },
+      passed_courses: {
+        type: SchemaType.STRING,
+        description: 'Optional comma-separated courses the student has passed (e.g., "CSCI 21, MATH 31.1")'
+      },
+      year_level: {
+        type: SchemaType.NUMBER,
+        description: 'Optional year level (1-4) for "Junior standing" style requirements'
       }
     },
     required: ['course_code']
   }
 };
 
-export function handler(args: { course_code: string }) {
+export function handler(args: { course_code: string; passed_courses?: string; year_level?: number }) {
   // Normalize course code (CS -> CSCI, Math -> MATH, etc.)
   const course_code = normalizeCourseCode(args.course_code);
+  const passedCourses = args.passed_courses
+    ? normalizeCourseCodes(args.passed_courses).split(',').map(c => c.trim()).filter(Boolean)
+    : null;
   
   const results = db.prepare(`
     SELECT 
       c.course_code,
       c.title,
       cc.prerequisites_raw,
+      cc.prerequisites_ast,
       cc.corequisites_raw,
       cc.year,
       cc.semester,
@@ -46,6 +65,7 @@ export function handler(args: { course_code: string }) {
     course_code: string;
     title: string;
     prerequisites_raw: string;
+    prerequisites_ast: string | null;
     corequisites_raw: string;
     year: number;
     semester: number;
@@ -71,13 +91,22 @@ export function handler(args: { course_code: string }) {
   return {
     course_code: results[0].course_code,
     title: results[0].title,
-    prerequisites: results.map(r => ({
-      program: r.program_name,
-      prerequisites: r.prerequisites_raw,
-      corequisites: r.corequisites_raw,
-      year: r.year,
-      semester: r.semester
-    })),
+    prerequisites: results.map(r => {
+      const tree = parseStoredPrerequisites(r.prerequisites_ast);
+      return {
+        program: r.program_name,
+        prerequisites: r.prerequisites_raw,
+        corequisites: r.corequisites_raw,
+        expression: tree ? describePrerequisites(tree) : undefined,
+        requirement_tree: tree || undefined,
+        evaluation: tree && passedCourses
+          ? evaluatePrerequisites(tree, { passed: passedCourses, yearLevel: args.year_level })
+          : undefined,
+        year: r.year,
+        semester: r.semester
+      };
+    }),
+    passed_courses: passedCourses || undefined,
     result_count: results.length
   };
 }
@@ -15,6 +15,7 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { db as sisiaDb } from './db.js';
+import { peopleTables } from '../../utils/people.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const scraperDbPath = path.resolve(__dirname, '../../../../../sisia-scraper/data/scraper.db');
@@ -226,24 +227,25 @@ export function handler(args: { professor_name: string; course_code?: string })
   // Use the most complete scraped name (longest = most specific)
   const bestScrapedName = scrapedNames.length > 0 ? scrapedNames[0].instructor_name_scraped : profName;
   
+  const { people, links } = peopleTables(sisiaDb);
   // Try to match against SISIA using the scraped name first
   let inst = sisiaDb.prepare(`
-    SELECT i.name, COUNT(DISTINCT cs.id) as sections
-    FROM instructor i
-    LEFT JOIN class_section cs ON cs.instructor_id = i.id
-    WHERE UPPER(i.name) LIKE ?
-    GROUP BY i.id ORDER BY sections DESC LIMIT 1
+    SELECT p.name, COUNT(DISTINCT si.section_id) as sections
+    FROM ${people} p
+    LEFT JOIN ${links} si ON si.person_id = p.id
+    WHERE UPPER(p.name) LIKE ?
+    GROUP BY p.id ORDER BY sections DESC LIMIT 1
   `).get(`%${bestScrapedName}%`) as { name: string; sections: number } | undefined;
   
   // Fallback: if no exact match, try with just the last name
   if (!inst && bestScrapedName.includes(',')) {
     const lastName = bestScrapedName.split(',')[0].trim();
     inst = sisiaDb.prepare(`
-      SELECT i.name, COUNT(DISTINCT cs.id) as sections
-      FROM instructor i
-      LEFT JOIN class_section cs ON cs.instructor_id = i.id
-      WHERE UPPER(i.name) LIKE ?
-      GROUP BY i.id ORDER BY sections DESC LIMIT 1
+      SELECT p.name, COUNT(DISTINCT si.section_id) as sections
+      FROM ${people} p
+      LEFT JOIN ${links} si ON si.person_id = p.id
+      WHERE UPPER(p.name) LIKE ?
+      GROUP BY p.id ORDER BY sections DESC LIMIT 1
     `).get(`%${lastName}%`) as { name: string; sections: number } | undefined;
   }
 
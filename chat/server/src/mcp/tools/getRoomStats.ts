@@ -6,6 +6,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'get_room_stats',
@@ -19,7 +20,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       sort_by: { 
         type: SchemaType.STRING, 
@@ -50,7 +51,7 @@ export function handler(args: {
   sort_by?: string;
   limit?: number 
 }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = args.limit || 20;
   const sortBy = args.sort_by || 'usage';
   
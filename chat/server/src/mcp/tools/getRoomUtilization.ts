@@ -0,0 +1,101 @@
+/**
+ * Get Room Utilization Tool
+ *
+ * Building and room utilization over the week (30-minute slots): how full each
+ * building gets, when it peaks, how full its classes are, and which rooms sit empty.
+ * Full matrices and heatmaps are served by /api/reports/rooms/utilization.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { getRoomUtilization } from '../../models/Room.js';
+import { resolveTerm } from '../../utils/terms.js';
+
+export const definition = {
+  name: 'get_room_utilization',
+  description: 'Get room utilization reports: share of the week each building and room is in use (30-minute slots, Monday-Saturday 07:00-21:00), peak occupancy, average class fill (enrolled vs max capacity), and rooms that are consistently empty. Returns links to CSV and SVG/PNG heatmap exports.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      building: {
+        type: SchemaType.STRING,
+        description: 'Only rooms in this building (e.g., "SEC", "CTC", "G" for Gonzaga)'
+      },
+      room: {
+        type: SchemaType.STRING,
+        description: 'Only this room (e.g., "SEC-A202", "Kostka 303")'
+      },
+      empty_threshold: {
+        type: SchemaType.NUMBER,
+        description: 'Rooms in use for at most this share of the week count as empty (default: 0.1)'
+      },
+      term: {
+        type: SchemaType.STRING,
+        description: 'Term code (default: current term)'
+      },
+    },
+    required: [],
+  },
+};
+
+const percent = (share: number | null) => (share === null ? null : `${Math.round(share * 100)}%`);
+
+export function handler(args: { building?: string; room?: string; empty_threshold?: number; term?: string }) {
+  const term = resolveTerm(args.term);
+  const report = getRoomUtilization({
+    term,
+    building: args.building,
+    room: args.room,
+    empty_threshold: args.empty_threshold,
+  });
+
+  if (report.rooms.length === 0) {
+    return {
+      query: { building: args.building, room: args.room, term },
+      message: `No rooms found${args.building ? ` in ${args.building}` : ''}${args.room ? ` matching ${args.room}` : ''}.`
+    };
+  }
+
+  const params = new URLSearchParams({ term });
+  if (args.building) params.set('building', args.building);
+  if (args.room) params.set('room', args.room);
+  const exportUrl = (extra: Record<string, string>) =>
+    `/api/reports/rooms/utilization?${new URLSearchParams({ ...Object.fromEntries(params), ...extra })}`;
+  const emptyParams = new URLSearchParams({ term, format: 'csv', threshold: String(report.empty_threshold) });
+  if (args.building) emptyParams.set('building', args.building);
+
+  return {
+    query: { building: args.building, room: args.room, term },
+    grid: `${report.days.length} days × ${report.slots.length} half-hour slots from ${report.slots[0]}`,
+    buildings: report.buildings.map(b => ({
+      building: b.building,
+      rooms: b.room_count,
+      utilization: percent(b.utilization),
+      hours_per_week: b.hours_per_week,
+      peak: b.peak ? `${b.peak.rooms_in_use}/${b.room_count} rooms in use, ${b.peak.day} ${b.peak.time}` : null,
+      capacity_usage: percent(b.capacity_usage),
+    })),
+    busiest_rooms: report.rooms.slice(0, 10).map(r => ({
+      room: r.room,
+      building: r.building,
+      utilization: percent(r.utilization),
+      hours_per_week: r.hours_per_week,
+      peak_enrolled: r.peak_enrolled,
+      capacity_usage: percent(r.capacity_usage),
+      top_courses: r.top_courses,
+    })),
+    empty_rooms_count: report.empty_rooms.length,
+    empty_rooms: report.empty_rooms.slice(0, 20).map(r => ({
+      room: r.room,
+      building: r.building,
+      utilization: percent(r.utilization),
+      last_used_term: r.last_used_term,
+    })),
+    exports: {
+      csv: exportUrl({ format: 'csv' }),
+      svg: exportUrl({ format: 'svg' }),
+      png: exportUrl({ format: 'png' }),
+      rooms_svg: exportUrl({ format: 'svg', scope: 'room' }),
+      empty_rooms_csv: `/api/reports/rooms/empty?${emptyParams}`,
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Get Route Between Classes Tool
+ *
+ * Walks between a student's classes on one day: which building each class is in,
+ * the route and approximate walking minutes, and whether the break is long enough.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { buildingOfRoom, describeTransfer, transfersBetween, type TimedClass } from '../../utils/campus.js';
+
+export const definition = {
+  name: 'get_route_between_classes',
+  description: 'Show the walk between a student\'s classes on a given day: building of each class, route and approximate walking minutes, and which back-to-back classes leave less break than the walk (e.g. SEC C to Gonzaga, ~10 min).',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      sections: {
+        type: SchemaType.ARRAY,
+        description: 'Sections the student takes (e.g., ["CSCI 21 A", "MATH 10 B"])',
+        items: { type: SchemaType.STRING }
+      },
+      day: {
+        type: SchemaType.STRING,
+        description: 'Day of week (e.g., "Monday", "Tue", "Th")'
+      },
+      term: {
+        type: SchemaType.STRING,
+        description: 'Term code (default: current term)'
+      },
+    },
+    required: ['sections', 'day'],
+  },
+};
+
+const DAY_ABBREVIATIONS: Record<string, string> = {
+  'M': 'Monday', 'MON': 'Monday',
+  'T': 'Tuesday', 'TUE': 'Tuesday', 'TUES': 'Tuesday',
+  'W': 'Wednesday', 'WED': 'Wednesday',
+  'TH': 'Thursday', 'THU': 'Thursday', 'THUR': 'Thursday', 'THURS': 'Thursday',
+  'F': 'Friday', 'FRI': 'Friday',
+  'S': 'Saturday', 'SAT': 'Saturday',
+};
+
+function normalizeDay(day: string): string {
+  const upper = day.trim().toUpperCase();
+  return DAY_ABBREVIATIONS[upper] || upper.charAt(0) + upper.slice(1).toLowerCase();
+}
+
+export function handler(args: { sections: string[]; day: string; term?: string }) {
+  const term = resolveTerm(args.term);
+  const day = normalizeDay(args.day);
+
+  const classes: TimedClass[] = [];
+  const notFound: string[] = [];
+  const notMeeting: string[] = [];
+
+  for (const input of args.sections) {
+    // "CSCI 21 A" -> course "CSCI 21", section "A" (the section is the last word)
+    const parts = input.trim().split(/\s+/);
+    const section = (parts.pop() || '').toUpperCase();
+    const courseCode = normalizeCourseCode(parts.join(' '));
+
+    const rows = db.prepare(`
+      SELECT c.course_code, cs.section, ss.day, ss.start_time, ss.end_time, r.code as room
+      FROM class_section cs
+      JOIN course c ON cs.course_id = c.id
+      JOIN term t ON cs.term_id = t.id
+      LEFT JOIN schedule_slot ss ON ss.section_id = cs.id
+      LEFT JOIN room r ON ss.room_id = r.id
+      WHERE c.course_code = ? AND cs.section = ? AND t.code = ?
+    `).all(courseCode, section, term) as {
+      course_code: string;
+      section: string;
+      day: string | null;
+      start_time: string | null;
+      end_time: string | null;
+      room: string | null;
+    }[];
+
+    if (rows.length === 0) {
+      notFound.push(`${courseCode} ${section}`);
+      continue;
+    }
+
+    const meetings = rows.filter(r => r.day === day && r.start_time && r.end_time);
+    if (meetings.length === 0) {
+      notMeeting.push(`${rows[0].course_code} ${rows[0].section}`);
+      continue;
+    }
+    for (const r of meetings) {
+      classes.push({
+        label: `${r.course_code} ${r.section}`,
+        day,
+        start_time: r.start_time!,
+        end_time: r.end_time!,
+        room: r.room,
+      });
+    }
+  }
+
+  if (classes.length === 0) {
+    return {
+      day,
+      term,
+      classes: [],
+      legs: [],
+      sections_not_found: notFound.length > 0 ? notFound : undefined,
+      sections_not_meeting_that_day: notMeeting.length > 0 ? notMeeting : undefined,
+      message: `None of the given sections meet on ${day} in term ${term}.`
+    };
+  }
+
+  const legs = transfersBetween(classes);
+  const tight = legs.filter(l => l.status === 'tight');
+
+  return {
+    day,
+    term,
+    classes: [...classes]
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .map(c => ({
+        section: c.label,
+        time: `${c.start_time}-${c.end_time}`,
+        room: c.room || 'TBA',
+        building: buildingOfRoom(c.room)?.name ?? null,
+      })),
+    legs,
+    tight_count: tight.length,
+    sections_not_found: notFound.length > 0 ? notFound : undefined,
+    sections_not_meeting_that_day: notMeeting.length > 0 ? notMeeting : undefined,
+    message: tight.length > 0
+      ? `${tight.length} walk(s) on ${day} take longer than the break: ${tight.map(describeTransfer).join('; ')}`
+      : `All walks on ${day} fit in the breaks between classes.`
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Get Section History Tool
+ * Returns the change timeline (slots, instructor, room, schedule, remarks)
+ * of a course or section across scrape runs
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { db } from './db.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { resolveTerm } from '../../utils/terms.js';
+
+export const definition = {
+  name: 'get_section_history',
+  description: `Get the change history of a course or section across data updates.
+Use for questions like "when did CSCI 111 A fill up", "did the instructor of MATH 10 B change", or "was this section moved to another room".
+Each change lists the field, old value, new value and when the change was detected. Changes are only known from the first tracked update onward.
+IMPORTANT: Only report changes in the results. Do not hallucinate.`,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      course_code: {
+        type: SchemaType.STRING,
+        description: 'Course code (e.g., "CSCI 111", "CS 11", "Math 10")'
+      },
+      section: {
+        type: SchemaType.STRING,
+        description: 'Optional section (e.g., "A"). Omit for every section of the course.'
+      },
+      field: {
+        type: SchemaType.STRING,
+        description: 'Optional field filter: free_slots, max_capacity, instructor, room, schedule, remarks, or status (added/removed)'
+      },
+      term: {
+        type: SchemaType.STRING,
+        description: 'Term code (default: current term)'
+      }
+    },
+    required: ['course_code']
+  }
+};
+
+// Newest changes kept per call (older ones are dropped, not the latest)
+const HISTORY_LIMIT = 300;
+
+const FIELDS = ['status', 'free_slots', 'max_capacity', 'instructor', 'room', 'schedule', 'remarks'];
+
+interface HistoryRow {
+  scrape_run_id: number | null;
+  section: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_at: string;
+}
+
+export function handler(args: { course_code: string; section?: string; field?: string; term?: string }) {
+  const course_code = normalizeCourseCode(args.course_code);
+  const term = resolveTerm(args.term);
+  const section = args.section?.trim().toUpperCase();
+  const field = args.field?.trim().toLowerCase();
+
+  if (field && !FIELDS.includes(field)) {
+    return { error: `Unknown field "${args.field}". Use one of: ${FIELDS.join(', ')}` };
+  }
+
+  const conditions = ['course_code = ?', 'term_code = ?'];
+  const params: (string | number)[] = [course_code, term];
+  if (section) {
+    conditions.push('UPPER(section) = ?');
+    params.push(section);
+  }
+  if (field) {
+    conditions.push('field = ?');
+    params.push(field);
+  }
+
+  let rows: HistoryRow[];
+  try {
+    rows = db.prepare(`
+      SELECT scrape_run_id, section, field, old_value, new_value, changed_at FROM (
+        SELECT id, scrape_run_id, section, field, old_value, new_value, changed_at
+        FROM class_section_history
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY id DESC
+        LIMIT ?
+      ) ORDER BY id ASC
+    `).all(...params, HISTORY_LIMIT + 1) as HistoryRow[];
+  } catch {
+    // Database created before history tracking was added
+    return {
+      course_code,
+      term,
+      timeline: [],
+      message: 'Section history is not available yet. It is recorded starting with the next data update.'
+    };
+  }
+
+  // One row past the limit tells whether older changes exist; it is the oldest, so drop it
+  const olderOmitted = rows.length > HISTORY_LIMIT;
+  if (olderOmitted) rows = rows.slice(1);
+
+  if (rows.length === 0) {
+    return {
+      course_code,
+      section: section || undefined,
+      term,
+      timeline: [],
+      message: `No recorded changes for ${course_code}${section ? ` ${section}` : ''} in ${term}.`
+    };
+  }
+
+  // Group changes by scrape run so each update reads as one event
+  const timeline: Array<{
+    scrape_run_id: number | null;
+    detected_at: string;
+    changes: Array<{ section: string; field: string; from: string | null; to: string | null }>;
+  }> = [];
+  for (const row of rows) {
+    let entry = timeline[timeline.length - 1];
+    if (!entry || entry.scrape_run_id !== row.scrape_run_id) {
+      entry = { scrape_run_id: row.scrape_run_id, detected_at: row.changed_at, changes: [] };
+      timeline.push(entry);
+    }
+    entry.changes.push({ section: row.section, field: row.field, from: row.old_value, to: row.new_value });
+  }
+
+  // Latest time each section ran out of slots (answers "when did it fill up")
+  const filledAt: Record<string, string> = {};
+  for (const row of rows) {
+    if (row.field === 'free_slots' && row.new_value === '0') {
+      filledAt[row.section] = row.changed_at;
+    }
+  }
+
+  return {
+    course_code,
+    section: section || undefined,
+    term,
+    timeline,
+    filled_at: Object.keys(filledAt).length > 0 ? filledAt : undefined,
+    change_count: rows.length,
+    older_changes_omitted: olderOmitted || undefined
+  };
+}
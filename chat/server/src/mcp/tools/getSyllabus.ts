@@ -8,6 +8,7 @@
 import { SchemaType } from '@google/generative-ai';
 import { scrapeEnrolledClasses, EnrolledClass } from '../../scrapers/enrolledClasses.js';
 import { getDecryptedCredentials } from '../../routes/aisis.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
 
 export const definition = {
   name: 'get_syllabus',
@@ -37,7 +38,7 @@ export async function handler(
     };
   }
 
-  const courseCode = (args.course_code || '').toUpperCase().trim();
+  const courseCode = normalizeCourseCode(args.course_code || '').toUpperCase();
   
   if (!courseCode) {
     return {
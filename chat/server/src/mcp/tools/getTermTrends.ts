@@ -0,0 +1,119 @@
+/**
+ * Get Term Trends Tool
+ *
+ * Compares a course or instructor across all scraped terms:
+ * section counts, capacity, fill rates, modality mix, and who taught it.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { getCourseTrends, getSimilarCourseCodes } from '../../models/Course.js';
+import { getInstructorTrends } from '../../models/Instructor.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { formatTermLabel, getCurrentTerm } from '../../utils/terms.js';
+
+export const definition = {
+  name: 'get_term_trends',
+  description: `Compare a course or an instructor across past terms (term-by-term section counts, total capacity, fill rate, modality mix, instructors).
+Use to predict whether a course is usually offered in a given semester (e.g., "is CSCI 111 offered in the 2nd sem?") and who is likely to teach it, or to see an instructor's teaching history.
+Provide course_code OR instructor. Only terms that were scraped are known; report "not offered" only for terms on record.`,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      course_code: {
+        type: SchemaType.STRING,
+        description: 'Course code (e.g., "CSCI 111", "CS 21", "Math 10")'
+      },
+      instructor: {
+        type: SchemaType.STRING,
+        description: 'Instructor name (e.g., "Garcia", "SANTOS, Maria")'
+      },
+      terms_back: {
+        type: SchemaType.NUMBER,
+        description: 'Only show the most recent N terms (default: 8)'
+      }
+    },
+    required: []
+  }
+};
+
+const SEMESTER_NAMES: Record<number, string> = {
+  0: 'intersession',
+  1: '1st_semester',
+  2: '2nd_semester',
+};
+
+export function handler(args: { course_code?: string; instructor?: string; terms_back?: number }) {
+  const termsBack = Math.min(Math.max(args.terms_back || 8, 1), 30);
+
+  if (args.course_code) {
+    const courseCode = normalizeCourseCode(args.course_code);
+    const trends = getCourseTrends(courseCode);
+
+    if (trends.terms.length === 0) {
+      return {
+        course: courseCode,
+        terms: [],
+        message: `No sections of ${courseCode} found in any scraped term.`,
+        suggestions: getSimilarCourseCodes(courseCode, getCurrentTerm())
+      };
+    }
+
+    // How often the course ran in each kind of semester we have data for
+    const offeredTerms = new Set(trends.terms.map(t => t.term));
+    const offeringPattern: Record<string, string> = {};
+    for (const [semester, name] of Object.entries(SEMESTER_NAMES)) {
+      const onRecord = trends.terms_on_record.filter(t => t.semester === Number(semester));
+      if (onRecord.length === 0) continue;
+      const offered = onRecord.filter(t => offeredTerms.has(t.term)).length;
+      offeringPattern[name] = `offered in ${offered} of ${onRecord.length} terms on record`;
+    }
+
+    return {
+      course: courseCode,
+      offering_pattern: offeringPattern,
+      likely_instructors: trends.instructors.slice(0, 5),
+      terms: trends.terms.slice(-termsBack).reverse().map(t => ({
+        ...t,
+        label: formatTermLabel(t.year, t.semester)
+      })),
+      total_terms_offered: trends.terms.length,
+      note: 'Fill rates of past terms reflect the last scrape of that term.'
+    };
+  }
+
+  if (args.instructor) {
+    const trends = getInstructorTrends(args.instructor);
+
+    if (trends.terms.length === 0) {
+      return {
+        instructor: args.instructor,
+        terms: [],
+        message: `No sections found for instructor "${args.instructor}" in any scraped term.`
+      };
+    }
+
+    const courseCounts: Record<string, number> = {};
+    for (const t of trends.terms) {
+      for (const course of t.courses) {
+        courseCounts[course] = (courseCounts[course] || 0) + 1;
+      }
+    }
+
+    return {
+      instructor: args.instructor,
+      matched_names: trends.matched_names,
+      usual_courses: Object.entries(courseCounts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([course, terms]) => ({ course, terms_taught: terms })),
+      terms: trends.terms.slice(-termsBack).reverse().map(t => ({
+        ...t,
+        label: formatTermLabel(t.year, t.semester)
+      })),
+      total_terms_taught: trends.terms.length,
+      note: 'Fill rates of past terms reflect the last scrape of that term.'
+    };
+  }
+
+  return { error: 'Provide either course_code or instructor.' };
+}
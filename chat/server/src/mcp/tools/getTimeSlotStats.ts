@@ -6,6 +6,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'get_time_slot_stats',
@@ -19,7 +20,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: [],
@@ -27,7 +28,7 @@ export const definition = {
 };
 
 export function handler(args: { day?: string; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   
   let dayFilter = '';
   const params: unknown[] = [term];
@@ -18,14 +18,19 @@ import * as getCurriculum from './getCurriculum.js';
 import * as buildSchedule from './buildSchedule.js';
 import * as searchByNaturalTime from './searchByNaturalTime.js';
 import * as getPrerequisites from './getPrerequisites.js';
+import * as getSectionHistory from './getSectionHistory.js';
 import * as getDataStatus from './getDataStatus.js';
+import * as listTerms from './listTerms.js';
 import * as listDepartments from './listDepartments.js';
 import * as listPrograms from './listPrograms.js';
 import * as checkConflicts from './checkConflicts.js';
+import * as getRouteBetweenClasses from './getRouteBetweenClasses.js';
 import * as findFreeRooms from './findFreeRooms.js';
+import * as getRoomUtilization from './getRoomUtilization.js';
 import * as getCourseInfo from './getCourseInfo.js';
 import * as findOpenSections from './findOpenSections.js';
 import * as buildCurriculumSchedule from './buildCurriculumSchedule.js';
+import * as planSemesters from './planSemesters.js';
 // Phase 1 data-driven tools
 import * as getPopularCourses from './getPopularCourses.js';
 import * as getInstructorStats from './getInstructorStats.js';
@@ -43,6 +48,7 @@ import * as calculateGpa from './calculateGpa.js';
 import * as exportScheduleIcal from './exportScheduleIcal.js';
 import * as findScheduleGaps from './findScheduleGaps.js';
 import * as getEnrollmentStats from './getEnrollmentStats.js';
+import * as getTermTrends from './getTermTrends.js';
 // Handbook-based tools
 import * as getGradingSystem from './getGradingSystem.js';
 import * as getQpiRequirements from './getQpiRequirements.js';
@@ -60,6 +66,7 @@ import * as getMyIPS from './getMyIPS.js';
 import * as getMyGrades from './getMyGrades.js';
 import * as getMyHoldOrders from './getMyHoldOrders.js';
 import * as getMyEnrolledClasses from './getMyEnrolledClasses.js';
+import * as getMyDegreeAudit from './getMyDegreeAudit.js';
 import * as getSyllabus from './getSyllabus.js';
 
 // Public tools (no authentication required)
@@ -74,14 +81,19 @@ const publicTools = [
   buildSchedule,
   searchByNaturalTime,
   getPrerequisites,
+  getSectionHistory,
   getDataStatus,
+  listTerms,
   listDepartments,
   listPrograms,
   checkConflicts,
+  getRouteBetweenClasses,
   findFreeRooms,
+  getRoomUtilization,
   getCourseInfo,
   findOpenSections,
   buildCurriculumSchedule,
+  planSemesters,
   // Phase 1 data-driven tools
   getPopularCourses,
   getInstructorStats,
@@ -99,6 +111,7 @@ const publicTools = [
   exportScheduleIcal,
   findScheduleGaps,
   getEnrollmentStats,
+  getTermTrends,
   // Community feedback
   getProfessorFeedback,
   // Handbook-based tools
@@ -118,6 +131,7 @@ const personalTools = [
   getMyGrades,
   getMyHoldOrders,
   getMyEnrolledClasses,
+  getMyDegreeAudit,
   getSyllabus,
 ];
 
@@ -148,7 +162,7 @@ const logColors = {
   reset: '\x1b[0m',
 };
 
-interface UserContext {
+export interface UserContext {
   userId: string;
   accessToken: string;
 }
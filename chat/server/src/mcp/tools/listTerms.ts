@@ -0,0 +1,35 @@
+/**
+ * List Terms Tool
+ * Returns the terms in the database, which one is current, and their date ranges
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { listTerms, getCurrentTerm } from '../../utils/terms.js';
+
+export const definition = {
+  name: 'list_terms',
+  description: `List the academic terms available in the database with section counts and approximate date ranges, and which term is current.
+Use this when users ask which semesters are available, what the current term is, or want data from a past/upcoming term (pass the term code to other tools).`,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      with_sections_only: {
+        type: SchemaType.BOOLEAN,
+        description: 'Only list terms that have class sections (default: true)'
+      }
+    },
+    required: []
+  }
+};
+
+export function handler(args: { with_sections_only?: boolean }) {
+  const { with_sections_only = true } = args;
+  const terms = listTerms().filter(t => !with_sections_only || t.section_count > 0);
+
+  return {
+    current_term: getCurrentTerm(),
+    terms,
+    total: terms.length,
+    note: 'Date ranges are approximate (Ateneo calendar); AISIS does not publish exact term dates.'
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Plan Semesters Tool
+ *
+ * Lays out every remaining curriculum course into future terms, respecting
+ * prerequisite order, per-term unit caps, and historical offering patterns.
+ */
+
+import { SchemaType } from '@google/generative-ai';
+import { getCurriculumRequirements } from '../../models/Curriculum.js';
+import { getOfferingPatterns } from '../../models/Course.js';
+import { normalizeCourseCode } from '../../utils/courseAliases.js';
+import { auditDegree, isElectiveSlot } from '../../utils/degreeAudit.js';
+import { parseStoredPrerequisites } from '../../utils/prerequisites.js';
+import { nextTermCode, planSemesters, planToCsv, planToMarkdown, type PlannerCourse } from '../../utils/semesterPlanner.js';
+import { getCurrentTerm } from '../../utils/terms.js';
+
+export const definition = {
+  name: 'plan_semesters',
+  description: `Plan the path to graduation: lays out every not-yet-taken curriculum course into future terms, respecting prerequisite order, a unit cap per term, and which semester each course is usually offered.
+For the logged-in user, call get_my_ips first and pass the passed and in-progress courses.
+Returns a term-by-term plan and an optional CSV or Markdown export. Use build_curriculum_schedule for a single semester's sections.`,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      program: {
+        type: SchemaType.STRING,
+        description: 'Program code or name (e.g., "BS CS", "BS ME")'
+      },
+      version: {
+        type: SchemaType.STRING,
+        description: 'Curriculum version year (e.g., "2020")'
+      },
+      passed_courses: {
+        type: SchemaType.STRING,
+        description: 'Comma-separated courses already passed or credited (e.g., "CSCI 21, MATH 31.1")'
+      },
+      in_progress_courses: {
+        type: SchemaType.STRING,
+        description: 'Comma-separated courses being taken this term (treated as passed before the plan starts)'
+      },
+      start_term: {
+        type: SchemaType.STRING,
+        description: 'First term to plan, e.g. "2026-1" (default: the term after the current term)'
+      },
+      max_units_per_term: {
+        type: SchemaType.NUMBER,
+        description: 'Unit cap per regular semester (default: 21)'
+      },
+      include_intersession: {
+        type: SchemaType.BOOLEAN,
+        description: 'Also use intersessions, capped at 6 units (default: false)'
+      },
+      year_level: {
+        type: SchemaType.NUMBER,
+        description: 'Student year level during start_term, for "Junior standing" prerequisites'
+      },
+      format: {
+        type: SchemaType.STRING,
+        description: 'Export format: "json" (default), "csv", or "markdown"'
+      },
+    },
+    required: ['program'],
+  },
+};
+
+function splitCourses(list?: string): string[] {
+  return (list || '').split(',').map(c => normalizeCourseCode(c.trim())).filter(Boolean);
+}
+
+export function handler(args: {
+  program: string;
+  version?: string;
+  passed_courses?: string;
+  in_progress_courses?: string;
+  start_term?: string;
+  max_units_per_term?: number;
+  include_intersession?: boolean;
+  year_level?: number;
+  format?: string;
+}) {
+  const curriculum = getCurriculumRequirements(args.program, args.version);
+  if (!curriculum || curriculum.requirements.length === 0) {
+    return {
+      error: `No curriculum found for "${args.program}".`,
+      hint: 'Use list_programs to find the program code.'
+    };
+  }
+
+  const format = (args.format || 'json').toLowerCase();
+  if (!['json', 'csv', 'markdown'].includes(format)) {
+    return { error: `Unknown format "${args.format}". Use json, csv, or markdown.` };
+  }
+
+  let startTerm = args.start_term?.trim() || nextTermCode(getCurrentTerm());
+  if (!args.start_term && startTerm.endsWith('-0') && !args.include_intersession) {
+    startTerm = nextTermCode(startTerm);
+  }
+  if (!/^\d{4}-[012]$/.test(startTerm)) {
+    return { error: `Invalid start_term "${args.start_term}". Use YYYY-S, e.g. "2026-1".` };
+  }
+
+  const passed = splitCourses(args.passed_courses);
+  const inProgress = splitCourses(args.in_progress_courses);
+
+  // The degree audit decides what is left, including elective slots and code variants
+  const audit = auditDegree(
+    curriculum.requirements,
+    [
+      ...passed.map(code => ({ course_code: code, status: 'passed' as const })),
+      ...inProgress.map(code => ({ course_code: code, status: 'in_progress' as const })),
+    ],
+    []
+  );
+  const remainingCodes = new Set(audit.courses.filter(c => c.status === 'remaining').map(c => c.course_code));
+  const remaining = curriculum.requirements.filter(r => remainingCodes.has(r.course_code));
+
+  if (remaining.length === 0) {
+    return {
+      program_code: curriculum.program_code,
+      message: 'All curriculum requirements are passed or in progress. Nothing left to plan.',
+      terms: []
+    };
+  }
+
+  const offerings = getOfferingPatterns(remaining.filter(r => !isElectiveSlot(r)).map(r => r.course_code));
+  const courses: PlannerCourse[] = remaining.map(r => ({
+    course_code: r.course_code,
+    title: r.title,
+    units: r.units,
+    year: r.year,
+    semester: r.semester,
+    category: audit.courses.find(c => c.course_code === r.course_code)?.category || 'Required',
+    elective: isElectiveSlot(r),
+    prerequisites: parseStoredPrerequisites(r.prerequisites_ast),
+    offerings: offerings.get(r.course_code),
+  }));
+
+  const plan = planSemesters(courses, {
+    done: [...passed, ...inProgress],
+    startTerm,
+    maxUnitsPerTerm: args.max_units_per_term,
+    includeIntersession: args.include_intersession,
+    yearLevel: args.year_level,
+  });
+
+  return {
+    program_code: curriculum.program_code,
+    program_name: curriculum.program_name,
+    curriculum_version: curriculum.version,
+    start_term: startTerm,
+    remaining_courses: remaining.length,
+    remaining_units: audit.remaining_units,
+    terms_needed: plan.terms_needed,
+    total_units: plan.total_units,
+    terms: plan.terms,
+    unplaced: plan.unplaced,
+    export: format === 'csv' ? planToCsv(plan) : format === 'markdown' ? planToMarkdown(plan) : undefined,
+    _note: 'Offering patterns come from past scraped terms and may change. Elective slots can be filled by any offered course that fits the category.'
+  };
+}
@@ -6,6 +6,8 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
+import { resolveDepartment } from '../../utils/aliases.js';
 
 export const definition = {
   name: 'search_by_modality',
@@ -27,7 +29,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
     },
     required: ['modality'],
@@ -35,7 +37,7 @@ export const definition = {
 };
 
 export function handler(args: { modality: string; department?: string; limit?: number; term?: string }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = Math.min(args.limit || 30, 50);
   
   // Normalize modality input
@@ -68,7 +70,8 @@ export function handler(args: { modality: string; department?: string; limit?: n
   
   if (args.department) {
     query += ` AND (d.code LIKE ? OR c.course_code LIKE ?)`;
-    params.push(`%${args.department}%`, `${args.department}%`);
+    const department = resolveDepartment(args.department);
+    params.push(`%${department}%`, `${department}%`);
   }
   
   query += ` GROUP BY cs.id ORDER BY c.course_code LIMIT ?`;
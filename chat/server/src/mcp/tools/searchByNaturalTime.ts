@@ -6,6 +6,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { searchByNaturalTime } from '../../models/ClassSection.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'search_by_natural_time',
@@ -23,7 +24,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       limit: { 
         type: SchemaType.NUMBER, 
@@ -38,7 +39,7 @@ export function handler(args: { query: string; course_filter?: string; term?: st
   return searchByNaturalTime(
     args.query,
     args.course_filter,
-    args.term || '2025-2',
+    resolveTerm(args.term),
     args.limit || 30
   );
 }
@@ -7,6 +7,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { searchCourses } from '../../models/Course.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'search_courses',
@@ -20,7 +21,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       limit: { 
         type: SchemaType.NUMBER, 
@@ -34,7 +35,7 @@ export const definition = {
 export function handler(args: { query: string; term?: string; limit?: number }) {
   const results = searchCourses(
     args.query,
-    args.term || '2025-2',
+    resolveTerm(args.term),
     args.limit || 20
   );
   
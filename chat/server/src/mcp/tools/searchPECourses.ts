@@ -10,6 +10,7 @@
 
 import { SchemaType } from '@google/generative-ai';
 import { db } from './db.js';
+import { resolveTerm } from '../../utils/terms.js';
 
 export const definition = {
   name: 'search_pe_courses',
@@ -27,7 +28,7 @@ export const definition = {
       },
       term: { 
         type: SchemaType.STRING, 
-        description: 'Term code (default: 2025-2)' 
+        description: 'Term code (default: current term)' 
       },
       limit: { 
         type: SchemaType.NUMBER, 
@@ -39,7 +40,7 @@ export const definition = {
 };
 
 export function handler(args: { activity_type?: string; show_current_only?: boolean; term?: string; limit?: number }) {
-  const term = args.term || '2025-2';
+  const term = resolveTerm(args.term);
   const limit = Math.min(args.limit || 30, 50);
   const showCurrentOnly = args.show_current_only || false;
   
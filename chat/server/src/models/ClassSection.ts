@@ -4,6 +4,9 @@
  */
 
 import Database from 'better-sqlite3';
+import { getCurrentTerm } from '../utils/terms.js';
+import { getFeedbackSummaries } from './Feedback.js';
+import { buildingOfRoom, describeTransfer, isTightTransfer, transfersBetween, type WalkingTimeMode } from '../utils/campus.js';
 
 let db: Database.Database;
 
@@ -15,6 +18,8 @@ interface ScheduleSlot {
   day: string;
   start_time: string;
   end_time: string;
+  room?: string | null;
+  building?: string | null;
 }
 
 interface SectionWithSchedule {
@@ -23,6 +28,67 @@ interface SectionWithSchedule {
   instructor: string | null;
   schedule: ScheduleSlot[];
   free_slots: number;
+  locked?: boolean;
+}
+
+// Penalty points per unit; a schedule's score is 100 minus penalties plus the feedback bonus
+const SCORE_WEIGHTS = {
+  gap_hour: 2,          // Per hour of waiting between classes
+  early_half_hour: 1,   // Per 30 minutes a day starts before 9:00
+  campus_day: 3,        // Per day on campus
+  building_change: 2,   // Per back-to-back class (<= 15 min apart) in another building
+  tight_transfer: 3,    // Per back-to-back class the walk from the previous building does not fit in the break
+  low_slots: 2,         // Per section with fewer than 5 free slots
+  off_preferred_day: 1, // Per meeting outside include_days
+  feedback_point: 2,    // Bonus per feedback point above 2.5 (0-5 scale)
+};
+
+export interface ScheduleScore {
+  score: number;
+  breakdown: {
+    gap_minutes: number;
+    early_start_minutes: number;
+    days_on_campus: number;
+    building_changes: number;
+    tight_transfers: number;
+    low_slot_sections: number;
+    off_preferred_days: number;
+    avg_feedback: number | null;
+  };
+  penalties: Record<string, number>;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(n => parseInt(n, 10));
+  return (h || 0) * 60 + (m || 0);
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32 seeded with a string hash)
+ */
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Feedback scores (0-5, share of positive comments) keyed by instructor name.
+ * Empty when the profs scraper database is not available.
+ */
+function loadFeedbackScores(instructors: string[]): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const [name, summary] of getFeedbackSummaries(instructors)) {
+    if (summary.score !== null) scores.set(name, summary.score);
+  }
+  return scores;
 }
 
 /**
@@ -32,7 +98,7 @@ interface SectionWithSchedule {
 export function searchByNaturalTime(
   query: string,
   course_filter?: string,
-  term: string = '2025-2',
+  term: string = getCurrentTerm(),
   limit: number = 30
 ): { 
   interpretation: string; 
@@ -120,8 +186,126 @@ export function searchByNaturalTime(
   };
 }
 
+export interface SectionListFilters {
+  term?: string;            // Default: current term
+  department?: string;      // Department offering the section
+  course?: string;          // Exact course code
+  instructor?: string;      // Name substring
+  modality?: string;        // Meets at least once in this mode (ONSITE, ONLINE, HYBRID)
+  day?: string;             // Meets on this day ("Monday")
+  starts_after?: string;    // HH:MM, every meeting starts at or after this time
+  ends_before?: string;     // HH:MM, every meeting ends at or before this time
+  has_free_slots?: boolean;
+  after?: number;           // Keyset cursor: id of the last section of the previous page
+}
+
+export interface SectionListing {
+  id: number;
+  term: string;
+  course_code: string;
+  title: string;
+  units: number;
+  section: string;
+  instructor: string | null;
+  department: string | null;
+  max_capacity: number;
+  free_slots: number;
+  lang: string | null;
+  level: string | null;
+  remarks: string | null;
+  has_prerequisites: boolean;
+  schedule: Array<{ day: string; start_time: string; end_time: string; room: string | null; modality: string | null }>;
+}
+
 /**
- * Build conflict-free schedule from multiple courses
+ * Page through sections with field filters, in id order (stable across pages)
+ */
+export function listSections(filters: SectionListFilters = {}, limit: number = 50): SectionListing[] {
+  const conditions = ['t.code = ?'];
+  const params: unknown[] = [filters.term || getCurrentTerm()];
+
+  if (filters.department) {
+    conditions.push('d.code = ?');
+    params.push(filters.department.toUpperCase());
+  }
+  if (filters.course) {
+    conditions.push('c.course_code = ?');
+    params.push(filters.course);
+  }
+  if (filters.instructor) {
+    conditions.push('UPPER(i.name) LIKE ?');
+    params.push(`%${filters.instructor.toUpperCase()}%`);
+  }
+  if (filters.modality) {
+    conditions.push('EXISTS (SELECT 1 FROM schedule_slot ss WHERE ss.section_id = cs.id AND ss.modality = ?)');
+    params.push(filters.modality.toUpperCase());
+  }
+  if (filters.day) {
+    conditions.push('EXISTS (SELECT 1 FROM schedule_slot ss WHERE ss.section_id = cs.id AND ss.day = ?)');
+    params.push(filters.day);
+  }
+  if (filters.starts_after || filters.ends_before) {
+    // Sections without meetings (TBA) never fall inside a time range
+    conditions.push('EXISTS (SELECT 1 FROM schedule_slot ss WHERE ss.section_id = cs.id)');
+    if (filters.starts_after) {
+      conditions.push('NOT EXISTS (SELECT 1 FROM schedule_slot ss WHERE ss.section_id = cs.id AND ss.start_time < ?)');
+      params.push(filters.starts_after);
+    }
+    if (filters.ends_before) {
+      conditions.push('NOT EXISTS (SELECT 1 FROM schedule_slot ss WHERE ss.section_id = cs.id AND ss.end_time > ?)');
+      params.push(filters.ends_before);
+    }
+  }
+  if (filters.has_free_slots !== undefined) {
+    conditions.push(filters.has_free_slots ? 'cs.free_slots > 0' : 'cs.free_slots <= 0');
+  }
+  if (filters.after !== undefined) {
+    conditions.push('cs.id > ?');
+    params.push(filters.after);
+  }
+
+  const rows = db.prepare(`
+    SELECT cs.id, t.code as term, c.course_code, c.title, c.units, cs.section,
+           i.name as instructor, d.code as department, cs.max_capacity, cs.free_slots,
+           cs.lang, cs.level, cs.remarks, cs.has_prerequisites
+    FROM class_section cs
+    JOIN course c ON cs.course_id = c.id
+    JOIN term t ON cs.term_id = t.id
+    LEFT JOIN instructor i ON cs.instructor_id = i.id
+    LEFT JOIN department d ON cs.department_id = d.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY cs.id
+    LIMIT ?
+  `).all(...params, limit) as Array<Omit<SectionListing, 'has_prerequisites' | 'schedule'> & { has_prerequisites: number }>;
+
+  if (rows.length === 0) return [];
+
+  const slots = db.prepare(`
+    SELECT ss.section_id, ss.day, ss.start_time, ss.end_time, r.code as room, ss.modality
+    FROM schedule_slot ss
+    LEFT JOIN room r ON ss.room_id = r.id
+    WHERE ss.section_id IN (${rows.map(() => '?').join(', ')})
+    ORDER BY ss.section_id, ss.start_time
+  `).all(...rows.map(r => r.id)) as Array<SectionListing['schedule'][number] & { section_id: number }>;
+
+  const slotsBySection = new Map<number, SectionListing['schedule']>();
+  for (const { section_id, ...slot } of slots) {
+    const list = slotsBySection.get(section_id) || [];
+    list.push(slot);
+    slotsBySection.set(section_id, list);
+  }
+
+  return rows.map(r => ({
+    ...r,
+    has_prerequisites: Boolean(r.has_prerequisites),
+    schedule: slotsBySection.get(r.id) || [],
+  }));
+}
+
+/**
+ * Build conflict-free schedules from multiple courses
+ * Enumerates valid combinations and ranks them by score (see SCORE_WEIGHTS);
+ * the best one fills `schedule`, the top N distinct ones go to `alternatives`
  */
 export function buildSchedule(
   courseCodes: string[],
@@ -138,24 +322,50 @@ export function buildSchedule(
     building_filter?: string;      // e.g., "SEC", "CTC", "G"
     prefer_breaks?: boolean;       // Prefer spaced out schedule
     prefer_compact?: boolean;      // Prefer back-to-back classes
+    locked_sections?: Record<string, string>;  // Course code -> section that must be used
+    exclude_instructors?: string[];            // Skip sections taught by these instructors
+    top_n?: number;                            // Number of ranked alternatives to return
+    walking_time?: WalkingTimeMode;            // Walks longer than the break: warn (default), reject, ignore
   },
-  term: string = '2025-2'
+  term: string = getCurrentTerm()
 ): {
   success: boolean;
   schedule: Array<{ course_code: string; section: string; instructor: string; slots: ScheduleSlot[] }>;
   weekly_grid: { columns: string[]; rows: string[]; data: Record<string, Record<string, string>> };
   total_hours: number;
+  score?: number;
+  explanation?: string[];
+  alternatives?: Array<{
+    rank: number;
+    score: number;
+    schedule: Array<{ course_code: string; section: string; instructor: string; slots: ScheduleSlot[] }>;
+    explanation: string[];
+    breakdown: ScheduleScore['breakdown'];
+  }>;
+  candidates_considered?: number;
+  walking_warnings?: string[];
   message: string;
 } {
   // OPTIMIZATION 1: Timeout mechanism to prevent infinite hangs
   const startTime = Date.now();
   const TIMEOUT_MS = 5000; // 5 second timeout
+  const MAX_EXHAUSTIVE = 5000; // Search spaces up to this size are enumerated and scored in full
+  const SAMPLES = 300;         // Otherwise: random conflict-free combinations drawn across all sections
+  const REFINED = 10;          // Best samples improved by swapping one section at a time
   
+  // Locked courses are part of the schedule even if not listed
+  const lockedSections = preferences.locked_sections || {};
+  const requestedCodes = [...new Set([...courseCodes, ...Object.keys(lockedSections)])];
+
   // OPTIMIZATION 2: Sort courses by section count (Most Constrained Variable first)
-  const sortedCourseCodes = [...courseCodes];
+  const sortedCourseCodes = [...requestedCodes];
   const sectionCounts = new Map<string, number>();
   
   for (const code of sortedCourseCodes) {
+    if (lockedSections[code]) {
+      sectionCounts.set(code, 1);
+      continue;
+    }
     const count = db.prepare(`
       SELECT COUNT(DISTINCT cs.id) as cnt
       FROM class_section cs
@@ -172,22 +382,28 @@ export function buildSchedule(
   // Get all sections for each course
   const courseSections = new Map<string, SectionWithSchedule[]>();
 
+  const excludedInstructors = (preferences.exclude_instructors || [])
+    .map(name => name.toUpperCase().split(/[\s,]+/).filter(p => p.length > 1))
+    .filter(parts => parts.length > 0);
+
   for (const code of sortedCourseCodes) {
     // OPTIMIZATION 3: Filter out full sections (free_slots > 0) in SQL
+    // A locked section is used even when full (the student may already hold a slot)
+    const lockedSection = lockedSections[code];
     const rows = db.prepare(`
       SELECT cs.section, i.name as instructor, cs.free_slots,
-             ss.day, ss.start_time, ss.end_time, r.code as room
+             ss.day, ss.start_time, ss.end_time, r.code as room, r.building
       FROM class_section cs
       JOIN course c ON cs.course_id = c.id
       JOIN term t ON cs.term_id = t.id
       LEFT JOIN instructor i ON cs.instructor_id = i.id
       LEFT JOIN schedule_slot ss ON ss.section_id = cs.id
       LEFT JOIN room r ON ss.room_id = r.id
-      WHERE c.course_code = ? AND t.code = ? AND cs.free_slots > 0
+      WHERE c.course_code = ? AND t.code = ? AND ${lockedSection ? 'UPPER(cs.section) = UPPER(?)' : 'cs.free_slots > 0'}
       ORDER BY cs.free_slots DESC, cs.section
-    `).all(code, term) as Array<{
+    `).all(code, term, ...(lockedSection ? [lockedSection] : [])) as Array<{
       section: string; instructor: string | null; free_slots: number;
-      day: string; start_time: string; end_time: string; room: string | null;
+      day: string; start_time: string; end_time: string; room: string | null; building: string | null;
     }>;
 
     // Group by section
@@ -199,18 +415,27 @@ export function buildSchedule(
           section: row.section,
           instructor: row.instructor,
           schedule: [],
-          free_slots: row.free_slots
+          free_slots: row.free_slots,
+          locked: Boolean(lockedSection)
         });
       }
       if (row.day && row.start_time) {
         sectionMap.get(row.section)!.schedule.push({
           day: row.day,
           start_time: row.start_time,
-          end_time: row.end_time
+          end_time: row.end_time,
+          room: row.room,
+          building: row.building
         });
       }
     }
 
+    // Locked sections skip every filter below
+    if (lockedSection) {
+      courseSections.set(code, Array.from(sectionMap.values()));
+      continue;
+    }
+
     // Build list of excluded days
     const excludedDays: string[] = preferences.exclude_days ? [...preferences.exclude_days] : [];
     if (preferences.no_saturday) excludedDays.push('Saturday');
@@ -248,6 +473,11 @@ export function buildSchedule(
       if (excludedDays.length > 0) {
         if (!sec.schedule.every(s => !excludedDays.includes(s.day))) return false;
       }
+      // Instructor blacklist (all name parts must match, e.g. "SANTOS" or "SANTOS, MARIA")
+      if (excludedInstructors.length > 0 && sec.instructor) {
+        const instructor = sec.instructor.toUpperCase();
+        if (excludedInstructors.some(parts => parts.every(p => instructor.includes(p)))) return false;
+      }
       // Include days preference (prefer but don't require)
       // This is handled in scoring, not filtering
       return true;
@@ -257,6 +487,8 @@ export function buildSchedule(
   }
 
   // Check for conflicts using backtracking
+  // walking_time: 'reject' also treats a walk longer than the break as a conflict
+  const walkingTime = preferences.walking_time || 'warn';
   function hasConflict(schedule1: ScheduleSlot[], schedule2: ScheduleSlot[]): boolean {
     for (const s1 of schedule1) {
       for (const s2 of schedule2) {
@@ -266,207 +498,357 @@ export function buildSchedule(
           const start2 = parseInt(s2.start_time.replace(':', ''));
           const end2 = parseInt(s2.end_time.replace(':', ''));
           if (start1 < end2 && start2 < end1) return true;
+          if (walkingTime === 'reject' && isTightTransfer(s1, s2)) return true;
         }
       }
     }
     return false;
   }
 
-  // OPTIMIZATION: Forward Checking - prune remaining courses after each selection
-  // This detects dead ends BEFORE exploring them, dramatically reducing search space
-  function findValidCombinationWithForwardChecking(
+  // Back-to-back classes whose walk does not fit in the break
+  function tightTransfers(schedule: SectionWithSchedule[]) {
+    if (walkingTime === 'ignore') return [];
+    return transfersBetween(schedule.flatMap(sec => sec.schedule.map(slot => ({
+      label: `${sec.course_code} ${sec.section}`,
+      day: slot.day,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      room: slot.room || null
+    })))).filter(t => t.status === 'tight');
+  }
+
+  // Forward Checking: sections of later courses that still fit next to `section`,
+  // or null when one of them has none left (a dead end, detected before exploring it)
+  function pruneFuture(
     courseIndex: number,
-    currentSchedule: SectionWithSchedule[],
+    section: SectionWithSchedule,
     remainingSections: Map<string, SectionWithSchedule[]>
-  ): SectionWithSchedule[] | null {
-    // Check timeout
-    if (Date.now() - startTime > TIMEOUT_MS) return null;
-    
-    if (courseIndex >= sortedCourseCodes.length) return currentSchedule;
+  ): Map<string, SectionWithSchedule[]> | null {
+    const prunedRemaining = new Map<string, SectionWithSchedule[]>();
+    for (let i = courseIndex + 1; i < sortedCourseCodes.length; i++) {
+      const futureCode = sortedCourseCodes[i];
+      const validFutureSections = (remainingSections.get(futureCode) || []).filter(fs =>
+        !hasConflict(fs.schedule, section.schedule)
+      );
+      if (validFutureSections.length === 0) return null;
+      prunedRemaining.set(futureCode, validFutureSections);
+    }
+    return prunedRemaining;
+  }
+
+  function initialRemaining(): Map<string, SectionWithSchedule[]> {
+    const remaining = new Map<string, SectionWithSchedule[]>();
+    for (const code of sortedCourseCodes) {
+      remaining.set(code, courseSections.get(code) || []);
+    }
+    return remaining;
+  }
+
+  // Enumerate every valid combination (small search spaces only)
+  function findAllValidCombinationsFC(
+    courseIndex: number,
+    currentSchedule: SectionWithSchedule[],
+    remainingSections: Map<string, SectionWithSchedule[]>,
+    results: SectionWithSchedule[][],
+    maxResults: number
+  ): void {
+    if (Date.now() - startTime > TIMEOUT_MS) return;
+    if (results.length >= maxResults) return;
+    if (courseIndex >= sortedCourseCodes.length) {
+      results.push([...currentSchedule]);
+      return;
+    }
 
     const code = sortedCourseCodes[courseIndex];
-    const sections = remainingSections.get(code) || [];
-
-    for (const section of sections) {
-      if (Date.now() - startTime > TIMEOUT_MS) return null;
-      
-      const hasAnyConflict = currentSchedule.some(s => hasConflict(s.schedule, section.schedule));
-      if (!hasAnyConflict) {
-        // FORWARD CHECKING: Prune remaining courses' sections that conflict with this choice
-        const prunedRemaining = new Map<string, SectionWithSchedule[]>();
-        let hasFeasibleFuture = true;
-        
-        for (let i = courseIndex + 1; i < sortedCourseCodes.length; i++) {
-          const futureCode = sortedCourseCodes[i];
-          const futureSections = remainingSections.get(futureCode) || [];
-          const validFutureSections = futureSections.filter(fs => 
-            !hasConflict(fs.schedule, section.schedule)
-          );
-          
-          if (validFutureSections.length === 0) {
-            // Dead end detected - no valid sections left for a future course
-            hasFeasibleFuture = false;
-            break;
+    for (const section of remainingSections.get(code) || []) {
+      if (results.length >= maxResults) return;
+      const pruned = pruneFuture(courseIndex, section, remainingSections);
+      if (pruned) {
+        findAllValidCombinationsFC(courseIndex + 1, [...currentSchedule, section], pruned, results, maxResults);
+      }
+    }
+  }
+
+  // Draw one valid combination, picking each course's section at random among those
+  // that still fit (sections passed over are retried before giving up on the draw)
+  function sampleCombination(random: () => number): SectionWithSchedule[] | null {
+    const schedule: SectionWithSchedule[] = [];
+    let remaining = initialRemaining();
+
+    for (let i = 0; i < sortedCourseCodes.length; i++) {
+      const options = [...(remaining.get(sortedCourseCodes[i]) || [])];
+      let next: Map<string, SectionWithSchedule[]> | null = null;
+      while (options.length > 0 && !next) {
+        const [section] = options.splice(Math.floor(random() * options.length), 1);
+        next = pruneFuture(i, section, remaining);
+        if (next) schedule.push(section);
+      }
+      if (!next) return null;
+      remaining = next;
+    }
+    return schedule;
+  }
+
+  // Hill-climb from a schedule: swap one unlocked course's section for a better-scoring
+  // one until no swap helps. Every valid neighbour visited becomes a candidate.
+  function refine(schedule: SectionWithSchedule[], addCandidate: (s: SectionWithSchedule[]) => ScheduleScore): void {
+    let current = schedule;
+    let currentScore = addCandidate(current).score;
+    let improved = true;
+
+    while (improved && Date.now() - startTime <= TIMEOUT_MS) {
+      improved = false;
+      for (let i = 0; i < current.length; i++) {
+        if (current[i].locked) continue;
+        const others = current.filter((_, j) => j !== i);
+        for (const alt of courseSections.get(current[i].course_code) || []) {
+          if (alt === current[i] || others.some(o => hasConflict(o.schedule, alt.schedule))) continue;
+          const neighbour = current.map((s, j) => (j === i ? alt : s));
+          const score = addCandidate(neighbour).score;
+          if (score > currentScore) {
+            current = neighbour;
+            currentScore = score;
+            improved = true;
           }
-          prunedRemaining.set(futureCode, validFutureSections);
         }
-        
-        if (hasFeasibleFuture) {
-          const result = findValidCombinationWithForwardChecking(
-            courseIndex + 1, 
-            [...currentSchedule, section],
-            prunedRemaining
-          );
-          if (result) return result;
-        }
-        // If not feasible, skip this section (pruned by forward checking)
       }
     }
-    return null;
   }
-  
-  // Wrapper using forward checking
-  function findValidCombination(
-    courseIndex: number,
-    currentSchedule: SectionWithSchedule[]
-  ): SectionWithSchedule[] | null {
-    // Build initial remaining sections map
-    const initialRemaining = new Map<string, SectionWithSchedule[]>();
-    for (const code of sortedCourseCodes) {
-      initialRemaining.set(code, courseSections.get(code) || []);
+
+  // Candidate combinations for ranking: all of them when the search space is small,
+  // otherwise samples spread over every course's sections plus their local improvements
+  function findCandidates(): Array<{ schedule: SectionWithSchedule[]; scored: ScheduleScore }> {
+    const candidates = new Map<string, { schedule: SectionWithSchedule[]; scored: ScheduleScore }>();
+    const addCandidate = (schedule: SectionWithSchedule[]): ScheduleScore => {
+      const key = schedule.map(s => `${s.course_code}|${s.section}`).join(';');
+      let entry = candidates.get(key);
+      if (!entry) {
+        entry = { schedule, scored: scoreSchedule(schedule) };
+        candidates.set(key, entry);
+      }
+      return entry.scored;
+    };
+
+    const searchSpace = sortedCourseCodes.reduce((n, code) => n * Math.max(1, (courseSections.get(code) || []).length), 1);
+    if (searchSpace <= MAX_EXHAUSTIVE) {
+      const all: SectionWithSchedule[][] = [];
+      findAllValidCombinationsFC(0, [], initialRemaining(), all, MAX_EXHAUSTIVE);
+      all.forEach(addCandidate);
+      return [...candidates.values()];
     }
-    return findValidCombinationWithForwardChecking(courseIndex, currentSchedule, initialRemaining);
+
+    // Seeded by the request, so asking twice gives the same options
+    const random = seededRandom(`${term}|${sortedCourseCodes.join(',')}|${JSON.stringify(lockedSections)}`);
+    for (let i = 0; i < SAMPLES && Date.now() - startTime <= TIMEOUT_MS; i++) {
+      const sample = sampleCombination(random);
+      if (sample) addCandidate(sample);
+    }
+
+    const seeds = [...candidates.values()]
+      .sort((a, b) => b.scored.score - a.scored.score)
+      .slice(0, REFINED);
+    for (const seed of seeds) {
+      refine(seed.schedule, addCandidate);
+    }
+    return [...candidates.values()];
   }
 
-  // Calculate schedule "gap score" - total minutes between classes on same day
-  function calculateGapScore(schedule: SectionWithSchedule[]): number {
-    let totalGap = 0;
-    const slotsByDay: Record<string, Array<{start: number; end: number}>> = {};
-    
+  // Score a schedule: gaps, early starts, days on campus, building changes,
+  // sections about to fill, preferred days, and instructor feedback
+  function scoreSchedule(schedule: SectionWithSchedule[]): ScheduleScore {
+    const slotsByDay: Record<string, Array<{ start: number; end: number; building: string | null }>> = {};
+    let offPreferredDays = 0;
+
     for (const sec of schedule) {
       for (const slot of sec.schedule) {
         if (!slotsByDay[slot.day]) slotsByDay[slot.day] = [];
         slotsByDay[slot.day].push({
-          start: parseInt(slot.start_time.replace(':', '')),
-          end: parseInt(slot.end_time.replace(':', ''))
+          start: toMinutes(slot.start_time),
+          end: toMinutes(slot.end_time),
+          building: buildingOfRoom(slot.room)?.code || slot.building || null
         });
+        if (includeDays.length > 0 && !includeDays.includes(slot.day)) offPreferredDays++;
       }
     }
-    
+
+    let gapMinutes = 0;
+    let earlyMinutes = 0;
+    let buildingChanges = 0;
+    let backToBack = 0;
     for (const day of Object.keys(slotsByDay)) {
       const daySlots = slotsByDay[day].sort((a, b) => a.start - b.start);
+      earlyMinutes += Math.max(0, 9 * 60 - daySlots[0].start);
       for (let i = 1; i < daySlots.length; i++) {
-        const gap = daySlots[i].start - daySlots[i-1].end;
-        if (gap > 0) totalGap += gap;
+        const gap = daySlots[i].start - daySlots[i - 1].end;
+        if (gap > 0) gapMinutes += gap;
+        if (gap <= 15) {
+          backToBack++;
+          const from = daySlots[i - 1].building;
+          const to = daySlots[i].building;
+          if (from && to && from !== to) buildingChanges++;
+        }
       }
     }
-    return totalGap;
-  }
 
-  // Find multiple valid combinations with Forward Checking (for prefer_breaks/prefer_compact)
-  function findAllValidCombinationsFC(
-    courseIndex: number,
-    currentSchedule: SectionWithSchedule[],
-    remainingSections: Map<string, SectionWithSchedule[]>,
-    results: SectionWithSchedule[][],
-    maxResults: number = 10
-  ): void {
-    if (Date.now() - startTime > TIMEOUT_MS) return;
-    if (results.length >= maxResults) return;
-    if (courseIndex >= sortedCourseCodes.length) {
-      results.push([...currentSchedule]);
-      return;
+    const tightTransferCount = tightTransfers(schedule).length;
+    const lowSlotSections = schedule.filter(s => !s.locked && s.free_slots < 5).length;
+    const feedback = schedule
+      .map(s => (s.instructor ? feedbackScores.get(s.instructor) : undefined))
+      .filter((f): f is number => f !== undefined);
+    const avgFeedback = feedback.length > 0
+      ? Math.round((feedback.reduce((a, b) => a + b, 0) / feedback.length) * 10) / 10
+      : null;
+
+    const penalties: Record<string, number> = {};
+    // prefer_breaks: back-to-back classes cost instead of gaps; prefer_compact: gaps cost double
+    if (preferences.prefer_breaks) {
+      penalties.back_to_back = backToBack * SCORE_WEIGHTS.gap_hour;
+    } else {
+      const weight = preferences.prefer_compact ? SCORE_WEIGHTS.gap_hour * 2 : SCORE_WEIGHTS.gap_hour;
+      penalties.gaps = Math.round((gapMinutes / 60) * weight * 10) / 10;
     }
+    penalties.early_starts = Math.round((earlyMinutes / 30) * SCORE_WEIGHTS.early_half_hour * 10) / 10;
+    penalties.days_on_campus = Object.keys(slotsByDay).length * SCORE_WEIGHTS.campus_day;
+    penalties.building_changes = buildingChanges * SCORE_WEIGHTS.building_change;
+    penalties.tight_transfers = tightTransferCount * SCORE_WEIGHTS.tight_transfer;
+    penalties.low_slots = lowSlotSections * SCORE_WEIGHTS.low_slots;
+    penalties.off_preferred_days = offPreferredDays * SCORE_WEIGHTS.off_preferred_day;
 
-    const code = sortedCourseCodes[courseIndex];
-    const sections = remainingSections.get(code) || [];
+    const bonus = avgFeedback !== null ? (avgFeedback - 2.5) * SCORE_WEIGHTS.feedback_point : 0;
+    const total = Object.values(penalties).reduce((a, b) => a + b, 0);
 
-    for (const section of sections) {
-      if (results.length >= maxResults) return;
-      if (Date.now() - startTime > TIMEOUT_MS) return;
-      
-      const hasAnyConflict = currentSchedule.some(s => hasConflict(s.schedule, section.schedule));
-      if (!hasAnyConflict) {
-        // Forward Checking: prune future courses
-        const prunedRemaining = new Map<string, SectionWithSchedule[]>();
-        let hasFeasibleFuture = true;
-        
-        for (let i = courseIndex + 1; i < sortedCourseCodes.length; i++) {
-          const futureCode = sortedCourseCodes[i];
-          const futureSections = remainingSections.get(futureCode) || [];
-          const validFutureSections = futureSections.filter(fs => 
-            !hasConflict(fs.schedule, section.schedule)
-          );
-          if (validFutureSections.length === 0) {
-            hasFeasibleFuture = false;
-            break;
-          }
-          prunedRemaining.set(futureCode, validFutureSections);
-        }
-        
-        if (hasFeasibleFuture) {
-          findAllValidCombinationsFC(
-            courseIndex + 1, 
-            [...currentSchedule, section], 
-            prunedRemaining,
-            results, 
-            maxResults
-          );
-        }
+    return {
+      score: Math.round((100 - total + bonus) * 10) / 10,
+      breakdown: {
+        gap_minutes: gapMinutes,
+        early_start_minutes: earlyMinutes,
+        days_on_campus: Object.keys(slotsByDay).length,
+        building_changes: buildingChanges,
+        tight_transfers: tightTransferCount,
+        low_slot_sections: lowSlotSections,
+        off_preferred_days: offPreferredDays,
+        avg_feedback: avgFeedback
+      },
+      penalties
+    };
+  }
+
+  // Human-readable reasons for a schedule's score (compared against the top pick)
+  function explainSchedule(scored: ScheduleScore, best: ScheduleScore | null): string[] {
+    const b = scored.breakdown;
+    const reasons: string[] = [];
+
+    reasons.push(`${b.days_on_campus} day(s) on campus`);
+    reasons.push(b.gap_minutes > 0
+      ? `${Math.round(b.gap_minutes / 6) / 10} hour(s) of gaps between classes`
+      : 'no gaps between classes');
+    if (b.early_start_minutes > 0) reasons.push(`${b.early_start_minutes} minute(s) of classes before 9:00 across the week`);
+    if (b.building_changes > 0) reasons.push(`${b.building_changes} back-to-back class(es) in a different building`);
+    if (b.tight_transfers > 0) reasons.push(`${b.tight_transfers} back-to-back class(es) with less break than the walk between buildings`);
+    if (b.low_slot_sections > 0) reasons.push(`${b.low_slot_sections} section(s) with fewer than 5 free slots`);
+    if (b.off_preferred_days > 0) reasons.push(`${b.off_preferred_days} meeting(s) outside preferred days`);
+    if (b.avg_feedback !== null) reasons.push(`average instructor feedback ${b.avg_feedback}/5`);
+
+    if (best && best !== scored) {
+      // Largest penalty differences explain why this option ranks lower
+      const deltas = Object.entries(scored.penalties)
+        .map(([key, value]) => ({ key, diff: value - (best.penalties[key] || 0) }))
+        .filter(d => d.diff > 0)
+        .sort((x, y) => y.diff - x.diff)
+        .slice(0, 2);
+      for (const d of deltas) {
+        reasons.push(`ranks lower on ${d.key.replace(/_/g, ' ')} (-${Math.round(d.diff * 10) / 10} vs #1)`);
+      }
+      if (best.breakdown.avg_feedback !== null && b.avg_feedback !== null && b.avg_feedback > best.breakdown.avg_feedback) {
+        reasons.push(`better instructor feedback than #1 (${b.avg_feedback} vs ${best.breakdown.avg_feedback})`);
       }
     }
+    return reasons;
   }
-  
-  // Wrapper for findAllValidCombinations
-  function findAllValidCombinations(results: SectionWithSchedule[][], maxResults: number = 10): void {
-    const initialRemaining = new Map<string, SectionWithSchedule[]>();
-    for (const code of sortedCourseCodes) {
-      initialRemaining.set(code, courseSections.get(code) || []);
-    }
-    findAllValidCombinationsFC(0, [], initialRemaining, results, maxResults);
+
+  function toScheduleOutput(schedule: SectionWithSchedule[]) {
+    return schedule.map(s => ({
+      course_code: s.course_code,
+      section: s.section,
+      instructor: s.instructor || 'TBA',
+      slots: s.schedule,
+      ...(s.locked ? { locked: true } : {})
+    }));
   }
 
-  // Choose best schedule based on preferences
-  let result: SectionWithSchedule[] | null = null;
-  
-  if (preferences.prefer_breaks || preferences.prefer_compact) {
-    // Find multiple valid schedules and score them
-    const allResults: SectionWithSchedule[][] = [];
-    findAllValidCombinations(allResults, 20);
-    
-    if (allResults.length > 0) {
-      // Score each schedule
-      const scored = allResults.map(sched => ({
-        schedule: sched,
-        gapScore: calculateGapScore(sched)
-      }));
-      
-      // Sort based on preference
-      if (preferences.prefer_breaks) {
-        // Higher gap score = more breaks = better
-        scored.sort((a, b) => b.gapScore - a.gapScore);
-      } else if (preferences.prefer_compact) {
-        // Lower gap score = fewer breaks = better
-        scored.sort((a, b) => a.gapScore - b.gapScore);
+  // Locked sections must exist and must not clash with each other
+  const lockedCodes = Object.keys(lockedSections);
+  for (const code of lockedCodes) {
+    if ((courseSections.get(code) || []).length === 0) {
+      return {
+        success: false,
+        schedule: [],
+        weekly_grid: { columns: [], rows: [], data: {} },
+        total_hours: 0,
+        message: `Locked section ${code} ${lockedSections[code]} was not found in ${term}.`
+      };
+    }
+  }
+  for (let i = 0; i < lockedCodes.length; i++) {
+    for (let j = i + 1; j < lockedCodes.length; j++) {
+      const a = courseSections.get(lockedCodes[i])![0];
+      const b = courseSections.get(lockedCodes[j])![0];
+      if (hasConflict(a.schedule, b.schedule)) {
+        return {
+          success: false,
+          schedule: [],
+          weekly_grid: { columns: [], rows: [], data: {} },
+          total_hours: 0,
+          message: `Locked sections ${a.course_code} ${a.section} and ${b.course_code} ${b.section} conflict with each other.`
+        };
       }
-      
-      result = scored[0].schedule;
     }
-  } else {
-    // Just find first valid combination
-    result = findValidCombination(0, []);
   }
 
-  if (!result) {
+  // Feedback is part of every score, so load it before searching
+  const instructors = new Set<string>();
+  for (const sections of courseSections.values()) {
+    for (const sec of sections) if (sec.instructor) instructors.add(sec.instructor);
+  }
+  const feedbackScores = loadFeedbackScores(Array.from(instructors));
+
+  // Find candidates, then rank them by score
+  const includeDays = preferences.include_days || [];
+  const ranked = findCandidates().sort((a, b) => b.scored.score - a.scored.score);
+
+  if (ranked.length === 0) {
     return {
       success: false,
       schedule: [],
       weekly_grid: { columns: [], rows: [], data: {} },
       total_hours: 0,
-      message: 'No conflict-free schedule found with the given preferences.'
+      message: (lockedCodes.length > 0
+        ? `No conflict-free schedule found around the locked section(s): ${lockedCodes.map(c => `${c} ${lockedSections[c]}`).join(', ')}.`
+        : 'No conflict-free schedule found with the given preferences.')
+        + (walkingTime === 'reject' ? ' Back-to-back classes without time to walk between buildings count as conflicts (walking_time: reject).' : '')
     };
   }
 
+  // Keep distinct options: skip candidates that differ from a kept one by a single section
+  const topN = Math.min(Math.max(preferences.top_n || 3, 1), 10);
+  const picked: typeof ranked = [];
+  for (const candidate of ranked) {
+    if (picked.length >= topN) break;
+    const isNearDuplicate = picked.some(p =>
+      p.schedule.filter((s, i) => s.section !== candidate.schedule[i].section).length < Math.min(2, sortedCourseCodes.length)
+    );
+    if (!isNearDuplicate) picked.push(candidate);
+  }
+  // Fall back to the next best candidates when too few distinct options exist
+  for (const candidate of ranked) {
+    if (picked.length >= topN) break;
+    if (!picked.includes(candidate)) picked.push(candidate);
+  }
+  picked.sort((a, b) => b.scored.score - a.scored.score);
+
+  const best = picked[0];
+  const result = best.schedule;
+
   // Build weekly grid
   const columns = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   const timeSlots = new Set<string>();
@@ -482,17 +864,24 @@ export function buildSchedule(
   }
 
   const rows = Array.from(timeSlots).sort();
+  const walkingWarnings = tightTransfers(result).map(describeTransfer);
 
   return {
     success: true,
-    schedule: result.map(s => ({
-      course_code: s.course_code,
-      section: s.section,
-      instructor: s.instructor || 'TBA',
-      slots: s.schedule
-    })),
+    schedule: toScheduleOutput(result),
     weekly_grid: { columns, rows, data: gridData },
     total_hours: result.reduce((sum, s) => sum + s.schedule.length * 1.5, 0),
-    message: `Found valid schedule for ${courseCodes.length} courses.`
+    score: best.scored.score,
+    explanation: explainSchedule(best.scored, null),
+    alternatives: picked.map((p, i) => ({
+      rank: i + 1,
+      score: p.scored.score,
+      schedule: toScheduleOutput(p.schedule),
+      explanation: explainSchedule(p.scored, best.scored),
+      breakdown: p.scored.breakdown
+    })),
+    candidates_considered: ranked.length,
+    walking_warnings: walkingWarnings.length > 0 ? walkingWarnings : undefined,
+    message: `Found ${picked.length} ranked schedule option(s) for ${sortedCourseCodes.length} courses (out of ${ranked.length} valid combinations checked).`
   };
 }
@@ -4,6 +4,8 @@
  */
 
 import Database from 'better-sqlite3';
+import { getCurrentTerm } from '../utils/terms.js';
+import { peopleTables } from '../utils/people.js';
 
 let db: Database.Database;
 
@@ -34,7 +36,7 @@ export interface SectionResult {
  */
 export function searchCourses(
   query: string,
-  term: string = '2025-2',
+  term: string = getCurrentTerm(),
   limit: number = 20
 ): { courses: CourseResult[]; total: number } {
   // Normalize course code (CSCI111 → CSCI 111)
@@ -57,12 +59,68 @@ export function searchCourses(
   return { courses: rows, total: rows.length };
 }
 
+export interface CourseListFilters {
+  term?: string;          // Term whose sections are counted (default: current)
+  department?: string;
+  q?: string;             // Code or title substring
+  after?: string;         // Keyset cursor: course_code of the last row of the previous page
+}
+
+/**
+ * Page through the course catalog in course_code order
+ */
+export function listCourses(filters: CourseListFilters = {}, limit: number = 50): CourseResult[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [filters.term || getCurrentTerm()];
+
+  if (filters.department) {
+    conditions.push('d.code = ?');
+    params.push(filters.department.toUpperCase());
+  }
+  if (filters.q) {
+    const normalized = filters.q.replace(/([A-Za-z]+)(\d)/, '$1 $2').toUpperCase();
+    conditions.push('(c.course_code LIKE ? OR LOWER(c.title) LIKE ?)');
+    params.push(`%${normalized}%`, `%${filters.q.toLowerCase()}%`);
+  }
+  if (filters.after) {
+    conditions.push('c.course_code > ?');
+    params.push(filters.after);
+  }
+
+  return db.prepare(`
+    SELECT c.course_code, c.title, c.units, d.code as department,
+           (SELECT COUNT(*) FROM class_section cs
+            JOIN term t ON cs.term_id = t.id
+            WHERE cs.course_id = c.id AND t.code = ?) as section_count
+    FROM course c
+    LEFT JOIN department d ON c.department_id = d.id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY c.course_code
+    LIMIT ?
+  `).all(...params, limit) as CourseResult[];
+}
+
+/**
+ * Get one course by exact code
+ */
+export function getCourse(courseCode: string, term: string = getCurrentTerm()): CourseResult | undefined {
+  return db.prepare(`
+    SELECT c.course_code, c.title, c.units, d.code as department,
+           (SELECT COUNT(*) FROM class_section cs
+            JOIN term t ON cs.term_id = t.id
+            WHERE cs.course_id = c.id AND t.code = ?) as section_count
+    FROM course c
+    LEFT JOIN department d ON c.department_id = d.id
+    WHERE c.course_code = ?
+  `).get(term, courseCode) as CourseResult | undefined;
+}
+
 /**
  * Get all sections for a specific course
  */
 export function getCourseSections(
   courseCode: string,
-  term: string = '2025-2'
+  term: string = getCurrentTerm()
 ): { course: string; term: string; sections: SectionResult[] } {
   const rows = db.prepare(`
     SELECT cs.section, i.name as instructor, cs.max_capacity, cs.free_slots,
@@ -87,7 +145,7 @@ export function getCourseSections(
  */
 export function compareSections(
   courseCode: string,
-  term: string = '2025-2',
+  term: string = getCurrentTerm(),
   sortBy: string = 'slots'
 ): {
   course: string;
@@ -125,7 +183,7 @@ export function compareSections(
  */
 export function getSimilarCourseCodes(
   courseCode: string,
-  term: string = '2025-2',
+  term: string = getCurrentTerm(),
   limit: number = 10
 ): string[] {
   const rows = db.prepare(`
@@ -140,3 +198,154 @@ export function getSimilarCourseCodes(
 
   return rows.map(r => r.course_code);
 }
+
+export interface CourseTermTrend {
+  term: string;
+  year: number;
+  semester: number;
+  section_count: number;
+  total_capacity: number;
+  enrolled: number;
+  fill_rate: number | null;  // Percent of capacity taken (null if capacity is 0)
+  modality_mix: Record<string, number>;  // Sections per modality, each section counted once
+  instructors: string[];
+}
+
+/**
+ * Classify a section by the distinct modalities of its meetings (comma-separated).
+ * A section meeting in more than one mode is HYBRID, one without meetings UNKNOWN.
+ */
+export function sectionModality(modalities: string | null): string {
+  const distinct = [...new Set((modalities || '').split(',').filter(Boolean))];
+  if (distinct.length === 0) return 'UNKNOWN';
+  return distinct.length === 1 ? distinct[0] : 'HYBRID';
+}
+
+/**
+ * Term-by-term offering history of a course across all scraped terms
+ */
+export function getCourseTrends(courseCode: string): {
+  course: string;
+  terms: CourseTermTrend[];
+  instructors: Array<{ name: string; terms_taught: number; sections: number; last_term: string }>;
+  terms_on_record: Array<{ term: string; semester: number }>;
+} {
+  const { people, links } = peopleTables(db);
+  const rows = db.prepare(`
+    SELECT t.code as term, t.year, t.semester, cs.max_capacity, cs.free_slots,
+           (SELECT GROUP_CONCAT(p.name, '|') FROM ${links} si
+            JOIN ${people} p ON si.person_id = p.id
+            WHERE si.section_id = cs.id) as instructors,
+           (SELECT GROUP_CONCAT(DISTINCT ss.modality) FROM schedule_slot ss
+            WHERE ss.section_id = cs.id) as modalities
+    FROM class_section cs
+    JOIN course c ON cs.course_id = c.id
+    JOIN term t ON cs.term_id = t.id
+    WHERE c.course_code = ?
+    ORDER BY t.year, t.semester
+  `).all(courseCode) as Array<{
+    term: string;
+    year: number;
+    semester: number;
+    max_capacity: number;
+    free_slots: number;
+    instructors: string | null;
+    modalities: string | null;
+  }>;
+
+  // Every term with any sections, so "not offered" terms can be told apart from unscraped ones
+  const termsOnRecord = db.prepare(`
+    SELECT t.code as term, t.semester
+    FROM term t
+    WHERE EXISTS (SELECT 1 FROM class_section cs WHERE cs.term_id = t.id)
+    ORDER BY t.year, t.semester
+  `).all() as Array<{ term: string; semester: number }>;
+
+  const byTerm = new Map<string, CourseTermTrend>();
+  const instructorStats = new Map<string, { terms: Set<string>; sections: number; last_term: string }>();
+
+  for (const row of rows) {
+    let trend = byTerm.get(row.term);
+    if (!trend) {
+      trend = {
+        term: row.term,
+        year: row.year,
+        semester: row.semester,
+        section_count: 0,
+        total_capacity: 0,
+        enrolled: 0,
+        fill_rate: null,
+        modality_mix: {},
+        instructors: [],
+      };
+      byTerm.set(row.term, trend);
+    }
+
+    trend.section_count++;
+    trend.total_capacity += row.max_capacity || 0;
+    trend.enrolled += Math.max(0, (row.max_capacity || 0) - (row.free_slots || 0));
+    const modality = sectionModality(row.modalities);
+    trend.modality_mix[modality] = (trend.modality_mix[modality] || 0) + 1;
+
+    // One person per co-teacher; TBA sections have none
+    for (const name of (row.instructors || '').split('|').filter(Boolean)) {
+      if (!trend.instructors.includes(name)) trend.instructors.push(name);
+      const stats = instructorStats.get(name) || { terms: new Set<string>(), sections: 0, last_term: row.term };
+      stats.terms.add(row.term);
+      stats.sections++;
+      stats.last_term = row.term;  // Rows are ordered oldest first
+      instructorStats.set(name, stats);
+    }
+  }
+
+  const terms = [...byTerm.values()].map(t => ({
+    ...t,
+    fill_rate: t.total_capacity > 0 ? Math.round((t.enrolled / t.total_capacity) * 100) : null,
+  }));
+
+  const instructors = [...instructorStats.entries()]
+    .map(([name, s]) => ({ name, terms_taught: s.terms.size, sections: s.sections, last_term: s.last_term }))
+    .sort((a, b) => b.terms_taught - a.terms_taught || b.sections - a.sections);
+
+  return { course: courseCode, terms, instructors, terms_on_record: termsOnRecord };
+}
+
+export interface OfferingPattern {
+  semester: number;     // 0 = intersession, 1 = first sem, 2 = second sem
+  offered: number;      // Terms of this kind in which the course had sections
+  on_record: number;    // Terms of this kind that were scraped
+}
+
+/**
+ * How often each course was offered per kind of semester, across all scraped terms
+ */
+export function getOfferingPatterns(courseCodes: string[]): Map<string, OfferingPattern[]> {
+  const patterns = new Map<string, OfferingPattern[]>();
+  if (courseCodes.length === 0) return patterns;
+
+  const onRecord = db.prepare(`
+    SELECT t.semester, COUNT(*) as terms
+    FROM term t
+    WHERE EXISTS (SELECT 1 FROM class_section cs WHERE cs.term_id = t.id)
+    GROUP BY t.semester
+  `).all() as Array<{ semester: number; terms: number }>;
+
+  const placeholders = courseCodes.map(() => '?').join(', ');
+  const rows = db.prepare(`
+    SELECT c.course_code, t.semester, COUNT(DISTINCT t.id) as offered
+    FROM class_section cs
+    JOIN course c ON cs.course_id = c.id
+    JOIN term t ON cs.term_id = t.id
+    WHERE c.course_code IN (${placeholders})
+    GROUP BY c.course_code, t.semester
+  `).all(...courseCodes) as Array<{ course_code: string; semester: number; offered: number }>;
+
+  for (const code of courseCodes) {
+    patterns.set(code, onRecord.map(r => ({
+      semester: r.semester,
+      offered: rows.find(row => row.course_code === code && row.semester === r.semester)?.offered || 0,
+      on_record: r.terms,
+    })));
+  }
+  return patterns;
+}
@@ -4,6 +4,7 @@
  */
 
 import Database from 'better-sqlite3';
+import { resolveProgram } from '../utils/aliases.js';
 
 let db: Database.Database;
 
@@ -13,89 +14,22 @@ export function initCurriculumModel(database: Database.Database) {
 }
 
 /**
- * Get curriculum for a degree program using fuzzy word-based matching
+ * Find the newest degree program matching a code or name (aliases expanded)
  */
-export function getCurriculum(
-  program: string,
-  version?: string,
-  year?: number,
-  semester?: number
-): {
-  program_code: string;
-  program_name: string;
-  version: string;
-  curriculum: Record<number, Record<number, Array<{code: string; title: string; prereqs?: string}>>>;
-  summary: Record<string, number>;
-  total_courses: number;
-} | { found: false; search: string; message: string; suggestions: Array<{code: string; name: string}>; hint: string } {
-  
-  // Expand program aliases first (e.g., "management honors" -> "BS MGT-H")
-  const lower = program.toLowerCase().trim();
-  // Check for common aliases - supports partial matching
-  const aliasMap: Record<string, string[]> = {
-    // Management Honors
-    'management honors': ['BS MGT-H', 'MGT-H'],
-    'mgt honors': ['BS MGT-H', 'MGT-H'],
-    'bs mgt-h': ['BS MGT-H'],
-    
-    // Economics Honors
-    'economics honors': ['AB EC-H', 'EC-H'],
-    'econ honors': ['AB EC-H', 'EC-H'],
-    'ab ec-h': ['AB EC-H'],
-    
-    // Chinese Studies tracks
-    'chinese studies business': ['AB ChnS-B', 'ChnS-B'],
-    'chinese business': ['AB ChnS-B', 'ChnS-B'],
-    'chns-b': ['AB ChnS-B'],
-    'chns business': ['AB ChnS-B'],
-    
-    'chinese studies humanities': ['AB ChnS-H', 'ChnS-H'],
-    'chinese humanities': ['AB ChnS-H', 'ChnS-H'],
-    'chns-h': ['AB ChnS-H'],
-    
-    'chinese studies applied chinese': ['AB ChnS-AC', 'ChnS-AC'],
-    'chinese applied': ['AB ChnS-AC', 'ChnS-AC'],
-    'chns-ac': ['AB ChnS-AC'],
-    
-    'chinese studies social sciences': ['AB ChnS-S', 'ChnS-S'],
-    'chinese social': ['AB ChnS-S', 'ChnS-S'],
-    'chns-s': ['AB ChnS-S'],
-    
-    // Regular Chinese Studies
-    'chinese studies': ['AB ChnS'],
-    'chinese': ['AB ChnS', 'ChnS'],
-    
-    // Computer Science (BS CS)
-    'computer science': ['BS CS'],
-    'compsci': ['BS CS'],
-    'comp sci': ['BS CS'],
-    'cs': ['BS CS'],
-    'bs cs': ['BS CS'],
-    'bscs': ['BS CS'],
-    'bs computer science': ['BS CS'],
-    
-    // Computer Engineering (BS CpE/CoE)
-    'computer engineering': ['BS CpE', 'BS CoE'],
-    'compe': ['BS CpE'],
-    'cpe': ['BS CpE'],
-    'coe': ['BS CoE'],
-    
-    // Management Engineering
-    'management engineering': ['BS ME'],
-    'bs management engineering': ['BS ME'],
-    'bs me': ['BS ME'],
-    'bsme': ['BS ME'],
-    'me': ['BS ME'],
-  };
-  
-  let searchTerm = program;
-  for (const [alias, codes] of Object.entries(aliasMap)) {
-    // Check both exact match and partial contains
-    if (lower === alias || lower.includes(alias) || alias.includes(lower)) {
-      searchTerm = codes[0]; // Use the primary code
-      break;
-    }
+function matchProgram(program: string, version?: string): {code: string; name: string} | null {
+  // Resolve aliases first (e.g., "management honors" -> "BS MGT-H"): newest version of that code
+  const [aliasCode] = resolveProgram(program);
+  if (aliasCode) {
+    const exact = db.prepare(`
+      SELECT code, name FROM degree_program
+      WHERE code LIKE ? ESCAPE '\\'
+      ${version ? 'AND code LIKE ?' : ''}
+      ORDER BY version_year DESC
+      LIMIT 1
+    `).get(`${aliasCode}\\_%`, ...(version ? [`%${version}%`] : [])) as {code: string; name: string} | undefined;
+    if (exact) return exact;
   }
+  const searchTerm = aliasCode || program;
   
   // Split search into words for fuzzy matching
   const searchWords = searchTerm.toUpperCase().split(/\s+/).filter(w => w.length > 1);
@@ -117,7 +51,27 @@ export function getCurriculum(
   `;
   if (version) params.push(`%${version}%`);
 
-  const programMatch = db.prepare(sql).get(...params) as {code: string; name: string} | null;
+  return (db.prepare(sql).get(...params) as {code: string; name: string} | undefined) || null;
+}
+
+/**
+ * Get curriculum for a degree program using fuzzy word-based matching
+ */
+export function getCurriculum(
+  program: string,
+  version?: string,
+  year?: number,
+  semester?: number
+): {
+  program_code: string;
+  program_name: string;
+  version: string;
+  curriculum: Record<number, Record<number, Array<{code: string; title: string; prereqs?: string}>>>;
+  summary: Record<string, number>;
+  total_courses: number;
+} | { found: false; search: string; message: string; suggestions: Array<{code: string; name: string}>; hint: string } {
+  
+  const programMatch = matchProgram(program, version);
 
   if (!programMatch) {
     // Fallback: try simpler LIKE search for suggestions
@@ -192,11 +146,12 @@ export function getCurriculum(
 }
 
 /**
- * List degree programs
+ * List degree programs (after = code of the last program of the previous page)
  */
 export function listDegreePrograms(
   search?: string,
-  limit: number = 50
+  limit: number = 50,
+  after?: string
 ): { programs: Array<{code: string; name: string; course_count: number}>; total: number } {
   const searchLike = search ? `%${search}%` : '%';
   
@@ -204,10 +159,50 @@ export function listDegreePrograms(
     SELECT code, name, 
            (SELECT COUNT(*) FROM curriculum_course cc WHERE cc.degree_id = dp.id) as course_count
     FROM degree_program dp
-    WHERE name LIKE ? OR code LIKE ?
+    WHERE (name LIKE ? OR code LIKE ?) ${after ? 'AND code > ?' : ''}
     ORDER BY code
     LIMIT ?
-  `).all(searchLike, searchLike, limit) as Array<{code: string; name: string; course_count: number}>;
+  `).all(searchLike, searchLike, ...(after ? [after] : []), limit) as Array<{code: string; name: string; course_count: number}>;
 
   return { programs: rows, total: rows.length };
 }
+
+export interface CurriculumRequirement {
+  course_code: string;
+  title: string;
+  units: number;
+  year: number;
+  semester: number;
+  category: string | null;
+  is_elective: boolean;
+  prerequisites_raw: string | null;
+  prerequisites_ast: string | null;
+}
+
+/**
+ * Flat list of a program's curriculum courses with units, category and prerequisites
+ * (input for the degree audit)
+ */
+export function getCurriculumRequirements(
+  program: string,
+  version?: string
+): { program_code: string; program_name: string; version: string; requirements: CurriculumRequirement[] } | null {
+  const programMatch = matchProgram(program, version);
+  if (!programMatch) return null;
+
+  const rows = db.prepare(`
+    SELECT c.course_code, c.title, c.units, cc.year, cc.semester, cc.category, cc.is_elective,
+           cc.prerequisites_raw, cc.prerequisites_ast
+    FROM curriculum_course cc
+    JOIN course c ON cc.course_id = c.id
+    WHERE cc.degree_id = (SELECT id FROM degree_program WHERE code = ?)
+    ORDER BY cc.year, cc.semester, c.course_code
+  `).all(programMatch.code) as Array<Omit<CurriculumRequirement, 'is_elective'> & { is_elective: number | null }>;
+
+  return {
+    program_code: programMatch.code.split('_')[0],
+    program_name: programMatch.name,
+    version: programMatch.code,
+    requirements: rows.map(r => ({ ...r, units: r.units || 0, is_elective: Boolean(r.is_elective) }))
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Feedback Model
+ * Professor feedback summaries from the profs scraper database (see get_professor_feedback)
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { splitInstructorNames } from '../utils/instructorNames.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FEEDBACK_DB_PATH = process.env.FEEDBACK_DB_PATH || path.resolve(__dirname, '../../../../sisia-scraper/data/scraper.db');
+
+// Summaries are based on the most-reacted comments of each instructor
+const SAMPLE_SIZE = 20;
+// A missing feedback database is looked for again at most once a minute
+const RETRY_MS = 60 * 1000;
+
+export interface FeedbackSummary {
+  score: number | null;     // 0-5, share of positive comments in the sample
+  comment_count: number;    // All comments matched to the instructor
+  positive: number;         // Positive comments in the sample
+  negative: number;         // Negative comments in the sample
+}
+
+interface FeedbackStatements {
+  sample: Database.Statement;
+  count: Database.Statement;
+}
+
+let statements: FeedbackStatements | null = null;
+let lastAttemptAt = 0;
+
+/**
+ * Shared read-only connection to the profs scraper database (FEEDBACK_DB_PATH),
+ * opened on first use. Null while the database is not available.
+ */
+function feedbackStatements(): FeedbackStatements | null {
+  if (statements || Date.now() - lastAttemptAt < RETRY_MS) return statements;
+  lastAttemptAt = Date.now();
+
+  try {
+    const feedbackDb = new Database(FEEDBACK_DB_PATH, { readonly: true, fileMustExist: true });
+    // The profs scraper stores the SISIA instructor name each comment was matched to
+    statements = {
+      sample: feedbackDb.prepare(`
+        SELECT sentiment FROM professor_feedback
+        WHERE UPPER(instructor_name_matched) = ?
+        ORDER BY reactions DESC
+        LIMIT ${SAMPLE_SIZE}
+      `),
+      count: feedbackDb.prepare(`
+        SELECT COUNT(*) as count FROM professor_feedback
+        WHERE UPPER(instructor_name_matched) = ?
+      `),
+    };
+  } catch {
+    // Feedback database not available
+  }
+  return statements;
+}
+
+/**
+ * Feedback summaries keyed by instructor name ("SURNAME, FIRST").
+ * Comments count when the profs scraper matched them to that exact entry or, for
+ * co-taught entries ("GO, CLARK C., NABLE, JOB A."), to one of its teachers; a shared
+ * surname is not enough. Instructors without feedback (and TBA) are left out; the map
+ * is empty when the profs scraper database is not available.
+ */
+export function getFeedbackSummaries(instructors: string[]): Map<string, FeedbackSummary> {
+  const summaries = new Map<string, FeedbackSummary>();
+  if (instructors.length === 0) return summaries;
+
+  const stmts = feedbackStatements();
+  if (!stmts) return summaries;
+
+  try {
+    for (const name of instructors) {
+      const names = new Set([name, ...splitInstructorNames(name)].map(n => n.trim().toUpperCase()));
+      let sampled = 0, positive = 0, negative = 0, commentCount = 0;
+      for (const matched of names) {
+        const rows = stmts.sample.all(matched) as { sentiment: string }[];
+        if (rows.length === 0) continue;
+        sampled += rows.length;
+        positive += rows.filter(r => r.sentiment === 'positive').length;
+        negative += rows.filter(r => r.sentiment === 'negative').length;
+        commentCount += (stmts.count.get(matched) as { count: number }).count;
+      }
+      if (sampled === 0) continue;
+      summaries.set(name, {
+        score: Math.round((positive / sampled) * 5 * 10) / 10,
+        comment_count: commentCount,
+        positive,
+        negative,
+      });
+    }
+  } catch (err) {
+    console.error('[feedback] Failed to load feedback summaries:', err);
+  }
+  return summaries;
+}
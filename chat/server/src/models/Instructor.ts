@@ -4,6 +4,10 @@
  */
 
 import Database from "better-sqlite3";
+import { getCurrentTerm } from '../utils/terms.js';
+import { sectionModality } from './Course.js';
+import { peopleTables } from '../utils/people.js';
+import { splitInstructorNames } from '../utils/instructorNames.js';
 
 let db: Database.Database;
 
@@ -25,90 +29,74 @@ export interface InstructorScheduleResult {
 /**
  * Parse a multi-instructor string into individual instructor names.
  * Handles formats like "NABLE, JOB A., BUOT, JUDE C." → ["NABLE, JOB A.", "BUOT, JUDE C."]
- * Also handles multi-word last names like "CHAN SHIO, CHRISTIAN PAUL O."
+ * (the same split the scraper uses to fill person / section_instructor)
  */
-function parseInstructorNames(combinedName: string): string[] {
-  const names: string[] = [];
-
-  // Strategy: Split on comma-space followed by ALL CAPS word that starts a new name
-  // Pattern: Look for "LASTNAME (LASTNAME), Firstname..." format
-  // Match: UPPERCASE_WORD(s), then Mixed/lowercase word(s), optionally ending with period
-  const regex = /([A-Z][A-Z\-']+(?:\s+[A-Z][A-Z\-']+)*(?:\s+[IVX]+)?,\s+[A-Za-z]+(?:[.\s]+[A-Za-z]+)*\.?)/g;
-  let match;
-
-  while ((match = regex.exec(combinedName)) !== null) {
-    const name = match[1].trim();
-    if (name.length > 3) {
-      // Avoid fragments
-      names.push(name);
-    }
-  }
+export function parseInstructorNames(combinedName: string): string[] {
+  const names = splitInstructorNames(combinedName);
+  return names.length > 0 ? names : [combinedName];
+}
 
-  // If regex didn't find anything, return the original name
-  if (names.length === 0) {
-    return [combinedName];
-  }
+const nameWords = (name: string) => name.toUpperCase().split(/[\s,.]+/).filter(Boolean);
+
+/**
+ * People (person table) whose name contains every word of the query. Whole-word
+ * matches win over partial ones, so "GO" finds "GO, CLARK KENDRICK C." and not "GOMEZ, ...".
+ */
+function findPersons(name: string): { id: number; name: string }[] {
+  const parts = nameWords(name).filter((p) => p.length > 1);
+  if (parts.length === 0) return [];
+  const { people } = peopleTables(db);
+
+  const rows = db
+    .prepare(
+      `
+    SELECT id, name FROM ${people}
+    WHERE ${parts.map(() => "UPPER(name) LIKE ?").join(" AND ")}
+    ORDER BY name
+  `,
+    )
+    .all(...parts.map((p) => `%${p}%`)) as { id: number; name: string }[];
 
-  return names;
+  const whole = rows.filter((r) => parts.every((p) => nameWords(r.name).includes(p)));
+  return whole.length > 0 ? whole : rows;
 }
 
 /**
  * Search instructors by name (fuzzy matching)
- * Parses multi-instructor entries and returns unique individual names
+ * One result per person, so co-taught entries and spelling variants are not repeated
  */
 export function searchInstructors(
   name: string,
   limit: number = 20,
 ): { instructors: Array<{ name: string; match_score: number }> } {
-  const searchParts = name.toUpperCase().split(/\s+/);
+  const searchParts = name.toUpperCase().split(/\s+/).filter(Boolean);
+  if (searchParts.length === 0) return { instructors: [] };
+  const { people } = peopleTables(db);
 
-  // Build fuzzy matching conditions
   const conditions = searchParts
-    .map(() => `UPPER(i.name) LIKE ?`)
+    .map(() => `UPPER(p.name) LIKE ?`)
     .join(" AND ");
   const params = searchParts.map((p) => `%${p}%`);
 
   const rows = db
     .prepare(
       `
-    SELECT i.id, i.name
-    FROM instructor i
+    SELECT p.name
+    FROM ${people} p
     WHERE ${conditions}
-    ORDER BY i.name
-    LIMIT ?
+    ORDER BY p.name
   `,
     )
-    .all(...params, limit * 2); // Fetch more to account for duplicates after parsing
-
-  // Extract and deduplicate individual instructor names
-  const seenNames = new Set<string>();
-  const results: Array<{ name: string; match_score: number }> = [];
-
-  for (const row of rows as Array<{ id: number; name: string }>) {
-    const individualNames = parseInstructorNames(row.name);
-
-    for (const individualName of individualNames) {
-      const normalizedName = individualName.toUpperCase().trim();
-
-      // Check if this individual name matches the search and isn't a duplicate
-      if (
-        !seenNames.has(normalizedName) &&
-        searchParts.every((part) => normalizedName.includes(part))
-      ) {
-        seenNames.add(normalizedName);
-
-        // Calculate match score
-        const matchScore =
-          searchParts.filter((p) => normalizedName.includes(p)).length /
-          searchParts.length;
-
-        results.push({
-          name: individualName.trim(),
-          match_score: matchScore,
-        });
-      }
-    }
-  }
+    .all(...params) as Array<{ name: string }>;
+
+  // Share of the search words that are whole words of the name ("GO" in "GO, CLARK" but not "GOMEZ")
+  const results = rows.map((row) => {
+    const words = nameWords(row.name);
+    return {
+      name: row.name,
+      match_score: searchParts.filter((p) => words.includes(p)).length / searchParts.length,
+    };
+  });
 
   // Sort by match score (best matches first) and limit results
   results.sort((a, b) => b.match_score - a.match_score);
@@ -116,39 +104,91 @@ export function searchInstructors(
   return { instructors: results.slice(0, limit) };
 }
 
+export interface InstructorListing {
+  name: string;
+  department: string | null;
+  section_count: number;
+}
+
 /**
- * Get instructor's teaching schedule
+ * Page through instructors (people, not raw co-taught entries) in name order,
+ * with the department of their latest section and their section count in a term
+ */
+export function listInstructors(
+  filters: { q?: string; department?: string; term?: string; after?: string } = {},
+  limit: number = 50,
+): InstructorListing[] {
+  const { people, links } = peopleTables(db);
+  const conditions: string[] = [];
+  const params: unknown[] = [filters.term || getCurrentTerm()];
+
+  if (filters.q) {
+    for (const part of filters.q.toUpperCase().split(/\s+/).filter(Boolean)) {
+      conditions.push("UPPER(p.name) LIKE ?");
+      params.push(`%${part}%`);
+    }
+  }
+  if (filters.department) {
+    conditions.push(`EXISTS (SELECT 1 FROM ${links} si
+      JOIN class_section cs ON si.section_id = cs.id
+      JOIN department d ON cs.department_id = d.id
+      WHERE si.person_id = p.id AND d.code = ?)`);
+    params.push(filters.department.toUpperCase());
+  }
+  if (filters.after) {
+    conditions.push("p.name > ?");
+    params.push(filters.after);
+  }
+
+  return db
+    .prepare(
+      `
+    SELECT p.name,
+           (SELECT d.code FROM ${links} si
+            JOIN class_section cs ON si.section_id = cs.id
+            JOIN department d ON cs.department_id = d.id
+            WHERE si.person_id = p.id
+            ORDER BY cs.term_id DESC LIMIT 1) as department,
+           (SELECT COUNT(*) FROM ${links} si
+            JOIN class_section cs ON si.section_id = cs.id
+            JOIN term t ON cs.term_id = t.id
+            WHERE si.person_id = p.id AND t.code = ?) as section_count
+    FROM ${people} p
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY p.name
+    LIMIT ?
+  `,
+    )
+    .all(...params, limit) as InstructorListing[];
+}
+
+/**
+ * Get instructor's teaching schedule (co-taught sections included, listed under
+ * the matched person's own name)
  */
 export function getInstructorSchedule(
   instructorName: string,
-  term: string = "2025-2",
+  term: string = getCurrentTerm(),
   day?: string,
   limit: number = 50,
 ): { instructor: string; schedule: InstructorScheduleResult[] } {
-  // Extract words from name for flexible matching
-  const nameParts = instructorName
-    .toUpperCase()
-    .split(/[\s,]+/)
-    .filter((p) => p.length > 1);
-
-  // Build WHERE clause that matches all name parts (case-insensitive)
-  const nameConditions = nameParts
-    .map(() => "UPPER(i.name) LIKE ?")
-    .join(" AND ");
-  const nameParams = nameParts.map((p) => `%${p}%`);
+  const persons = findPersons(instructorName);
+  if (persons.length === 0) return { instructor: instructorName, schedule: [] };
+  const { people, links } = peopleTables(db);
 
-  const queryParams: unknown[] = [...nameParams, term];
+  const queryParams: unknown[] = [...persons.map((p) => p.id), term];
 
   let query = `
-    SELECT i.name as instructor, c.course_code, cs.section, 
+    SELECT p.name as instructor, c.course_code, cs.section, 
            ss.day, ss.start_time, ss.end_time, r.code as room, t.code as term
-    FROM class_section cs
-    JOIN instructor i ON cs.instructor_id = i.id
+    FROM ${links} si
+    JOIN ${people} p ON si.person_id = p.id
+    JOIN class_section cs ON si.section_id = cs.id
     JOIN course c ON cs.course_id = c.id
     JOIN term t ON cs.term_id = t.id
     LEFT JOIN schedule_slot ss ON ss.section_id = cs.id
     LEFT JOIN room r ON ss.room_id = r.id
-    WHERE ${nameConditions} AND t.code = ?
+    WHERE si.person_id IN (${persons.map(() => "?").join(", ")}) AND t.code = ?
   `;
 
   if (day) {
@@ -165,3 +205,97 @@ export function getInstructorSchedule(
 
   return { instructor: instructorName, schedule: rows };
 }
+
+export interface InstructorTermTrend {
+  term: string;
+  year: number;
+  semester: number;
+  section_count: number;
+  courses: string[];
+  total_capacity: number;
+  enrolled: number;
+  fill_rate: number | null;  // Percent of capacity taken (null if capacity is 0)
+  modality_mix: Record<string, number>;  // Sections per modality, each section counted once
+}
+
+/**
+ * Term-by-term teaching history of an instructor across all scraped terms
+ */
+export function getInstructorTrends(
+  instructorName: string,
+): { instructor: string; matched_names: string[]; terms: InstructorTermTrend[] } {
+  const persons = findPersons(instructorName);
+  if (persons.length === 0) {
+    return { instructor: instructorName, matched_names: [], terms: [] };
+  }
+  const { people, links } = peopleTables(db);
+
+  const rows = db
+    .prepare(
+      `
+    SELECT t.code as term, t.year, t.semester, p.name as instructor,
+           c.course_code, cs.id as section_id, cs.max_capacity, cs.free_slots,
+           (SELECT GROUP_CONCAT(DISTINCT ss.modality) FROM schedule_slot ss
+            WHERE ss.section_id = cs.id) as modalities
+    FROM ${links} si
+    JOIN ${people} p ON si.person_id = p.id
+    JOIN class_section cs ON si.section_id = cs.id
+    JOIN course c ON cs.course_id = c.id
+    JOIN term t ON cs.term_id = t.id
+    WHERE si.person_id IN (${persons.map(() => "?").join(", ")})
+    ORDER BY t.year, t.semester
+  `,
+    )
+    .all(...persons.map((p) => p.id)) as Array<{
+    term: string;
+    year: number;
+    semester: number;
+    instructor: string;
+    course_code: string;
+    section_id: number;
+    max_capacity: number;
+    free_slots: number;
+    modalities: string | null;
+  }>;
+
+  const matchedNames = new Set<string>();
+  const byTerm = new Map<string, InstructorTermTrend>();
+  // A section taught together by two matched people counts once
+  const countedSections = new Set<number>();
+
+  for (const row of rows) {
+    matchedNames.add(row.instructor);
+    if (countedSections.has(row.section_id)) continue;
+    countedSections.add(row.section_id);
+
+    let trend = byTerm.get(row.term);
+    if (!trend) {
+      trend = {
+        term: row.term,
+        year: row.year,
+        semester: row.semester,
+        section_count: 0,
+        courses: [],
+        total_capacity: 0,
+        enrolled: 0,
+        fill_rate: null,
+        modality_mix: {},
+      };
+      byTerm.set(row.term, trend);
+    }
+
+    trend.section_count++;
+    if (!trend.courses.includes(row.course_code)) trend.courses.push(row.course_code);
+    trend.total_capacity += row.max_capacity || 0;
+    trend.enrolled += Math.max(0, (row.max_capacity || 0) - (row.free_slots || 0));
+    const modality = sectionModality(row.modalities);
+    trend.modality_mix[modality] = (trend.modality_mix[modality] || 0) + 1;
+  }
+
+  const terms = [...byTerm.values()].map((t) => ({
+    ...t,
+    fill_rate: t.total_capacity > 0 ? Math.round((t.enrolled / t.total_capacity) * 100) : null,
+  }));
+
+  return { instructor: instructorName, matched_names: [...matchedNames], terms };
+}
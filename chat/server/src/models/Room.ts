@@ -4,6 +4,8 @@
  */
 
 import Database from 'better-sqlite3';
+import { getCurrentTerm } from '../utils/terms.js';
+import { buildingNameAliases, buildingOfRoom } from '../utils/campus.js';
 
 let db: Database.Database;
 
@@ -55,16 +57,7 @@ function normalizeRoomCode(input: string): string {
   let code = input.trim().toUpperCase();
   
   // Building name to code mappings (only full names that need abbreviating)
-  const buildingAliases: Record<string, string> = {
-    'KOSTKA': 'K',
-    'BELLARMINE': 'BEL',
-    'FAURA': 'F',
-    'GONZAGA': 'G',
-    'BERCH': 'B',
-    'BERCHMANS': 'B',
-    'CLAVERIA': 'C',
-    'DELATORRE': 'D',
-  };
+  const buildingAliases = buildingNameAliases();
   
   // Replace full building names with abbreviations
   for (const [fullName, abbrev] of Object.entries(buildingAliases)) {
@@ -188,12 +181,54 @@ function calculateFreePeriods(
   });
 }
 
+export interface RoomListing {
+  code: string;
+  building: string | null;
+  slot_count: number;
+}
+
+/**
+ * Page through rooms in code order, with their number of weekly meetings in a term
+ */
+export function listRooms(
+  filters: { q?: string; building?: string; term?: string; after?: string } = {},
+  limit: number = 50
+): RoomListing[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [filters.term || getCurrentTerm()];
+
+  if (filters.q) {
+    conditions.push('r.code LIKE ?');
+    params.push(`%${normalizeRoomCode(filters.q)}%`);
+  }
+  if (filters.building) {
+    conditions.push('(UPPER(r.building) = ? OR r.code LIKE ?)');
+    params.push(filters.building.toUpperCase(), `${filters.building.toUpperCase()}%`);
+  }
+  if (filters.after) {
+    conditions.push('r.code > ?');
+    params.push(filters.after);
+  }
+
+  return db.prepare(`
+    SELECT r.code, r.building,
+           (SELECT COUNT(*) FROM schedule_slot ss
+            JOIN class_section cs ON ss.section_id = cs.id
+            JOIN term t ON cs.term_id = t.id
+            WHERE ss.room_id = r.id AND t.code = ?) as slot_count
+    FROM room r
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY r.code
+    LIMIT ?
+  `).all(...params, limit) as RoomListing[];
+}
+
 /**
  * Get room schedule with free periods
  */
 export function getRoomSchedule(
   roomCode: string,
-  term: string = '2025-2',
+  term: string = getCurrentTerm(),
   day?: string,
   limit: number = 100 // Increased default for full week
 ): { 
@@ -273,3 +308,181 @@ export function getRoomSchedule(
 
   return { room: roomCode, schedule: rows, free_periods: freePeriods };
 }
+
+// Utilization grid: Monday-Saturday, 30-minute slots from 07:00 to 21:00
+export const UTILIZATION_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const UTILIZATION_SLOT_MINUTES = 30;
+const UTILIZATION_START = 7 * 60;
+const UTILIZATION_END = 21 * 60;
+const UTILIZATION_SLOTS = (UTILIZATION_END - UTILIZATION_START) / UTILIZATION_SLOT_MINUTES;
+
+export interface RoomUtilization {
+  room: string;
+  building: string;
+  matrix: number[][];            // Sections meeting, per day × slot
+  utilization: number;           // Share of the week's slots in use (0-1)
+  hours_per_week: number;
+  peak_enrolled: number | null;  // Largest class held in the room
+  capacity_usage: number | null; // Average enrolled / max_capacity of its sections (0-1)
+  top_courses: string[];
+  last_used_term: string | null;
+}
+
+export interface BuildingUtilization {
+  building: string;
+  room_count: number;
+  matrix: number[][];            // Rooms in use, per day × slot
+  utilization: number;           // Share of room × slot cells in use (0-1)
+  hours_per_week: number;
+  peak: { rooms_in_use: number; day: string; time: string } | null;
+  capacity_usage: number | null;
+}
+
+export interface RoomUtilizationReport {
+  term: string;
+  days: string[];
+  slots: string[];               // Slot start times: "07:00", "07:30", ...
+  buildings: BuildingUtilization[];
+  rooms: RoomUtilization[];
+  empty_rooms: { room: string; building: string; utilization: number; last_used_term: string | null }[];
+  empty_threshold: number;
+}
+
+/**
+ * Building a room is in: the campus building of its code, else room.building
+ * (which the scraper only fills for spaced codes like "CTC 215")
+ */
+function utilizationBuilding(code: string, building: string | null): string {
+  return buildingOfRoom(code)?.code || building?.trim() || 'Unknown';
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+const average = (values: number[]) =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length, 3) : null;
+
+/**
+ * Room and building utilization for a term: day × 30-minute slot matrices, peak occupancy,
+ * capacity usage from class_section.max_capacity, and rooms at or below the empty threshold.
+ * Rooms without a digit in their code (TBA, online) are not physical rooms and are skipped.
+ */
+export function getRoomUtilization(
+  filters: { term?: string; building?: string; room?: string; empty_threshold?: number } = {}
+): RoomUtilizationReport {
+  const term = filters.term || getCurrentTerm();
+  const emptyThreshold = filters.empty_threshold ?? 0.1;
+  const buildingFilter = filters.building?.trim().toUpperCase();
+  const roomFilter = filters.room ? normalizeRoomCode(filters.room) : undefined;
+
+  const rooms = (db.prepare('SELECT id, code, building FROM room ORDER BY code').all() as {
+    id: number; code: string; building: string | null;
+  }[])
+    .filter(r => /\d/.test(r.code))
+    .map(r => ({ ...r, building: utilizationBuilding(r.code, r.building) }))
+    .filter(r => !buildingFilter || r.building.toUpperCase().startsWith(buildingFilter))
+    .filter(r => !roomFilter || r.code.toUpperCase().includes(roomFilter));
+
+  const meetings = db.prepare(`
+    SELECT ss.room_id, ss.day, ss.start_time, ss.end_time, cs.id as section_id,
+           c.course_code, cs.max_capacity, cs.free_slots
+    FROM schedule_slot ss
+    JOIN class_section cs ON ss.section_id = cs.id
+    JOIN course c ON cs.course_id = c.id
+    JOIN term t ON cs.term_id = t.id
+    WHERE t.code = ? AND ss.room_id IS NOT NULL
+  `).all(term) as {
+    room_id: number; day: string; start_time: string; end_time: string; section_id: number;
+    course_code: string; max_capacity: number | null; free_slots: number | null;
+  }[];
+
+  // Most-used courses this term and the last term each room was used, from v_course_room
+  const courseRooms = db.prepare(`
+    SELECT room, course_code FROM v_course_room WHERE term = ? ORDER BY slot_count DESC, course_code
+  `).all(term) as { room: string; course_code: string }[];
+  const lastUsed = new Map((db.prepare(`
+    SELECT room, MAX(term) as term FROM v_course_room GROUP BY room
+  `).all() as { room: string; term: string }[]).map(r => [r.room, r.term]));
+
+  const meetingsByRoom = new Map<number, typeof meetings>();
+  for (const m of meetings) {
+    meetingsByRoom.set(m.room_id, [...(meetingsByRoom.get(m.room_id) || []), m]);
+  }
+
+  const emptyMatrix = () => UTILIZATION_DAYS.map(() => new Array<number>(UTILIZATION_SLOTS).fill(0));
+  const enrolled = (m: { max_capacity: number | null; free_slots: number | null }) =>
+    Math.max(0, (m.max_capacity || 0) - Math.max(0, m.free_slots || 0));
+  const capacityShares = (roomMeetings: typeof meetings) => {
+    const bySection = new Map(roomMeetings.filter(m => (m.max_capacity || 0) > 0).map(m => [m.section_id, m]));
+    return [...bySection.values()].map(m => Math.min(1, enrolled(m) / m.max_capacity!));
+  };
+
+  const roomReports: RoomUtilization[] = rooms.map(room => {
+    const roomMeetings = meetingsByRoom.get(room.id) || [];
+    const matrix = emptyMatrix();
+    let minutes = 0;
+    for (const m of roomMeetings) {
+      const day = UTILIZATION_DAYS.indexOf(m.day);
+      if (day < 0 || !m.start_time || !m.end_time) continue;
+      const start = timeToMinutes(m.start_time);
+      const end = timeToMinutes(m.end_time);
+      minutes += Math.max(0, end - start);
+      const first = Math.max(0, Math.floor((start - UTILIZATION_START) / UTILIZATION_SLOT_MINUTES));
+      const last = Math.min(UTILIZATION_SLOTS, Math.ceil((end - UTILIZATION_START) / UTILIZATION_SLOT_MINUTES));
+      for (let slot = first; slot < last; slot++) matrix[day][slot]++;
+    }
+    const usedCells = matrix.flat().filter(v => v > 0).length;
+    const enrolledCounts = roomMeetings.filter(m => (m.max_capacity || 0) > 0).map(enrolled);
+
+    return {
+      room: room.code,
+      building: room.building,
+      matrix,
+      utilization: round(usedCells / (UTILIZATION_DAYS.length * UTILIZATION_SLOTS), 3),
+      hours_per_week: round(minutes / 60, 1),
+      peak_enrolled: enrolledCounts.length > 0 ? Math.max(...enrolledCounts) : null,
+      capacity_usage: average(capacityShares(roomMeetings)),
+      top_courses: [...new Set(courseRooms.filter(cr => cr.room === room.code).map(cr => cr.course_code))].slice(0, 3),
+      last_used_term: lastUsed.get(room.code) ?? null,
+    };
+  });
+
+  const buildingNames = [...new Set(roomReports.map(r => r.building))];
+  const buildingReports: BuildingUtilization[] = buildingNames.map(building => {
+    const buildingRooms = roomReports.filter(r => r.building === building);
+    const matrix = emptyMatrix();
+    for (const r of buildingRooms) {
+      r.matrix.forEach((row, day) => row.forEach((count, slot) => { if (count > 0) matrix[day][slot]++; }));
+    }
+
+    let peak: BuildingUtilization['peak'] = null;
+    matrix.forEach((row, day) => row.forEach((inUse, slot) => {
+      if (inUse > 0 && (!peak || inUse > peak.rooms_in_use)) {
+        peak = { rooms_in_use: inUse, day: UTILIZATION_DAYS[day], time: minutesToTime(UTILIZATION_START + slot * UTILIZATION_SLOT_MINUTES) };
+      }
+    }));
+
+    const buildingMeetings = rooms.filter(r => r.building === building).flatMap(r => meetingsByRoom.get(r.id) || []);
+    const usedCells = matrix.flat().reduce((sum, v) => sum + v, 0);
+    return {
+      building,
+      room_count: buildingRooms.length,
+      matrix,
+      utilization: round(usedCells / (buildingRooms.length * UTILIZATION_DAYS.length * UTILIZATION_SLOTS), 3),
+      hours_per_week: round(buildingRooms.reduce((sum, r) => sum + r.hours_per_week, 0), 1),
+      peak,
+      capacity_usage: average(capacityShares(buildingMeetings)),
+    };
+  });
+
+  return {
+    term,
+    days: UTILIZATION_DAYS,
+    slots: Array.from({ length: UTILIZATION_SLOTS }, (_, i) => minutesToTime(UTILIZATION_START + i * UTILIZATION_SLOT_MINUTES)),
+    buildings: buildingReports.sort((a, b) => b.utilization - a.utilization || a.building.localeCompare(b.building)),
+    rooms: [...roomReports].sort((a, b) => b.utilization - a.utilization || a.room.localeCompare(b.room)),
+    empty_rooms: roomReports
+      .filter(r => r.utilization <= emptyThreshold)
+      .sort((a, b) => a.utilization - b.utilization || a.room.localeCompare(b.room))
+      .map(r => ({ room: r.room, building: r.building, utilization: r.utilization, last_used_term: r.last_used_term })),
+    empty_threshold: emptyThreshold,
+  };
+}
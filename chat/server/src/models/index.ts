@@ -15,6 +15,7 @@ export * from './Instructor.js';
 export * from './Room.js';
 export * from './Curriculum.js';
 export * from './ClassSection.js';
+export * from './Feedback.js';
 
 /**
  * Initialize all models with database connection
@@ -23,6 +23,23 @@ declare global {
   }
 }
 
+/**
+ * Validate a Supabase access token; null when it is invalid or expired
+ */
+export async function verifyAccessToken(token: string): Promise<NonNullable<Request['user']> | null> {
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  
+  if (error || !user) {
+    return null;
+  }
+  
+  return {
+    id: user.id,
+    email: user.email || '',
+    accessToken: token,
+  };
+}
+
 /**
  * Auth middleware - validates JWT and attaches user to request
  */
@@ -36,17 +53,13 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
   const token = authHeader.slice(7);
   
   try {
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await verifyAccessToken(token);
     
-    if (error || !user) {
+    if (!user) {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
     
-    req.user = {
-      id: user.id,
-      email: user.email || '',
-      accessToken: token,
-    };
+    req.user = user;
     
     next();
   } catch (err) {
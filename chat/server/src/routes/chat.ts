@@ -6,7 +6,6 @@
 
 import { Router } from 'express';
 import type { Request, Response } from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import Database from 'better-sqlite3';
 
 import { handleFunctionCall, publicDefinitions, definitions } from '../mcp/tools/index.js';
@@ -14,22 +13,43 @@ import { authMiddleware } from './auth.js';
 import { getSystemPromptBase, SYSTEM_PROMPT_PERSONAL } from '../prompts/system.js';
 import { trackUsage } from '../utils/usage.js';
 import { logMessage } from '../utils/logging.js';
+import { chatHistory, formatMemoryPrompt, loadMemory, saveMemory, summarizeIfNeeded } from '../utils/conversationMemory.js';
+import { learnFromToolCalls } from '../utils/aliasLearning.js';
+import { applyTermOverride } from '../utils/terms.js';
+import { describeToolCall, openEventStream, summarizeToolResult, writeEvent } from '../utils/streamEvents.js';
 import { wsServer } from '../../websocket.js';
+import type { ChatHistoryMessage, LLMProvider, ToolDeclaration, ToolResult } from '../llm/index.js';
 
-// AI Configuration
+// AI Configuration (the model itself comes from the LLM provider, see llm/index.ts)
 export const AI_CONFIG = {
-  model: 'gemini-2.0-flash',
   temperature: 0.1,
   maxOutputTokens: 2048,
   topP: 0.7,
   topK: 20,
 };
 
-// Max context tokens for Gemini 2.0 Flash
-const MAX_CONTEXT_TOKENS = 1048576;
-
-export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Database) {
+export function createChatRouter(llm: LLMProvider, db: Database.Database) {
   const router = Router();
+  // Context budget shown by the context bar; older turns are summarized as it fills up
+  const MAX_CONTEXT_TOKENS = Number(process.env.CHAT_CONTEXT_BUDGET) || llm.maxContextTokens;
+
+  // Start a provider chat session with the system prompt, tools and prior messages
+  function startChat(systemInstruction: string, tools: ToolDeclaration[], history: ChatHistoryMessage[]) {
+    return llm.startChat({ systemInstruction, tools, history, generation: AI_CONFIG });
+  }
+
+  // Server-side memory of the session: prior turns (summarized when the budget fills up)
+  // and resolved entities. Load it before logging the new user message.
+  async function prepareConversation(sessionId: string, userId: string | null, clientHistory: ChatHistoryMessage[]) {
+    const memory = await loadMemory(sessionId, userId);
+    const summarized = await summarizeIfNeeded(memory, llm, MAX_CONTEXT_TOKENS);
+    return {
+      memory,
+      summarized,
+      history: chatHistory(memory, clientHistory),
+      memoryPrompt: formatMemoryPrompt(memory),
+    };
+  }
 
   // Generate session ID if not provided
   function getSessionId(req: Request): string {
@@ -42,47 +62,34 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
     const sessionId = getSessionId(req);
     
     try {
-      const { message, history = [] } = req.body;
+      // Optional term override applies to every tool call in this request
+      const { message, history: clientHistory = [], term } = req.body;
+      const { memory, summarized, history, memoryPrompt } = await prepareConversation(sessionId, null, clientHistory);
       
       // Log user message
       await logMessage(sessionId, null, { role: 'user', content: message });
       
-      const model = genAI.getGenerativeModel({ 
-        model: AI_CONFIG.model,
-        systemInstruction: getSystemPromptBase(),
-        tools: [{ functionDeclarations: publicDefinitions as any }],
-        generationConfig: {
-          temperature: AI_CONFIG.temperature,
-          maxOutputTokens: AI_CONFIG.maxOutputTokens,
-          topP: AI_CONFIG.topP,
-          topK: AI_CONFIG.topK,
-        },
-      });
-      
-      const chat = model.startChat({
-        history: history.map((msg: { role: string; content: string }) => ({
-          role: msg.role === 'assistant' ? 'model' : msg.role,
-          parts: [{ text: msg.content }],
-        })),
-      });
+      const chat = startChat(getSystemPromptBase(term) + memoryPrompt, publicDefinitions, history);
       
-      let response = await chat.sendMessage(message);
-      let result = response.response;
+      let result = await chat.send(message);
       
       // Track tool calls for logging with duration
       const toolCallLog: Array<{ name: string; args: unknown; result: unknown; durationMs: number }> = [];
       
       // Handle function calls
-      let functionCalls = result.functionCalls();
-      while (functionCalls && functionCalls.length > 0) {
-        const functionResponses = [];
+      let functionCalls = result.functionCalls;
+      while (functionCalls.length > 0) {
+        const functionResponses: ToolResult[] = [];
         
         for (const call of functionCalls) {
           // Stream function call to debug subscribers
           wsServer.streamLog('function', `Calling ${call.name}`, { args: call.args });
           
           const startTime = Date.now();
-          const functionResult = await handleFunctionCall(call.name, call.args as Record<string, unknown>);
+          const functionResult = await handleFunctionCall(
+            call.name,
+            applyTermOverride(call.args, term)
+          );
           const durationMs = Date.now() - startTime;
           
           // Stream result
@@ -100,20 +107,14 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
             durationMs,
           });
           
-          functionResponses.push({
-            functionResponse: {
-              name: call.name,
-              response: functionResult,
-            },
-          });
+          functionResponses.push({ id: call.id, name: call.name, response: functionResult });
         }
         
-        response = await chat.sendMessage(functionResponses as any);
-        result = response.response;
-        functionCalls = result.functionCalls();
+        result = await chat.send(functionResponses);
+        functionCalls = result.functionCalls;
       }
       
-      const text = result.text();
+      const text = result.text;
       
       // Track API usage (estimate tokens: ~4 chars per token)
       const estimatedTokens = Math.ceil((message.length + text.length) / 4);
@@ -125,6 +126,8 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
         content: text,
         toolCalls: toolCallLog.length > 0 ? toolCallLog : undefined,
       });
+      await saveMemory(memory, toolCallLog, result.usage?.promptTokens || 0, term);
+      learnFromToolCalls(sessionId, toolCallLog);
       
       res.json({ 
         response: text, 
@@ -137,7 +140,8 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
             total: estimatedTokens,
           },
           historyLength: history.length,
-          model: AI_CONFIG.model,
+          memory: { summarized, context: memory.context },
+          model: llm.model,
           timestamp: new Date().toISOString(),
         }
       });
@@ -155,47 +159,30 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
     const userId = req.user!.id;
     
     try {
-      const { message, history = [] } = req.body;
+      const { message, history = [], term } = req.body;
       
       // CRITICAL: Limit chat history to prevent context overflow and hallucination
-      // Keep last 100 messages (50 exchanges) - Gemini 2.0 Flash has 1M token context
-      const trimmedHistory = history.slice(-100);
+      // Keep last 100 messages (50 exchanges); the server's own history is capped the same way
+      const { memory, summarized, history: trimmedHistory, memoryPrompt } =
+        await prepareConversation(sessionId, userId, history.slice(-100));
       
       // Log user message
       await logMessage(sessionId, userId, { role: 'user', content: message });
       
       // Build enhanced prompt with user context
-      const enhancedPrompt = getSystemPromptBase() + SYSTEM_PROMPT_PERSONAL;
-      
-      const model = genAI.getGenerativeModel({ 
-        model: AI_CONFIG.model,
-        systemInstruction: enhancedPrompt,
-        tools: [{ functionDeclarations: definitions as any }],
-        generationConfig: {
-          temperature: AI_CONFIG.temperature,
-          maxOutputTokens: AI_CONFIG.maxOutputTokens,
-          topP: AI_CONFIG.topP,
-          topK: AI_CONFIG.topK,
-        },
-      });
+      const enhancedPrompt = getSystemPromptBase(term) + SYSTEM_PROMPT_PERSONAL + memoryPrompt;
       
-      const chat = model.startChat({
-        history: trimmedHistory.map((msg: { role: string; content: string }) => ({
-          role: msg.role === 'assistant' ? 'model' : msg.role,
-          parts: [{ text: msg.content }],
-        })),
-      });
+      const chat = startChat(enhancedPrompt, definitions, trimmedHistory);
       
-      let response = await chat.sendMessage(message);
-      let result = response.response;
+      let result = await chat.send(message);
       
       // Track tool calls for logging with duration
       const toolCallLog: Array<{ name: string; args: unknown; result: unknown; durationMs: number }> = [];
       
       // Handle function calls with user context
-      let functionCalls = result.functionCalls();
-      while (functionCalls && functionCalls.length > 0) {
-        const functionResponses = [];
+      let functionCalls = result.functionCalls;
+      while (functionCalls.length > 0) {
+        const functionResponses: ToolResult[] = [];
         
         for (const call of functionCalls) {
           // Stream function call to debug subscribers
@@ -204,7 +191,7 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
           const startTime = Date.now();
           const functionResult = await handleFunctionCall(
             call.name, 
-            call.args as Record<string, unknown>,
+            applyTermOverride(call.args, term),
             { userId: req.user!.id, accessToken: req.user!.accessToken }
           );
           const durationMs = Date.now() - startTime;
@@ -224,26 +211,19 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
             durationMs,
           });
           
-          functionResponses.push({
-            functionResponse: {
-              name: call.name,
-              response: functionResult,
-            },
-          });
+          functionResponses.push({ id: call.id, name: call.name, response: functionResult });
         }
         
-        response = await chat.sendMessage(functionResponses as any);
-        result = response.response;
-        functionCalls = result.functionCalls();
+        result = await chat.send(functionResponses);
+        functionCalls = result.functionCalls;
       }
       
-      const text = result.text();
+      const text = result.text;
       
-      // Get real token usage from Gemini API response
-      const usageMetadata = response.response.usageMetadata;
-      const tokensUsed = usageMetadata?.totalTokenCount || 0;
-      const promptTokens = usageMetadata?.promptTokenCount || 0;
-      const responseTokens = usageMetadata?.candidatesTokenCount || 0;
+      // Get real token usage from the provider response
+      const tokensUsed = result.usage?.totalTokens || 0;
+      const promptTokens = result.usage?.promptTokens || 0;
+      const responseTokens = result.usage?.responseTokens || 0;
       
       // Track API usage with real token count
       trackUsage(tokensUsed);
@@ -255,6 +235,8 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
         toolCalls: toolCallLog.length > 0 ? toolCallLog : undefined,
         tokenCount: tokensUsed,
       });
+      await saveMemory(memory, toolCallLog, promptTokens, term);
+      learnFromToolCalls(sessionId, toolCallLog, userId);
       
       // Return response with token usage for frontend context bar
       res.json({ 
@@ -275,7 +257,8 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
             total: tokensUsed,
           },
           historyLength: trimmedHistory.length,
-          model: AI_CONFIG.model,
+          memory: { summarized, context: memory.context },
+          model: llm.model,
           timestamp: new Date().toISOString(),
         }
       });
@@ -314,62 +297,121 @@ export function createChatRouter(genAI: GoogleGenerativeAI, db: Database.Databas
     }
   });
 
-  // Streaming chat endpoint (Server-Sent Events)
-  router.post('/stream', async (req: Request, res: Response) => {
+  // Streaming chat (Server-Sent Events, see utils/streamEvents.ts for the event types)
+  // Streams token deltas and tool-call progress, then final usage
+  async function streamChat(req: Request, res: Response, personal: boolean) {
     const sessionId = getSessionId(req);
-    
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    
+    const userId = personal ? req.user!.id : null;
+    openEventStream(res);
+
+    // Stop calling tools once the client has gone away
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
     try {
-      const { message, history = [] } = req.body;
-      
-      const model = genAI.getGenerativeModel({ 
-        model: AI_CONFIG.model,
-        systemInstruction: getSystemPromptBase(),
-        tools: [{ functionDeclarations: publicDefinitions as unknown[] }],
-        generationConfig: {
-          temperature: AI_CONFIG.temperature,
-          maxOutputTokens: AI_CONFIG.maxOutputTokens,
-          topP: AI_CONFIG.topP,
-          topK: AI_CONFIG.topK,
-        },
-      });
-      
-      // Use history for context
-      const chat = model.startChat({
-        history: history.map((msg: { role: string; content: string }) => ({
-          role: msg.role === 'assistant' ? 'model' : msg.role,
-          parts: [{ text: msg.content }],
-        })),
-      });
-      
-      // Use streaming
-      const streamResult = await chat.sendMessageStream(message);
+      const { message, history = [], term } = req.body;
+      const { memory, summarized, history: trimmedHistory, memoryPrompt } =
+        await prepareConversation(sessionId, userId, personal ? history.slice(-100) : history);
+
+      await logMessage(sessionId, userId, { role: 'user', content: message });
+
+      const chat = startChat(
+        (personal ? getSystemPromptBase(term) + SYSTEM_PROMPT_PERSONAL : getSystemPromptBase(term)) + memoryPrompt,
+        personal ? definitions : publicDefinitions,
+        trimmedHistory
+      );
       
+      const toolCallLog: Array<{ name: string; args: unknown; result: unknown; durationMs: number }> = [];
       let fullText = '';
-      for await (const chunk of streamResult.stream) {
-        const text = chunk.text();
-        if (text) {
-          fullText += text;
-          res.write(`data: ${JSON.stringify({ text, done: false })}\n\n`);
+
+      // Forward text deltas as they arrive
+      const onToken = (text: string) => {
+        fullText += text;
+        writeEvent(res, { type: 'token', text });
+      };
+
+      let finalResponse = await chat.sendStream(message, onToken);
+
+      // Handle function calls, streaming each follow-up answer as well
+      let functionCalls = finalResponse.functionCalls;
+      while (functionCalls.length > 0 && !clientGone) {
+        const functionResponses: ToolResult[] = [];
+
+        for (const call of functionCalls) {
+          const args = call.args;
+          const callId = `${call.name}_${toolCallLog.length + 1}`;
+          writeEvent(res, { type: 'tool_start', id: callId, name: call.name, label: describeToolCall(call.name, args), args });
+          wsServer.streamLog('function', `Calling ${call.name}${personal ? ' (personal)' : ''}`, { args: call.args });
+
+          const startTime = Date.now();
+          const functionResult = await handleFunctionCall(
+            call.name,
+            applyTermOverride(args, term),
+            personal ? { userId: req.user!.id, accessToken: req.user!.accessToken } : undefined
+          );
+          const durationMs = Date.now() - startTime;
+
+          const { ok, summary } = summarizeToolResult(functionResult);
+          writeEvent(res, { type: 'tool_result', id: callId, name: call.name, ok, summary, durationMs });
+          wsServer.streamLog('result', `${call.name} completed in ${durationMs}ms`, { durationMs, resultPreview: summary });
+
+          toolCallLog.push({ name: call.name, args: call.args, result: functionResult, durationMs });
+          functionResponses.push({ id: call.id, name: call.name, response: functionResult });
         }
+
+        finalResponse = await chat.sendStream(functionResponses, onToken);
+        functionCalls = finalResponse.functionCalls;
       }
-      
-      // Log the complete message
-      await logMessage(sessionId, null, { role: 'user', content: message });
-      await logMessage(sessionId, null, { role: 'assistant', content: fullText });
-      
-      res.write(`data: ${JSON.stringify({ text: '', done: true, sessionId })}\n\n`);
+
+      // Real token usage when the provider reports it, otherwise ~4 chars per token
+      const usage = finalResponse.usage;
+      const promptTokens = usage?.promptTokens || Math.ceil(message.length / 4);
+      const responseTokens = usage?.responseTokens || Math.ceil(fullText.length / 4);
+      const totalTokens = usage?.totalTokens || promptTokens + responseTokens;
+      trackUsage(totalTokens);
+
+      await logMessage(sessionId, userId, { 
+        role: 'assistant', 
+        content: fullText,
+        toolCalls: toolCallLog.length > 0 ? toolCallLog : undefined,
+        tokenCount: totalTokens,
+      });
+      await saveMemory(memory, toolCallLog, usage?.promptTokens || 0, term);
+      learnFromToolCalls(sessionId, toolCallLog, userId);
+
+      writeEvent(res, {
+        type: 'usage',
+        promptTokens,
+        responseTokens,
+        totalTokens,
+        maxTokens: MAX_CONTEXT_TOKENS,
+        usagePercent: Math.round((totalTokens / MAX_CONTEXT_TOKENS) * 100 * 100) / 100,
+      });
+      writeEvent(res, {
+        type: 'done',
+        sessionId,
+        response: fullText,
+        debug: {
+          toolsCalled: toolCallLog,
+          tokensUsed: { prompt: promptTokens, response: responseTokens, total: totalTokens },
+          historyLength: trimmedHistory.length,
+          memory: { summarized, context: memory.context },
+          model: llm.model,
+          timestamp: new Date().toISOString(),
+        },
+      });
       res.end();
       
     } catch (error: unknown) {
+      console.error('Chat stream error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      res.write(`data: ${JSON.stringify({ error: errorMessage, done: true })}\n\n`);
+      writeEvent(res, { type: 'error', error: errorMessage });
       res.end();
     }
-  });
+  }
+
+  router.post('/stream', (req: Request, res: Response) => streamChat(req, res, false));
+  router.post('/personal/stream', authMiddleware, (req: Request, res: Response) => streamChat(req, res, true));
 
   return router;
 }
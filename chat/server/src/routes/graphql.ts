@@ -0,0 +1,88 @@
+/**
+ * GraphQL Routes
+ *
+ * POST /api/graphql with { query, variables, operationName } (GET with ?query= also works).
+ * Queries are validated against the schema plus a depth limit before they execute, and
+ * each request gets fresh loaders so related rows are fetched in batches.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import Database from 'better-sqlite3';
+import { execute, parse, specifiedRules, validate, type DocumentNode, type GraphQLError } from 'graphql';
+import { schema, type GraphQLContext } from '../graphql/schema.js';
+import { createLoaders } from '../graphql/loaders.js';
+import { depthLimit } from '../graphql/depthLimit.js';
+
+// Deep enough for course → sections → slots → room → slots → section → instructor → feedback
+const MAX_DEPTH = parseInt(process.env.GRAPHQL_MAX_DEPTH || '8', 10);
+
+const validationRules = [...specifiedRules, depthLimit(MAX_DEPTH)];
+
+interface GraphQLRequest {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+function readRequest(req: Request): GraphQLRequest {
+  if (req.method === 'POST') return (req.body ?? {}) as GraphQLRequest;
+
+  // GET: variables arrive as a JSON string
+  let variables: unknown = req.query.variables;
+  if (typeof variables === 'string') {
+    try {
+      variables = JSON.parse(variables);
+    } catch {
+      variables = undefined;
+    }
+  }
+  return { query: req.query.query, variables, operationName: req.query.operationName };
+}
+
+export function createGraphQLRouter(db: Database.Database) {
+  const router = Router();
+
+  const handle = async (req: Request, res: Response) => {
+    const { query, variables, operationName } = readRequest(req);
+
+    if (typeof query !== 'string' || !query.trim()) {
+      res.status(400).json({ errors: [{ message: 'Missing query' }] });
+      return;
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error: unknown) {
+      res.status(400).json({ errors: [error as GraphQLError] });
+      return;
+    }
+
+    const validationErrors = validate(schema, document, validationRules);
+    if (validationErrors.length > 0) {
+      res.status(400).json({ errors: validationErrors });
+      return;
+    }
+
+    try {
+      const contextValue: GraphQLContext = { db, loaders: createLoaders(db) };
+      const result = await execute({
+        schema,
+        document,
+        contextValue,
+        variableValues: variables && typeof variables === 'object' ? variables as Record<string, unknown> : undefined,
+        operationName: typeof operationName === 'string' ? operationName : undefined,
+      });
+      res.json(result);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ errors: [{ message: errorMessage }] });
+    }
+  };
+
+  router.post('/', handle);
+  router.get('/', handle);
+
+  return router;
+}
@@ -9,12 +9,54 @@ import type { Request, Response } from 'express';
 import Database from 'better-sqlite3';
 import { publicDefinitions, personalDefinitions } from '../mcp/tools/index.js';
 import { AI_CONFIG } from './chat.js';
+import type { LLMProvider } from '../llm/index.js';
+
+// The scheduler daemon refreshes its lock every 30s (see src/scheduler.ts)
+const SCHEDULER_STALE_MS = 2 * 60 * 1000;
+
+interface LockRow {
+  name: string;
+  owner: string;
+  acquired_at: string;
+  heartbeat_at: string;
+}
+
+/**
+ * Scheduler daemon state, read from the tables the scraper writes (null before its first run)
+ */
+function getSchedulerStatus(db: Database.Database) {
+  const tables = db.prepare(`
+    SELECT COUNT(*) as count FROM sqlite_master
+    WHERE type = 'table' AND name IN ('scheduler_job', 'process_lock')
+  `).get() as { count: number };
+  if (tables.count < 2) return null;
+
+  const locks = db.prepare('SELECT * FROM process_lock').all() as LockRow[];
+  const daemon = locks.find(l => l.name === 'scheduler');
+  const scrape = locks.find(l => l.name === 'scrape');
+
+  const lastRuns = db.prepare(`
+    SELECT scrape_type, status, started_at, completed_at, error_message
+    FROM scrape_run
+    WHERE id IN (SELECT MAX(id) FROM scrape_run GROUP BY scrape_type)
+  `).all();
+
+  return {
+    running: !!daemon && Date.now() - Date.parse(daemon.heartbeat_at) < SCHEDULER_STALE_MS,
+    daemon: daemon ? { owner: daemon.owner, started_at: daemon.acquired_at, heartbeat_at: daemon.heartbeat_at } : null,
+    active_scrape: scrape ? { owner: scrape.owner, started_at: scrape.acquired_at, heartbeat_at: scrape.heartbeat_at } : null,
+    jobs: db.prepare('SELECT * FROM scheduler_job ORDER BY name').all(),
+    last_runs: lastRuns,
+  };
+}
 
 export function createHealthRouter(
   db: Database.Database,
   queryCache: { stats: () => unknown },
   embeddingSearch: { getStats: () => unknown },
-  wsServer: { getStats: () => unknown }
+  wsServer: { getStats: () => unknown },
+  slotWatcher?: { getStats: () => unknown },
+  llm?: LLMProvider
 ) {
   const router = Router();
 
@@ -37,13 +79,22 @@ export function createHealthRouter(
       cache: queryCache.stats(),
       embeddings: embeddingSearch.getStats(),
       websocket: wsServer.getStats(),
+      slot_watcher: slotWatcher?.getStats(),
+      scheduler: getSchedulerStatus(db),
       ai_config: {
-        model: AI_CONFIG.model,
+        provider: llm?.name,
+        model: llm?.model,
+        embedding_model: llm?.embeddingModel,
         temperature: AI_CONFIG.temperature,
       },
     });
   });
 
+  // Scheduler status endpoint
+  router.get('/scheduler', (_req: Request, res: Response) => {
+    res.json(getSchedulerStatus(db));
+  });
+
   // Cache stats endpoint
   router.get('/cache/stats', (_req: Request, res: Response) => {
     res.json(queryCache.stats());
@@ -0,0 +1,68 @@
+/**
+ * MCP Routes
+ *
+ * Streamable HTTP transport of the MCP server, stateless: every POST /api/mcp carries
+ * complete JSON-RPC messages and gets its own server instance, so no sessions are kept.
+ * Send "Authorization: Bearer <access token>" to also get the personal tools.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from '../mcp/server.js';
+import type { UserContext } from '../mcp/tools/index.js';
+import { verifyAccessToken } from './auth.js';
+
+function jsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+export function createMcpRouter() {
+  const router = Router();
+
+  router.post('/', async (req: Request, res: Response) => {
+    let userContext: UserContext | undefined;
+    const authHeader = req.headers.authorization;
+
+    if (authHeader?.startsWith('Bearer ')) {
+      try {
+        const user = await verifyAccessToken(authHeader.slice(7));
+        if (!user) {
+          jsonRpcError(res, 401, -32001, 'Invalid or expired token');
+          return;
+        }
+        userContext = { userId: user.id, accessToken: user.accessToken };
+      } catch {
+        jsonRpcError(res, 401, -32001, 'Authentication failed');
+        return;
+      }
+    }
+
+    const server = createMcpServer(userContext);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (!res.headersSent) jsonRpcError(res, 500, -32603, errorMessage);
+    }
+  });
+
+  // Stateless: no server-initiated SSE stream and no sessions to delete
+  const methodNotAllowed = (_req: Request, res: Response) => {
+    jsonRpcError(res, 405, -32000, 'Method not allowed');
+  };
+  router.get('/', methodNotAllowed);
+  router.delete('/', methodNotAllowed);
+
+  return router;
+}
@@ -0,0 +1,128 @@
+/**
+ * Report Routes
+ *
+ * Room utilization reports for facilities planning, under /api/reports:
+ * day × 30-minute slot occupancy per building or per room, peak occupancy, capacity
+ * usage and consistently empty rooms, as JSON, CSV, or SVG/PNG heatmaps.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { getRoomUtilization, type RoomUtilizationReport } from '../models/index.js';
+import { csvField, heatmapToCsv, renderHeatmapPng, renderHeatmapSvg, type Heatmap } from '../utils/heatmap.js';
+
+export const reportsRouter = Router();
+
+const FORMATS = ['json', 'csv', 'svg', 'png'];
+const SCOPES = ['building', 'room'];
+// Heatmap images get tall fast: one panel per room
+const MAX_IMAGE_PANELS = 200;
+
+const str = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+/**
+ * Report matrices as a heatmap: one panel per building (rooms in use) or per room (sections meeting)
+ */
+function utilizationHeatmap(report: RoomUtilizationReport, scope: string, limit?: number): Heatmap {
+  const entries = scope === 'room'
+    ? report.rooms.map(r => ({ title: r.room, matrix: r.matrix }))
+    : report.buildings.map(b => ({ title: b.building, matrix: b.matrix }));
+  const panels = entries.slice(0, limit).map(e => ({
+    title: e.title,
+    rows: report.days.map((day, i) => ({ label: day, values: e.matrix[i] })),
+  }));
+
+  return {
+    title: scope === 'room'
+      ? `Room utilization ${report.term}: sections meeting per 30 minutes`
+      : `Building utilization ${report.term}: rooms in use per 30 minutes`,
+    columns: report.slots,
+    panels,
+    max: Math.max(1, ...panels.flatMap(p => p.rows.flatMap(r => r.values))),
+    panel_header: scope,
+    row_header: 'day',
+  };
+}
+
+// GET /api/reports/rooms/utilization?term=&building=&room=&scope=building|room&format=json|csv|svg|png&limit=
+reportsRouter.get('/rooms/utilization', (req: Request, res: Response) => {
+  const format = str(req.query.format)?.toLowerCase() || 'json';
+  const scope = str(req.query.scope)?.toLowerCase() || 'building';
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+
+  if (!FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of: ${FORMATS.join(', ')}` });
+  }
+  if (!SCOPES.includes(scope)) {
+    return res.status(400).json({ error: `scope must be one of: ${SCOPES.join(', ')}` });
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    const report = getRoomUtilization({
+      term: str(req.query.term),
+      building: str(req.query.building),
+      room: str(req.query.room),
+    });
+
+    if (format === 'json') {
+      return res.json(report);
+    }
+
+    const filename = `room-utilization-${report.term}-${scope}`;
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(heatmapToCsv(utilizationHeatmap(report, scope, limit)));
+    }
+
+    const heatmap = utilizationHeatmap(report, scope, Math.min(limit ?? MAX_IMAGE_PANELS, MAX_IMAGE_PANELS));
+    if (format === 'svg') {
+      res.setHeader('Content-Type', 'image/svg+xml');
+      return res.send(renderHeatmapSvg(heatmap));
+    }
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.png"`);
+    return res.send(renderHeatmapPng(heatmap));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// GET /api/reports/rooms/empty?term=&building=&threshold=0.1&format=json|csv
+reportsRouter.get('/rooms/empty', (req: Request, res: Response) => {
+  const format = str(req.query.format)?.toLowerCase() || 'json';
+  const threshold = req.query.threshold !== undefined ? parseFloat(String(req.query.threshold)) : undefined;
+
+  if (format !== 'json' && format !== 'csv') {
+    return res.status(400).json({ error: 'format must be json or csv' });
+  }
+  if (threshold !== undefined && (Number.isNaN(threshold) || threshold < 0 || threshold > 1)) {
+    return res.status(400).json({ error: 'threshold must be a share between 0 and 1' });
+  }
+
+  try {
+    const report = getRoomUtilization({
+      term: str(req.query.term),
+      building: str(req.query.building),
+      empty_threshold: threshold,
+    });
+
+    if (format === 'json') {
+      return res.json({ term: report.term, threshold: report.empty_threshold, rooms: report.empty_rooms });
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="empty-rooms-${report.term}.csv"`);
+    const lines = ['room,building,utilization,last_used_term', ...report.empty_rooms.map(r =>
+      [r.room, r.building, r.utilization, r.last_used_term ?? ''].map(csvField).join(',')
+    )];
+    return res.send(lines.join('\n') + '\n');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: errorMessage });
+  }
+});
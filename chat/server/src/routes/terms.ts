@@ -0,0 +1,29 @@
+/**
+ * Term Routes
+ * 
+ * Lists available terms and the resolved current term.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { listTerms, getCurrentTerm } from '../utils/terms.js';
+
+export const termsRouter = Router();
+
+// GET /api/terms - all terms with section counts and date ranges
+termsRouter.get('/', (_req: Request, res: Response) => {
+  try {
+    res.json({
+      current: getCurrentTerm(),
+      terms: listTerms(),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// GET /api/terms/current - just the resolved current term
+termsRouter.get('/current', (_req: Request, res: Response) => {
+  res.json({ current: getCurrentTerm() });
+});
@@ -0,0 +1,491 @@
+/**
+ * Public REST API v1
+ *
+ * Read-only JSON endpoints for catalog data under /api/v1, for student apps that want
+ * the data without going through the chatbot. Backed by the same models as the MCP tools.
+ *
+ * - Lists use cursor pagination: pass next_cursor back as ?cursor= until it is null
+ * - Every response carries an ETag derived from the latest scrape_run; send it back as
+ *   If-None-Match to get a 304 until a scrape changes the catalog
+ * - GET /api/v1/openapi.json describes every route (generated from ROUTES below)
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import {
+  getCourse,
+  getCourseSections,
+  getCurriculum,
+  getInstructorSchedule,
+  getRoomSchedule,
+  listCourses,
+  listDegreePrograms,
+  listInstructors,
+  listRooms,
+  listSections,
+} from '../models/index.js';
+import { getCurrentTerm, listTerms, resolveTerm } from '../utils/terms.js';
+import { toPage, type CursorKey } from '../utils/pagination.js';
+import { buildOpenApiDocument, parseParams, type ApiParam, type ApiParams, type ApiRoute, type JsonSchema } from '../utils/openapi.js';
+
+const BASE_PATH = '/api/v1';
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const termParam: ApiParam = { name: 'term', in: 'query', type: 'string', description: 'Term code, e.g. 2025-2 (default: current term)' };
+const dayParam: ApiParam = { name: 'day', in: 'query', type: 'string', description: 'Only meetings on this day', enum: DAYS };
+const departmentParam: ApiParam = { name: 'department', in: 'query', type: 'string', description: 'Department code, e.g. DISCS' };
+
+const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+/** Rows for a page: one more than the limit, so toPage can tell whether another page follows */
+const fetchSize = (params: ApiParams) => (params.limit as number) + 1;
+
+export const ROUTES: ApiRoute[] = [
+  {
+    path: '/terms',
+    operationId: 'listTerms',
+    tag: 'Terms',
+    summary: 'All terms with section counts and the current term',
+    schema: 'TermList',
+    handler: () => ({ current: getCurrentTerm(), data: listTerms() }),
+  },
+  {
+    path: '/courses',
+    operationId: 'listCourses',
+    tag: 'Courses',
+    summary: 'Course catalog in course code order',
+    paginated: true,
+    cursorField: 'course_code',
+    schema: 'Course',
+    params: [
+      { name: 'q', in: 'query', type: 'string', description: 'Code or title substring, e.g. CSCI or calculus' },
+      departmentParam,
+      termParam,
+    ],
+    handler: params => listCourses({
+      q: str(params.q),
+      department: str(params.department),
+      term: resolveTerm(str(params.term)),
+      after: str(params.cursor),
+    }, fetchSize(params)),
+  },
+  {
+    path: '/courses/:code',
+    operationId: 'getCourse',
+    tag: 'Courses',
+    summary: 'One course with its sections in a term',
+    schema: 'CourseDetail',
+    params: [
+      { name: 'code', in: 'path', type: 'string', description: 'Exact course code, e.g. CSCI 21' },
+      termParam,
+    ],
+    notFound: 'Course not found',
+    handler: params => {
+      const term = resolveTerm(str(params.term));
+      const course = getCourse(params.code as string, term);
+      return course && { ...course, term, sections: getCourseSections(course.course_code, term).sections };
+    },
+  },
+  {
+    path: '/sections',
+    operationId: 'listSections',
+    tag: 'Sections',
+    summary: 'Class sections of a term with their meetings',
+    description: 'Filters combine with AND. starts_after/ends_before keep sections whose every meeting lies inside the range.',
+    paginated: true,
+    cursorField: 'id',
+    schema: 'Section',
+    params: [
+      termParam,
+      departmentParam,
+      { name: 'course', in: 'query', type: 'string', description: 'Exact course code' },
+      { name: 'instructor', in: 'query', type: 'string', description: 'Instructor name substring' },
+      { name: 'modality', in: 'query', type: 'string', description: 'Meets at least once in this mode', enum: ['ONSITE', 'ONLINE', 'HYBRID'] },
+      { ...dayParam, description: 'Meets on this day' },
+      { name: 'starts_after', in: 'query', type: 'time', description: 'Every meeting starts at or after this time (HH:MM)' },
+      { name: 'ends_before', in: 'query', type: 'time', description: 'Every meeting ends at or before this time (HH:MM)' },
+      { name: 'has_free_slots', in: 'query', type: 'boolean', description: 'true = only sections with free slots, false = only full ones' },
+    ],
+    handler: params => listSections({
+      term: resolveTerm(str(params.term)),
+      department: str(params.department),
+      course: str(params.course),
+      instructor: str(params.instructor),
+      modality: str(params.modality),
+      day: str(params.day),
+      starts_after: str(params.starts_after),
+      ends_before: str(params.ends_before),
+      has_free_slots: params.has_free_slots as boolean | undefined,
+      after: typeof params.cursor === 'number' ? params.cursor : undefined,
+    }, fetchSize(params)),
+  },
+  {
+    path: '/instructors',
+    operationId: 'listInstructors',
+    tag: 'Instructors',
+    summary: 'Instructors in name order with their section count in a term',
+    paginated: true,
+    cursorField: 'name',
+    schema: 'Instructor',
+    params: [
+      { name: 'q', in: 'query', type: 'string', description: 'Name words, e.g. "yap romina"' },
+      departmentParam,
+      termParam,
+    ],
+    handler: params => listInstructors({
+      q: str(params.q),
+      department: str(params.department),
+      term: resolveTerm(str(params.term)),
+      after: str(params.cursor),
+    }, fetchSize(params)),
+  },
+  {
+    path: '/instructors/:name/schedule',
+    operationId: 'getInstructorSchedule',
+    tag: 'Instructors',
+    summary: 'Weekly meetings of an instructor',
+    schema: 'InstructorSchedule',
+    params: [
+      { name: 'name', in: 'path', type: 'string', description: 'Instructor name or surname, matched word by word' },
+      termParam,
+      dayParam,
+    ],
+    notFound: 'No classes found for this instructor',
+    handler: params => {
+      const name = params.name as string;
+      if (name.replace(/[\s,]/g, '').length < 2) return null;
+      const result = getInstructorSchedule(name, resolveTerm(str(params.term)), str(params.day), 200);
+      return result.schedule.length > 0 ? result : null;
+    },
+  },
+  {
+    path: '/rooms',
+    operationId: 'listRooms',
+    tag: 'Rooms',
+    summary: 'Rooms in code order with their number of weekly meetings in a term',
+    paginated: true,
+    cursorField: 'code',
+    schema: 'Room',
+    params: [
+      { name: 'q', in: 'query', type: 'string', description: 'Room code, e.g. SEC A 201 or CTC' },
+      { name: 'building', in: 'query', type: 'string', description: 'Building code, e.g. SEC-A, CTC' },
+      termParam,
+    ],
+    handler: params => listRooms({
+      q: str(params.q),
+      building: str(params.building),
+      term: resolveTerm(str(params.term)),
+      after: str(params.cursor),
+    }, fetchSize(params)),
+  },
+  {
+    path: '/rooms/:code/schedule',
+    operationId: 'getRoomSchedule',
+    tag: 'Rooms',
+    summary: 'Weekly meetings and free periods of a room',
+    schema: 'RoomSchedule',
+    params: [
+      { name: 'code', in: 'path', type: 'string', description: 'Room code, e.g. SEC-A201' },
+      termParam,
+      dayParam,
+    ],
+    handler: params => getRoomSchedule(params.code as string, resolveTerm(str(params.term)), str(params.day), 500),
+  },
+  {
+    path: '/curricula',
+    operationId: 'listCurricula',
+    tag: 'Curricula',
+    summary: 'Degree programs (one per curriculum version) in code order',
+    paginated: true,
+    cursorField: 'code',
+    schema: 'Program',
+    params: [
+      { name: 'q', in: 'query', type: 'string', description: 'Program code or name substring' },
+    ],
+    handler: params => listDegreePrograms(str(params.q), fetchSize(params), str(params.cursor)).programs,
+  },
+  {
+    path: '/curricula/:code',
+    operationId: 'getCurriculum',
+    tag: 'Curricula',
+    summary: 'Courses of a degree program by year and semester',
+    schema: 'Curriculum',
+    params: [
+      { name: 'code', in: 'path', type: 'string', description: 'Program code (newest version) or version code, e.g. BS CS or BS CS_2024_1' },
+      { name: 'year', in: 'query', type: 'integer', description: 'Only this year level', minimum: 1, maximum: 5 },
+      { name: 'semester', in: 'query', type: 'integer', description: 'Only this semester (0 = intersession)', minimum: 0, maximum: 2 },
+    ],
+    notFound: 'Degree program not found',
+    handler: params => {
+      const code = params.code as string;
+      if (!/\S{2}/.test(code)) return null;
+      const [program, version] = code.includes('_') ? [code.split('_')[0], code] : [code, undefined];
+      const result = getCurriculum(program, version, params.year as number | undefined, params.semester as number | undefined);
+      return 'found' in result ? null : result;
+    },
+  },
+];
+
+const slotSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    day: { type: 'string' },
+    start_time: { type: 'string', example: '08:00' },
+    end_time: { type: 'string', example: '09:30' },
+    room: { type: ['string', 'null'] },
+    modality: { type: ['string', 'null'] },
+  },
+};
+
+const meetingSchema = (extra: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties: {
+    course_code: { type: 'string' },
+    section: { type: 'string' },
+    day: { type: ['string', 'null'] },
+    start_time: { type: ['string', 'null'] },
+    end_time: { type: ['string', 'null'] },
+    term: { type: 'string' },
+    ...extra,
+  },
+});
+
+const nullableString = { type: ['string', 'null'] };
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Term: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', example: '2025-2' },
+      label: { type: 'string', example: '2nd Semester, SY 2025-2026' },
+      year: { type: 'integer' },
+      semester: { type: 'integer', description: '0 = intersession' },
+      starts: { type: 'string', format: 'date' },
+      ends: { type: 'string', format: 'date' },
+      section_count: { type: 'integer' },
+      last_scraped: nullableString,
+      is_current: { type: 'boolean' },
+    },
+  },
+  TermList: {
+    type: 'object',
+    properties: {
+      current: { type: 'string' },
+      data: { type: 'array', items: { $ref: '#/components/schemas/Term' } },
+    },
+  },
+  Course: {
+    type: 'object',
+    properties: {
+      course_code: { type: 'string', example: 'CSCI 21' },
+      title: { type: 'string' },
+      units: { type: 'number' },
+      department: nullableString,
+      section_count: { type: 'integer', description: 'Sections in the requested term' },
+    },
+  },
+  CourseDetail: {
+    allOf: [
+      { $ref: '#/components/schemas/Course' },
+      {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                section: { type: 'string' },
+                instructor: nullableString,
+                max_capacity: { type: 'integer' },
+                free_slots: { type: 'integer' },
+                remarks: nullableString,
+                term: { type: 'string' },
+                schedule: { ...nullableString, example: 'Monday 08:00-09:30 SEC-A201; Thursday 08:00-09:30 SEC-A201' },
+              },
+            },
+          },
+        },
+      },
+    ],
+  },
+  Section: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      term: { type: 'string' },
+      course_code: { type: 'string' },
+      title: { type: 'string' },
+      units: { type: 'number' },
+      section: { type: 'string' },
+      instructor: nullableString,
+      department: nullableString,
+      max_capacity: { type: 'integer' },
+      free_slots: { type: 'integer' },
+      lang: nullableString,
+      level: nullableString,
+      remarks: nullableString,
+      has_prerequisites: { type: 'boolean' },
+      schedule: { type: 'array', items: slotSchema },
+    },
+  },
+  Instructor: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      department: nullableString,
+      section_count: { type: 'integer', description: 'Sections in the requested term' },
+    },
+  },
+  InstructorSchedule: {
+    type: 'object',
+    properties: {
+      instructor: { type: 'string' },
+      schedule: { type: 'array', items: meetingSchema({ instructor: { type: 'string' }, room: nullableString }) },
+    },
+  },
+  Room: {
+    type: 'object',
+    properties: {
+      code: { type: 'string' },
+      building: nullableString,
+      slot_count: { type: 'integer', description: 'Weekly meetings in the requested term' },
+    },
+  },
+  RoomSchedule: {
+    type: 'object',
+    properties: {
+      room: { type: 'string' },
+      schedule: { type: 'array', items: meetingSchema({ room: { type: 'string' }, instructor: nullableString }) },
+      free_periods: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            day: { type: 'string' },
+            start_time: { type: 'string' },
+            end_time: { type: 'string' },
+            duration_minutes: { type: 'integer' },
+          },
+        },
+      },
+      weekly_grid: { type: 'object', description: 'Meetings and total hours per day (full week only)' },
+      summary: { type: 'object', description: 'Total classes, busiest day and total hours (full week only)' },
+    },
+  },
+  Program: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', example: 'BS CS_2024_1' },
+      name: { type: 'string' },
+      course_count: { type: 'integer' },
+    },
+  },
+  Curriculum: {
+    type: 'object',
+    properties: {
+      program_code: { type: 'string' },
+      program_name: { type: 'string' },
+      version: { type: 'string' },
+      curriculum: {
+        type: 'object',
+        description: 'Courses keyed by year, then semester',
+        additionalProperties: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { code: { type: 'string' }, title: { type: 'string' }, prereqs: { type: 'string' } },
+            },
+          },
+        },
+      },
+      summary: { type: 'object', additionalProperties: { type: 'integer' } },
+      total_courses: { type: 'integer' },
+    },
+  },
+};
+
+export function buildV1OpenApi(): JsonSchema {
+  return buildOpenApiDocument(ROUTES, {
+    title: 'SISIA Catalog API',
+    version: '1.0.0',
+    description: 'Read-only Ateneo class schedules, courses, instructors, rooms and curricula scraped from AISIS.',
+    basePath: BASE_PATH,
+  }, SCHEMAS);
+}
+
+export function createV1Router(db: Database.Database) {
+  const router = Router();
+  const openApi = buildV1OpenApi();
+
+  /**
+   * Catalog version: changes whenever a scrape run starts, commits or is rolled back
+   */
+  function getDataVersion(): string {
+    try {
+      const row = db.prepare(`
+        SELECT MAX(id) as id,
+               SUM(status = 'completed') as completed,
+               SUM(status = 'rolled_back') as rolled_back
+        FROM scrape_run
+      `).get() as { id: number | null; completed: number | null; rolled_back: number | null };
+      return `${row.id ?? 0}.${row.completed ?? 0}.${row.rolled_back ?? 0}`;
+    } catch {
+      return '0';
+    }
+  }
+
+  function etagFor(req: Request): string {
+    const hash = createHash('sha1').update(`${getDataVersion()}|${req.originalUrl}`).digest('base64url');
+    return `W/"${hash.slice(0, 27)}"`;
+  }
+
+  router.get('/openapi.json', (_req: Request, res: Response) => {
+    res.json(openApi);
+  });
+
+  for (const route of ROUTES) {
+    router.get(route.path, (req: Request, res: Response) => {
+      const etag = etagFor(req);
+      res.set('ETag', etag);
+      res.set('Cache-Control', 'public, max-age=60');
+
+      const ifNoneMatch = req.get('If-None-Match');
+      if (ifNoneMatch && ifNoneMatch.split(',').map(t => t.trim()).includes(etag)) {
+        res.status(304).end();
+        return;
+      }
+
+      const parsed = parseParams(route, req.params as Record<string, string>, req.query as Record<string, unknown>);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      try {
+        const result = route.handler(parsed.params);
+        if (result === null || result === undefined) {
+          res.status(404).json({ error: route.notFound || 'Not found' });
+          return;
+        }
+
+        if (route.paginated && route.cursorField) {
+          const field = route.cursorField;
+          res.json(toPage(result as Record<string, CursorKey>[], parsed.params.limit as number, row => row[field]));
+        } else {
+          res.json(result);
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        res.status(500).json({ error: errorMessage });
+      }
+    });
+  }
+
+  return router;
+}
@@ -11,6 +11,7 @@
 
 import * as cheerio from 'cheerio';
 import { loginToAISIS } from './aisisSession.js';
+import { getCurrentTerm } from '../utils/terms.js';
 
 export interface HoldOrder {
   type: string;
@@ -54,7 +55,7 @@ export async function scrapeHoldOrders(
   const studentNameText = $('span.text04').last().text().trim();
   
   // Extract term from dropdown or header
-  const termText = $('select option:selected').text().trim() || term || '2025-2';
+  const termText = $('select option:selected').text().trim() || term || getCurrentTerm();
   
   // Check for "no hold orders" message
   const pageText = $('body').text().toLowerCase();
@@ -13,6 +13,7 @@
 import * as cheerio from 'cheerio';
 import { loginToAISIS } from './aisisSession.js';
 import { db } from '../mcp/tools/db.js';
+import { getCurrentTerm } from '../utils/terms.js';
 
 export interface PersonalScheduleSlot {
   time: string;
@@ -56,7 +57,7 @@ export async function scrapePersonalSchedule(
   const schedule: PersonalScheduleSlot[] = [];
   
   // Extract term from page header or dropdown
-  const termText = $('span.text04').first().text().trim() || term || '2025-2';
+  const termText = $('span.text04').first().text().trim() || term || getCurrentTerm();
   
   // Extract available terms from dropdown
   const availableTerms: { value: string; label: string }[] = [];
@@ -196,7 +197,7 @@ function enrichWithInstructors(
   term: string
 ): PersonalScheduleSlot[] {
   // Normalize term format - AISIS returns "2nd Semester, SY 2025-2026" but DB uses "2025-2"
-  let dbTerm = '2025-2'; // Default to current term
+  let dbTerm = getCurrentTerm();
   if (term) {
     // Try to extract term code from various formats
     const yearMatch = term.match(/20\d{2}/);
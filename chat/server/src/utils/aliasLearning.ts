@@ -0,0 +1,127 @@
+/**
+ * Alias Learning
+ *
+ * Watches the tool calls of each chat session. When a lookup fails with "did you mean"
+ * suggestions (similar_courses, suggestions) and a later call of the same session
+ * succeeds with one of them, that counts as one confirmation that what the student typed
+ * is an alias of the suggestion (aliases.ts uses it once enough learners confirmed it):
+ * - "COMPSCI 21" → CSCI 21 teaches the prefix alias compsci → CSCI
+ * - "CSCI 199" → CSCI 199.1 teaches a course alias (only used while CSCI 199 does not exist)
+ * - "info sys" → BS MIS teaches a program alias
+ */
+
+import { aliasKey, learnAlias, splitCourseCode } from './aliases.js';
+import { normalizeCourseCode } from './courseAliases.js';
+
+// Suggestions still count when the student confirms a few turns later
+const PENDING_TTL_MS = 30 * 60 * 1000;
+const MAX_PENDING_SESSIONS = 500;
+
+interface PendingSuggestion {
+  kind: 'course' | 'program';
+  input: string;
+  candidates: string[];
+  at: number;
+}
+
+const pending = new Map<string, PendingSuggestion[]>();
+
+function argument(args: Record<string, unknown>, name: string): string | null {
+  const value = args[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Codes offered by a failed lookup, or null if the call did not suggest anything
+function suggestionsOf(args: Record<string, unknown>, result: Record<string, unknown>): PendingSuggestion | null {
+  const offered = [result.similar_courses, result.suggestions].find(Array.isArray) as unknown[] | undefined;
+  if (!offered) return null;
+
+  const candidates = offered
+    .map(s => typeof s === 'string' ? s : (s as { code?: unknown } | null)?.code)
+    .filter((c): c is string => typeof c === 'string');
+  if (candidates.length === 0) return null;
+
+  const program = argument(args, 'program');
+  if (program) return { kind: 'program', input: program, candidates, at: Date.now() };
+  const courseCode = argument(args, 'course_code');
+  if (courseCode) return { kind: 'course', input: courseCode, candidates, at: Date.now() };
+  return null;
+}
+
+// Course or program a successful call looked up
+function resolvedOf(args: Record<string, unknown>, result: Record<string, unknown>): { kind: 'course' | 'program'; value: string } | null {
+  if ('error' in result || result.found === false) return null;
+
+  const program = argument(args, 'program');
+  if (program) {
+    const code = typeof result.program_code === 'string' ? result.program_code : program;
+    return { kind: 'program', value: code.split('_')[0] };
+  }
+  const courseCode = argument(args, 'course_code');
+  if (courseCode) {
+    return { kind: 'course', value: typeof result.course_code === 'string' ? result.course_code : normalizeCourseCode(courseCode) };
+  }
+  return null;
+}
+
+function learn(suggestion: PendingSuggestion, target: string, learner: string) {
+  if (suggestion.kind === 'program') {
+    void learnAlias('program', suggestion.input, target, learner);
+    return;
+  }
+
+  // Same number under another prefix: the prefix was the alias
+  const typed = normalizeCourseCode(suggestion.input);
+  const typedParts = splitCourseCode(typed);
+  const targetParts = splitCourseCode(target);
+  const rawPrefix = suggestion.input.match(/^[A-Za-z-]+/)?.[0];
+  if (typedParts && targetParts && rawPrefix && typedParts.number === targetParts.number && typedParts.prefix !== targetParts.prefix) {
+    void learnAlias('course_prefix', rawPrefix, targetParts.prefix, learner);
+  } else {
+    void learnAlias('course', typed, target, learner);
+  }
+}
+
+/**
+ * Learn aliases from the tool calls of one chat turn (in call order).
+ * A signed-in user confirms an alias once however many sessions they open.
+ */
+export function learnFromToolCalls(
+  sessionId: string,
+  toolCalls: Array<{ name: string; args: unknown; result: unknown }>,
+  userId: string | null = null
+): void {
+  const learner = userId ? `user:${userId}` : `session:${sessionId}`;
+  const now = Date.now();
+  const open = (pending.get(sessionId) || []).filter(p => now - p.at < PENDING_TTL_MS);
+
+  for (const call of toolCalls) {
+    const args = (call.args || {}) as Record<string, unknown>;
+    if (!call.result || typeof call.result !== 'object') continue;
+    const result = call.result as Record<string, unknown>;
+
+    const suggestion = suggestionsOf(args, result);
+    if (suggestion) {
+      open.push(suggestion);
+      continue;
+    }
+
+    const resolved = resolvedOf(args, result);
+    if (!resolved) continue;
+
+    for (let i = open.length - 1; i >= 0; i--) {
+      const candidate = open[i].kind === resolved.kind
+        && open[i].candidates.find(c => aliasKey(c.split('_')[0]) === aliasKey(resolved.value));
+      if (!candidate) continue;
+      learn(open[i], candidate.split('_')[0], learner);
+      open.splice(i, 1);
+    }
+  }
+
+  pending.delete(sessionId);
+  if (open.length > 0) {
+    pending.set(sessionId, open);
+    // Forget the oldest sessions (Map keeps insertion order)
+    while (pending.size > MAX_PENDING_SESSIONS) pending.delete(pending.keys().next().value as string);
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { learnAlias, resolveCourseCode, resolveCoursePrefix, resolveProgram } from './aliases.js';
+
+// Small catalog in place of sisia.db
+vi.mock('../mcp/tools/db.js', async () => {
+  const { default: Database } = await import('better-sqlite3');
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE department (id INTEGER PRIMARY KEY, code TEXT, name TEXT);
+    CREATE TABLE course (id INTEGER PRIMARY KEY, course_code TEXT, department_id INTEGER);
+    CREATE TABLE degree_program (code TEXT, name TEXT, version_year INTEGER);
+    INSERT INTO department VALUES (1, 'PH', 'Department of Philosophy'), (2, 'HI', 'Department of History');
+    INSERT INTO course (course_code, department_id) VALUES
+      ('PHILO 11', 1), ('PHILO 12', 1), ('HISTO 11', 2), ('CSCI 21', NULL), ('CSCI 199.1', NULL);
+    INSERT INTO degree_program VALUES
+      ('BS MIS_2024_1', 'BACHELOR OF SCIENCE IN MANAGEMENT INFORMATION SYSTEMS', 2024),
+      ('BS CS_2024_1', 'BACHELOR OF SCIENCE IN COMPUTER SCIENCE', 2024);
+  `);
+  return { db };
+});
+
+// Supabase accepts every write and has no votes or learned aliases of its own
+vi.mock('./supabase.js', () => {
+  const result = { data: [], error: null, count: 0 };
+  const query: object = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: typeof result) => void) => resolve(result)
+      : () => query,
+  });
+  return { supabaseAdmin: query };
+});
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+async function confirm(kind: Parameters<typeof learnAlias>[0], alias: string, target: string, learners: string[]) {
+  for (const learner of learners) await learnAlias(kind, alias, target, learner);
+}
+
+describe('catalog aliases', () => {
+  it('resolves unique prefix abbreviations and department names', () => {
+    expect(resolveCoursePrefix('phil')).toBe('PHILO');
+    expect(resolveCoursePrefix('Hist')).toBe('HISTO');
+    expect(resolveCoursePrefix('Philosophy')).toBe('PHILO');
+  });
+
+  it('resolves programs by code, subject and acronym', () => {
+    expect(resolveProgram('bsmis')).toEqual(['BS MIS']);
+    expect(resolveProgram('Management Information Systems')).toEqual(['BS MIS']);
+    expect(resolveProgram('bs mis 2024')).toEqual(['BS MIS']);
+  });
+});
+
+describe('learned aliases', () => {
+  it('take effect only after several distinct learners confirm them', async () => {
+    await confirm('course_prefix', 'philos', 'PHILO', ['session:a', 'session:a', 'user:1']);
+    expect(resolveCoursePrefix('philos')).toBeUndefined();
+
+    await confirm('course_prefix', 'philos', 'PHILO', ['session:b']);
+    expect(resolveCoursePrefix('philos')).toBe('PHILO');
+  });
+
+  it('never replace a catalog prefix abbreviation or program acronym', async () => {
+    const learners = ['user:1', 'user:2', 'user:3'];
+    await confirm('course_prefix', 'phil', 'PHYS', learners);
+    await confirm('program', 'mis', 'BS CS', learners);
+
+    expect(resolveCoursePrefix('phil')).toBe('PHILO');
+    expect(resolveProgram('mis')).toEqual(['BS MIS']);
+  });
+
+  it('rewrite a course code only while it is missing from the catalog', async () => {
+    const learners = ['user:1', 'user:2', 'user:3'];
+    await confirm('course', 'CSCI 199', 'CSCI 199.1', learners);
+    await confirm('course', 'CSCI 21', 'CSCI 199.1', learners);
+
+    expect(resolveCourseCode('CSCI 199')).toBe('CSCI 199.1');
+    expect(resolveCourseCode('CSCI 21')).toBeUndefined();
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Alias Resolution
+ *
+ * Turns what students type into catalog codes, for course prefixes ("cs" → CSCI),
+ * whole course codes and degree programs ("management honors" → BS MGT-H).
+ * Sources:
+ * 1. Derived from the catalog: course prefixes and their abbreviations, department codes
+ *    and names, program codes, program names and their acronyms, honors and track
+ *    variants (parseDegreeCode)
+ * 2. Learned: a "did you mean" suggestion that chats then resolved (learned_alias table,
+ *    see aliasLearning.ts). Only fills gaps in the catalog aliases, and only once
+ *    ALIAS_MIN_CONFIRMATIONS distinct learners (signed-in users, or public chat sessions)
+ *    resolved the same suggestion (learned_alias_vote table)
+ * 3. Overrides: data/aliases.json, edited by hand (ALIAS_OVERRIDES_PATH for another file);
+ *    these win over everything else
+ *
+ * The index is rebuilt at most once a minute, so new scrapes, learned aliases and edits
+ * to the override file are picked up without a restart.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { db } from '../mcp/tools/db.js';
+import { supabaseAdmin } from './supabase.js';
+import { getTrackFullName, parseDegreeCode } from './degreeCodes.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const OVERRIDES_PATH = process.env.ALIAS_OVERRIDES_PATH || path.resolve(__dirname, '../data/aliases.json');
+
+const CACHE_TTL_MS = 60 * 1000;
+// Distinct learners that must resolve the same suggestion before a learned alias is used
+const MIN_CONFIRMATIONS = Number(process.env.ALIAS_MIN_CONFIRMATIONS) || 3;
+const MAX_VOTE_KEYS = 5000;
+// Shortest abbreviation derived from a prefix ("phil" → PHILO, not "ph")
+const MIN_ABBREVIATION = 3;
+// Words left out of program acronyms ("management of applied chemistry" → mac)
+const ACRONYM_STOPWORDS = new Set(['of', 'and', 'in', 'the', 'with', 'for', '&']);
+
+export type AliasKind = 'course_prefix' | 'course' | 'program';
+
+export interface LearnedAlias {
+  kind: AliasKind;
+  alias: string;
+  target: string;
+}
+
+interface AliasOverrides {
+  course_prefixes?: Record<string, string>;
+  courses?: Record<string, string>;
+  programs?: Record<string, string | string[]>;
+}
+
+interface AliasIndex {
+  prefixes: Map<string, string>;    // prefix key → course prefix
+  courses: Map<string, string>;     // course key → course code
+  programs: Map<string, string[]>;  // program key → program codes, best first
+  courseCodes: Set<string>;
+  programCodes: Set<string>;
+}
+
+let index: AliasIndex | null = null;
+let builtAt = 0;
+
+const learned = new Map<string, LearnedAlias>();
+// Learners seen per "kind:alias:target", for when votes cannot be counted in Supabase
+const votes = new Map<string, Set<string>>();
+let learnedLoadedAt = 0;
+let learnedLoading = false;
+
+/**
+ * Key of a program or course alias: lowercase, single spaces ("BS  CS" → "bs cs")
+ */
+export function aliasKey(value: string): string {
+  return value.toLowerCase().replace(/[\s_]+/g, ' ').trim();
+}
+
+/**
+ * Key of a course prefix alias: letters only ("Phy-Ed" → "phyed")
+ */
+export function prefixKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// "CSCI 199.1" → { prefix: "CSCI", number: "199.1" }
+export function splitCourseCode(code: string): { prefix: string; number: string } | null {
+  const match = code.trim().match(/^([A-Za-z-]+)\s*-?\s*(\d+\.?\d*\w*)$/);
+  return match ? { prefix: match[1], number: match[2] } : null;
+}
+
+function addAlias(map: Map<string, string[]>, key: string, code: string) {
+  if (!key) return;
+  const codes = map.get(key);
+  if (!codes) map.set(key, [code]);
+  else if (!codes.includes(code)) codes.push(code);
+}
+
+// "BACHELOR OF SCIENCE IN COMPUTER SCIENCE (HONORS PROGRAM)" → "computer science"
+function programSubject(name: string): string | null {
+  const match = name.replace(/\(.*?\)/g, ' ').match(/^\s*(?:bachelor|master|doctor)\s+of\s+[a-z ]+?\s+in\s+(.+)$/i);
+  return match ? aliasKey(match[1]) : null;
+}
+
+function acronym(subject: string): string | null {
+  const words = subject.split(' ').filter(w => !ACRONYM_STOPWORDS.has(w));
+  return words.length >= 2 ? words.map(w => w[0]).join('') : null;
+}
+
+function derivePrefixes(index: AliasIndex) {
+  const rows = db.prepare(`
+    SELECT c.course_code, d.code AS department_code, d.name AS department_name
+    FROM course c
+    LEFT JOIN department d ON c.department_id = d.id
+  `).all() as Array<{ course_code: string; department_code: string | null; department_name: string | null }>;
+
+  const courseCounts = new Map<string, number>();
+  const departments = new Map<string, { name: string | null; prefixes: Map<string, number> }>();
+
+  for (const row of rows) {
+    index.courseCodes.add(row.course_code);
+    const parsed = splitCourseCode(row.course_code);
+    if (!parsed) continue;
+    courseCounts.set(parsed.prefix, (courseCounts.get(parsed.prefix) || 0) + 1);
+
+    if (row.department_code) {
+      const department = departments.get(row.department_code) || { name: row.department_name, prefixes: new Map() };
+      department.prefixes.set(parsed.prefix, (department.prefixes.get(parsed.prefix) || 0) + 1);
+      departments.set(row.department_code, department);
+    }
+  }
+
+  // Prefixes themselves, however they are spelled ("pathfit" → PATHFit)
+  for (const prefix of courseCounts.keys()) index.prefixes.set(prefixKey(prefix), prefix);
+
+  // Abbreviations shared by no other prefix ("phil" → PHILO, "hist" → HISTO)
+  const abbreviations = new Map<string, string[]>();
+  for (const prefix of courseCounts.keys()) {
+    const key = prefixKey(prefix);
+    for (let length = MIN_ABBREVIATION; length < key.length; length++) {
+      addAlias(abbreviations, key.slice(0, length), prefix);
+    }
+  }
+  for (const [abbreviation, prefixes] of abbreviations) {
+    if (prefixes.length === 1 && !index.prefixes.has(abbreviation)) index.prefixes.set(abbreviation, prefixes[0]);
+  }
+
+  // Department code and name → the prefix most of its courses use
+  for (const [code, department] of departments) {
+    const [main] = [...department.prefixes.entries()].sort((a, b) => b[1] - a[1])[0];
+    const keys = [code, department.name, department.name?.replace(/^department\s+of\s+/i, '')];
+    for (const key of keys) {
+      const k = key ? prefixKey(key) : '';
+      if (k && !index.prefixes.has(k)) index.prefixes.set(k, main);
+    }
+  }
+}
+
+function derivePrograms(index: AliasIndex) {
+  const rows = db.prepare(`
+    SELECT code, name FROM degree_program ORDER BY version_year DESC
+  `).all() as Array<{ code: string; name: string }>;
+
+  // Newest version of each program; regular programs first so they win shared aliases
+  const programs = new Map<string, ReturnType<typeof parseDegreeCode>>();
+  for (const row of rows) {
+    const parsed = parseDegreeCode(row.code, row.name);
+    if (parsed.programCode && !programs.has(parsed.programCode)) programs.set(parsed.programCode, parsed);
+  }
+  const ordered = [...programs.values()].sort((a, b) => Number(a.isHonors) - Number(b.isHonors));
+
+  for (const parsed of ordered) {
+    const code = parsed.programCode;
+    index.programCodes.add(code);
+
+    // "BS CS" → bs cs, bscs, cs; the full code too for honors and tracks ("ab ec-h")
+    const [degree, ...rest] = parsed.programBase.split(/\s+/);
+    const bare = rest.join(' ');
+    const subject = programSubject(parsed.fullName);
+    const codeNames = [parsed.programBase, parsed.programBase.replace(/\s+/g, ''), bare];
+    const names = [...codeNames];
+    if (subject) names.push(subject, `${degree} ${subject}`);
+    const subjectAcronym = subject ? acronym(subject) : null;
+    if (subjectAcronym) names.push(subjectAcronym);
+
+    // "BS CS-DGDD" → cs dgdd; known track codes by name as well ("lit(eng) literary and cultural studies")
+    if (parsed.specialization) {
+      const base = bare.slice(0, -(parsed.specialization.length + 1));
+      names.push(`${base} ${parsed.specialization}`);
+      const trackName = getTrackFullName(parsed.specialization);
+      if (trackName !== parsed.specialization) names.push(`${base} ${trackName}`);
+    }
+
+    for (const name of names) {
+      const key = aliasKey(name);
+      if (parsed.isHonors) {
+        addAlias(index.programs, `${key} honors`, code);
+        if (codeNames.includes(name)) addAlias(index.programs, `${key}-h`, code);
+      } else {
+        addAlias(index.programs, key, code);
+      }
+    }
+    addAlias(index.programs, aliasKey(code), code);
+    addAlias(index.programs, aliasKey(code.replace(/\s+/g, '')), code);
+  }
+}
+
+function readOverrides(): AliasOverrides {
+  try {
+    return JSON.parse(readFileSync(OVERRIDES_PATH, 'utf-8')) as AliasOverrides;
+  } catch (err) {
+    console.warn(`[Aliases] Could not read ${OVERRIDES_PATH}:`, err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+function buildIndex(): AliasIndex {
+  const built: AliasIndex = {
+    prefixes: new Map(),
+    courses: new Map(),
+    programs: new Map(),
+    courseCodes: new Set(),
+    programCodes: new Set(),
+  };
+
+  derivePrefixes(built);
+  derivePrograms(built);
+
+  // Learned aliases only fill gaps: catalog prefixes, abbreviations and program acronyms stay
+  for (const alias of learned.values()) {
+    if (alias.kind === 'course_prefix') {
+      if (!built.prefixes.has(alias.alias)) built.prefixes.set(alias.alias, alias.target);
+    } else if (alias.kind === 'course') {
+      if (!built.courses.has(alias.alias)) built.courses.set(alias.alias, alias.target);
+    } else if (!built.programs.has(alias.alias)) {
+      built.programs.set(alias.alias, [alias.target]);
+    }
+  }
+
+  const overrides = readOverrides();
+  for (const [alias, prefix] of Object.entries(overrides.course_prefixes || {})) {
+    built.prefixes.set(prefixKey(alias), prefix);
+  }
+  for (const [alias, code] of Object.entries(overrides.courses || {})) {
+    built.courses.set(aliasKey(alias), code);
+  }
+  for (const [alias, target] of Object.entries(overrides.programs || {})) {
+    // Overrides may list candidates ("BS CpE" or "BS CoE"); keep those in the catalog
+    const codes = (Array.isArray(target) ? target : [target])
+      .filter(code => built.programCodes.size === 0 || built.programCodes.has(code));
+    if (codes.length > 0) built.programs.set(aliasKey(alias), codes);
+  }
+
+  return built;
+}
+
+/**
+ * Load learned aliases from Supabase; the index is rebuilt once they arrive
+ */
+export async function loadLearnedAliases(): Promise<void> {
+  if (learnedLoading) return;
+  learnedLoading = true;
+  learnedLoadedAt = Date.now();
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('learned_alias')
+      .select('kind, alias, target')
+      .gte('confirmations', MIN_CONFIRMATIONS);
+
+    if (error) {
+      console.warn('[Aliases] Failed to load learned aliases:', error.message);
+      return;
+    }
+
+    for (const row of (data || []) as LearnedAlias[]) learned.set(`${row.kind}:${row.alias}`, row);
+    index = null;
+  } catch (err) {
+    console.warn('[Aliases] Error loading learned aliases:', err instanceof Error ? err.message : err);
+  } finally {
+    learnedLoading = false;
+  }
+}
+
+function getIndex(): AliasIndex {
+  const now = Date.now();
+  if (index && now - builtAt < CACHE_TTL_MS) return index;
+
+  if (now - learnedLoadedAt >= CACHE_TTL_MS) void loadLearnedAliases();
+
+  index = buildIndex();
+  builtAt = now;
+  return index;
+}
+
+/**
+ * Course prefix for a typed prefix ("cs" → CSCI), or undefined if it is not an alias
+ */
+export function resolveCoursePrefix(prefix: string): string | undefined {
+  return getIndex().prefixes.get(prefixKey(prefix));
+}
+
+/**
+ * Course code a typed code stands for ("CSCI 199" → "CSCI 199.1" once learned).
+ * Codes that exist in the catalog are never rewritten.
+ */
+export function resolveCourseCode(code: string): string | undefined {
+  const current = getIndex();
+  if (current.courseCodes.has(code)) return undefined;
+  return current.courses.get(aliasKey(code));
+}
+
+/**
+ * Department filter as a course prefix ("cs" → CSCI, "Mathematics" → MATH);
+ * anything unknown is returned uppercased
+ */
+export function resolveDepartment(department: string): string {
+  return resolveCoursePrefix(department) || department.trim().toUpperCase();
+}
+
+/**
+ * Program codes a query stands for, best first ("management honors" → ["BS MGT-H"]).
+ * Falls back to the longest alias contained in the query as whole words
+ * ("bs management engineering 2020" → ["BS ME"]); [] when nothing matches.
+ */
+export function resolveProgram(query: string): string[] {
+  const { programs } = getIndex();
+  const key = aliasKey(query);
+  const exact = programs.get(key);
+  if (exact) return exact;
+
+  let best: string[] = [];
+  let bestLength = 0;
+  const padded = ` ${key} `;
+  for (const [alias, codes] of programs) {
+    if (alias.length > bestLength && alias.length >= MIN_ABBREVIATION && padded.includes(` ${alias} `)) {
+      best = codes;
+      bestLength = alias.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Record that a learner (signed-in user or public chat session) resolved `alias` to `target`.
+ * The alias is used once MIN_CONFIRMATIONS distinct learners did, counted across processes in
+ * Supabase (learned_alias_vote), or in memory when Supabase cannot be reached.
+ */
+export async function learnAlias(kind: AliasKind, alias: string, target: string, learner: string): Promise<void> {
+  const key = kind === 'course_prefix' ? prefixKey(alias) : aliasKey(alias);
+  const targetKey = kind === 'course_prefix' ? prefixKey(target) : aliasKey(target);
+  if (!key || key === targetKey) return;
+  if (learned.get(`${kind}:${key}`)?.target === target) return;
+
+  const voteKey = `${kind}:${key}:${target}`;
+  const voters = votes.get(voteKey) || new Set<string>();
+  voters.add(learner);
+  votes.delete(voteKey);
+  votes.set(voteKey, voters);
+  // Forget the least recent votes (Map keeps insertion order)
+  while (votes.size > MAX_VOTE_KEYS) votes.delete(votes.keys().next().value as string);
+  let confirmations = voters.size;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('learned_alias_vote')
+      .upsert({ kind, alias: key, target, learner }, { onConflict: 'kind,alias,target,learner', ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('learned_alias_vote')
+      .select('learner', { count: 'exact', head: true })
+      .eq('kind', kind)
+      .eq('alias', key)
+      .eq('target', target);
+    if (countError) throw new Error(countError.message);
+    confirmations = Math.max(confirmations, count || 0);
+  } catch (err) {
+    console.warn('[Aliases] Could not count alias confirmations:', err instanceof Error ? err.message : err);
+  }
+
+  if (confirmations < MIN_CONFIRMATIONS) return;
+
+  learned.set(`${kind}:${key}`, { kind, alias: key, target });
+  index = null;
+  console.log(`[Aliases] Learned ${kind} alias "${key}" → ${target} (${confirmations} confirmations)`);
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('learned_alias')
+      .upsert({
+        kind,
+        alias: key,
+        target,
+        confirmations,
+        session_id: learner,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'kind,alias' });
+
+    if (error) {
+      console.warn('[Aliases] Failed to save learned alias:', error.message);
+    }
+  } catch (err) {
+    console.warn('[Aliases] Error saving learned alias:', err instanceof Error ? err.message : err);
+  }
+}
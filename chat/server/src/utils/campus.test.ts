@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildingOfRoom, describeTransfer, isTightTransfer, transfersBetween, walkingRoute } from './campus.js';
+
+describe('buildingOfRoom', () => {
+  it('matches the longest room prefix followed by a room number', () => {
+    expect(buildingOfRoom('BEL 213')?.code).toBe('BEL');
+    expect(buildingOfRoom('B-204')?.code).toBe('B');
+    expect(buildingOfRoom('SEC-C201')?.code).toBe('SEC-C');
+    expect(buildingOfRoom('K 303; CTC 407')?.code).toBe('K');
+  });
+
+  it('returns null for TBA, online and unknown rooms', () => {
+    expect(buildingOfRoom('TBA')).toBeNull();
+    expect(buildingOfRoom('ONLINE')).toBeNull();
+    expect(buildingOfRoom(null)).toBeNull();
+  });
+});
+
+describe('walkingRoute', () => {
+  it('finds the shortest walk through neighbouring buildings', () => {
+    expect(walkingRoute('SEC-A', 'K')).toEqual({ minutes: 11, path: ['SEC-A', 'F', 'B', 'K'] });
+    expect(walkingRoute('K', 'SEC-A')?.minutes).toBe(11);
+    expect(walkingRoute('G', 'G')).toEqual({ minutes: 0, path: ['G'] });
+  });
+
+  it('returns null for unknown buildings', () => {
+    expect(walkingRoute('SEC-A', 'NOWHERE')).toBeNull();
+  });
+});
+
+describe('isTightTransfer', () => {
+  const meeting = (start_time: string, end_time: string, room: string, day = 'M') => ({ day, start_time, end_time, room });
+
+  it('is tight when the walk is longer than the break', () => {
+    expect(isTightTransfer(meeting('08:00', '09:30', 'SEC-A201'), meeting('09:40', '11:00', 'K 303'))).toBe(true);
+    expect(isTightTransfer(meeting('09:40', '11:00', 'K 303'), meeting('08:00', '09:30', 'SEC-A201'))).toBe(true);
+  });
+
+  it('is not tight with enough time, in the same building or on other days', () => {
+    expect(isTightTransfer(meeting('08:00', '09:30', 'SEC-A201'), meeting('09:45', '11:00', 'K 303'))).toBe(false);
+    expect(isTightTransfer(meeting('08:00', '09:30', 'K 201'), meeting('09:30', '11:00', 'K 303'))).toBe(false);
+    expect(isTightTransfer(meeting('08:00', '09:30', 'SEC-A201'), meeting('09:30', '11:00', 'K 303', 'T'))).toBe(false);
+  });
+});
+
+describe('transfersBetween', () => {
+  it('reports each walk between consecutive classes of a day', () => {
+    const transfers = transfersBetween([
+      { label: 'MATH 10 B', day: 'M', start_time: '09:40', end_time: '11:00', room: 'K 303' },
+      { label: 'CSCI 21 A', day: 'M', start_time: '08:00', end_time: '09:30', room: 'SEC-A201' },
+      { label: 'THEO 11 C', day: 'M', start_time: '11:00', end_time: '12:30', room: 'TBA' },
+    ]);
+
+    expect(transfers.map(t => [t.from.label, t.to.label, t.status, t.walking_minutes, t.break_minutes])).toEqual([
+      ['CSCI 21 A', 'MATH 10 B', 'tight', 11, 10],
+      ['MATH 10 B', 'THEO 11 C', 'unknown', null, 0],
+    ]);
+    expect(describeTransfer(transfers[0])).toBe(
+      'M: SEC A (CSCI 21 A, ends 09:30) → Kostka Hall (MATH 10 B, starts 09:40): 11 min walk, 10 min break'
+    );
+  });
+
+  it('skips overlapping meetings', () => {
+    expect(transfersBetween([
+      { label: 'CSCI 21 A', day: 'M', start_time: '08:00', end_time: '09:30', room: 'SEC-A201' },
+      { label: 'MATH 10 B', day: 'M', start_time: '09:00', end_time: '10:30', room: 'K 303' },
+    ])).toEqual([]);
+  });
+});
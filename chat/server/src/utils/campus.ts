@@ -0,0 +1,209 @@
+/**
+ * Campus Buildings
+ *
+ * Building data model (data/campus_buildings.json): which building a room code is in,
+ * and approximate walking minutes between buildings as shortest routes through a graph
+ * of neighbouring buildings. Schedule tools use it to flag back-to-back classes whose
+ * walk takes longer than the break between them.
+ */
+
+import campusData from '../data/campus_buildings.json' with { type: 'json' };
+
+export interface Building {
+  code: string;           // "SEC-C", "G"
+  name: string;           // "Gonzaga Hall"
+  room_prefix: string;    // How room codes start: "G" (G-206), "CTC" (CTC 215)
+  names: string[];        // Full names students type: "GONZAGA"
+}
+
+export interface WalkingRoute {
+  minutes: number;
+  path: string[];         // Building codes from start to end
+}
+
+// How schedule tools treat a walk longer than the break
+export type WalkingTimeMode = 'warn' | 'reject' | 'ignore';
+
+export interface TimedClass {
+  label: string;          // "CSCI 21 A"
+  day: string;
+  start_time: string;     // HH:MM
+  end_time: string;
+  room: string | null;
+}
+
+export interface Transfer {
+  day: string;
+  from: { label: string; room: string | null; building: string | null; ends: string };
+  to: { label: string; room: string | null; building: string | null; starts: string };
+  break_minutes: number;
+  walking_minutes: number | null;   // null when a room is not in a known building
+  route: string[];                  // Building names along the way
+  status: 'same_building' | 'ok' | 'tight' | 'unknown';
+}
+
+const buildings = campusData.buildings as Building[];
+const buildingsByCode = new Map(buildings.map(b => [b.code, b]));
+
+// Compact room prefixes, longest first so "BEL" wins over "B"
+const roomPrefixes = buildings
+  .map(b => ({ building: b, prefix: compactRoom(b.room_prefix) }))
+  .sort((a, b) => b.prefix.length - a.prefix.length);
+// Schedule search asks for the same rooms over and over
+const roomBuildings = new Map<string, Building | null>();
+
+// All-pairs shortest walks (Floyd-Warshall; the campus has a dozen buildings)
+const routes = new Map<string, Map<string, { minutes: number; next: string }>>();
+for (const from of buildings) {
+  routes.set(from.code, new Map([[from.code, { minutes: 0, next: from.code }]]));
+}
+for (const { from, to, minutes } of campusData.paths) {
+  routes.get(from)?.set(to, { minutes, next: to });
+  routes.get(to)?.set(from, { minutes, next: from });
+}
+for (const via of buildings) {
+  for (const from of buildings) {
+    const toVia = routes.get(from.code)!.get(via.code);
+    if (!toVia) continue;
+    for (const to of buildings) {
+      const fromVia = routes.get(via.code)!.get(to.code);
+      if (!fromVia) continue;
+      const current = routes.get(from.code)!.get(to.code);
+      const minutes = toVia.minutes + fromVia.minutes;
+      if (!current || minutes < current.minutes) {
+        routes.get(from.code)!.set(to.code, { minutes, next: toVia.next });
+      }
+    }
+  }
+}
+
+function compactRoom(room: string): string {
+  return room.toUpperCase().replace(/[\s-]+/g, '');
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(n => parseInt(n, 10));
+  return (h || 0) * 60 + (m || 0);
+}
+
+/**
+ * Full building names mapped to room prefixes ("KOSTKA" → "K"), for room code input
+ */
+export function buildingNameAliases(): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const building of buildings) {
+    for (const name of building.names) aliases[name] = building.room_prefix;
+  }
+  return aliases;
+}
+
+/**
+ * Building of a room code ("SEC-C201", "K 303", "CTC 215"); the first room of
+ * multi-room entries ("SEC-A202; CTC 407"). null for TBA, online or unknown buildings.
+ */
+export function buildingOfRoom(room: string | null | undefined): Building | null {
+  if (!room) return null;
+  const cached = roomBuildings.get(room);
+  if (cached !== undefined) return cached;
+
+  const compact = compactRoom(room.split(/[;,/]/)[0]);
+  const match = roomPrefixes.find(({ prefix }) => compact.startsWith(prefix) && /\d/.test(compact.charAt(prefix.length)));
+  roomBuildings.set(room, match?.building ?? null);
+  return match?.building ?? null;
+}
+
+/**
+ * Shortest walk between two buildings (by code), or null if either is unknown
+ */
+export function walkingRoute(from: string, to: string): WalkingRoute | null {
+  const first = routes.get(from)?.get(to);
+  if (!first) return null;
+
+  const path = [from];
+  let current = from;
+  while (current !== to) {
+    current = routes.get(current)!.get(to)!.next;
+    path.push(current);
+  }
+  return { minutes: first.minutes, path };
+}
+
+/**
+ * Walking mode from a tool argument (default: warn)
+ */
+export function parseWalkingTimeMode(value?: string): WalkingTimeMode {
+  const mode = (value || '').toLowerCase();
+  return mode === 'reject' || mode === 'ignore' ? mode : 'warn';
+}
+
+/**
+ * True when two meetings are on the same day, do not overlap, and the break between
+ * them is shorter than the walk between their rooms
+ */
+export function isTightTransfer(
+  a: { day: string; start_time: string; end_time: string; room?: string | null },
+  b: { day: string; start_time: string; end_time: string; room?: string | null }
+): boolean {
+  if (a.day !== b.day) return false;
+  const [first, second] = toMinutes(a.start_time) <= toMinutes(b.start_time) ? [a, b] : [b, a];
+  const breakMinutes = toMinutes(second.start_time) - toMinutes(first.end_time);
+  if (breakMinutes < 0) return false;
+
+  const from = buildingOfRoom(first.room);
+  const to = buildingOfRoom(second.room);
+  if (!from || !to || from.code === to.code) return false;
+  const route = walkingRoute(from.code, to.code);
+  return route !== null && route.minutes > breakMinutes;
+}
+
+/**
+ * Walks between consecutive classes of each day (overlapping meetings are skipped;
+ * those are time conflicts)
+ */
+export function transfersBetween(classes: TimedClass[]): Transfer[] {
+  const byDay = new Map<string, TimedClass[]>();
+  for (const c of classes) {
+    if (!c.day || !c.start_time || !c.end_time) continue;
+    byDay.set(c.day, [...(byDay.get(c.day) || []), c]);
+  }
+
+  const transfers: Transfer[] = [];
+  for (const [day, dayClasses] of byDay) {
+    dayClasses.sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time));
+    for (let i = 1; i < dayClasses.length; i++) {
+      const prev = dayClasses[i - 1];
+      const next = dayClasses[i];
+      const breakMinutes = toMinutes(next.start_time) - toMinutes(prev.end_time);
+      if (breakMinutes < 0) continue;
+
+      const from = buildingOfRoom(prev.room);
+      const to = buildingOfRoom(next.room);
+      const route = from && to ? walkingRoute(from.code, to.code) : null;
+
+      let status: Transfer['status'] = 'unknown';
+      if (from && to && from.code === to.code) status = 'same_building';
+      else if (route) status = route.minutes > breakMinutes ? 'tight' : 'ok';
+
+      transfers.push({
+        day,
+        from: { label: prev.label, room: prev.room, building: from?.name ?? null, ends: prev.end_time },
+        to: { label: next.label, room: next.room, building: to?.name ?? null, starts: next.start_time },
+        break_minutes: breakMinutes,
+        walking_minutes: route ? route.minutes : null,
+        route: route ? route.path.map(code => buildingsByCode.get(code)!.name) : [],
+        status,
+      });
+    }
+  }
+  return transfers;
+}
+
+/**
+ * One line per transfer, e.g. "Monday: SEC C (CSCI 21 A, ends 09:30) → Gonzaga Hall
+ * (MATH 10 B, starts 09:30): 10 min walk, 0 min break"
+ */
+export function describeTransfer(transfer: Transfer): string {
+  return `${transfer.day}: ${transfer.from.building ?? transfer.from.room} (${transfer.from.label}, ends ${transfer.from.ends}) → `
+    + `${transfer.to.building ?? transfer.to.room} (${transfer.to.label}, starts ${transfer.to.starts}): `
+    + `${transfer.walking_minutes ?? '?'} min walk, ${transfer.break_minutes} min break`;
+}
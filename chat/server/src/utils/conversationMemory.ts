@@ -0,0 +1,309 @@
+/**
+ * Conversation Memory
+ *
+ * The server owns chat state per session id (X-Session-Id):
+ * - Prior turns are loaded from chat_message (what logMessage stored)
+ * - When the last prompt used most of the context budget (the number the context bar
+ *   shows), older turns are folded into a rolling summary by the LLM
+ * - Entities resolved by tool calls (term, courses, sections, instructors, rooms,
+ *   program) are carried forward, so "what about section B?" needs no resent history
+ *
+ * Summary and entities live in chat_session_memory (supabase/migrations/0008).
+ * Without Supabase every session starts empty and the routes fall back to the
+ * history array sent by the client.
+ */
+
+import { supabaseAdmin } from './supabase.js';
+import { normalizeCourseCode } from './courseAliases.js';
+import type { ChatHistoryMessage, LLMProvider } from '../llm/index.js';
+
+// Summarize once the last prompt used this share of the context budget
+const SUMMARIZE_AT = Number(process.env.CHAT_MEMORY_SUMMARIZE_AT) || 0.75;
+// Most recent messages kept verbatim when older ones are summarized
+const KEEP_RECENT_MESSAGES = 6;
+// Messages loaded per session; anything older should already be in the summary
+const MAX_LOADED_MESSAGES = 100;
+// Entries kept per entity list (most recent first)
+const MAX_ENTITIES = 5;
+// Upper bound of a stored summary, whatever the model returns
+const MAX_SUMMARY_CHARS = 2000;
+
+const SUMMARY_PROMPT = `You summarize a conversation between an Ateneo student and SISIA, a class schedule assistant.
+Write at most 150 words of plain text. Keep what later questions may refer to: courses, sections,
+instructors, rooms, terms, times and the student's preferences or decisions. Do not invent data.`;
+
+export interface ConversationContext {
+  term?: string;            // Term being discussed
+  courses: string[];
+  sections: string[];       // "CSCI 21 A"
+  instructors: string[];
+  rooms: string[];
+  program?: string;
+}
+
+export interface StoredMessage extends ChatHistoryMessage {
+  createdAt: string;
+}
+
+export interface ConversationMemory {
+  sessionId: string;
+  userId: string | null;
+  summary: string | null;
+  summarizedUntil: string | null;
+  context: ConversationContext;
+  lastPromptTokens: number;
+  history: StoredMessage[];   // Turns after the summary, oldest first
+  writable: boolean;          // false when the session id belongs to another user
+}
+
+interface MemoryRow {
+  user_id: string | null;
+  summary: string | null;
+  summarized_until: string | null;
+  context: Partial<ConversationContext> | null;
+  last_prompt_tokens: number | null;
+}
+
+function emptyContext(): ConversationContext {
+  return { courses: [], sections: [], instructors: [], rooms: [] };
+}
+
+/**
+ * Load the memory of a session: summary, entities and the turns after the summary.
+ * Personal sessions only see their user's messages, public sessions only anonymous ones.
+ */
+export async function loadMemory(sessionId: string, userId: string | null): Promise<ConversationMemory> {
+  const memory: ConversationMemory = {
+    sessionId,
+    userId,
+    summary: null,
+    summarizedUntil: null,
+    context: emptyContext(),
+    lastPromptTokens: 0,
+    history: [],
+    writable: true,
+  };
+
+  try {
+    const { data: row } = await supabaseAdmin
+      .from('chat_session_memory')
+      .select('user_id, summary, summarized_until, context, last_prompt_tokens')
+      .eq('session_id', sessionId)
+      .maybeSingle<MemoryRow>();
+
+    if (row) {
+      if ((row.user_id ?? null) !== userId) {
+        // Someone else's session id: start fresh and leave their memory alone
+        memory.writable = false;
+        return memory;
+      }
+      memory.summary = row.summary;
+      memory.summarizedUntil = row.summarized_until;
+      memory.context = { ...emptyContext(), ...(row.context || {}) };
+      memory.lastPromptTokens = row.last_prompt_tokens || 0;
+    }
+
+    let query = supabaseAdmin
+      .from('chat_message')
+      .select('role, content, created_at')
+      .eq('session_id', sessionId)
+      .in('role', ['user', 'assistant']);
+    query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+    if (memory.summarizedUntil) query = query.gt('created_at', memory.summarizedUntil);
+
+    const { data: messages, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(MAX_LOADED_MESSAGES);
+
+    if (error) {
+      console.warn('[Memory] Failed to load messages:', error.message);
+      return memory;
+    }
+
+    memory.history = (messages || [])
+      .reverse()
+      .map(m => ({ role: m.role as ChatHistoryMessage['role'], content: m.content as string, createdAt: m.created_at as string }));
+  } catch (err) {
+    console.warn('[Memory] Error:', err);
+  }
+
+  return memory;
+}
+
+/**
+ * History for the LLM: the server's turns, or the client's array for sessions the
+ * server knows nothing about (older clients, Supabase unavailable)
+ */
+export function chatHistory(memory: ConversationMemory, clientHistory: ChatHistoryMessage[]): ChatHistoryMessage[] {
+  if (memory.history.length === 0 && !memory.summary) return clientHistory;
+  return memory.history.map(({ role, content }) => ({ role, content }));
+}
+
+// ~4 chars per token, same estimate the routes use
+function estimateTokens(memory: ConversationMemory): number {
+  const chars = (memory.summary?.length || 0) + memory.history.reduce((sum, m) => sum + m.content.length, 0);
+  return Math.ceil(chars / 4);
+}
+
+function fallbackSummary(previous: string | null, messages: StoredMessage[]): string {
+  const asked = messages.filter(m => m.role === 'user').map(m => m.content.slice(0, 120));
+  return [previous, asked.length > 0 ? `Earlier the student asked: ${asked.join(' | ')}` : null]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Fold older turns into the summary once the context budget is nearly used up.
+ * Returns true when a summary was made (and saved with the next saveMemory).
+ */
+export async function summarizeIfNeeded(memory: ConversationMemory, llm: LLMProvider, budgetTokens: number): Promise<boolean> {
+  const used = Math.max(memory.lastPromptTokens, estimateTokens(memory));
+  if (used < budgetTokens * SUMMARIZE_AT || memory.history.length <= KEEP_RECENT_MESSAGES) return false;
+
+  const older = memory.history.slice(0, -KEEP_RECENT_MESSAGES);
+  const transcript = older.map(m => `${m.role === 'user' ? 'Student' : 'SISIA'}: ${m.content}`).join('\n\n');
+
+  let summary: string;
+  try {
+    const chat = llm.startChat({
+      systemInstruction: SUMMARY_PROMPT,
+      tools: [],
+      history: [],
+      generation: { temperature: 0, maxOutputTokens: 512, topP: 1, topK: 1 },
+    });
+    const turn = await chat.send(
+      (memory.summary ? `Summary so far:\n${memory.summary}\n\n` : '') + `Conversation to add:\n${transcript}`
+    );
+    summary = turn.text.trim() || fallbackSummary(memory.summary, older);
+  } catch (err) {
+    console.warn('[Memory] Summarization failed, keeping user questions only:', err);
+    summary = fallbackSummary(memory.summary, older);
+  }
+
+  memory.summary = summary.slice(0, MAX_SUMMARY_CHARS);
+  memory.summarizedUntil = older[older.length - 1].createdAt;
+  memory.history = memory.history.slice(-KEEP_RECENT_MESSAGES);
+  memory.lastPromptTokens = estimateTokens(memory);
+  return true;
+}
+
+/**
+ * System prompt block with the summary and resolved entities ('' for a new session)
+ */
+export function formatMemoryPrompt(memory: ConversationMemory): string {
+  const { context } = memory;
+  const lines: string[] = [];
+
+  if (memory.summary) lines.push(`Summary of earlier messages: ${memory.summary}`);
+  if (context.term) lines.push(`Term being discussed: ${context.term}`);
+  if (context.courses.length > 0) lines.push(`Courses discussed (most recent first): ${context.courses.join(', ')}`);
+  if (context.sections.length > 0) lines.push(`Sections discussed: ${context.sections.join(', ')}`);
+  if (context.instructors.length > 0) lines.push(`Instructors discussed: ${context.instructors.join(', ')}`);
+  if (context.rooms.length > 0) lines.push(`Rooms discussed: ${context.rooms.join(', ')}`);
+  if (context.program) lines.push(`Degree program: ${context.program}`);
+
+  if (lines.length === 0) return '';
+  return `
+
+CONVERSATION MEMORY (kept by the server across this chat):
+${lines.join('\n')}
+Resolve follow-ups that leave out the course, section, instructor, room or term (e.g. "what about section B?")
+against this memory, and still call the tools for the data.`;
+}
+
+function remember(list: string[], values: string[]): string[] {
+  const fresh = values.map(v => v.trim()).filter(Boolean);
+  return [...new Set([...fresh.reverse(), ...list])].slice(0, MAX_ENTITIES);
+}
+
+function strings(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return typeof value === 'string' ? [value] : [];
+}
+
+// "MATH 10 A1" -> { course: "MATH 10", section: "A1" }
+function parseSection(value: string): { course: string; section: string } | null {
+  const match = value.trim().match(/^([A-Z]+\s*\d+\.?\d*)\s+(\S+)$/i);
+  return match ? { course: normalizeCourseCode(match[1]), section: match[2].toUpperCase() } : null;
+}
+
+/**
+ * Carry forward the entities of this turn's tool calls (newest first)
+ */
+export function updateContext(
+  context: ConversationContext,
+  toolCalls: Array<{ name: string; args: unknown }>,
+  term?: string
+): ConversationContext {
+  const courses: string[] = [];
+  const sections: string[] = [];
+  const instructors: string[] = [];
+  const rooms: string[] = [];
+  let nextTerm = term || context.term;
+  let program = context.program;
+
+  for (const call of toolCalls) {
+    const args = (call.args || {}) as Record<string, unknown>;
+
+    for (const code of strings(args.course_code)) courses.push(normalizeCourseCode(code));
+    for (const list of strings(args.courses)) {
+      courses.push(...list.split(',').map(c => normalizeCourseCode(c.trim())).filter(Boolean));
+    }
+    if (typeof args.course_code === 'string' && typeof args.section === 'string') {
+      sections.push(`${normalizeCourseCode(args.course_code)} ${args.section.toUpperCase()}`);
+    }
+    for (const value of [...strings(args.section1), ...strings(args.section2), ...strings(args.sections), ...strings(args.lock_sections)]) {
+      const parsed = parseSection(value);
+      if (!parsed) continue;
+      courses.push(parsed.course);
+      sections.push(`${parsed.course} ${parsed.section}`);
+    }
+    instructors.push(...strings(args.instructor_name), ...strings(args.professor_name));
+    rooms.push(...strings(args.room_code));
+    if (typeof args.program === 'string' && args.program.trim()) program = args.program.trim();
+    if (!term && typeof args.term === 'string' && args.term.trim()) nextTerm = args.term.trim();
+  }
+
+  return {
+    term: nextTerm,
+    courses: remember(context.courses, courses),
+    sections: remember(context.sections, sections),
+    instructors: remember(context.instructors, instructors),
+    rooms: remember(context.rooms, rooms),
+    program,
+  };
+}
+
+/**
+ * Store the session memory after a turn: new entities, prompt size and any new summary
+ */
+export async function saveMemory(
+  memory: ConversationMemory,
+  toolCalls: Array<{ name: string; args: unknown }>,
+  promptTokens: number,
+  term?: string
+): Promise<void> {
+  memory.context = updateContext(memory.context, toolCalls, term);
+  memory.lastPromptTokens = promptTokens;
+  if (!memory.writable) return;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('chat_session_memory')
+      .upsert({
+        session_id: memory.sessionId,
+        user_id: memory.userId,
+        summary: memory.summary,
+        summarized_until: memory.summarizedUntil,
+        context: memory.context,
+        last_prompt_tokens: promptTokens,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.warn('[Memory] Failed to save:', error.message);
+    }
+  } catch (err) {
+    console.warn('[Memory] Error:', err);
+  }
+}
@@ -3,78 +3,10 @@
  * 
  * Normalizes common abbreviations to database format.
  * Examples: "CS 11" → "CSCI 11", "Math10" → "MATH 10"
+ * Prefix and course aliases come from the alias index (utils/aliases.ts).
  */
 
-// Common prefix aliases - maps user input to database format
-const PREFIX_ALIASES: Record<string, string> = {
-  // Computer Science
-  'cs': 'CSCI',
-  'comp': 'CSCI',
-  'comsci': 'CSCI',
-  
-  // Mathematics
-  'math': 'MATH',
-  'ma': 'MATH',
-  
-  // Sciences
-  'chem': 'CHEM',
-  'bio': 'BIO',
-  'phys': 'PHYS',
-  'physics': 'PHYS',
-  
-  // Philosophy & Theology
-  'phil': 'PHILO',
-  'philo': 'PHILO',
-  'ph': 'PHILO',  // Note: database actually uses PHILO, not PH
-  'theo': 'THEO',
-  'th': 'THEO',
-  
-  // Languages
-  'eng': 'ENGL',
-  'engl': 'ENGL',
-  'english': 'ENGL',
-  'en': 'ENGL',
-  'fil': 'FILI',
-  'fili': 'FILI',
-  'filip': 'FILI',
-  'filipino': 'FILI',
-  
-  // Social Sciences
-  'econ': 'ECON',
-  'eco': 'ECON',
-  'psych': 'PSYC',
-  'psy': 'PSYC',
-  'psyc': 'PSYC',
-  'polsci': 'POLSC',
-  'pol': 'POLSC',
-  'socio': 'SOCIO',
-  'soc': 'SOCIO',
-  'hist': 'HISTO',
-  'histo': 'HISTO',
-  'history': 'HISTO',
-  
-  // Engineering
-  'engg': 'ENGG',
-  'engr': 'ENGG',
-  'engineering': 'ENGG',
-  
-  // Others
-  'comm': 'COMM',
-  'communication': 'COMM',
-  
-  // Physical Education - all variants
-  'pe': 'PEPC',          // Current offerings
-  'phyed': 'PHYED',      // 2020 curriculum
-  'phy ed': 'PHYED',
-  'physed': 'PHYED',
-  'pathfit': 'PATHFit',  // 2024 curriculum requirement
-  'path fit': 'PATHFit',
-  'pepc': 'PEPC',        // Current elective offerings
-  
-  'env': 'ENVI',
-  'envi': 'ENVI',
-  'environmental': 'ENVI',
-};
+import { resolveCourseCode, resolveCoursePrefix } from './aliases.js';
 
 /**
  * Normalize a course code to database format.
@@ -104,11 +36,12 @@ export function normalizeCourseCode(code: string): string {
   const normalizedPrefix = prefix.toLowerCase().replace(/-/g, '');
   
   // Check for alias
-  const aliasedPrefix = PREFIX_ALIASES[normalizedPrefix] || normalizedPrefix.toUpperCase();
+  const aliasedPrefix = resolveCoursePrefix(normalizedPrefix) || normalizedPrefix.toUpperCase();
   
   // Reconstruct with proper spacing
   if (number) {
-    return `${aliasedPrefix} ${number}`;
+    const code = `${aliasedPrefix} ${number}`;
+    return resolveCourseCode(code) || code;
   }
   
   return aliasedPrefix;
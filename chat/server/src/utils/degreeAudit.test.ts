@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { auditDegree } from './degreeAudit.js';
+import type { CurriculumRequirement } from '../models/Curriculum.js';
+import type { PrerequisiteNode } from './prerequisites.js';
+
+// Alias resolution reads the catalog; these codes are already canonical
+vi.mock('./courseAliases.js', () => ({ normalizeCourseCode: (code: string) => code }));
+
+const course = (code: string): PrerequisiteNode => ({ type: 'course', code });
+
+function req(
+  code: string,
+  year: number,
+  semester: number,
+  prerequisites: PrerequisiteNode | null = null,
+  extra: Partial<CurriculumRequirement> = {}
+): CurriculumRequirement {
+  return {
+    course_code: code,
+    title: code,
+    units: 3,
+    year,
+    semester,
+    category: 'Major',
+    is_elective: false,
+    prerequisites_raw: null,
+    prerequisites_ast: prerequisites ? JSON.stringify(prerequisites) : null,
+    ...extra,
+  };
+}
+
+describe('auditDegree', () => {
+  it('sorts courses into completed, in progress and remaining', () => {
+    const audit = auditDegree(
+      [req('CSCI 21', 1, 1), req('CSCI 22', 1, 2, course('CSCI 21')), req('CSCI 30', 2, 1, course('CSCI 22'))],
+      [{ course_code: 'CSCI 21', status: 'passed' }, { course_code: 'CSCI 22', status: 'in_progress' }],
+      []
+    );
+
+    expect(audit.courses.map(c => [c.course_code, c.status])).toEqual([
+      ['CSCI 21', 'completed'],
+      ['CSCI 22', 'in_progress'],
+      ['CSCI 30', 'remaining'],
+    ]);
+    expect(audit.progress_percentage).toBe(33);
+    expect(audit.unmet_prerequisites).toEqual([
+      expect.objectContaining({ course_code: 'CSCI 30', missing: ['CSCI 22'], clears_after_current_term: true }),
+    ]);
+  });
+
+  it('fills a restricted elective slot with a passed course of that subject', () => {
+    const audit = auditDegree(
+      [req('CSCI ELECTIVE 1', 3, 1, null, { is_elective: true })],
+      [],
+      [{ course_code: 'CSCI 153', grade: 'B+' }]
+    );
+
+    expect(audit.courses[0]).toMatchObject({ status: 'completed', satisfied_by: 'CSCI 153', source: 'grades' });
+    expect(audit.unmatched_passed_courses).toEqual([]);
+  });
+
+  describe('graduation estimate', () => {
+    it('places a course only after the term its prerequisite is taken in', () => {
+      const audit = auditDegree(
+        [req('CSCI 21', 1, 1), req('CSCI 22', 1, 2, course('CSCI 21'))],
+        [],
+        []
+      );
+
+      expect(audit.graduation_estimate.plan.map(t => t.courses)).toEqual([['CSCI 21'], ['CSCI 22']]);
+    });
+
+    it('counts a co-requisite only when it is placed in the same term', () => {
+      const lab = req('PHYS 51.01', 1, 1, { type: 'coreq', child: course('PHYS 51') });
+      const lecture = req('PHYS 51', 1, 1, course('MATH 31'));
+      const audit = auditDegree(
+        [lab, lecture, req('MATH 31', 1, 1)],
+        [],
+        [],
+        { maxUnitsPerTerm: 6 }
+      );
+
+      // PHYS 51 waits for MATH 31, so its lab cannot go in the first term either
+      expect(audit.graduation_estimate.plan.map(t => t.courses)).toEqual([
+        ['MATH 31'],
+        ['PHYS 51', 'PHYS 51.01'],
+      ]);
+    });
+
+    it('reports courses whose prerequisites lie outside the curriculum as blocked', () => {
+      const audit = auditDegree([req('CSCI 199', 4, 1, course('CSCI 999'))], [], []);
+
+      expect(audit.graduation_estimate).toMatchObject({ min_terms: 0, blocked: ['CSCI 199'] });
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Degree Audit Engine
+ *
+ * Reconciles a student's IPS statuses and grades against the program curriculum:
+ * - Specific courses are matched by normalized course code (CS 11 = CSCI 11)
+ * - Elective slots (e.g., "FREE ELECTIVE", "CSCI ELECTIVE") are filled by passed
+ *   courses that did not count toward a specific requirement
+ * - Remaining courses are checked against their prerequisite trees
+ * - The minimum number of regular terms is estimated by scheduling remaining
+ *   courses in prerequisite order under a unit cap
+ */
+
+import { normalizeCourseCode } from './courseAliases.js';
+import {
+  evaluatePrerequisites,
+  parseStoredPrerequisites,
+  type PrerequisiteNode,
+} from './prerequisites.js';
+import { fillTerm } from './semesterPlanner.js';
+import type { CurriculumRequirement } from '../models/Curriculum.js';
+
+export type AuditStatus = 'completed' | 'in_progress' | 'remaining';
+
+// IPS status as returned by scrapePersonalIPS
+export interface AuditIPSEntry {
+  course_code: string;
+  status: 'passed' | 'credited' | 'not_taken' | 'in_progress' | 'failed';
+  units?: number;
+}
+
+export interface AuditGradeEntry {
+  course_code: string;
+  grade: string;
+  units?: number;
+}
+
+export interface AuditCourse {
+  course_code: string;
+  title: string;
+  units: number;
+  year: number;
+  semester: number;
+  category: string;
+  status: AuditStatus;
+  satisfied_by?: string;          // Course that filled an elective slot or matched a variant code
+  source?: 'ips' | 'grades';
+}
+
+export interface UnmetPrerequisite {
+  course_code: string;
+  prerequisites: string;
+  missing: string[];
+  clears_after_current_term: boolean; // Met once in-progress courses are passed
+}
+
+export interface CategoryProgress {
+  category: string;
+  total: number;
+  completed: number;
+  in_progress: number;
+  remaining: number;
+  remaining_units: number;
+  remaining_courses: string[];
+}
+
+export interface GraduationEstimate {
+  min_terms: number;               // Regular semesters after the current one
+  max_units_per_term: number;
+  plan: Array<{ term: number; courses: string[]; units: number }>;
+  blocked: string[];               // Courses whose prerequisites can never be met from the curriculum
+}
+
+export interface DegreeAudit {
+  completed_units: number;
+  in_progress_units: number;
+  remaining_units: number;
+  progress_percentage: number;
+  categories: CategoryProgress[];
+  courses: AuditCourse[];
+  unmet_prerequisites: UnmetPrerequisite[];
+  unmatched_passed_courses: string[]; // Passed courses that count toward nothing in this curriculum
+  graduation_estimate: GraduationEstimate;
+}
+
+// Ateneo letter grades that earn credit
+const PASSING_GRADES = new Set(['A', 'B+', 'B', 'C+', 'C', 'D', 'P', 'S']);
+
+function courseKey(code: string): string {
+  return normalizeCourseCode(code).toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Elective placeholders carry no real course code (e.g., "FREE ELECTIVE 1", "CSCI ELECTIVE")
+ */
+export function isElectiveSlot(req: Pick<CurriculumRequirement, 'course_code' | 'category' | 'is_elective'>): boolean {
+  return req.is_elective || /ELECT/i.test(req.course_code) || /elective/i.test(req.category || '');
+}
+
+/**
+ * Subject prefix an elective slot is restricted to, or null for free electives
+ * e.g., "CSCI ELECTIVE 2" -> "CSCI", "FREE ELECTIVE" -> null
+ */
+function electivePrefix(slotCode: string): string | null {
+  const prefix = slotCode.toUpperCase().split(/\s+/)[0];
+  if (!prefix || /^(FREE|ELECT|ELECTIVE|GE|OPEN)/.test(prefix)) return null;
+  return normalizeCourseCode(prefix);
+}
+
+function categoryOf(req: CurriculumRequirement): string {
+  if (req.category) return req.category;
+  return isElectiveSlot(req) ? 'Elective' : 'Required';
+}
+
+/**
+ * Run the audit
+ */
+export function auditDegree(
+  requirements: CurriculumRequirement[],
+  ips: AuditIPSEntry[],
+  grades: AuditGradeEntry[],
+  options: { yearLevel?: number; maxUnitsPerTerm?: number } = {}
+): DegreeAudit {
+  const maxUnits = options.maxUnitsPerTerm || 21;
+
+  // Collect what the student has: IPS statuses take precedence over grades
+  const passed = new Map<string, { code: string; source: 'ips' | 'grades' }>();
+  const inProgress = new Map<string, string>();
+  for (const entry of ips) {
+    const key = courseKey(entry.course_code);
+    if (entry.status === 'passed' || entry.status === 'credited') {
+      passed.set(key, { code: entry.course_code, source: 'ips' });
+    } else if (entry.status === 'in_progress') {
+      inProgress.set(key, entry.course_code);
+    }
+  }
+  for (const entry of grades) {
+    const key = courseKey(entry.course_code);
+    if (PASSING_GRADES.has(entry.grade.trim().toUpperCase()) && !passed.has(key)) {
+      passed.set(key, { code: entry.course_code, source: 'grades' });
+      inProgress.delete(key);
+    }
+  }
+
+  const used = new Set<string>();
+  const courses: AuditCourse[] = [];
+
+  // Pass 1: specific courses
+  const slots: CurriculumRequirement[] = [];
+  for (const req of requirements) {
+    if (isElectiveSlot(req)) {
+      slots.push(req);
+      continue;
+    }
+    const key = courseKey(req.course_code);
+    const base: AuditCourse = {
+      course_code: req.course_code,
+      title: req.title,
+      units: req.units,
+      year: req.year,
+      semester: req.semester,
+      category: categoryOf(req),
+      status: 'remaining',
+    };
+    const match = passed.get(key);
+    if (match) {
+      used.add(key);
+      courses.push({
+        ...base,
+        status: 'completed',
+        source: match.source,
+        satisfied_by: match.code !== req.course_code ? match.code : undefined,
+      });
+    } else if (inProgress.has(key)) {
+      used.add(key);
+      courses.push({ ...base, status: 'in_progress', source: 'ips' });
+    } else {
+      courses.push(base);
+    }
+  }
+
+  // Pass 2: elective slots, restricted slots first so free electives take what is left
+  const sortedSlots = [...slots].sort((a, b) =>
+    Number(electivePrefix(a.course_code) === null) - Number(electivePrefix(b.course_code) === null)
+  );
+  for (const slot of sortedSlots) {
+    const prefix = electivePrefix(slot.course_code);
+    const slotKey = courseKey(slot.course_code);
+    const fits = (key: string) =>
+      !used.has(key) && !/ELECT/.test(key) && (!prefix || key.startsWith(`${prefix} `));
+    const base: AuditCourse = {
+      course_code: slot.course_code,
+      title: slot.title,
+      units: slot.units,
+      year: slot.year,
+      semester: slot.semester,
+      category: categoryOf(slot),
+      status: 'remaining',
+    };
+
+    // The IPS may already report the slot itself
+    if (passed.has(slotKey) || inProgress.has(slotKey)) {
+      used.add(slotKey);
+      const match = passed.get(slotKey);
+      courses.push({ ...base, status: match ? 'completed' : 'in_progress', source: match?.source ?? 'ips' });
+      continue;
+    }
+
+    const passedKey = [...passed.keys()].find(fits);
+    if (passedKey) {
+      used.add(passedKey);
+      const match = passed.get(passedKey)!;
+      courses.push({ ...base, status: 'completed', satisfied_by: match.code, source: match.source });
+      continue;
+    }
+    const inProgressKey = [...inProgress.keys()].find(fits);
+    if (inProgressKey) {
+      used.add(inProgressKey);
+      courses.push({ ...base, status: 'in_progress', satisfied_by: inProgress.get(inProgressKey), source: 'ips' });
+      continue;
+    }
+    courses.push(base);
+  }
+
+  // Keep curriculum order for display
+  const order = new Map(requirements.map((r, i) => [r.course_code, i]));
+  courses.sort((a, b) => (order.get(a.course_code) ?? 0) - (order.get(b.course_code) ?? 0));
+
+  // Prerequisite check for what is left
+  const passedCodes = [...passed.keys()];
+  const afterTerm = [...passedCodes, ...inProgress.keys()];
+  const trees = new Map<string, PrerequisiteNode>();
+  for (const req of requirements) {
+    const node = parseStoredPrerequisites(req.prerequisites_ast);
+    if (node) trees.set(req.course_code, node);
+  }
+
+  const unmet: UnmetPrerequisite[] = [];
+  for (const course of courses) {
+    if (course.status !== 'remaining') continue;
+    const tree = trees.get(course.course_code);
+    if (!tree) continue;
+    const now = evaluatePrerequisites(tree, { passed: passedCodes, yearLevel: options.yearLevel });
+    if (now.status !== 'missing') continue;
+    const later = evaluatePrerequisites(tree, { passed: afterTerm, yearLevel: options.yearLevel });
+    unmet.push({
+      course_code: course.course_code,
+      prerequisites: now.expression,
+      missing: now.missing,
+      clears_after_current_term: later.status !== 'missing',
+    });
+  }
+
+  // Category summary
+  const categoryMap = new Map<string, CategoryProgress>();
+  for (const course of courses) {
+    let cat = categoryMap.get(course.category);
+    if (!cat) {
+      cat = { category: course.category, total: 0, completed: 0, in_progress: 0, remaining: 0, remaining_units: 0, remaining_courses: [] };
+      categoryMap.set(course.category, cat);
+    }
+    cat.total++;
+    if (course.status === 'completed') cat.completed++;
+    else if (course.status === 'in_progress') cat.in_progress++;
+    else {
+      cat.remaining++;
+      cat.remaining_units += course.units;
+      cat.remaining_courses.push(course.course_code);
+    }
+  }
+
+  const sumUnits = (status: AuditStatus) =>
+    courses.filter(c => c.status === status).reduce((sum, c) => sum + c.units, 0);
+  const completedUnits = sumUnits('completed');
+  const inProgressUnits = sumUnits('in_progress');
+  const remainingUnits = sumUnits('remaining');
+  const totalUnits = completedUnits + inProgressUnits + remainingUnits;
+
+  return {
+    completed_units: completedUnits,
+    in_progress_units: inProgressUnits,
+    remaining_units: remainingUnits,
+    progress_percentage: totalUnits > 0 ? Math.round((completedUnits / totalUnits) * 100) : 0,
+    categories: [...categoryMap.values()],
+    courses,
+    unmet_prerequisites: unmet,
+    unmatched_passed_courses: [...passed.entries()].filter(([key]) => !used.has(key)).map(([, p]) => p.code),
+    graduation_estimate: estimateTerms(
+      courses.filter(c => c.status === 'remaining'),
+      trees,
+      afterTerm,
+      maxUnits,
+      options.yearLevel
+    ),
+  };
+}
+
+/**
+ * Greedy term-by-term plan: each term takes the earliest curriculum courses whose
+ * prerequisites were passed in earlier terms, up to the unit cap (see fillTerm).
+ * Co-requisites must be placed in the same term; offering patterns are not considered.
+ */
+function estimateTerms(
+  remaining: AuditCourse[],
+  trees: Map<string, PrerequisiteNode>,
+  startingPassed: string[],
+  maxUnits: number,
+  yearLevel?: number
+): GraduationEstimate {
+  const done = [...startingPassed];
+  const pending = [...remaining]
+    .sort((a, b) => a.year - b.year || a.semester - b.semester)
+    .map(course => ({ ...course, prerequisites: trees.get(course.course_code) ?? null }));
+  const plan: GraduationEstimate['plan'] = [];
+  let level = yearLevel;
+
+  while (pending.length > 0) {
+    const { placed, units } = fillTerm(pending, { done, maxUnits, yearLevel: level });
+
+    // Nothing left can ever be taken (prerequisite outside the curriculum or a cycle)
+    if (placed.length === 0) break;
+
+    plan.push({ term: plan.length + 1, courses: placed.map(c => c.course_code), units });
+    for (const course of placed) {
+      done.push(course.course_code);
+      pending.splice(pending.indexOf(course), 1);
+    }
+    // Two regular terms per year level
+    if (level !== undefined && plan.length % 2 === 0) level++;
+  }
+
+  return {
+    min_terms: plan.length,
+    max_units_per_term: maxUnits,
+    plan,
+    blocked: pending.map(c => c.course_code),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { inflateSync } from 'zlib';
+import { heatmapToCsv, renderHeatmapPng, renderHeatmapSvg, type Heatmap } from './heatmap.js';
+
+const heatmap: Heatmap = {
+  title: 'Room use, 1st Semester <2025>',
+  columns: ['07:00', '07:30', '08:00'],
+  panels: [
+    { title: 'SEC-A', rows: [{ label: 'M', values: [0, 1, 2] }, { label: 'T', values: [2, 2, 0] }] },
+    { title: 'K, annex', rows: [{ label: 'M', values: [1, 0, 0] }] },
+  ],
+  max: 2,
+  panel_header: 'building',
+  row_header: 'day',
+};
+
+describe('heatmapToCsv', () => {
+  it('writes one line per panel row and quotes fields with commas', () => {
+    expect(heatmapToCsv(heatmap)).toBe([
+      'building,day,07:00,07:30,08:00',
+      'SEC-A,M,0,1,2',
+      'SEC-A,T,2,2,0',
+      '"K, annex",M,1,0,0',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('renderHeatmapSvg', () => {
+  it('draws a cell per value and escapes labels', () => {
+    const svg = renderHeatmapSvg(heatmap);
+
+    expect(svg.match(/<rect x=/g)).toHaveLength(9);
+    expect(svg).toContain('Room use, 1st Semester &lt;2025&gt;');
+    expect(svg).toContain('<title>SEC-A T 07:30: 2</title>');
+    // Empty cells stay gray, the maximum gets the darkest color
+    expect(svg).toContain('fill="rgb(241,245,249)"><title>SEC-A M 07:00: 0</title>');
+    expect(svg).toContain('fill="rgb(153,27,27)"><title>SEC-A M 08:00: 2</title>');
+  });
+});
+
+describe('renderHeatmapPng', () => {
+  it('encodes an RGB image with the SVG layout', () => {
+    const png = renderHeatmapPng(heatmap);
+    const svg = renderHeatmapSvg(heatmap);
+    const [, width, height] = svg.match(/width="(\d+)" height="(\d+)"/)!.map(Number);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(width);
+    expect(png.readUInt32BE(20)).toBe(height);
+
+    // Image data is one filter byte plus three bytes per pixel on every scanline
+    const idatLength = png.readUInt32BE(33);
+    expect(png.toString('ascii', 37, 41)).toBe('IDAT');
+    expect(inflateSync(png.subarray(41, 41 + idatLength))).toHaveLength(height * (width * 3 + 1));
+  });
+});
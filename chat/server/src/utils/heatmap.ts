@@ -0,0 +1,167 @@
+/**
+ * Heatmaps
+ *
+ * Renders labelled grids of numbers (panels of rows × columns) as CSV, SVG and PNG
+ * for the room utilization reports. Everything is drawn server-side without a
+ * graphics library: SVG is plain markup and PNG is encoded with zlib.
+ */
+
+import { crc32, deflateSync } from 'zlib';
+
+export interface HeatmapPanel {
+  title: string;                 // "SEC-A", "K-303"
+  rows: { label: string; values: number[] }[];
+}
+
+export interface Heatmap {
+  title: string;
+  columns: string[];             // Column labels: "07:00", "07:30", ...
+  panels: HeatmapPanel[];
+  max: number;                   // Value drawn in the darkest color
+  panel_header: string;          // CSV header for the panel column: "building", "room"
+  row_header: string;            // CSV header for the row column: "day"
+}
+
+const CELL = 14;
+const GAP = 1;
+const LABEL_WIDTH = 96;
+const HEADER_HEIGHT = 46;
+const PANEL_TITLE_HEIGHT = 20;
+const PANEL_GAP = 10;
+
+// Empty cells are light gray; used cells go from pale yellow to dark red
+const EMPTY_COLOR: [number, number, number] = [241, 245, 249];
+const LOW_COLOR: [number, number, number] = [254, 240, 138];
+const HIGH_COLOR: [number, number, number] = [153, 27, 27];
+const BACKGROUND: [number, number, number] = [255, 255, 255];
+
+function heatColor(value: number, max: number): [number, number, number] {
+  if (value <= 0 || max <= 0) return EMPTY_COLOR;
+  const t = Math.min(1, value / max);
+  return LOW_COLOR.map((low, i) => Math.round(low + (HIGH_COLOR[i] - low) * t)) as [number, number, number];
+}
+
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * One line per panel row: panel, row label, then a value per column
+ */
+export function heatmapToCsv(heatmap: Heatmap): string {
+  const lines = [[heatmap.panel_header, heatmap.row_header, ...heatmap.columns].map(csvField).join(',')];
+  for (const panel of heatmap.panels) {
+    for (const row of panel.rows) {
+      lines.push([panel.title, row.label, ...row.values].map(csvField).join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Panel layout shared by the SVG and PNG renderers
+ */
+function layout(heatmap: Heatmap) {
+  const width = LABEL_WIDTH + heatmap.columns.length * CELL + PANEL_GAP;
+  const panelTops: number[] = [];
+  let y = HEADER_HEIGHT;
+  for (const panel of heatmap.panels) {
+    panelTops.push(y);
+    y += PANEL_TITLE_HEIGHT + panel.rows.length * CELL + PANEL_GAP;
+  }
+  return { width, height: y, panelTops };
+}
+
+export function renderHeatmapSvg(heatmap: Heatmap): string {
+  const { width, height, panelTops } = layout(heatmap);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="10">`,
+    `<rect width="100%" height="100%" fill="rgb(${BACKGROUND.join(',')})"/>`,
+    `<text x="4" y="14" font-size="13" font-weight="bold">${escapeXml(heatmap.title)}</text>`,
+  ];
+
+  // Hour labels over every other column (columns are half hours)
+  heatmap.columns.forEach((column, i) => {
+    if (i % 2 === 0) {
+      parts.push(`<text x="${LABEL_WIDTH + i * CELL}" y="${HEADER_HEIGHT - 6}">${escapeXml(column.slice(0, 2))}</text>`);
+    }
+  });
+  parts.push(`<text x="${width - PANEL_GAP}" y="28" text-anchor="end">darkest = ${heatmap.max}</text>`);
+
+  heatmap.panels.forEach((panel, p) => {
+    const top = panelTops[p];
+    parts.push(`<text x="4" y="${top + 14}" font-weight="bold">${escapeXml(panel.title)}</text>`);
+    panel.rows.forEach((row, r) => {
+      const y = top + PANEL_TITLE_HEIGHT + r * CELL;
+      parts.push(`<text x="4" y="${y + CELL - 3}">${escapeXml(row.label)}</text>`);
+      row.values.forEach((value, c) => {
+        const color = heatColor(value, heatmap.max);
+        parts.push(
+          `<rect x="${LABEL_WIDTH + c * CELL}" y="${y}" width="${CELL - GAP}" height="${CELL - GAP}" fill="rgb(${color.join(',')})">`
+          + `<title>${escapeXml(`${panel.title} ${row.label} ${heatmap.columns[c]}: ${value}`)}</title></rect>`
+        );
+      });
+    });
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Same layout as the SVG, cells only (no text rendering without a font library;
+ * use the SVG or CSV when labels are needed)
+ */
+export function renderHeatmapPng(heatmap: Heatmap): Buffer {
+  const { width, height, panelTops } = layout(heatmap);
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) pixels.set(BACKGROUND, i * 3);
+
+  const fill = (x: number, y: number, w: number, h: number, color: [number, number, number]) => {
+    for (let row = y; row < y + h; row++) {
+      for (let col = x; col < x + w; col++) pixels.set(color, (row * width + col) * 3);
+    }
+  };
+
+  heatmap.panels.forEach((panel, p) => {
+    panel.rows.forEach((row, r) => {
+      const y = panelTops[p] + PANEL_TITLE_HEIGHT + r * CELL;
+      row.values.forEach((value, c) => {
+        fill(LABEL_WIDTH + c * CELL, y, CELL - GAP, CELL - GAP, heatColor(value, heatmap.max));
+      });
+    });
+  });
+
+  // Each scanline starts with filter type 0 (none)
+  const scanlines = Buffer.alloc(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    pixels.copy(scanlines, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8);   // bit depth
+  header.writeUInt8(2, 9);   // color type: RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(scanlines)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,46 @@
+/**
+ * Instructor Names
+ *
+ * Splits AISIS instructor entries into individual people the same way the scraper does
+ * when it fills person / section_instructor (src/parsers/instructorNameParser.ts); the chat
+ * server has its own copy so it builds without the scraper sources.
+ *
+ * Example: "GO, CLARK KENDRICK C., NABLE, JOB A." -> ["GO, CLARK KENDRICK C.", "NABLE, JOB A."]
+ */
+
+const SUFFIX_REGEX = /^(JR|SR|II|III|IV|V)\.?$/;
+const PLACEHOLDER_REGEX = /^(TBA|TBD|STAFF|TO BE ANNOUNCED)$/;
+
+function clean(text: string): string {
+  return text.toUpperCase().replace(/\s+/g, ' ').replace(/\s+\./g, '.').trim();
+}
+
+/**
+ * Split a (possibly co-taught) instructor entry into individual names.
+ * Entries are "SURNAME, GIVEN" pairs joined by commas or semicolons ("DELA CRUZ, ANA;
+ * REYES, JOSE P."); a segment that is only a suffix ("JR.") belongs to the name
+ * before it. Placeholders (TBA) give [].
+ */
+export function splitInstructorNames(entry: string | null | undefined): string[] {
+  if (!entry || PLACEHOLDER_REGEX.test(clean(entry))) return [];
+  return entry.split(';').flatMap(splitNamePairs);
+}
+
+// "SURNAME, GIVEN" pairs of one ";"-separated group
+function splitNamePairs(group: string): string[] {
+  const segments = group.split(',').map(clean).filter(Boolean);
+  const names: string[] = [];
+  let i = 0;
+  while (i < segments.length) {
+    const surname = segments[i];
+    let given = segments[i + 1] && !SUFFIX_REGEX.test(segments[i + 1]) ? segments[i + 1] : '';
+    i += given ? 2 : 1;
+    while (i < segments.length && SUFFIX_REGEX.test(segments[i])) {
+      given = `${given} ${segments[i]}`.trim();
+      i++;
+    }
+    if (PLACEHOLDER_REGEX.test(surname)) continue;
+    names.push(given ? `${surname}, ${given}` : surname);
+  }
+  return names;
+}
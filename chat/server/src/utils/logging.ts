@@ -25,6 +25,7 @@ export function detectIntent(toolCalls: Array<{ name: string }> | undefined): st
     'get_my_schedule': 'personal_schedule',
     'get_my_grades': 'personal_grades',
     'get_my_ips': 'personal_ips',
+    'get_my_degree_audit': 'personal_degree_audit',
     'get_my_hold_orders': 'personal_holds',
     'search_courses': 'course_search',
     'get_course_sections': 'section_lookup',
@@ -0,0 +1,213 @@
+/**
+ * REST Route Definitions & OpenAPI
+ *
+ * The REST API declares each route once (path, parameters, handler). Request parameters
+ * are validated and coerced from those definitions, and the OpenAPI 3.1 document served
+ * at /api/v1/openapi.json is generated from the same list, so the two cannot drift apart.
+ */
+
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeCursor, type CursorKey } from './pagination.js';
+
+// 'time' is HH:MM, 'cursor' a next_cursor from a previous page
+export type ApiParamType = 'string' | 'integer' | 'boolean' | 'time' | 'cursor';
+
+export interface ApiParam {
+  name: string;
+  in: 'path' | 'query';
+  type: ApiParamType;
+  description: string;
+  enum?: string[];          // Matched case-insensitively, passed on in the listed spelling
+  minimum?: number;
+  maximum?: number;
+  default?: string | number | boolean;
+}
+
+export type ApiParamValue = string | number | boolean | CursorKey | undefined;
+export type ApiParams = Record<string, ApiParamValue>;
+
+export interface ApiRoute {
+  path: string;             // Express path below the API base, e.g. '/courses/:code'
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  paginated?: boolean;      // Adds cursor + limit; the handler returns rows fetched with limit + 1
+  cursorField?: string;     // Row field the rows are ordered by (the cursor of paginated routes)
+  params?: ApiParam[];
+  schema: string;           // Component schema of the response (of each item when paginated)
+  handler: (params: ApiParams) => unknown;   // null/undefined = 404
+  notFound?: string;        // Error message of the 404
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export const PAGE_PARAMS: ApiParam[] = [
+  { name: 'cursor', in: 'query', type: 'cursor', description: 'next_cursor of the previous page' },
+  {
+    name: 'limit',
+    in: 'query',
+    type: 'integer',
+    description: 'Page size',
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    default: DEFAULT_PAGE_SIZE,
+  },
+];
+
+export function routeParams(route: ApiRoute): ApiParam[] {
+  return [...(route.params || []), ...(route.paginated ? PAGE_PARAMS : [])];
+}
+
+function parseValue(param: ApiParam, raw: string): ApiParamValue | { error: string } {
+  const invalid = (expected: string) => ({ error: `Invalid ${param.name}: expected ${expected}, got "${raw}"` });
+
+  switch (param.type) {
+    case 'integer': {
+      if (!/^-?\d+$/.test(raw)) return invalid('an integer');
+      const value = parseInt(raw, 10);
+      if ((param.minimum !== undefined && value < param.minimum) || (param.maximum !== undefined && value > param.maximum)) {
+        return invalid(`${param.minimum ?? '-∞'} to ${param.maximum ?? '∞'}`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true;
+      if (raw === 'false' || raw === '0') return false;
+      return invalid('true or false');
+    case 'time': {
+      const match = raw.match(/^(\d{1,2}):(\d{2})$/);
+      if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) return invalid('HH:MM');
+      return `${match[1].padStart(2, '0')}:${match[2]}`;
+    }
+    case 'cursor': {
+      const key = decodeCursor(raw);
+      return key === null ? invalid('a next_cursor value') : key;
+    }
+    default: {
+      if (!param.enum) return raw;
+      const match = param.enum.find(v => v.toLowerCase() === raw.toLowerCase());
+      return match ?? invalid(param.enum.join(', '));
+    }
+  }
+}
+
+/**
+ * Validate and coerce path + query parameters of a request against the route definition
+ */
+export function parseParams(
+  route: ApiRoute,
+  pathParams: Record<string, string>,
+  query: Record<string, unknown>
+): { params: ApiParams } | { error: string } {
+  const params: ApiParams = {};
+
+  for (const param of routeParams(route)) {
+    const source = param.in === 'path' ? pathParams[param.name] : query[param.name];
+    // Repeated query parameters: the first one wins
+    const raw = Array.isArray(source) ? source[0] : source;
+
+    if (typeof raw !== 'string' || raw.trim() === '') {
+      params[param.name] = param.default;
+      continue;
+    }
+
+    const value = parseValue(param, raw.trim());
+    if (typeof value === 'object' && value !== null) return value;
+    params[param.name] = value;
+  }
+
+  return { params };
+}
+
+function paramSchema(param: ApiParam): JsonSchema {
+  switch (param.type) {
+    case 'integer':
+      return { type: 'integer', minimum: param.minimum, maximum: param.maximum, default: param.default };
+    case 'boolean':
+      return { type: 'boolean', default: param.default };
+    case 'time':
+      return { type: 'string', pattern: '^\\d{1,2}:\\d{2}$', example: '13:00' };
+    default:
+      return { type: 'string', enum: param.enum, default: param.default };
+  }
+}
+
+/**
+ * Generate the OpenAPI 3.1 document for a list of routes mounted at basePath
+ */
+export function buildOpenApiDocument(
+  routes: ApiRoute[],
+  info: { title: string; version: string; description: string; basePath: string },
+  schemas: Record<string, JsonSchema>
+): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const ref = { $ref: `#/components/schemas/${route.schema}` };
+
+    paths[path] = {
+      get: {
+        tags: [route.tag],
+        summary: route.summary,
+        description: route.description,
+        operationId: route.operationId,
+        parameters: routeParams(route).map(param => ({
+          name: param.name,
+          in: param.in,
+          required: param.in === 'path',
+          description: param.description,
+          schema: paramSchema(param),
+        })),
+        responses: {
+          200: {
+            description: route.paginated ? 'A page of results' : 'OK',
+            headers: { ETag: { $ref: '#/components/headers/ETag' } },
+            content: {
+              'application/json': {
+                schema: route.paginated
+                  ? {
+                      type: 'object',
+                      required: ['data', 'next_cursor'],
+                      properties: {
+                        data: { type: 'array', items: ref },
+                        next_cursor: { type: ['string', 'null'], description: 'Pass as ?cursor= for the next page' },
+                      },
+                    }
+                  : ref,
+              },
+            },
+          },
+          304: { description: 'Not modified since the ETag in If-None-Match' },
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...(route.params?.some(p => p.in === 'path') ? { 404: { $ref: '#/components/responses/NotFound' } } : {}),
+        },
+      },
+    };
+  }
+
+  const error = { content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } };
+
+  return {
+    openapi: '3.1.0',
+    info: { title: info.title, version: info.version, description: info.description },
+    servers: [{ url: info.basePath }],
+    paths,
+    components: {
+      schemas: {
+        ...schemas,
+        Error: { type: 'object', required: ['error'], properties: { error: { type: 'string' } } },
+      },
+      responses: {
+        BadRequest: { description: 'Invalid parameter', ...error },
+        NotFound: { description: 'No such resource', ...error },
+      },
+      headers: {
+        ETag: {
+          description: 'Changes when a scrape run changes the catalog; send it back as If-None-Match',
+          schema: { type: 'string' },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, toPage } from './pagination.js';
+
+describe('cursors', () => {
+  it('round-trip string and number keys', () => {
+    expect(decodeCursor(encodeCursor('CSCI 21'))).toBe('CSCI 21');
+    expect(decodeCursor(encodeCursor(4182))).toBe(4182);
+  });
+
+  it('reject cursors that encodeCursor did not produce', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"id":1}').toString('base64url'))).toBeNull();
+  });
+});
+
+describe('toPage', () => {
+  const rows = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+  it('points the next cursor at the last row shown when an extra row was fetched', () => {
+    const page = toPage(rows, 2, row => row.id);
+
+    expect(page.data).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(decodeCursor(page.next_cursor!)).toBe(2);
+  });
+
+  it('ends on a page without the extra row', () => {
+    expect(toPage(rows, 3, row => row.id)).toEqual({ data: rows, next_cursor: null });
+    expect(toPage([], 3, (row: { id: number }) => row.id)).toEqual({ data: [], next_cursor: null });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Cursor Pagination
+ *
+ * Keyset pagination for the REST API: a cursor is the sort key of the last row of a page
+ * (a course code, a section id, ...), base64url-encoded so clients treat it as opaque.
+ * Unlike offsets, cursors stay valid when rows are added before the current page.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export type CursorKey = string | number;
+
+export interface Page<T> {
+  data: T[];
+  next_cursor: string | null;   // null on the last page
+}
+
+export function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decode a cursor; null when it was not produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return typeof key === 'string' || typeof key === 'number' ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a page from rows fetched with limit + 1 (the extra row means there is a next page)
+ */
+export function toPage<T>(rows: T[], limit: number, keyOf: (row: T) => CursorKey): Page<T> {
+  const data = rows.slice(0, limit);
+  const hasMore = rows.length > limit && data.length > 0;
+  return {
+    data,
+    next_cursor: hasMore ? encodeCursor(keyOf(data[data.length - 1])) : null,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * People Tables
+ *
+ * Instructor queries read individuals from person and their sections from
+ * section_instructor (both filled by the scraper). Databases scraped before those tables
+ * existed only have the raw instructor entries, so queries fall back to instructor and
+ * class_section.instructor_id (co-taught entries then count as one "person").
+ *
+ * Usage: const { people, links } = peopleTables(db);
+ *   `FROM ${people} p JOIN ${links} si ON si.person_id = p.id`
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface PeopleTables {
+  people: string;   // Table with id, name per person
+  links: string;    // Table (or subquery) with section_id, person_id
+}
+
+const PERSON_TABLES: PeopleTables = { people: 'person', links: 'section_instructor' };
+const INSTRUCTOR_TABLES: PeopleTables = {
+  people: 'instructor',
+  links: '(SELECT id AS section_id, instructor_id AS person_id FROM class_section)',
+};
+
+// Only a positive check is cached: the scraper may add the tables while the server runs
+const hasPersonTables = new WeakSet<Database.Database>();
+const warned = new WeakSet<Database.Database>();
+
+export function peopleTables(database: Database.Database): PeopleTables {
+  if (hasPersonTables.has(database)) return PERSON_TABLES;
+
+  const { found } = database.prepare(`
+    SELECT COUNT(*) as found FROM sqlite_master
+    WHERE type = 'table' AND name IN ('person', 'section_instructor')
+  `).get() as { found: number };
+  if (found === 2) {
+    hasPersonTables.add(database);
+    return PERSON_TABLES;
+  }
+
+  if (!warned.has(database)) {
+    warned.add(database);
+    console.warn('[People] No person / section_instructor tables, using raw instructor entries (re-run the scraper to split co-taught entries)');
+  }
+  return INSTRUCTOR_TABLES;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectPrerequisiteCourses,
+  describePrerequisites,
+  evaluatePrerequisites,
+  parseStoredPrerequisites,
+  type PrerequisiteNode,
+} from './prerequisites.js';
+
+const course = (code: string): PrerequisiteNode => ({ type: 'course', code });
+
+// "MATH 31.1 or MATH 31.2, Junior standing"
+const mathAndStanding: PrerequisiteNode = {
+  type: 'and',
+  children: [
+    { type: 'or', children: [course('MATH 31.1'), course('MATH 31.2')] },
+    { type: 'standing', level: 'junior', year: 3 },
+  ],
+};
+
+describe('describePrerequisites', () => {
+  it('parenthesizes nested groups', () => {
+    expect(describePrerequisites(mathAndStanding)).toBe('(MATH 31.1 or MATH 31.2) and Junior standing');
+  });
+});
+
+describe('collectPrerequisiteCourses', () => {
+  it('lists each referenced course once', () => {
+    const tree: PrerequisiteNode = {
+      type: 'or',
+      children: [course('CSCI 21'), { type: 'coreq', child: course('CSCI 21') }, course('MATH 10')],
+    };
+    expect(collectPrerequisiteCourses(tree)).toEqual(['CSCI 21', 'MATH 10']);
+  });
+});
+
+describe('parseStoredPrerequisites', () => {
+  it('returns null for empty or malformed columns', () => {
+    expect(parseStoredPrerequisites(null)).toBeNull();
+    expect(parseStoredPrerequisites('{not json')).toBeNull();
+    expect(parseStoredPrerequisites(JSON.stringify(course('CSCI 21')))).toEqual(course('CSCI 21'));
+  });
+});
+
+describe('evaluatePrerequisites', () => {
+  it('reports the branch of an OR that was met', () => {
+    const result = evaluatePrerequisites(mathAndStanding, { passed: ['math 31.2'], yearLevel: 3 });
+    expect(result.status).toBe('satisfied');
+    expect(result.satisfied).toEqual(['MATH 31.2', 'Junior standing']);
+  });
+
+  it('does not let a freshman through on the course alone', () => {
+    const result = evaluatePrerequisites(mathAndStanding, { passed: ['MATH 31.1'], yearLevel: 1 });
+    expect(result.status).toBe('missing');
+    expect(result.missing).toEqual(['Junior standing']);
+  });
+
+  it('reports an unmet OR as a whole', () => {
+    const result = evaluatePrerequisites(mathAndStanding, { passed: [], yearLevel: 4 });
+    expect(result.status).toBe('missing');
+    expect(result.missing).toEqual(['MATH 31.1 or MATH 31.2']);
+  });
+
+  it('leaves standing unknown when the year level is not given', () => {
+    const result = evaluatePrerequisites(mathAndStanding, { passed: ['MATH 31.1'] });
+    expect(result.status).toBe('unknown');
+    expect(result.unresolved).toEqual(['Junior standing']);
+  });
+
+  it('accepts concurrent courses only for co-requisites', () => {
+    const tree: PrerequisiteNode = {
+      type: 'and',
+      children: [course('PHYS 71'), { type: 'coreq', child: course('PHYS 71.1') }],
+    };
+    expect(evaluatePrerequisites(tree, { passed: ['PHYS 71'], concurrent: ['PHYS 71.1'] }).status).toBe('satisfied');
+    expect(evaluatePrerequisites(tree, { passed: [], concurrent: ['PHYS 71', 'PHYS 71.1'] }).missing).toEqual(['PHYS 71']);
+  });
+
+  it('treats consent as granted only when told so', () => {
+    const tree: PrerequisiteNode = { type: 'consent', of: 'instructor' };
+    expect(evaluatePrerequisites(tree, { passed: [] }).status).toBe('unknown');
+    expect(evaluatePrerequisites(tree, { passed: [], hasConsent: true }).status).toBe('satisfied');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Prerequisite Expression Evaluator
+ *
+ * Evaluates the AND/OR trees stored in curriculum_course.prerequisites_ast
+ * (written by the scraper's prerequisiteParser) against a student's courses.
+ *
+ * Example tree for "CSCI 21 and (MATH 31.1 or MATH 31.2)":
+ * { type: 'and', children: [
+ *   { type: 'course', code: 'CSCI 21' },
+ *   { type: 'or', children: [{ type: 'course', code: 'MATH 31.1' }, { type: 'course', code: 'MATH 31.2' }] }
+ * ] }
+ */
+
+// Copy of the tree types in src/parsers/prerequisiteParser.ts (the chat server builds
+// without the scraper sources); keep the two in step
+export type StandingLevel = 'freshman' | 'sophomore' | 'junior' | 'senior' | 'graduate';
+
+export type PrerequisiteNode =
+  | { type: 'course'; code: string }
+  | { type: 'and'; children: PrerequisiteNode[] }
+  | { type: 'or'; children: PrerequisiteNode[] }
+  | { type: 'coreq'; child: PrerequisiteNode }
+  | { type: 'standing'; level: StandingLevel; year: number }
+  | { type: 'consent'; of: string };
+
+// satisfied = met, missing = definitely not met, unknown = needs consent or standing we don't know
+export type PrerequisiteStatus = 'satisfied' | 'missing' | 'unknown';
+
+export interface PrerequisiteContext {
+  passed: Iterable<string>;     // Courses already passed/credited
+  concurrent?: Iterable<string>; // Courses taken in the same term (satisfy co-requisites)
+  yearLevel?: number;            // 1-4, for "Junior standing" clauses
+  hasConsent?: boolean;          // Treat consent clauses as granted
+}
+
+export interface PrerequisiteEvaluation {
+  status: PrerequisiteStatus;
+  expression: string;
+  satisfied: string[];   // Branches that are met (e.g., "MATH 31.2" for an OR)
+  missing: string[];     // Requirements still needed (e.g., "MATH 31.1 or MATH 31.2")
+  unresolved: string[];  // Consent/standing clauses we cannot decide
+}
+
+function courseKey(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse a stored prerequisites_ast column value
+ */
+export function parseStoredPrerequisites(json: string | null | undefined): PrerequisiteNode | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as PrerequisiteNode;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a tree back into readable text
+ * e.g., "CSCI 21 and (MATH 31.1 or MATH 31.2)"
+ */
+export function describePrerequisites(node: PrerequisiteNode): string {
+  switch (node.type) {
+    case 'course':
+      return node.code;
+    case 'coreq':
+      return `${describePrerequisites(node.child)} (co-requisite)`;
+    case 'standing':
+      return `${node.level.charAt(0).toUpperCase()}${node.level.slice(1)} standing`;
+    case 'consent':
+      return `Consent of ${node.of}`;
+    case 'and':
+    case 'or':
+      return node.children
+        .map(child => (child.type === 'and' || child.type === 'or')
+          ? `(${describePrerequisites(child)})`
+          : describePrerequisites(child))
+        .join(` ${node.type} `);
+  }
+}
+
+/**
+ * List every course code referenced by a tree
+ */
+export function collectPrerequisiteCourses(node: PrerequisiteNode): string[] {
+  switch (node.type) {
+    case 'course':
+      return [node.code];
+    case 'coreq':
+      return collectPrerequisiteCourses(node.child);
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(collectPrerequisiteCourses))];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate a prerequisite tree against a set of passed courses.
+ * Reports which branch satisfied each OR and exactly what is still missing.
+ */
+export function evaluatePrerequisites(
+  node: PrerequisiteNode,
+  context: PrerequisiteContext
+): PrerequisiteEvaluation {
+  const passed = new Set([...context.passed].map(courseKey));
+  const concurrent = new Set([...(context.concurrent || [])].map(courseKey));
+
+  function evaluate(n: PrerequisiteNode, allowConcurrent: boolean): PrerequisiteEvaluation {
+    const expression = describePrerequisites(n);
+    const result = (status: PrerequisiteStatus, partial: Partial<PrerequisiteEvaluation> = {}): PrerequisiteEvaluation => ({
+      status,
+      expression,
+      satisfied: partial.satisfied || [],
+      missing: partial.missing || [],
+      unresolved: partial.unresolved || [],
+    });
+
+    switch (n.type) {
+      case 'course': {
+        const key = courseKey(n.code);
+        if (passed.has(key) || (allowConcurrent && concurrent.has(key))) {
+          return result('satisfied', { satisfied: [n.code] });
+        }
+        return result('missing', { missing: [expression] });
+      }
+
+      case 'coreq':
+        return { ...evaluate(n.child, true), expression };
+
+      case 'standing':
+        if (context.yearLevel === undefined) return result('unknown', { unresolved: [expression] });
+        return context.yearLevel >= n.year
+          ? result('satisfied', { satisfied: [expression] })
+          : result('missing', { missing: [expression] });
+
+      case 'consent':
+        return context.hasConsent
+          ? result('satisfied', { satisfied: [expression] })
+          : result('unknown', { unresolved: [expression] });
+
+      case 'and': {
+        const children = n.children.map(child => evaluate(child, allowConcurrent));
+        const status: PrerequisiteStatus = children.some(c => c.status === 'missing')
+          ? 'missing'
+          : children.some(c => c.status === 'unknown') ? 'unknown' : 'satisfied';
+        return result(status, {
+          satisfied: children.flatMap(c => c.satisfied),
+          missing: children.flatMap(c => c.missing),
+          unresolved: children.flatMap(c => c.unresolved),
+        });
+      }
+
+      case 'or': {
+        const children = n.children.map(child => evaluate(child, allowConcurrent));
+        const met = children.find(c => c.status === 'satisfied');
+        if (met) {
+          // Report only the branch that did the work
+          return result('satisfied', { satisfied: [met.expression] });
+        }
+        const pending = children.filter(c => c.status === 'unknown');
+        if (pending.length > 0) {
+          return result('unknown', { unresolved: [expression] });
+        }
+        // Any one branch would do, so report the whole alternative
+        return result('missing', { missing: [expression] });
+      }
+    }
+  }
+
+  return evaluate(node, false);
+}
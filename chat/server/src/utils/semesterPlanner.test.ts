@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { nextTermCode, planSemesters, planToCsv, type PlannerCourse } from './semesterPlanner.js';
+import type { PrerequisiteNode } from './prerequisites.js';
+
+const course = (code: string): PrerequisiteNode => ({ type: 'course', code });
+
+function plannerCourse(
+  code: string,
+  semester: number,
+  prerequisites: PrerequisiteNode | null = null,
+  extra: Partial<PlannerCourse> = {}
+): PlannerCourse {
+  return {
+    course_code: code,
+    title: code,
+    units: 3,
+    year: 2,
+    semester,
+    category: 'Major',
+    elective: false,
+    prerequisites,
+    ...extra,
+  };
+}
+
+const codesByTerm = (plan: ReturnType<typeof planSemesters>) =>
+  plan.terms.map(t => [t.term, t.courses.map(c => c.course_code)]);
+
+describe('nextTermCode', () => {
+  it('goes through the intersession into the next school year', () => {
+    expect(nextTermCode('2025-1')).toBe('2025-2');
+    expect(nextTermCode('2025-2')).toBe('2026-0');
+    expect(nextTermCode('2026-0')).toBe('2026-1');
+  });
+});
+
+describe('planSemesters', () => {
+  it('follows the curriculum semester when there is no offering history', () => {
+    const plan = planSemesters(
+      [plannerCourse('CSCI 30', 1), plannerCourse('CSCI 31', 2)],
+      { done: [], startTerm: '2026-1' }
+    );
+
+    expect(codesByTerm(plan)).toEqual([['2026-1', ['CSCI 30']], ['2026-2', ['CSCI 31']]]);
+    expect(plan.terms_needed).toBe(2);
+  });
+
+  it('skips semesters in which a course was never offered', () => {
+    const plan = planSemesters(
+      [plannerCourse('CSCI 115', 1, null, {
+        offerings: [{ semester: 1, offered: 0, on_record: 3 }, { semester: 2, offered: 3, on_record: 3 }],
+      })],
+      { done: [], startTerm: '2026-1' }
+    );
+
+    expect(codesByTerm(plan)).toEqual([['2026-1', []], ['2026-2', ['CSCI 115']]]);
+  });
+
+  it('places a co-requisite in the same term as its partner', () => {
+    const lab = plannerCourse('PHYS 51.01', 1, { type: 'coreq', child: course('PHYS 51') });
+    const plan = planSemesters(
+      [lab, plannerCourse('PHYS 51', 1), plannerCourse('MATH 31', 1)],
+      { done: [], startTerm: '2026-1', maxUnitsPerTerm: 6 }
+    );
+
+    expect(codesByTerm(plan)).toEqual([
+      ['2026-1', ['PHYS 51', 'PHYS 51.01']],
+      ['2026-2', []],
+      ['2027-1', ['MATH 31']],
+    ]);
+  });
+
+  it('explains courses that can never be placed', () => {
+    const plan = planSemesters(
+      [plannerCourse('CSCI 199', 1, course('CSCI 999'))],
+      { done: [], startTerm: '2026-1' }
+    );
+
+    expect(plan.terms).toEqual([]);
+    expect(plan.unplaced).toEqual([{ course_code: 'CSCI 199', reason: 'prerequisites never met: CSCI 999' }]);
+  });
+});
+
+describe('planToCsv', () => {
+  it('quotes fields that contain commas', () => {
+    const plan = planSemesters(
+      [plannerCourse('ENGL 11', 1, null, { title: 'Reading, Writing' })],
+      { done: [], startTerm: '2026-1' }
+    );
+
+    expect(planToCsv(plan).split('\n')).toEqual([
+      'term,label,course_code,title,units,category',
+      `2026-1,"${plan.terms[0].label}",ENGL 11,"Reading, Writing",3,Major`,
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Multi-Semester Planner
+ *
+ * Lays out remaining curriculum courses into future terms:
+ * - A course is placed only after every prerequisite was placed in an earlier term
+ *   (co-requisites may share a term)
+ * - Each term respects a unit cap (intersessions have their own, smaller cap)
+ * - A course goes into a semester only if it is usually offered then; courses with no
+ *   offering history follow the semester the curriculum puts them in
+ * - Courses that unlock the longest prerequisite chains are placed first
+ */
+
+import { collectPrerequisiteCourses, evaluatePrerequisites, type PrerequisiteNode } from './prerequisites.js';
+import { formatTermLabel } from './terms.js';
+import type { OfferingPattern } from '../models/Course.js';
+
+export interface PlannerCourse {
+  course_code: string;
+  title: string;
+  units: number;
+  year: number;              // Curriculum year
+  semester: number;          // Curriculum semester (3 = summer/intersession)
+  category: string;
+  elective: boolean;         // Elective slot, can be filled in any term
+  prerequisites: PrerequisiteNode | null;
+  offerings?: OfferingPattern[];
+}
+
+export interface PlannedCourse {
+  course_code: string;
+  title: string;
+  units: number;
+  category: string;
+  offering_note: string;
+}
+
+export interface PlannedTerm {
+  term: string;
+  label: string;
+  units: number;
+  courses: PlannedCourse[];
+}
+
+export interface SemesterPlan {
+  terms: PlannedTerm[];
+  terms_needed: number;
+  total_units: number;
+  unplaced: Array<{ course_code: string; reason: string }>;
+}
+
+export interface PlannerOptions {
+  done: string[];                // Passed and in-progress courses
+  startTerm: string;             // First term to plan (e.g., "2026-1")
+  maxUnitsPerTerm?: number;      // Default 21
+  includeIntersession?: boolean; // Default false
+  intersessionMaxUnits?: number; // Default 6
+  yearLevel?: number;            // Year level during startTerm, for standing clauses
+  maxTerms?: number;             // Safety limit, default 18
+}
+
+const SEMESTER_NAMES: Record<number, string> = {
+  0: 'intersession',
+  1: '1st semester',
+  2: '2nd semester',
+};
+
+/**
+ * Next term code: 2025-1 -> 2025-2 -> 2026-0 -> 2026-1
+ */
+export function nextTermCode(term: string): string {
+  const [year, semester] = term.split('-').map(Number);
+  if (semester === 0) return `${year}-1`;
+  if (semester === 1) return `${year}-2`;
+  return `${year + 1}-0`;
+}
+
+/**
+ * Whether a course can be taken in a kind of semester, and why
+ */
+function offeringFit(course: PlannerCourse, semester: number): { ok: boolean; note: string } {
+  const name = SEMESTER_NAMES[semester];
+  if (course.elective) {
+    return { ok: true, note: 'elective slot, pick any offered course' };
+  }
+
+  const history = course.offerings || [];
+  const pattern = history.find(p => p.semester === semester);
+  if (history.some(p => p.offered > 0) && pattern && pattern.on_record > 0) {
+    return pattern.offered > 0
+      ? { ok: true, note: `offered in ${pattern.offered} of ${pattern.on_record} ${name} terms on record` }
+      : { ok: false, note: `not offered in any of ${pattern.on_record} ${name} terms on record` };
+  }
+
+  // No history for this kind of term: follow the curriculum's placement
+  const curriculumIntersession = course.semester === 0 || course.semester === 3;
+  if (semester === 0) {
+    return curriculumIntersession
+      ? { ok: true, note: 'intersession course per curriculum (no offering history)' }
+      : { ok: false, note: 'not an intersession course' };
+  }
+  if (curriculumIntersession || course.semester === semester) {
+    return { ok: true, note: 'placed per curriculum semester (no offering history)' };
+  }
+  return { ok: false, note: `curriculum puts it in the ${SEMESTER_NAMES[course.semester] || 'other semester'}` };
+}
+
+export interface TermCandidate {
+  course_code: string;
+  units: number;
+  prerequisites: PrerequisiteNode | null;
+}
+
+/**
+ * Fill one term greedily: take pending courses in order while they fit under the unit cap
+ * and their prerequisites were met in earlier terms (`done`). A co-requisite counts only
+ * when it is placed in this same term. Shared by the planner and the degree audit estimate.
+ */
+export function fillTerm<T extends TermCandidate>(
+  pending: T[],
+  options: { done: string[]; maxUnits: number; yearLevel?: number; canTake?: (course: T) => boolean }
+): { placed: T[]; units: number } {
+  const placed: T[] = [];
+  const placedCodes: string[] = [];
+  let units = 0;
+
+  // Repeat so a co-requisite placed later in the pass can still unlock its partner
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const course of pending) {
+      if (placed.includes(course)) continue;
+      if (units > 0 && units + course.units > options.maxUnits) continue;
+      if (options.canTake && !options.canTake(course)) continue;
+
+      if (course.prerequisites) {
+        const check = evaluatePrerequisites(course.prerequisites, {
+          passed: options.done,
+          concurrent: placedCodes,
+          yearLevel: options.yearLevel,
+          hasConsent: true,
+        });
+        if (check.status === 'missing') continue;
+      }
+
+      placed.push(course);
+      placedCodes.push(course.course_code);
+      units += course.units;
+      changed = true;
+    }
+  }
+
+  return { placed, units };
+}
+
+/**
+ * Length of the longest chain of remaining courses that depend on each course
+ */
+function chainLengths(courses: PlannerCourse[]): Map<string, number> {
+  const dependents = new Map<string, string[]>();
+  for (const course of courses) {
+    if (!course.prerequisites) continue;
+    for (const code of collectPrerequisiteCourses(course.prerequisites)) {
+      const key = code.toUpperCase();
+      dependents.set(key, [...(dependents.get(key) || []), course.course_code]);
+    }
+  }
+
+  const memo = new Map<string, number>();
+  const visit = (code: string, seen: Set<string>): number => {
+    const key = code.toUpperCase();
+    if (memo.has(key)) return memo.get(key)!;
+    if (seen.has(key)) return 0; // Cycle in the data
+    seen.add(key);
+    const length = 1 + Math.max(0, ...(dependents.get(key) || []).map(d => visit(d, seen)));
+    seen.delete(key);
+    memo.set(key, length);
+    return length;
+  };
+
+  const lengths = new Map<string, number>();
+  for (const course of courses) lengths.set(course.course_code, visit(course.course_code, new Set()));
+  return lengths;
+}
+
+/**
+ * Build a term-by-term plan
+ */
+export function planSemesters(courses: PlannerCourse[], options: PlannerOptions): SemesterPlan {
+  const maxUnits = options.maxUnitsPerTerm || 21;
+  const intersessionMax = options.intersessionMaxUnits || 6;
+  const maxTerms = options.maxTerms || 18;
+  const chains = chainLengths(courses);
+
+  const pending = [...courses].sort((a, b) =>
+    (chains.get(b.course_code) || 0) - (chains.get(a.course_code) || 0)
+    || a.year - b.year
+    || a.semester - b.semester
+  );
+  const done = [...options.done];
+  const terms: PlannedTerm[] = [];
+  let term = options.startTerm;
+  let yearLevel = options.yearLevel;
+  let regularTerms = 0;
+  let emptyStreak = 0;
+
+  while (pending.length > 0 && regularTerms < maxTerms) {
+    const [year, semester] = term.split('-').map(Number);
+    const isIntersession = semester === 0;
+
+    if (isIntersession && !options.includeIntersession) {
+      term = nextTermCode(term);
+      continue;
+    }
+
+    const { placed: placedCourses, units } = fillTerm(pending, {
+      done,
+      maxUnits: isIntersession ? intersessionMax : maxUnits,
+      yearLevel,
+      canTake: course => offeringFit(course, semester).ok,
+    });
+    const placed: PlannedCourse[] = placedCourses.map(course => ({
+      course_code: course.course_code,
+      title: course.title,
+      units: course.units,
+      category: course.category,
+      offering_note: offeringFit(course, semester).note,
+    }));
+
+    if (!isIntersession) regularTerms++;
+    emptyStreak = placed.length === 0 ? emptyStreak + 1 : 0;
+    // Three empty terms in a row cover every kind of semester, so nothing else can be placed
+    if (emptyStreak >= 3) break;
+
+    // Skipped intersessions are simply not taken
+    if (!isIntersession || placed.length > 0) {
+      terms.push({ term, label: formatTermLabel(year, semester), units, courses: placed });
+    }
+    for (const course of placedCourses) {
+      done.push(course.course_code);
+      pending.splice(pending.indexOf(course), 1);
+    }
+
+    if (semester === 2 && yearLevel !== undefined) yearLevel++;
+    term = nextTermCode(term);
+  }
+
+  // Drop trailing empty terms
+  while (terms.length > 0 && terms[terms.length - 1].courses.length === 0) terms.pop();
+
+  return {
+    terms,
+    terms_needed: terms.filter(t => !t.term.endsWith('-0')).length,
+    total_units: terms.reduce((sum, t) => sum + t.units, 0),
+    unplaced: pending.map(course => {
+      const missing = course.prerequisites
+        ? evaluatePrerequisites(course.prerequisites, { passed: done, yearLevel, hasConsent: true }).missing
+        : [];
+      return {
+        course_code: course.course_code,
+        reason: missing.length > 0
+          ? `prerequisites never met: ${missing.join(', ')}`
+          : 'no term within the planning horizon offers it',
+      };
+    }),
+  };
+}
+
+/**
+ * CSV export (one row per planned course)
+ */
+export function planToCsv(plan: SemesterPlan): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = ['term,label,course_code,title,units,category'];
+  for (const term of plan.terms) {
+    for (const course of term.courses) {
+      lines.push([term.term, term.label, course.course_code, course.title, course.units, course.category].map(escape).join(','));
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Markdown export (one table per term)
+ */
+export function planToMarkdown(plan: SemesterPlan): string {
+  const sections = plan.terms.map(term => {
+    const rows = term.courses.map(c => `| ${c.course_code} | ${c.title} | ${c.units} | ${c.category} |`);
+    return [
+      `### ${term.label} (${term.term}) - ${term.units} units`,
+      '',
+      '| Course | Title | Units | Category |',
+      '| ------ | ----- | ----- | -------- |',
+      ...(rows.length > 0 ? rows : ['| - | No remaining course offered | 0 | - |']),
+    ].join('\n');
+  });
+  if (plan.unplaced.length > 0) {
+    sections.push(`### Not placed\n\n${plan.unplaced.map(u => `- ${u.course_code}: ${u.reason}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
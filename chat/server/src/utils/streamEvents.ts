@@ -0,0 +1,108 @@
+/**
+ * Chat Stream Events
+ *
+ * Typed Server-Sent Events emitted by POST /api/chat/stream and /api/chat/personal/stream.
+ * Each event is written as `event: <type>` plus a JSON `data:` line.
+ *
+ * Order: (token | tool_start | tool_result)* -> usage -> done, or error at any point.
+ */
+
+import type { Response } from 'express';
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'tool_start'; id: string; name: string; label: string; args: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; ok: boolean; summary: string; durationMs: number }
+  | {
+      type: 'usage';
+      promptTokens: number;
+      responseTokens: number;
+      totalTokens: number;
+      maxTokens: number;
+      usagePercent: number;
+    }
+  | { type: 'done'; sessionId: string; response: string; debug: Record<string, unknown> }
+  | { type: 'error'; error: string };
+
+/**
+ * Start an SSE response
+ */
+export function openEventStream(res: Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+}
+
+/**
+ * Write one event (no-op once the client disconnected)
+ */
+export function writeEvent(res: Response, event: ChatStreamEvent): void {
+  if (res.writableEnded || res.destroyed) return;
+  const { type, ...data } = event;
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Tools whose progress reads better with a custom label
+const TOOL_LABELS: Record<string, (args: Record<string, unknown>) => string> = {
+  get_course_sections: a => `Looking up ${a.course_code || 'course'} sections`,
+  get_instructor_schedule: a => `Looking up ${a.instructor_name || 'instructor'}'s schedule`,
+  get_room_schedule: a => `Checking the schedule of ${a.room_code || 'the room'}`,
+  build_schedule: a => `Building a schedule for ${a.courses || 'your courses'}`,
+  search_courses: a => `Searching courses for "${a.query || ''}"`,
+  get_my_schedule: () => 'Fetching your AISIS schedule',
+  get_my_grades: () => 'Fetching your grades from AISIS',
+  get_my_ips: () => 'Fetching your IPS from AISIS',
+  get_my_degree_audit: () => 'Running your degree audit',
+};
+
+const VERBS: Record<string, string> = {
+  get: 'Looking up',
+  search: 'Searching',
+  find: 'Finding',
+  build: 'Building',
+  compare: 'Comparing',
+  list: 'Listing',
+  check: 'Checking',
+  export: 'Exporting',
+  plan: 'Planning',
+};
+
+/**
+ * Human-readable progress label for a tool call
+ * e.g., get_course_sections { course_code: "CSCI 111" } -> "Looking up CSCI 111 sections…"
+ */
+export function describeToolCall(name: string, args: Record<string, unknown>): string {
+  const custom = TOOL_LABELS[name];
+  if (custom) return `${custom(args)}…`;
+
+  const [verb, ...rest] = name.split('_');
+  const subject = args.course_code || args.instructor || args.room_code || args.program || args.query;
+  const what = rest.join(' ');
+  return `${VERBS[verb] || 'Running'} ${what}${subject ? ` for ${String(subject)}` : ''}…`;
+}
+
+/**
+ * Short summary of a tool result for progress indicators (never the full payload)
+ */
+export function summarizeToolResult(result: unknown): { ok: boolean; summary: string } {
+  if (result === null || typeof result !== 'object') {
+    return { ok: true, summary: String(result).slice(0, 120) };
+  }
+
+  const record = result as Record<string, unknown>;
+  if (typeof record.error === 'string') {
+    return { ok: false, summary: record.error.slice(0, 120) };
+  }
+
+  const list = Object.entries(record).find(([, value]) => Array.isArray(value));
+  if (list) {
+    const count = (list[1] as unknown[]).length;
+    return { ok: true, summary: `${count} ${list[0].replace(/_/g, ' ')}` };
+  }
+  if (typeof record.message === 'string') {
+    return { ok: true, summary: record.message.slice(0, 120) };
+  }
+  return { ok: true, summary: Object.keys(record).slice(0, 5).join(', ') };
+}
@@ -0,0 +1,133 @@
+/**
+ * Term Resolver
+ *
+ * Resolves the "current" term from the database instead of a hardcoded code:
+ * 1. Newest term (by year, semester) in the term table that has sections
+ * 2. FALLBACK_TERM when the database is empty
+ *
+ * Scrape order says nothing about which term is current: --all-terms scrapes
+ * newest first and a --term backfill runs last, so runs are never consulted.
+ *
+ * Term codes are YYYY-S: S = 0 (intersession), 1 (first sem), 2 (second sem),
+ * where YYYY is the first year of the school year ("2025-2" = 2nd sem SY 2025-2026).
+ */
+
+import { db } from '../mcp/tools/db.js';
+
+export const FALLBACK_TERM = '2025-2';
+
+// Re-resolve at most once a minute so new scrape runs are picked up
+const CACHE_TTL_MS = 60 * 1000;
+let cached: { term: string; resolvedAt: number } | null = null;
+
+export interface TermInfo {
+  code: string;           // "2025-2"
+  label: string;          // "2nd Semester, SY 2025-2026"
+  year: number;
+  semester: number;
+  starts: string;         // Approximate start date (YYYY-MM-DD)
+  ends: string;           // Approximate end date (YYYY-MM-DD)
+  section_count: number;
+  last_scraped: string | null;
+  is_current: boolean;
+}
+
+const SEMESTER_LABELS: Record<number, string> = {
+  0: 'Intersession',
+  1: '1st Semester',
+  2: '2nd Semester',
+};
+
+/**
+ * Format a term code for display
+ * e.g., "2025-2" -> "2nd Semester, SY 2025-2026"
+ */
+export function formatTermLabel(year: number, semester: number): string {
+  return `${SEMESTER_LABELS[semester] || `Term ${semester}`}, SY ${year}-${year + 1}`;
+}
+
+/**
+ * Approximate Ateneo calendar for a term (AISIS does not publish dates)
+ * Intersession: Jun-Jul, 1st sem: Aug-Dec, 2nd sem: Jan-May of the next year
+ */
+export function getTermDateRange(year: number, semester: number): { starts: string; ends: string } {
+  switch (semester) {
+    case 0:
+      return { starts: `${year}-06-01`, ends: `${year}-07-31` };
+    case 1:
+      return { starts: `${year}-08-01`, ends: `${year}-12-20` };
+    default:
+      return { starts: `${year + 1}-01-06`, ends: `${year + 1}-05-31` };
+  }
+}
+
+/**
+ * Resolve the current term from the database (cached)
+ */
+export function getCurrentTerm(): string {
+  if (cached && Date.now() - cached.resolvedAt < CACHE_TTL_MS) {
+    return cached.term;
+  }
+
+  let term = FALLBACK_TERM;
+  try {
+    const row = db.prepare(`
+      SELECT t.code as term_code
+      FROM term t
+      WHERE EXISTS (SELECT 1 FROM class_section cs WHERE cs.term_id = t.id)
+      ORDER BY t.year DESC, t.semester DESC
+      LIMIT 1
+    `).get() as { term_code: string } | undefined;
+
+    term = row?.term_code || FALLBACK_TERM;
+  } catch (err) {
+    console.error('[terms] Failed to resolve current term:', err);
+  }
+
+  cached = { term, resolvedAt: Date.now() };
+  return term;
+}
+
+/**
+ * Use the requested term if given, otherwise the current term
+ */
+export function resolveTerm(term?: string | null): string {
+  const requested = term?.trim();
+  return requested ? requested : getCurrentTerm();
+}
+
+/**
+ * Apply a per-request term override to tool arguments
+ * (only when the model did not pick a term itself)
+ */
+export function applyTermOverride(args: Record<string, unknown>, term?: unknown): Record<string, unknown> {
+  if (typeof term !== 'string' || !term.trim() || args.term) return args;
+  return { ...args, term: term.trim() };
+}
+
+/**
+ * List terms in the database with section counts and approximate date ranges
+ */
+export function listTerms(): TermInfo[] {
+  const current = getCurrentTerm();
+  const rows = db.prepare(`
+    SELECT
+      t.code, t.year, t.semester,
+      (SELECT COUNT(*) FROM class_section cs WHERE cs.term_id = t.id) as section_count,
+      (SELECT MAX(completed_at) FROM scrape_run sr
+        WHERE sr.term_code = t.code AND sr.status = 'completed') as last_scraped
+    FROM term t
+    ORDER BY t.year DESC, t.semester DESC
+  `).all() as Array<{ code: string; year: number; semester: number; section_count: number; last_scraped: string | null }>;
+
+  return rows.map(r => ({
+    code: r.code,
+    label: formatTermLabel(r.year, r.semester),
+    year: r.year,
+    semester: r.semester,
+    ...getTermDateRange(r.year, r.semester),
+    section_count: r.section_count,
+    last_scraped: r.last_scraped,
+    is_current: r.code === current,
+  }));
+}
@@ -1,4 +1,11 @@
-import { handleFunctionCall, toolNames } from './src/mcp/tools/index.ts';
+import { handleFunctionCall, publicDefinitions, toolNames } from './src/mcp/tools/index.ts';
+import { MockProvider, runToolLoop } from './src/llm/index.ts';
+import { db } from './src/mcp/tools/db.ts';
+import { initModels } from './src/models/index.ts';
+import { AI_CONFIG } from './src/routes/chat.ts';
+
+// Models share the tools' read-only connection (api.ts does the same at startup)
+initModels(db);
 
 console.log('=== STRESS TEST: All ' + toolNames.length + ' Tools ===\n');
 
@@ -70,6 +77,27 @@ for (const [name, args] of tests) {
   }
 }
 
+// Full chat round-trips through the scripted mock provider (offline, no API key)
+console.log('\n=== MOCK LLM ROUND-TRIPS ===\n');
+
+const llm = new MockProvider();
+const prompts = ['Tell me about CSCI 21', 'Who teaches MATH 10?', 'What courses are about ethics?', 'What classes are in CTC 106?'];
+
+for (const prompt of prompts) {
+  try {
+    const chat = llm.startChat({ systemInstruction: '', tools: publicDefinitions, history: [], generation: AI_CONFIG });
+    const { turn, toolCalls } = await runToolLoop(chat, prompt, call => handleFunctionCall(call.name, call.args));
+    const ok = toolCalls.length > 0 && turn.text.length > 0;
+    if (ok) passed++;
+    else failed++;
+    console.log((ok ? '✅' : '❌') + ' "' + prompt + '" → ' + toolCalls.map(c => c.name).join(', '));
+  } catch (e) {
+    failed++;
+    console.log('❌ "' + prompt + '" → EXCEPTION: ' + (e instanceof Error ? e.message : String(e)));
+  }
+}
+
+const total = tests.length + prompts.length;
 console.log('\n=== RESULTS ===');
-console.log('✅ Passed: ' + passed + '/' + tests.length);
-console.log('❌ Failed: ' + failed + '/' + tests.length);
+console.log('✅ Passed: ' + passed + '/' + total);
+console.log('❌ Failed: ' + failed + '/' + total);
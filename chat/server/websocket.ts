@@ -5,6 +5,8 @@
 
 import { WebSocket, WebSocketServer } from 'ws';
 import type { Server } from 'http';
+import { supabase, supabaseAdmin } from './src/utils/supabase.js';
+import { normalizeCourseCode } from './src/utils/courseAliases.js';
 
 interface WSMessage {
   type: 'chat_stream' | 'notification' | 'slot_change' | 'console_log' | 'ping';
@@ -14,14 +16,33 @@ interface WSMessage {
 interface WSClient {
   ws: WebSocket;
   id: string;
+  userId?: string;  // Set after an 'auth' message; enables persisted subscriptions
   subscribedCourses: string[];
   lastPing: number;
 }
 
+export interface SlotChange {
+  term: string;
+  section: string;
+  oldSlots: number;
+  newSlots: number;
+  scrapeRunId?: number | null;
+}
+
+function normalizeCourses(courses: unknown): string[] {
+  if (!Array.isArray(courses)) return [];
+  const codes = courses
+    .filter((c): c is string => typeof c === 'string' && c.trim() !== '')
+    .map(c => normalizeCourseCode(c).toUpperCase());
+  return [...new Set(codes)];
+}
+
 export class SISIAWebSocket {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, WSClient> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
+  // userId -> last queued subscription save
+  private pendingSaves: Map<string, Promise<void>> = new Map();
 
   constructor() {}
 
@@ -79,33 +100,137 @@ export class SISIAWebSocket {
   private handleMessage(clientId: string, message: { type: string; payload?: unknown }): void {
     const client = this.clients.get(clientId);
     if (!client) return;
+    const payload = (message.payload && typeof message.payload === 'object' ? message.payload : {}) as Record<string, unknown>;
 
     switch (message.type) {
       case 'pong':
         client.lastPing = Date.now();
         break;
 
+      case 'auth':
+        // Identify the user so subscriptions are saved and restored on reconnect
+        if (typeof payload.token === 'string') {
+          this.authenticate(client, payload.token).catch(err => {
+            console.error(`WebSocket auth error for ${clientId}:`, err);
+          });
+        }
+        break;
+
       case 'subscribe':
         // Subscribe to course slot updates
-        if (message.payload && typeof message.payload === 'object' && 'courses' in message.payload) {
-          const courses = (message.payload as { courses: string[] }).courses || [];
+        if ('courses' in payload) {
+          const courses = normalizeCourses(payload.courses);
           client.subscribedCourses = courses;
           this.sendToClient(clientId, {
             type: 'notification',
-            payload: { message: `Subscribed to updates for: ${courses.join(', ')}` },
+            payload: { message: `Subscribed to updates for: ${courses.join(', ')}`, courses },
           });
+          if (client.userId) {
+            this.saveSubscriptions(client.userId, courses).catch(err => {
+              console.error(`Failed to save subscriptions for ${client.userId}:`, err);
+            });
+          }
         }
         break;
 
-      case 'unsubscribe':
-        client.subscribedCourses = [];
+      case 'unsubscribe': {
+        // Remove specific courses, or everything when none are given
+        const removed = normalizeCourses(payload.courses);
+        client.subscribedCourses = removed.length > 0
+          ? client.subscribedCourses.filter(c => !removed.includes(c))
+          : [];
+        if (client.userId) {
+          this.saveSubscriptions(client.userId, client.subscribedCourses).catch(err => {
+            console.error(`Failed to save subscriptions for ${client.userId}:`, err);
+          });
+        }
         break;
+      }
 
       default:
         break;
     }
   }
 
+  // Validate a Supabase access token and restore the user's saved subscriptions
+  private async authenticate(client: WSClient, token: string): Promise<void> {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      this.sendToClient(client.id, {
+        type: 'notification',
+        payload: { message: 'Authentication failed', authenticated: false },
+      });
+      return;
+    }
+
+    client.userId = user.id;
+
+    const { data, error: loadError } = await supabaseAdmin
+      .from('slot_subscription')
+      .select('course_code')
+      .eq('user_id', user.id);
+    if (loadError) throw loadError;
+
+    const saved = (data || []).map(row => row.course_code as string);
+    client.subscribedCourses = [...new Set([...client.subscribedCourses, ...saved])];
+
+    this.sendToClient(client.id, {
+      type: 'notification',
+      payload: {
+        message: saved.length > 0
+          ? `Restored updates for: ${client.subscribedCourses.join(', ')}`
+          : 'Authenticated',
+        authenticated: true,
+        courses: client.subscribedCourses,
+      },
+    });
+  }
+
+  // Replace a user's saved subscriptions (saves of one user run one after another)
+  private saveSubscriptions(userId: string, courses: string[]): Promise<void> {
+    const previous = this.pendingSaves.get(userId) || Promise.resolve();
+    const save = previous.catch(() => {}).then(() => this.writeSubscriptions(userId, courses));
+    this.pendingSaves.set(userId, save);
+    save.finally(() => {
+      if (this.pendingSaves.get(userId) === save) this.pendingSaves.delete(userId);
+    }).catch(() => {});
+    return save;
+  }
+
+  // Upsert the watched courses, then drop the rest; never trips the (user_id, course_code) constraint
+  private async writeSubscriptions(userId: string, courses: string[]): Promise<void> {
+    if (courses.length > 0) {
+      const { error: upsertError } = await supabaseAdmin
+        .from('slot_subscription')
+        .upsert(
+          courses.map(course_code => ({ user_id: userId, course_code })),
+          { onConflict: 'user_id,course_code', ignoreDuplicates: true }
+        );
+      if (upsertError) throw upsertError;
+    }
+
+    // Delete stale rows one code at a time, so client-supplied course codes are
+    // always sent as values and never spliced into a filter string
+    const { data: saved, error: selectError } = await supabaseAdmin
+      .from('slot_subscription')
+      .select('course_code')
+      .eq('user_id', userId);
+    if (selectError) throw selectError;
+
+    const stale = (saved || [])
+      .map((row: { course_code: string }) => row.course_code)
+      .filter(code => !courses.includes(code));
+    const results = await Promise.all(stale.map(code =>
+      supabaseAdmin
+        .from('slot_subscription')
+        .delete()
+        .eq('user_id', userId)
+        .eq('course_code', code)
+    ));
+    const deleteError = results.find(result => result.error)?.error;
+    if (deleteError) throw deleteError;
+  }
+
   private pingClients(): void {
     const now = Date.now();
     
@@ -137,21 +262,39 @@ export class SISIAWebSocket {
   }
 
   // Notify clients subscribed to specific courses about slot changes
-  notifySlotChange(courseCode: string, sectionData: { section: string; oldSlots: number; newSlots: number }): void {
+  notifySlotChange(courseCode: string, sectionData: SlotChange): void {
+    const course = courseCode.toUpperCase();
+    const opened = sectionData.oldSlots === 0 && sectionData.newSlots > 0;
+    const message = opened
+      ? `${courseCode} ${sectionData.section} is open: ${sectionData.newSlots} slot${sectionData.newSlots === 1 ? '' : 's'} available`
+      : `${courseCode} ${sectionData.section}: slots changed from ${sectionData.oldSlots} to ${sectionData.newSlots}`;
+
     for (const [clientId, client] of this.clients) {
-      if (client.subscribedCourses.includes(courseCode)) {
+      if (client.subscribedCourses.includes(course)) {
         this.sendToClient(clientId, {
           type: 'slot_change',
           payload: {
             course: courseCode,
             ...sectionData,
-            message: `${courseCode} ${sectionData.section}: slots changed from ${sectionData.oldSlots} to ${sectionData.newSlots}`,
+            opened,
+            message,
           },
         });
       }
     }
   }
 
+  // Course codes that at least one connected client is watching
+  getSubscribedCourses(): string[] {
+    const courses = new Set<string>();
+    for (const [, client] of this.clients) {
+      for (const course of client.subscribedCourses) {
+        courses.add(course);
+      }
+    }
+    return [...courses];
+  }
+
   // Stream chat response tokens
   streamChatToken(clientId: string, token: string, done = false): void {
     this.sendToClient(clientId, {
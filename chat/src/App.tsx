@@ -5,6 +5,7 @@ import { RegisterModal } from './components/RegisterModal';
 import { UserMenu } from './components/UserMenu';
 import { ContextBar } from './components/ContextBar';
 import { DebugPanel, type DebugInfo } from './components/DebugPanel';
+import { streamChat, type TokenUsage } from './lib/chatStream';
 import './App.css';
 
 interface Message {
@@ -12,6 +13,14 @@ interface Message {
   content: string;
 }
 
+// Tool call shown as a progress line while the answer streams
+interface ToolProgress {
+  id: string;
+  label: string;
+  status: 'running' | 'done' | 'failed';
+  summary?: string;
+}
+
 function ChatApp() {
   const { user, accessToken } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
@@ -19,15 +28,12 @@ function ChatApp() {
   const [isLoading, setIsLoading] = useState(false);
   const [showLogin, setShowLogin] = useState(false);
   const [showRegister, setShowRegister] = useState(false);
-  const [tokenUsage, setTokenUsage] = useState<{
-    promptTokens: number;
-    responseTokens: number;
-    totalTokens: number;
-    maxTokens: number;
-    usagePercent: number;
-  } | null>(null);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
+  const [toolProgress, setToolProgress] = useState<ToolProgress[]>([]);
   const [debugOpen, setDebugOpen] = useState(false);
   const [debugHistory, setDebugHistory] = useState<DebugInfo[]>([]);
+  // The server keeps the conversation per session; only the session id is sent back
+  const sessionIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -48,49 +54,71 @@ function ChatApp() {
     const newMessages: Message[] = [...messages, { role: 'user', content: userMessage }];
     setMessages(newMessages);
     setIsLoading(true);
+    setToolProgress([]);
+
+    // Assistant message grows as tokens arrive
+    let streamed = '';
+    const showAssistant = (content: string) => {
+      setMessages([...newMessages, { role: 'assistant', content }]);
+    };
 
     try {
       // Use personal endpoint if authenticated, public otherwise
       const endpoint = user && accessToken && user.aisisLinked
-        ? 'http://localhost:6102/api/chat/personal'
-        : 'http://localhost:6102/api/chat';
+        ? 'http://localhost:6102/api/chat/personal/stream'
+        : 'http://localhost:6102/api/chat/stream';
       
-      const headers: HeadersInit = { 'Content-Type': 'application/json' };
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
       if (accessToken) {
         headers['Authorization'] = `Bearer ${accessToken}`;
       }
+      if (sessionIdRef.current) {
+        headers['X-Session-Id'] = sessionIdRef.current;
+      }
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          message: userMessage,
-          history: messages,
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (data.response) {
-        setMessages([...newMessages, { role: 'assistant', content: data.response }]);
-        // Update token usage from API response
-        if (data.tokenUsage) {
-          setTokenUsage(data.tokenUsage);
+      await streamChat(endpoint, { message: userMessage }, headers, (event) => {
+        switch (event.type) {
+          case 'token':
+            streamed += event.text;
+            showAssistant(streamed);
+            break;
+          case 'tool_start':
+            setToolProgress(prev => [...prev, { id: event.id, label: event.label, status: 'running' }]);
+            break;
+          case 'tool_result':
+            setToolProgress(prev => prev.map(t => t.id === event.id
+              ? { ...t, status: event.ok ? 'done' : 'failed', summary: event.summary }
+              : t));
+            break;
+          case 'usage':
+            // Update token usage for the context bar
+            setTokenUsage({
+              promptTokens: event.promptTokens,
+              responseTokens: event.responseTokens,
+              totalTokens: event.totalTokens,
+              maxTokens: event.maxTokens,
+              usagePercent: event.usagePercent,
+            });
+            break;
+          case 'done':
+            sessionIdRef.current = event.sessionId;
+            showAssistant(event.response || streamed);
+            // Store debug info
+            setDebugHistory(prev => [...prev, event.debug]);
+            break;
+          case 'error':
+            showAssistant(`Error: ${event.error}`);
+            break;
         }
-        // Store debug info
-        if (data.debug) {
-          setDebugHistory(prev => [...prev, data.debug]);
-        }
-      } else if (data.error) {
-        setMessages([...newMessages, { role: 'assistant', content: `Error: ${data.error}` }]);
-      }
-    } catch (error) {
+      });
+    } catch {
       setMessages([...newMessages, { 
         role: 'assistant', 
         content: 'Sorry, I couldn\'t connect to the server. Make sure the API is running.' 
       }]);
     } finally {
       setIsLoading(false);
+      setToolProgress([]);
     }
   };
 
@@ -244,7 +272,21 @@ function ChatApp() {
             </div>
           ))}
 
-          {isLoading && (
+          {isLoading && toolProgress.length > 0 && (
+            <div className="tool-progress">
+              {toolProgress.map(tool => (
+                <div key={tool.id} className={`tool-progress-item ${tool.status}`}>
+                  <span className="tool-progress-icon">
+                    {tool.status === 'running' ? '⏳' : tool.status === 'done' ? '✓' : '⚠'}
+                  </span>
+                  <span>{tool.label}</span>
+                  {tool.summary && <span className="tool-progress-summary">{tool.summary}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
             <div className="message assistant">
               <div className="message-avatar">🤖</div>
               <div className="message-content loading">
@@ -21,6 +21,18 @@ export interface DebugInfo {
     total: number;
   };
   historyLength: number;
+  // Server-side conversation memory (summary made this turn, entities carried forward)
+  memory?: {
+    summarized: boolean;
+    context: {
+      term?: string;
+      courses: string[];
+      sections: string[];
+      instructors: string[];
+      rooms: string[];
+      program?: string;
+    };
+  };
   model: string;
   timestamp: string;
 }
@@ -201,8 +213,23 @@ export function DebugPanel({ isOpen, onToggle, debugHistory }: DebugPanelProps)
                   </div>
                   <div className="stat">
                     <span className="label">History</span>
-                    <span className="value">{latestDebug.historyLength} messages</span>
+                    <span className="value">
+                      {latestDebug.historyLength} messages
+                      {latestDebug.memory?.summarized && <span className="total"> (older turns summarized)</span>}
+                    </span>
                   </div>
+                  {latestDebug.memory && (
+                    <div className="stat">
+                      <span className="label">Context</span>
+                      <span className="value">
+                        {[
+                          latestDebug.memory.context.term,
+                          ...latestDebug.memory.context.sections,
+                          ...latestDebug.memory.context.courses,
+                        ].filter(Boolean).join(', ') || '—'}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,79 @@
+/**
+ * Chat stream client
+ *
+ * Reads the Server-Sent Events from POST /api/chat/stream (and /personal/stream).
+ * EventSource only supports GET, so the stream is parsed from fetch().
+ * Event shapes mirror server/src/utils/streamEvents.ts.
+ */
+
+import type { DebugInfo } from '../components/DebugPanel';
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  maxTokens: number;
+  usagePercent: number;
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'tool_start'; id: string; name: string; label: string; args: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; ok: boolean; summary: string; durationMs: number }
+  | ({ type: 'usage' } & TokenUsage)
+  | { type: 'done'; sessionId: string; response: string; debug: DebugInfo }
+  | { type: 'error'; error: string };
+
+/**
+ * POST a chat message and call onEvent for every event until the stream ends
+ */
+export async function streamChat(
+  endpoint: string,
+  body: Record<string, unknown>,
+  headers: HeadersInit,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { ...headers, Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    onEvent({ type: 'error', error: data.error || `Request failed (${response.status})` });
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let type = 'message';
+      let data = '';
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event: ')) type = line.slice(7).trim();
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (!data) continue;
+
+      try {
+        onEvent({ type, ...JSON.parse(data) } as ChatStreamEvent);
+      } catch {
+        // Ignore malformed events
+      }
+    }
+  }
+}
@@ -1,14 +1,25 @@
 /**
  * AI Chatbot Prompt Tester
  * Tests various edge cases and user queries
+ *
+ * --offline runs every prompt in-process against the scripted mock provider
+ * (no server, no API key) and checks that the expected tool was called.
  */
 
+import { MockProvider, runToolLoop } from './server/src/llm/index.ts';
+import { db } from './server/src/mcp/tools/db.ts';
+import { initModels } from './server/src/models/index.ts';
+import { handleFunctionCall, publicDefinitions } from './server/src/mcp/tools/index.ts';
+import { getSystemPromptBase } from './server/src/prompts/system.ts';
+import { AI_CONFIG } from './server/src/routes/chat.ts';
+
 const API_BASE = 'http://localhost:6102';
 
 interface TestCase {
   name: string;
   prompt: string;
   expectedBehavior: string;
+  expectedTool?: string;   // Checked in --offline mode
 }
 
 const testCases: TestCase[] = [
@@ -16,65 +27,76 @@ const testCases: TestCase[] = [
   { 
     name: 'BS ME curriculum', 
     prompt: 'What are the subjects for BS ME first year?',
-    expectedBehavior: 'Should list Year 1 Sem 1 & 2 courses for BS Management Engineering'
+    expectedBehavior: 'Should list Year 1 Sem 1 & 2 courses for BS Management Engineering',
+    expectedTool: 'get_curriculum'
   },
   { 
     name: 'Specific year/semester', 
     prompt: 'What subjects do I take in third year second semester of BS CS?',
-    expectedBehavior: 'Should list Y3S2 courses for BS Computer Science'
+    expectedBehavior: 'Should list Y3S2 courses for BS Computer Science',
+    expectedTool: 'get_curriculum'
   },
   { 
     name: 'Informal degree name', 
     prompt: 'Show me the curriculum for maneng',
-    expectedBehavior: 'Should recognize "maneng" as BS Management Engineering alias'
+    expectedBehavior: 'Should recognize "maneng" as BS Management Engineering alias',
+    expectedTool: 'get_curriculum'
   },
   { 
     name: 'Prerequisites query', 
     prompt: 'What are the prerequisites for MATH 31.3?',
-    expectedBehavior: 'Should show MATH 31.1 and MATH 31.2 as prerequisites'
+    expectedBehavior: 'Should show MATH 31.1 and MATH 31.2 as prerequisites',
+    expectedTool: 'get_prerequisites'
   },
   
   // Course search queries
   { 
     name: 'Course search by code', 
     prompt: 'Tell me about ENLIT 12',
-    expectedBehavior: 'Should show course details, sections, schedule'
+    expectedBehavior: 'Should show course details, sections, schedule',
+    expectedTool: 'get_course_info'
   },
   { 
     name: 'Course by keyword', 
     prompt: 'What courses are about ethics?',
-    expectedBehavior: 'Should find PHILO 13 Ethics and related courses'
+    expectedBehavior: 'Should find PHILO 13 Ethics and related courses',
+    expectedTool: 'search_courses'
   },
   
   // Instructor queries
   { 
     name: 'Instructor search', 
     prompt: 'Who teaches DECSC 25?',
-    expectedBehavior: 'Should list instructors teaching DECSC 25'
+    expectedBehavior: 'Should list instructors teaching DECSC 25',
+    expectedTool: 'get_course_sections'
   },
   { 
     name: 'Fuzzy instructor name', 
     prompt: 'What does Prof Santos teach?',
-    expectedBehavior: 'Should use fuzzy matching to find instructors named Santos'
+    expectedBehavior: 'Should use fuzzy matching to find instructors named Santos',
+    expectedTool: 'search_instructors'
   },
   
   // Schedule queries
   { 
     name: 'Natural time query', 
     prompt: 'What classes are available on MWF mornings?',
-    expectedBehavior: 'Should filter by MWF schedule and morning time slots'
+    expectedBehavior: 'Should filter by MWF schedule and morning time slots',
+    expectedTool: 'search_by_natural_time'
   },
   { 
     name: 'Room schedule', 
     prompt: 'What classes are in SEC A 211?',
-    expectedBehavior: 'Should show schedule for SEC A 211'
+    expectedBehavior: 'Should show schedule for SEC A 211',
+    expectedTool: 'get_room_schedule'
   },
   
   // Edge cases
   { 
     name: 'Misspelled course', 
     prompt: 'What is filosophy 11?',
-    expectedBehavior: 'Should fuzzy match to PHILO 11'
+    expectedBehavior: 'Should fuzzy match to PHILO 11',
+    expectedTool: 'get_course_info'
   },
   { 
     name: 'Vague query', 
@@ -84,12 +106,14 @@ const testCases: TestCase[] = [
   { 
     name: 'Comparison query', 
     prompt: 'Compare sections of ENGL 11',
-    expectedBehavior: 'Should show multiple sections with schedules and instructors'
+    expectedBehavior: 'Should show multiple sections with schedules and instructors',
+    expectedTool: 'get_course_sections'
   },
   { 
     name: 'Current date awareness', 
     prompt: 'What semester is it now?',
-    expectedBehavior: 'Should know current date and infer semester'
+    expectedBehavior: 'Should know current date and infer semester',
+    expectedTool: 'list_terms'
   },
 ];
 
@@ -115,7 +139,7 @@ async function testPrompt(testCase: TestCase): Promise<void> {
     }
     
     const data = await response.json();
-    const reply = data.reply || data.message || JSON.stringify(data);
+    const reply = data.response || data.message || JSON.stringify(data);
     
     // Truncate long responses
     const displayReply = reply.length > 500 
@@ -159,10 +183,39 @@ async function runTests(): Promise<void> {
   console.log('🏁 Testing complete!');
   console.log(`Ran ${quickTests.length} of ${testCases.length} tests`);
   console.log('Run all tests with: npx tsx chat/test-prompts.ts --all');
+  console.log('Run offline (mock LLM, no server) with: npx tsx chat/test-prompts.ts --offline');
+}
+
+async function runOffline(): Promise<void> {
+  console.log('🧪 AI Chatbot Prompt Tester (offline, mock provider)\n');
+  initModels(db);
+  const llm = new MockProvider();
+  let passed = 0;
+
+  for (const testCase of testCases) {
+    const chat = llm.startChat({
+      systemInstruction: getSystemPromptBase(),
+      tools: publicDefinitions,
+      history: [],
+      generation: AI_CONFIG,
+    });
+    const { turn, toolCalls } = await runToolLoop(chat, testCase.prompt, call => handleFunctionCall(call.name, call.args));
+    const called = toolCalls.map(c => c.name);
+    const ok = !testCase.expectedTool || called.includes(testCase.expectedTool);
+    if (ok) passed++;
+
+    console.log(`${ok ? '✅' : '❌'} ${testCase.name} → ${called.join(', ') || 'no tools'}`);
+    if (!ok) console.log(`   expected ${testCase.expectedTool}; reply: ${turn.text.slice(0, 200)}`);
+  }
+
+  console.log(`\n🏁 ${passed}/${testCases.length} prompts called the expected tool`);
+  if (passed < testCases.length) process.exitCode = 1;
 }
 
 // Run if called directly
-if (process.argv.includes('--all')) {
+if (process.argv.includes('--offline')) {
+  runOffline();
+} else if (process.argv.includes('--all')) {
   (async () => {
     for (const tc of testCases) {
       await testPrompt(tc);
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ANOMALY_THRESHOLDS,
+  detectScrapeAnomalies,
+  joinRooms,
+  prefixDistance,
+  thresholdsFromEnv,
+  type DepartmentProfile,
+  type SectionFingerprint,
+} from './anomalyDetection.js';
+
+function fingerprints(
+  department: string,
+  count: number,
+  overrides: Partial<SectionFingerprint> = {}
+): SectionFingerprint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    key: `${department} ${100 + i}-A`,
+    department,
+    prefix: department,
+    instructor: `TEACHER ${i}`,
+    rooms: `SEC-A${i}`,
+    tba: false,
+    ...overrides,
+  }));
+}
+
+const profile = (department: string, sectionCount: number): DepartmentProfile =>
+  ({ department, sectionCount, tbaCount: 0, prefixCounts: { [department]: sectionCount } });
+
+describe('joinRooms', () => {
+  it('sorts distinct rooms and leaves out TBA', () => {
+    expect(joinRooms(['SEC-A117', 'TBA', 'BEL-213', 'SEC-A117', null])).toBe('BEL-213, SEC-A117');
+    expect(joinRooms(['TBA'])).toBeNull();
+  });
+});
+
+describe('prefixDistance', () => {
+  it('is 0 for the same mix and 1 for disjoint mixes', () => {
+    expect(prefixDistance({ CSCI: 4, MATH: 2 }, { CSCI: 2, MATH: 1 })).toBe(0);
+    expect(prefixDistance({ CSCI: 4 }, { HISTO: 4 })).toBe(1);
+  });
+});
+
+describe('thresholdsFromEnv', () => {
+  it('reads overrides and keeps defaults for the rest', () => {
+    const t = thresholdsFromEnv({ ANOMALY_DROP_PERCENT: '0.4', ANOMALY_CHURN: 'lots' });
+    expect(t).toEqual({ ...DEFAULT_ANOMALY_THRESHOLDS, dropPercent: 0.4 });
+  });
+});
+
+describe('detectScrapeAnomalies', () => {
+  it('accepts a run that looks like the stored term', () => {
+    const stored = [...fingerprints('CSCI', 20), ...fingerprints('MATH', 20)];
+    const report = detectScrapeAnomalies(stored, stored, new Map());
+
+    expect(report.anomalies).toEqual([]);
+    expect(report.blockAll).toBe(false);
+  });
+
+  it('blocks a department that went missing but not the others', () => {
+    const stored = [...fingerprints('CSCI', 20), ...fingerprints('MATH', 20), ...fingerprints('HISTO', 20)];
+    const report = detectScrapeAnomalies(
+      [...fingerprints('CSCI', 20), ...fingerprints('MATH', 20)],
+      stored,
+      new Map()
+    );
+
+    expect(report.anomalies.map(a => [a.department, a.kind])).toEqual([['HISTO', 'department_missing']]);
+    expect([...report.blockedDepartments]).toEqual(['HISTO']);
+    expect(report.blockAll).toBe(false);
+  });
+
+  it('judges a drop against how much the department usually moves', () => {
+    const steady = new Map([['CSCI', [profile('CSCI', 40), profile('CSCI', 40), profile('CSCI', 41)]]]);
+    const noisy = new Map([['CSCI', [profile('CSCI', 40), profile('CSCI', 20), profile('CSCI', 40), profile('CSCI', 20)]]]);
+    const scraped = fingerprints('CSCI', 26);
+
+    expect(detectScrapeAnomalies(scraped, fingerprints('CSCI', 40), steady).anomalies.map(a => a.kind))
+      .toEqual(['section_drop']);
+    expect(detectScrapeAnomalies(scraped, fingerprints('CSCI', 40), noisy).anomalies).toEqual([]);
+  });
+
+  it('flags prefix drift, all-TBA schedules and instructor churn', () => {
+    const stored = fingerprints('CSCI', 20);
+    const bleeding = fingerprints('CSCI', 20, { prefix: 'HISTO' });
+    const tba = fingerprints('CSCI', 20, { tba: true, rooms: null });
+    const churn = fingerprints('CSCI', 20, { instructor: 'NEW TEACHER' });
+
+    const kinds = (scraped: SectionFingerprint[]) =>
+      detectScrapeAnomalies(scraped, stored, new Map()).anomalies.map(a => a.kind);
+    expect(kinds(bleeding)).toEqual(['prefix_drift']);
+    expect(kinds(tba)).toEqual(['all_tba', 'room_churn']);
+    expect(kinds(churn)).toEqual(['instructor_churn']);
+  });
+
+  it('blocks every removal when half the departments look broken', () => {
+    const stored = [...fingerprints('CSCI', 20), ...fingerprints('MATH', 20)];
+    const report = detectScrapeAnomalies(fingerprints('CSCI', 20), stored, new Map());
+
+    expect(report.blockAll).toBe(true);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Anomaly Detection - Learned, department-agnostic checks for schedule scrape runs
+ *
+ * Every department is compared against its own history (per-department snapshots of
+ * earlier runs, see scrape_run_department) and the sections currently stored for the term:
+ * - section_drop / department_missing: far fewer sections than usual
+ * - prefix_drift: course prefixes look nothing like before (HTML bleeding between departments)
+ * - instructor_churn / room_churn: most surviving sections suddenly changed instructor or room
+ * - all_tba: nearly every section lost its schedule
+ *
+ * A department with anomalies keeps its stored sections: the run may insert and update,
+ * but its removals are not committed.
+ */
+
+import type { ClassSection } from './types.js';
+
+export type AnomalyKind =
+  | 'section_drop'
+  | 'department_missing'
+  | 'prefix_drift'
+  | 'instructor_churn'
+  | 'room_churn'
+  | 'all_tba';
+
+// Comparable summary of one section, built from scraped data or from the database
+export interface SectionFingerprint {
+  key: string;              // "CSCI 111-A", same key as getExistingSectionKeys
+  department: string;
+  prefix: string;           // "CSCI"
+  instructor: string | null;
+  rooms: string | null;     // Sorted, comma-separated
+  tba: boolean;             // No scheduled day/time
+}
+
+export interface DepartmentProfile {
+  department: string;
+  sectionCount: number;
+  tbaCount: number;
+  prefixCounts: Record<string, number>;
+}
+
+export interface DepartmentAnomaly {
+  department: string;
+  kind: AnomalyKind;
+  message: string;
+  value: number;
+  threshold: number;
+}
+
+export interface AnomalyThresholds {
+  dropPercent: number;      // Minimum section drop that counts (default 0.3)
+  dropSigma: number;        // Or this many std devs above the usual run-to-run change (default 3)
+  prefixDrift: number;      // Total variation distance between prefix mixes (default 0.5)
+  churn: number;            // Share of surviving sections with a new instructor/room (default 0.6)
+  tbaRate: number;          // Share of TBA sections that counts as "all TBA" (default 0.9)
+  minSections: number;      // Departments smaller than this only trigger department_missing (default 5)
+  minOverlap: number;       // Surviving sections needed before churn is judged (default 10)
+  blockAllShare: number;    // Block every removal when this share of departments is anomalous (default 0.5)
+  historyRuns: number;      // Clean runs used as the baseline (default 5)
+}
+
+export interface AnomalyReport {
+  profiles: DepartmentProfile[];          // Scraped profile per department, stored as this run's snapshot
+  anomalies: DepartmentAnomaly[];
+  blockedDepartments: Set<string>;        // Departments whose removals must not be committed
+  blockAll: boolean;                      // Run looks broken as a whole, commit no removals
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  dropPercent: 0.3,
+  dropSigma: 3,
+  prefixDrift: 0.5,
+  churn: 0.6,
+  tbaRate: 0.9,
+  minSections: 5,
+  minOverlap: 10,
+  blockAllShare: 0.5,
+  historyRuns: 5,
+};
+
+/**
+ * Thresholds with ANOMALY_* environment overrides (e.g. ANOMALY_DROP_PERCENT=0.4)
+ */
+export function thresholdsFromEnv(env: NodeJS.ProcessEnv = process.env): AnomalyThresholds {
+  const read = (name: string, fallback: number) => {
+    const value = parseFloat(env[name] || '');
+    return Number.isFinite(value) ? value : fallback;
+  };
+  const d = DEFAULT_ANOMALY_THRESHOLDS;
+  return {
+    dropPercent: read('ANOMALY_DROP_PERCENT', d.dropPercent),
+    dropSigma: read('ANOMALY_DROP_SIGMA', d.dropSigma),
+    prefixDrift: read('ANOMALY_PREFIX_DRIFT', d.prefixDrift),
+    churn: read('ANOMALY_CHURN', d.churn),
+    tbaRate: read('ANOMALY_TBA_RATE', d.tbaRate),
+    minSections: read('ANOMALY_MIN_SECTIONS', d.minSections),
+    minOverlap: read('ANOMALY_MIN_OVERLAP', d.minOverlap),
+    blockAllShare: read('ANOMALY_BLOCK_ALL_SHARE', d.blockAllShare),
+    historyRuns: read('ANOMALY_HISTORY_RUNS', d.historyRuns),
+  };
+}
+
+/**
+ * Format distinct rooms the same way for scraped and stored sections
+ */
+export function joinRooms(rooms: (string | null | undefined)[]): string | null {
+  const unique = [...new Set(rooms.map(r => r?.trim()).filter((r): r is string => !!r && r !== 'TBA'))];
+  return unique.length > 0 ? unique.sort().join(', ') : null;
+}
+
+export function fingerprintSections(sections: ClassSection[]): SectionFingerprint[] {
+  return sections.map(section => ({
+    key: `${section.subjectCode}-${section.section}`,
+    department: section.department,
+    prefix: section.subjectCode.split(' ')[0] || 'UNKNOWN',
+    instructor: section.instructor?.trim() || null,
+    rooms: joinRooms(section.schedule.map(s => s.room)),
+    tba: section.schedule.length === 0,
+  }));
+}
+
+export function profileDepartments(fingerprints: SectionFingerprint[]): Map<string, DepartmentProfile> {
+  const profiles = new Map<string, DepartmentProfile>();
+  for (const f of fingerprints) {
+    const profile = profiles.get(f.department)
+      || { department: f.department, sectionCount: 0, tbaCount: 0, prefixCounts: {} };
+    profile.sectionCount++;
+    if (f.tba) profile.tbaCount++;
+    profile.prefixCounts[f.prefix] = (profile.prefixCounts[f.prefix] || 0) + 1;
+    profiles.set(f.department, profile);
+  }
+  return profiles;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Drop threshold learned from how much this department usually moves between runs
+ */
+function learnedDropThreshold(history: DepartmentProfile[], t: AnomalyThresholds): number {
+  const changes: number[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const before = history[i - 1].sectionCount;
+    if (before > 0) changes.push(Math.abs(history[i].sectionCount - before) / before);
+  }
+  if (changes.length < 2) return t.dropPercent;
+
+  const mean = changes.reduce((a, b) => a + b, 0) / changes.length;
+  const std = Math.sqrt(changes.reduce((sum, c) => sum + (c - mean) ** 2, 0) / changes.length);
+  return Math.min(0.9, Math.max(t.dropPercent, mean + t.dropSigma * std));
+}
+
+/**
+ * Total variation distance between two prefix mixes (0 = identical, 1 = disjoint)
+ */
+export function prefixDistance(a: Record<string, number>, b: Record<string, number>): number {
+  const totalA = Object.values(a).reduce((x, y) => x + y, 0);
+  const totalB = Object.values(b).reduce((x, y) => x + y, 0);
+  if (totalA === 0 || totalB === 0) return 0;
+
+  let distance = 0;
+  for (const prefix of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    distance += Math.abs((a[prefix] || 0) / totalA - (b[prefix] || 0) / totalB);
+  }
+  return distance / 2;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Compare a scrape against the stored sections of the term and each department's history.
+ * history holds the snapshots of earlier clean runs for the term, oldest first.
+ */
+export function detectScrapeAnomalies(
+  scraped: SectionFingerprint[],
+  stored: SectionFingerprint[],
+  history: Map<string, DepartmentProfile[]>,
+  t: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS
+): AnomalyReport {
+  const current = profileDepartments(scraped);
+  const before = profileDepartments(stored);
+  const storedByKey = new Map(stored.map(f => [f.key, f]));
+  const anomalies: DepartmentAnomaly[] = [];
+
+  const departments = new Set([...current.keys(), ...before.keys(), ...history.keys()]);
+  for (const department of departments) {
+    const now = current.get(department) || { department, sectionCount: 0, tbaCount: 0, prefixCounts: {} };
+    const runs = (history.get(department) || []).slice(-t.historyRuns);
+    const last = runs[runs.length - 1] || before.get(department);
+
+    // Baseline: median of recent clean runs, else what is stored now
+    const expected = runs.length >= 2 ? median(runs.map(r => r.sectionCount)) : (last?.sectionCount || 0);
+    if (expected === 0) continue; // New department, nothing to compare
+
+    const add = (kind: AnomalyKind, message: string, value: number, threshold: number) =>
+      anomalies.push({ department, kind, message, value, threshold });
+
+    if (now.sectionCount === 0) {
+      add('department_missing', `No sections scraped, expected about ${expected}`, 1, 0);
+      continue;
+    }
+    if (expected < t.minSections) continue;
+
+    const drop = 1 - now.sectionCount / expected;
+    const dropThreshold = learnedDropThreshold(runs, t);
+    if (drop >= dropThreshold) {
+      add('section_drop', `${now.sectionCount} sections, expected about ${expected} (-${pct(drop)})`, drop, dropThreshold);
+    }
+
+    if (last && now.sectionCount >= t.minSections) {
+      const drift = prefixDistance(now.prefixCounts, last.prefixCounts);
+      if (drift >= t.prefixDrift) {
+        const top = Object.entries(now.prefixCounts).sort((a, b) => b[1] - a[1])[0]?.[0];
+        add('prefix_drift', `Course prefixes changed by ${pct(drift)} (now mostly ${top})`, drift, t.prefixDrift);
+      }
+
+      const usualTba = runs.length > 0
+        ? median(runs.map(r => r.tbaCount / Math.max(1, r.sectionCount)))
+        : last.tbaCount / Math.max(1, last.sectionCount);
+      const tbaRate = now.tbaCount / now.sectionCount;
+      if (tbaRate >= t.tbaRate && usualTba < 0.5) {
+        add('all_tba', `${pct(tbaRate)} of sections have no schedule (usually ${pct(usualTba)})`, tbaRate, t.tbaRate);
+      }
+    }
+
+    // Churn among sections present in both the scrape and the database
+    const surviving = scraped.filter(f => f.department === department && storedByKey.has(f.key));
+    if (surviving.length >= t.minOverlap) {
+      const instructorChanged = surviving.filter(f => f.instructor !== storedByKey.get(f.key)!.instructor).length / surviving.length;
+      const roomChanged = surviving.filter(f => f.rooms !== storedByKey.get(f.key)!.rooms).length / surviving.length;
+      if (instructorChanged >= t.churn) {
+        add('instructor_churn', `${pct(instructorChanged)} of ${surviving.length} sections changed instructor`, instructorChanged, t.churn);
+      }
+      if (roomChanged >= t.churn) {
+        add('room_churn', `${pct(roomChanged)} of ${surviving.length} sections changed room`, roomChanged, t.churn);
+      }
+    }
+  }
+
+  const blockedDepartments = new Set(anomalies.map(a => a.department));
+  const compared = [...departments].filter(d => (before.get(d)?.sectionCount || history.get(d)?.length || 0) > 0).length;
+
+  return {
+    profiles: [...current.values()],
+    anomalies,
+    blockedDepartments,
+    blockAll: compared > 0 && blockedDepartments.size / compared >= t.blockAllShare,
+  };
+}
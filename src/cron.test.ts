@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { nextCronTime, parseCron } from './cron.js';
+
+// Local times, like the scheduler; 2025-01-06 is a Monday
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2025, month - 1, day, hour, minute);
+const next = (expression: string, from: Date) => nextCronTime(parseCron(expression), from);
+
+describe('parseCron', () => {
+  it('expands steps and ranges', () => {
+    const schedule = parseCron('*/30 7-22 * * *');
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22]);
+    expect(schedule).toMatchObject({ anyDay: true, anyWeekday: true });
+    expect([...parseCron('5/20 8-18/5 * * *').minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron('5/20 8-18/5 * * *').hours]).toEqual([8, 13, 18]);
+  });
+
+  it('reads day and month names, lists and aliases', () => {
+    expect([...parseCron('0 3 * * SUN').weekdays]).toEqual([0]);
+    expect([...parseCron('0 3 * * 7').weekdays]).toEqual([0]);
+    expect([...parseCron('0 3 * jan,Jun MON-WED').months]).toEqual([1, 6]);
+    expect([...parseCron('0 3 * jan,Jun MON-WED').weekdays]).toEqual([1, 2, 3]);
+    expect(parseCron('@daily')).toMatchObject({ expression: '@daily', minutes: new Set([0]), hours: new Set([0]) });
+  });
+
+  it('rejects values out of range', () => {
+    expect(() => parseCron('60 * * * *')).toThrow('out of range 0-59');
+    expect(() => parseCron('0 24 * * *')).toThrow('out of range 0-23');
+    expect(() => parseCron('0 0 0 * *')).toThrow('out of range 1-31');
+    expect(() => parseCron('0 0 * 13 *')).toThrow('out of range 1-12');
+    expect(() => parseCron('0 0 * * 8')).toThrow('out of range 0-7');
+    expect(() => parseCron('0 22-7 * * *')).toThrow('out of range');
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 3 * *')).toThrow('needs 5 fields');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step');
+    expect(() => parseCron('0 3 * * FUNDAY')).toThrow('Invalid cron value');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('steps through the day and skips the night', () => {
+    expect(next('*/30 7-22 * * *', at(1, 6, 9, 10))).toEqual(at(1, 6, 9, 30));
+    expect(next('*/30 7-22 * * *', at(1, 6, 9, 30))).toEqual(at(1, 6, 10, 0));
+    expect(next('*/30 7-22 * * *', at(1, 6, 22, 30))).toEqual(at(1, 7, 7, 0));
+  });
+
+  it('finds the next weekday', () => {
+    expect(next('0 3 * * SUN', at(1, 6, 12))).toEqual(at(1, 12, 3));
+    expect(next('0 3 * * SUN', at(1, 12, 3))).toEqual(at(1, 19, 3));
+  });
+
+  it('matches either a restricted day of month or a restricted day of week', () => {
+    // The 15th (a Wednesday) or any Monday
+    expect(next('0 0 15 * MON', at(1, 7))).toEqual(at(1, 13));
+    expect(next('0 0 15 * MON', at(1, 13))).toEqual(at(1, 15));
+    // With day of week left as *, only the day of month counts
+    expect(next('0 0 15 * *', at(1, 7))).toEqual(at(1, 15));
+  });
+
+  it('crosses months and years', () => {
+    expect(next('0 0 31 * *', at(2, 1))).toEqual(at(3, 31));
+    expect(next('@monthly', at(12, 5))).toEqual(new Date(2026, 0, 1));
+    expect(next('0 0 29 FEB *', at(3, 1))).toEqual(new Date(2028, 1, 29));
+  });
+
+  it('throws when the expression can never match', () => {
+    expect(() => next('0 0 31 FEB *', at(1, 1))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Cron Expressions - Minimal 5-field cron parser for the scrape scheduler
+ *
+ * Format: minute hour day-of-month month day-of-week (local time)
+ * Supports *, lists (1,15), ranges (1-5), steps (0/15, 8-18/2), names (MON, JAN)
+ * and the aliases @hourly, @daily, @weekly, @monthly.
+ * Like Vixie cron, a restricted day-of-month and day-of-week match on either.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;      // 1-12
+  weekdays: Set<number>;    // 0-6, Sunday = 0 (7 is accepted as Sunday)
+  anyDay: boolean;          // day-of-month is *
+  anyWeekday: boolean;      // day-of-week is *
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+function parseValue(raw: string, names: string[] | null, offset: number, expression: string): number {
+  const upper = raw.toUpperCase();
+  const named = names ? names.indexOf(upper) : -1;
+  if (named !== -1) return named + offset;
+
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || !Number.isInteger(value)) {
+    throw new Error(`Invalid cron value "${raw}" in "${expression}"`);
+  }
+  return value;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string,
+  names: string[] | null = null,
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}" in "${expression}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, nameOffset, expression);
+      end = to === undefined ? (stepRaw === undefined ? start : max) : parseValue(to, names, nameOffset, expression);
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" out of range ${min}-${max} in "${expression}"`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields (minute hour day month weekday): "${expression}"`);
+  }
+
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseField(weekday, 0, 7, expression, DAY_NAMES);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    expression,
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    days: parseField(day, 1, 31, expression),
+    months: parseField(month, 1, 12, expression, MONTH_NAMES, 1),
+    weekdays,
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) return weekdayMatch;
+  if (schedule.anyWeekday) return dayMatch;
+  return dayMatch || weekdayMatch;
+}
+
+/**
+ * First time strictly after `from` that matches the schedule
+ */
+export function nextCronTime(schedule: CronSchedule, from: Date = new Date()): Date {
+  const next = new Date(from);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Jump month/day/hour at a time; 5 years covers every valid expression (e.g. Feb 29)
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: "${schedule.expression}"`);
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SISIADatabase } from './database.js';
+import type { ClassSection } from '../types.js';
+
+function section(subjectCode: string, sectionCode: string, department: string, instructor = 'CRUZ, JUAN'): ClassSection {
+  return {
+    id: `${subjectCode}-${sectionCode}-2025-2`,
+    subjectCode,
+    section: sectionCode,
+    courseTitle: subjectCode,
+    units: 3,
+    schedule: [{ day: 'M', startTime: '0930', endTime: '1100', room: 'SEC-A117', modality: 'ONSITE' }],
+    instructor,
+    maxCapacity: 30,
+    freeSlots: 10,
+    lang: 'ENG',
+    level: 'U',
+    remarks: '',
+    hasPrerequisites: false,
+    term: '2025-2',
+    department,
+    scrapedAt: new Date(0),
+  };
+}
+
+describe('saveClassSectionsWithStats', () => {
+  let dir: string;
+  let db: SISIADatabase;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sisia-db-'));
+    db = new SISIADatabase(path.join(dir, 'test.db'));
+    db.initialize();
+    db.saveClassSectionsWithStats([
+      section('CSCI 21', 'A', 'DISCS'),
+      section('CSCI 21', 'B', 'DISCS'),
+      section('MATH 10', 'A', 'MA'),
+      section('MATH 10', 'B', 'MA'),
+    ]);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const statuses = (courseCode: string, sectionCode: string) =>
+    db.getSectionHistory(courseCode, { section: sectionCode, field: 'status' }).map(h => h.newValue);
+
+  it('updates a changed section in place, keeping its id', () => {
+    const idOf = () => (db.getSectionsForTerm('2025-2') as { id: number; course_code: string; section: string }[])
+      .find(s => s.course_code === 'CSCI 21' && s.section === 'A')?.id;
+    const before = idOf();
+    const stats = db.saveClassSectionsWithStats([
+      { ...section('CSCI 21', 'A', 'DISCS', 'REYES, ANA'), freeSlots: 0 },
+      section('CSCI 21', 'B', 'DISCS'),
+      section('MATH 10', 'A', 'MA'),
+      section('MATH 10', 'B', 'MA'),
+    ]);
+
+    expect(stats).toMatchObject({ updated: 1, unchanged: 3 });
+    expect(idOf()).toBe(before);
+  });
+
+  it('deletes sections missing from the scrape and logs the removal', () => {
+    const stats = db.saveClassSectionsWithStats([section('CSCI 21', 'A', 'DISCS'), section('MATH 10', 'A', 'MA')]);
+
+    expect(stats).toMatchObject({ unchanged: 2, removed: 2 });
+    expect([...db.getExistingSectionKeys('2025-2')].sort()).toEqual(['CSCI 21-A', 'MATH 10-A']);
+    expect(statuses('CSCI 21', 'B')).toEqual(['added', 'removed']);
+  });
+
+  it('keeps the sections of departments the removal policy blocks', () => {
+    const stats = db.saveClassSectionsWithStats(
+      [section('CSCI 21', 'A', 'DISCS'), section('MATH 10', 'A', 'MA')],
+      null,
+      { blockedDepartments: new Set(['DISCS']) }
+    );
+
+    expect(stats).toMatchObject({ removed: 1, removalsBlocked: 1 });
+    expect([...db.getExistingSectionKeys('2025-2')].sort()).toEqual(['CSCI 21-A', 'CSCI 21-B', 'MATH 10-A']);
+    expect(statuses('CSCI 21', 'B')).toEqual(['added']);
+  });
+
+  it('removes nothing when the whole run is blocked', () => {
+    const stats = db.saveClassSectionsWithStats([section('CSCI 21', 'A', 'DISCS')], null, { blockAll: true });
+
+    expect(stats).toMatchObject({ removed: 0, removalsBlocked: 3 });
+    expect(db.getExistingSectionKeys('2025-2').size).toBe(4);
+  });
+
+  it('logs a removed section that reappears as active again', () => {
+    db.saveClassSectionsWithStats([section('CSCI 21', 'A', 'DISCS'), section('MATH 10', 'A', 'MA')]);
+    const stats = db.saveClassSectionsWithStats([
+      section('CSCI 21', 'A', 'DISCS'),
+      section('CSCI 21', 'B', 'DISCS'),
+      section('MATH 10', 'A', 'MA'),
+    ]);
+
+    expect(stats).toMatchObject({ inserted: 1, removed: 0 });
+    expect(statuses('CSCI 21', 'B')).toEqual(['added', 'removed', 'active']);
+  });
+});
+
+describe('persons', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sisia-db-'));
+    file = path.join(dir, 'test.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const persons = () => {
+    const raw = new Database(file, { readonly: true });
+    const rows = raw.prepare('SELECT id, name, middle_initials, suffix FROM person ORDER BY id').all();
+    raw.close();
+    return rows;
+  };
+
+  it('merges initial and suffix variants into one person that stays put across restarts', () => {
+    const db = new SISIADatabase(file);
+    db.initialize();
+    db.saveClassSectionsWithStats([
+      section('CSCI 21', 'A', 'DISCS', 'SANTOS, MARIA A.'),
+      section('CSCI 21', 'B', 'DISCS', 'SANTOS, MARIA JR.'),
+    ]);
+    db.close();
+
+    const merged = [{ id: 1, name: 'SANTOS, MARIA A. JR.', middle_initials: 'A', suffix: 'JR' }];
+    expect(persons()).toEqual(merged);
+
+    for (let run = 0; run < 2; run++) {
+      const reopened = new SISIADatabase(file);
+      reopened.initialize();
+      expect(reopened.getOrCreatePersons('SANTOS, MARIA JR.')).toEqual([1]);
+      reopened.close();
+    }
+    expect(persons()).toEqual(merged);
+  });
+});
@@ -13,6 +13,19 @@ import type {
   DegreeProgram,
   CurriculumCourse,
 } from "../types.js";
+import { parsePrerequisiteExpression } from "../parsers/prerequisiteParser.js";
+import {
+  formatInstructorName,
+  isSameInstructor,
+  parseInstructorName,
+  splitInstructorNames,
+} from "../parsers/instructorNameParser.js";
+import {
+  joinRooms,
+  type DepartmentAnomaly,
+  type DepartmentProfile,
+  type SectionFingerprint,
+} from "../anomalyDetection.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -21,6 +34,7 @@ const __dirname = dirname(__filename);
 interface LookupCache {
   departments: Map<string, number>;
   instructors: Map<string, number>;
+  persons: Map<string, number>;
   rooms: Map<string, number>;
   courses: Map<string, number>;
   terms: Map<string, number>;
@@ -34,21 +48,185 @@ export interface ScrapeStats {
   unchanged: number;
   removed: number;
   total: number;
+  removalsBlocked?: number; // Removals withheld by the anomaly policy
 }
 
+// Which removals a save may commit (see src/anomalyDetection.ts)
+export interface RemovalPolicy {
+  blockAll?: boolean;
+  blockedDepartments?: Set<string>;
+}
+
+export type ScrapeType = 'schedule' | 'curriculum' | 'discovery' | 'all';
+
+// Scrape run lifecycle: running -> staged -> completed (committed) or rejected (left in staging).
+// A completed schedule run can later be rolled_back to the snapshot taken before it.
+export type ScrapeRunStatus = 'running' | 'staged' | 'completed' | 'rejected' | 'failed' | 'rolled_back';
+
 // Scrape run record
 export interface ScrapeRun {
   id: number;
   startedAt: Date;
   completedAt?: Date;
   termCode?: string;
-  scrapeType: 'schedule' | 'curriculum' | 'all';
+  scrapeType: ScrapeType;
   stats: ScrapeStats;
   durationMs?: number;
-  status: 'running' | 'completed' | 'failed';
+  status: ScrapeRunStatus;
+  errorMessage?: string;
+  anomalies?: DepartmentAnomaly[];
+  removalsBlocked?: number;
+}
+
+// Result of restoring a term to the snapshot taken before a run
+export interface RollbackResult {
+  termCode: string;
+  restoredSections: number;
+  rolledBackRuns: number[]; // The run itself and every later committed run of the term
+}
+
+// Persisted state of a scheduler job (see src/scheduler.ts)
+export interface SchedulerJobState {
+  name: string;
+  jobType: string;
+  cron: string;
+  activeWhen: string;
+  nextRunAt?: string;
+  lastStartedAt?: string;
+  lastFinishedAt?: string;
+  lastStatus?: 'running' | 'success' | 'failed' | 'skipped';
+  lastError?: string;
+  runCount: number;
+  failureCount: number;
+}
+
+// Catalog rows keyed by natural keys (codes and names instead of ids), as mirrored to
+// the Postgres schema of supabase/migrations (see src/pgSync.ts)
+export interface CatalogExport {
+  departments: { code: string; name: string }[];
+  terms: { code: string; year: number; semester: number }[];
+  instructors: { name: string; department_code: string | null }[];
+  rooms: { code: string; building: string | null; room_number: string | null }[];
+  courses: { course_code: string; title: string; units: number; department_code: string | null }[];
+  degree_programs: {
+    code: string;
+    name: string;
+    is_honors: boolean;
+    track: string | null;
+    specialization: string | null;
+    version_year: number | null;
+    version_semester: number | null;
+  }[];
+  curriculum_courses: {
+    degree_code: string;
+    course_code: string;
+    year: number | null;
+    semester: number | null;
+    prerequisites_raw: string | null;
+    prerequisites_ast: unknown;
+    corequisites_raw: string | null;
+    category: string | null;
+    is_elective: boolean;
+  }[];
+  class_sections: {
+    term_code: string;
+    course_code: string;
+    section: string;
+    instructor: string | null;
+    department_code: string | null;
+    max_capacity: number;
+    free_slots: number;
+    lang: string | null;
+    level: string | null;
+    remarks: string | null;
+    has_prerequisites: boolean;
+  }[];
+  schedule_slots: {
+    term_code: string;
+    course_code: string;
+    section: string;
+    room_code: string | null;
+    day: string;
+    start_time: string;
+    end_time: string;
+    modality: string;
+  }[];
+}
+
+// A push of the catalog to Postgres
+export interface PgSyncRun {
+  id: number;
+  startedAt: Date;
+  completedAt?: Date;
+  target: string;
+  scrapeRunId?: number;
+  upserted: number;
+  deleted: number;
+  status: 'running' | 'completed' | 'mismatch' | 'failed';
   errorMessage?: string;
 }
 
+// Snapshots kept per term; older ones are pruned when a run commits
+const SNAPSHOTS_PER_TERM = 5;
+
+// Fields tracked in class_section_history ('status' marks a section appearing/disappearing)
+export type SectionHistoryField =
+  | 'status'
+  | 'free_slots'
+  | 'max_capacity'
+  | 'instructor'
+  | 'room'
+  | 'schedule'
+  | 'remarks';
+
+// One field-level change between two scrape runs
+export interface SectionHistoryEntry {
+  scrapeRunId: number | null;
+  termCode: string;
+  courseCode: string;
+  section: string;
+  field: SectionHistoryField;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: Date;
+}
+
+// Comparable snapshot of the tracked fields of a section
+type SectionSnapshot = Record<Exclude<SectionHistoryField, 'status'>, string | null>;
+
+const TRACKED_FIELDS: Exclude<SectionHistoryField, 'status'>[] = [
+  'free_slots',
+  'max_capacity',
+  'instructor',
+  'room',
+  'schedule',
+  'remarks',
+];
+
+function emptyToNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Format slots as "M 08:00-09:30; TH 08:00-09:30" in a stable order
+ */
+function formatScheduleSlots(slots: { day: string; startTime: string; endTime: string }[]): string | null {
+  if (slots.length === 0) return null;
+  return slots
+    .map((s) => `${s.day} ${s.startTime}-${s.endTime}`)
+    .sort()
+    .join("; ");
+}
+
+/**
+ * Format the distinct rooms of a section as "SEC A 301, SEC B 201"
+ */
+function formatRooms(rooms: (string | null)[]): string | null {
+  const unique = [...new Set(rooms.map(emptyToNull).filter((r): r is string => r !== null))];
+  return unique.length > 0 ? unique.sort().join(", ") : null;
+}
+
 export class SISIADatabase {
   private db: Database.Database;
   private cache: LookupCache;
@@ -61,6 +239,7 @@ export class SISIADatabase {
     this.cache = {
       departments: new Map(),
       instructors: new Map(),
+      persons: new Map(),
       rooms: new Map(),
       courses: new Map(),
       terms: new Map(),
@@ -76,9 +255,132 @@ export class SISIADatabase {
     const schemaPath = join(__dirname, "schema.sql");
     const schema = readFileSync(schemaPath, "utf-8");
     this.db.exec(schema);
+    this.migrate();
     console.log("📦 Database initialized");
   }
 
+  /**
+   * Add columns introduced after a database was first created
+   * (CREATE TABLE IF NOT EXISTS never alters existing tables)
+   */
+  private migrate(): void {
+    if (this.addColumnIfMissing("curriculum_course", "prerequisites_ast", "TEXT")) {
+      console.log("  Migrated curriculum_course.prerequisites_ast");
+    }
+    const addedAnomalies = this.addColumnIfMissing("scrape_run", "anomalies", "TEXT");
+    const addedBlocked = this.addColumnIfMissing("scrape_run", "removals_blocked", "INTEGER DEFAULT 0");
+    if (addedAnomalies || addedBlocked) {
+      console.log("  Migrated scrape_run anomaly columns");
+    }
+    this.backfillPrerequisiteTrees();
+    this.refreshPersons();
+    this.backfillSectionInstructors();
+  }
+
+  /**
+   * Add a column to a table if it does not exist yet, returns true if added
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.some((c) => c.name === column)) return false;
+
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+
+  /**
+   * Parse prerequisite text for curriculum rows saved before trees were stored,
+   * and refresh trees written by an older version of the parser
+   */
+  private backfillPrerequisiteTrees(): void {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT id, prerequisites_raw, prerequisites_ast FROM curriculum_course
+      WHERE prerequisites_raw IS NOT NULL AND prerequisites_raw != ''
+    `
+      )
+      .all() as { id: number; prerequisites_raw: string; prerequisites_ast: string | null }[];
+
+    if (rows.length === 0) return;
+
+    const updateStmt = this.db.prepare(
+      "UPDATE curriculum_course SET prerequisites_ast = ? WHERE id = ?"
+    );
+    let parsed = 0;
+
+    const transaction = this.db.transaction(() => {
+      for (const row of rows) {
+        const tree = parsePrerequisiteExpression(row.prerequisites_raw);
+        const json = tree ? JSON.stringify(tree) : null;
+        if (json === row.prerequisites_ast) continue;
+        updateStmt.run(json, row.id);
+        parsed++;
+      }
+    });
+
+    transaction();
+    if (parsed > 0) {
+      console.log(`  Parsed ${parsed} prerequisite expressions`);
+    }
+  }
+
+  /**
+   * Rebuild people when they were written by an older version of the name parser
+   * (e.g. "CRUZ, JOHN ED" read with initials "ED", or "DELA CRUZ, ANA; REYES" kept as
+   * one person), so wrong merges and splits are redone.
+   * backfillSectionInstructors then relinks every section.
+   */
+  private refreshPersons(): void {
+    const rows = this.db
+      .prepare("SELECT name, name_key, middle_initials, suffix FROM person")
+      .all() as { name: string; name_key: string; middle_initials: string | null; suffix: string | null }[];
+
+    const stale = rows.some((row) => {
+      const parsed = parseInstructorName(row.name);
+      return row.name.includes(';')
+        || parsed.key !== row.name_key
+        || parsed.middleInitials !== row.middle_initials
+        || parsed.suffix !== row.suffix;
+    });
+    if (!stale) return;
+
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM section_instructor").run();
+      this.db.prepare("DELETE FROM person").run();
+    })();
+    this.cache.persons.clear();
+    console.log(`  Rebuilding ${rows.length} instructors (name parsing changed)`);
+  }
+
+  /**
+   * Link sections saved before persons existed (and sections restored by a rollback)
+   * to the people named in their instructor entry
+   */
+  private backfillSectionInstructors(): void {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT cs.id, i.name FROM class_section cs
+      JOIN instructor i ON cs.instructor_id = i.id
+      WHERE NOT EXISTS (SELECT 1 FROM section_instructor si WHERE si.section_id = cs.id)
+    `
+      )
+      .all() as { id: number; name: string }[];
+
+    let linked = 0;
+    const transaction = this.db.transaction(() => {
+      for (const row of rows) {
+        if (this.linkSectionInstructors(row.id, row.name) > 0) linked++;
+      }
+    });
+
+    transaction();
+    if (linked > 0) {
+      console.log(`  Linked ${linked} sections to instructors`);
+    }
+  }
+
   // ============================================
   // LOOKUP HELPERS (Get or Create, returns ID)
   // ============================================
@@ -138,6 +440,77 @@ export class SISIADatabase {
     return id;
   }
 
+  /**
+   * Get or create the people in an instructor entry (co-taught entries name several),
+   * returns their IDs in entry order. Spellings that differ only by a missing middle
+   * initial or suffix join the existing person (see isSameInstructor); when several
+   * people could match, the exact spelling gets its own person.
+   */
+  getOrCreatePersons(instructorName: string | null): number[] {
+    const ids: number[] = [];
+
+    for (const individual of splitInstructorNames(instructorName)) {
+      const parsed = parseInstructorName(individual);
+      const cached = this.cache.persons.get(parsed.name);
+      if (cached !== undefined) {
+        if (!ids.includes(cached)) ids.push(cached);
+        continue;
+      }
+
+      const candidates = (this.db
+        .prepare("SELECT id, name FROM person WHERE name_key = ? ORDER BY id")
+        .all(parsed.key) as { id: number; name: string }[])
+        .map((c) => ({ id: c.id, parsed: parseInstructorName(c.name) }));
+      const exact = candidates.find((c) => c.parsed.name === parsed.name);
+      const compatible = candidates.filter((c) => isSameInstructor(c.parsed, parsed));
+
+      let id: number;
+      if (exact) {
+        id = exact.id;
+      } else if (compatible.length === 1) {
+        id = compatible[0].id;
+        // Keep the fullest spelling: "SANTOS, MARIA" becomes "SANTOS, MARIA A.", and
+        // "SANTOS, MARIA A." with "SANTOS, MARIA JR." becomes "SANTOS, MARIA A. JR."
+        const known = compatible[0].parsed;
+        const middleInitials = (parsed.middleInitials?.length || 0) > (known.middleInitials?.length || 0)
+          ? parsed.middleInitials
+          : known.middleInitials;
+        const suffix = known.suffix ?? parsed.suffix;
+        if (middleInitials !== known.middleInitials || suffix !== known.suffix) {
+          const name = middleInitials === parsed.middleInitials && suffix === parsed.suffix
+            ? parsed.name
+            : formatInstructorName({ ...parsed, middleInitials, suffix });
+          this.db
+            .prepare("UPDATE person SET name = ?, middle_initials = ?, suffix = ? WHERE id = ?")
+            .run(name, middleInitials, suffix, id);
+        }
+      } else {
+        const result = this.db
+          .prepare("INSERT INTO person (name, name_key, middle_initials, suffix) VALUES (?, ?, ?, ?)")
+          .run(parsed.name, parsed.key, parsed.middleInitials, parsed.suffix);
+        id = result.lastInsertRowid as number;
+      }
+
+      this.cache.persons.set(parsed.name, id);
+      if (!ids.includes(id)) ids.push(id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Replace the section_instructor links of a section, returns the number of people linked
+   */
+  linkSectionInstructors(sectionId: number, instructorName: string | null): number {
+    this.db.prepare("DELETE FROM section_instructor WHERE section_id = ?").run(sectionId);
+    const insert = this.db.prepare(
+      "INSERT INTO section_instructor (section_id, person_id, position) VALUES (?, ?, ?)"
+    );
+    const personIds = this.getOrCreatePersons(instructorName);
+    personIds.forEach((personId, position) => insert.run(sectionId, personId, position));
+    return personIds.length;
+  }
+
   /**
    * Get or create a room, returns its ID
    */
@@ -300,78 +673,11 @@ export class SISIADatabase {
    * Save class sections with normalized lookups
    */
   saveClassSections(sections: ClassSection[]): void {
-    const sectionStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO class_section 
-        (course_id, term_id, instructor_id, department_id, section,
-         max_capacity, free_slots, lang, level, remarks, has_prerequisites)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    const slotStmt = this.db.prepare(`
-      INSERT INTO schedule_slot (section_id, room_id, day, start_time, end_time, modality)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-
-    const deleteSlotsForSection = this.db.prepare(`
-      DELETE FROM schedule_slot WHERE section_id = ?
-    `);
-
-    const findSection = this.db.prepare(`
-      SELECT id FROM class_section 
-      WHERE course_id = ? AND term_id = ? AND section = ?
-    `);
+    const writeSection = this.sectionWriter();
 
     const transaction = this.db.transaction((sects: ClassSection[]) => {
       for (const section of sects) {
-        // Get/create all lookup IDs
-        const termId = this.getOrCreateTerm(section.term);
-        const deptId = section.department
-          ? this.getOrCreateDepartment(section.department, section.department)
-          : null;
-        const courseId = this.getOrCreateCourse(
-          section.subjectCode,
-          section.courseTitle,
-          section.units,
-          deptId
-        );
-        const instructorId = this.getOrCreateInstructor(section.instructor);
-
-        // Insert section
-        sectionStmt.run(
-          courseId,
-          termId,
-          instructorId,
-          deptId,
-          section.section,
-          section.maxCapacity,
-          section.freeSlots,
-          section.lang,
-          section.level,
-          section.remarks,
-          section.hasPrerequisites ? 1 : 0
-        );
-
-        // Get the section ID (either from insert or existing)
-        const sectionRow = findSection.get(
-          courseId,
-          termId,
-          section.section
-        ) as { id: number };
-        const sectionId = sectionRow.id;
-
-        // Clear old slots and insert new ones
-        deleteSlotsForSection.run(sectionId);
-        for (const slot of section.schedule) {
-          const roomId = this.getOrCreateRoom(slot.room);
-          slotStmt.run(
-            sectionId,
-            roomId,
-            slot.day,
-            slot.startTime,
-            slot.endTime,
-            slot.modality || "ONSITE"
-          );
-        }
+        writeSection(section);
       }
     });
 
@@ -390,8 +696,8 @@ export class SISIADatabase {
 
     const curriculumStmt = this.db.prepare(`
       INSERT OR REPLACE INTO curriculum_course 
-        (degree_id, course_id, year, semester, prerequisites_raw, category)
-      VALUES (?, ?, ?, ?, ?, ?)
+        (degree_id, course_id, year, semester, prerequisites_raw, prerequisites_ast, category)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
     const transaction = this.db.transaction((cs: CurriculumCourse[]) => {
@@ -402,12 +708,15 @@ export class SISIADatabase {
           course.units
         );
 
+        const prerequisiteTree = parsePrerequisiteExpression(course.prerequisites);
+
         curriculumStmt.run(
           degreeId,
           courseId,
           course.year,
           course.semester,
           course.prerequisites || null,
+          prerequisiteTree ? JSON.stringify(prerequisiteTree) : null,
           course.category || null
         );
       }
@@ -505,7 +814,7 @@ export class SISIADatabase {
   /**
    * Start a new scrape run and return its ID
    */
-  startScrapeRun(termCode: string | null, scrapeType: 'schedule' | 'curriculum' | 'all'): number {
+  startScrapeRun(termCode: string | null, scrapeType: ScrapeType): number {
     const result = this.db.prepare(`
       INSERT INTO scrape_run (started_at, term_code, scrape_type, status)
       VALUES (datetime('now'), ?, ?, 'running')
@@ -520,7 +829,7 @@ export class SISIADatabase {
   endScrapeRun(
     runId: number, 
     stats: ScrapeStats, 
-    status: 'completed' | 'failed' = 'completed',
+    status: 'completed' | 'rejected' | 'failed' = 'completed',
     errorMessage?: string
   ): void {
     const startRow = this.db.prepare(
@@ -546,23 +855,114 @@ export class SISIADatabase {
    * Get count of existing sections for a term (for change detection)
    */
   getExistingSectionKeys(termCode: string): Set<string> {
-    const termId = this.cache.terms.get(termCode);
-    if (!termId) return new Set();
-    
     const rows = this.db.prepare(`
       SELECT c.course_code, cs.section
       FROM class_section cs
       JOIN course c ON cs.course_id = c.id
-      WHERE cs.term_id = ?
-    `).all(termId) as { course_code: string; section: string }[];
+      JOIN term t ON cs.term_id = t.id
+      WHERE t.code = ?
+    `).all(termCode) as { course_code: string; section: string }[];
     
     return new Set(rows.map(r => `${r.course_code}-${r.section}`));
   }
 
   /**
-   * Save class sections and return change stats
+   * Write one scraped section into the live tables and return its id.
+   * Upserts on (course, term, section) so the row keeps its id and nothing cascades
+   * from it; instructor links and schedule slots are then replaced.
    */
-  saveClassSectionsWithStats(sections: ClassSection[]): ScrapeStats {
+  private sectionWriter(): (section: ClassSection) => number {
+    const sectionStmt = this.db.prepare(`
+      INSERT INTO class_section
+        (course_id, term_id, instructor_id, department_id, section,
+         max_capacity, free_slots, lang, level, remarks, has_prerequisites)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (course_id, term_id, section) DO UPDATE SET
+        instructor_id = excluded.instructor_id,
+        department_id = excluded.department_id,
+        max_capacity = excluded.max_capacity,
+        free_slots = excluded.free_slots,
+        lang = excluded.lang,
+        level = excluded.level,
+        remarks = excluded.remarks,
+        has_prerequisites = excluded.has_prerequisites
+    `);
+
+    const slotStmt = this.db.prepare(`
+      INSERT INTO schedule_slot (section_id, room_id, day, start_time, end_time, modality)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const deleteSlotsForSection = this.db.prepare(`
+      DELETE FROM schedule_slot WHERE section_id = ?
+    `);
+
+    const findSection = this.db.prepare(`
+      SELECT id FROM class_section 
+      WHERE course_id = ? AND term_id = ? AND section = ?
+    `);
+
+    return (section) => {
+      // Get/create all lookup IDs
+      const termId = this.getOrCreateTerm(section.term);
+      const deptId = section.department
+        ? this.getOrCreateDepartment(section.department, section.department)
+        : null;
+      const courseId = this.getOrCreateCourse(
+        section.subjectCode,
+        section.courseTitle,
+        section.units,
+        deptId
+      );
+      const instructorId = this.getOrCreateInstructor(section.instructor);
+
+      sectionStmt.run(
+        courseId,
+        termId,
+        instructorId,
+        deptId,
+        section.section,
+        section.maxCapacity,
+        section.freeSlots,
+        section.lang,
+        section.level,
+        section.remarks,
+        section.hasPrerequisites ? 1 : 0
+      );
+
+      // Get the section ID (either from insert or existing)
+      const sectionRow = findSection.get(courseId, termId, section.section) as { id: number };
+      const sectionId = sectionRow.id;
+      this.linkSectionInstructors(sectionId, section.instructor);
+
+      // Clear old slots and insert new ones
+      deleteSlotsForSection.run(sectionId);
+      for (const slot of section.schedule) {
+        const roomId = this.getOrCreateRoom(slot.room);
+        slotStmt.run(
+          sectionId,
+          roomId,
+          slot.day,
+          slot.startTime,
+          slot.endTime,
+          slot.modality || "ONSITE"
+        );
+      }
+      return sectionId;
+    };
+  }
+
+  /**
+   * Save class sections and return change stats.
+   * Field-level changes are written to class_section_history under the given scrape run.
+   * Writes straight into the live tables; scrapes stage their sections per checkpoint
+   * (completeCheckpoint) and go live through commitStagedRun.
+   */
+  saveClassSectionsWithStats(
+    sections: ClassSection[],
+    scrapeRunId: number | null = null,
+    removalPolicy: RemovalPolicy = {}
+  ): ScrapeStats {
     const stats: ScrapeStats = { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: sections.length };
     
     if (sections.length === 0) return stats;
@@ -573,7 +973,7 @@ export class SISIADatabase {
     const newKeys = new Set<string>();
     
     const checkExistingStmt = this.db.prepare(`
-      SELECT cs.id, cs.max_capacity, cs.free_slots, i.name as instructor
+      SELECT cs.id, cs.max_capacity, cs.free_slots, cs.remarks, i.name as instructor
       FROM class_section cs
       JOIN course c ON cs.course_id = c.id
       JOIN term t ON cs.term_id = t.id
@@ -581,112 +981,606 @@ export class SISIADatabase {
       WHERE c.course_code = ? AND t.code = ? AND cs.section = ?
     `);
     
-    const sectionStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO class_section 
-        (course_id, term_id, instructor_id, department_id, section,
-         max_capacity, free_slots, lang, level, remarks, has_prerequisites)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
+    const writeSection = this.sectionWriter();
 
-    const slotStmt = this.db.prepare(`
-      INSERT INTO schedule_slot (section_id, room_id, day, start_time, end_time, modality)
-      VALUES (?, ?, ?, ?, ?, ?)
+    const existingSlotsStmt = this.db.prepare(`
+      SELECT ss.day, ss.start_time as startTime, ss.end_time as endTime, r.code as room
+      FROM schedule_slot ss
+      LEFT JOIN room r ON ss.room_id = r.id
+      WHERE ss.section_id = ?
     `);
 
-    const deleteSlotsForSection = this.db.prepare(`
-      DELETE FROM schedule_slot WHERE section_id = ?
+    const lastStatusStmt = this.db.prepare(`
+      SELECT new_value FROM class_section_history
+      WHERE term_code = ? AND course_code = ? AND section = ? AND field = 'status'
+      ORDER BY id DESC LIMIT 1
     `);
 
-    const findSection = this.db.prepare(`
-      SELECT id FROM class_section 
-      WHERE course_id = ? AND term_id = ? AND section = ?
+    const historyStmt = this.db.prepare(`
+      INSERT INTO class_section_history
+        (scrape_run_id, term_code, course_code, section, field, old_value, new_value)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const recordChange = (
+      section: { term: string; subjectCode: string; section: string },
+      field: SectionHistoryField,
+      oldValue: string | null,
+      newValue: string | null
+    ) => {
+      historyStmt.run(
+        scrapeRunId, section.term, section.subjectCode, section.section,
+        field, oldValue, newValue
+      );
+    };
+
     const transaction = this.db.transaction((sects: ClassSection[]) => {
       for (const section of sects) {
         const sectionKey = `${section.subjectCode}-${section.section}`;
         newKeys.add(sectionKey);
         
-        // Get/create all lookup IDs
-        const termId = this.getOrCreateTerm(section.term);
-        const deptId = section.department
-          ? this.getOrCreateDepartment(section.department, section.department)
-          : null;
-        const courseId = this.getOrCreateCourse(
-          section.subjectCode,
-          section.courseTitle,
-          section.units,
-          deptId
-        );
-        const instructorId = this.getOrCreateInstructor(section.instructor);
-        
         // Check if section exists and if data changed
         const existing = checkExistingStmt.get(section.subjectCode, section.term, section.section) as {
-          id: number; max_capacity: number; free_slots: number; instructor: string | null;
+          id: number; max_capacity: number; free_slots: number; remarks: string | null; instructor: string | null;
         } | undefined;
         
         if (existing) {
-          // Check if anything changed
-          const hasChanged = existing.max_capacity !== section.maxCapacity ||
-                            existing.free_slots !== section.freeSlots ||
-                            existing.instructor !== section.instructor;
+          const existingSlots = existingSlotsStmt.all(existing.id) as {
+            day: string; startTime: string; endTime: string; room: string | null;
+          }[];
+          const before: SectionSnapshot = {
+            free_slots: String(existing.free_slots),
+            max_capacity: String(existing.max_capacity),
+            instructor: emptyToNull(existing.instructor),
+            room: formatRooms(existingSlots.map((s) => s.room)),
+            schedule: formatScheduleSlots(existingSlots),
+            remarks: emptyToNull(existing.remarks),
+          };
+          const after: SectionSnapshot = {
+            free_slots: String(section.freeSlots),
+            max_capacity: String(section.maxCapacity),
+            instructor: emptyToNull(section.instructor),
+            room: formatRooms(section.schedule.map((s) => s.room)),
+            schedule: formatScheduleSlots(section.schedule),
+            remarks: emptyToNull(section.remarks),
+          };
+
+          // A section that disappeared in an earlier run is back
+          const lastStatus = lastStatusStmt.get(section.term, section.subjectCode, section.section) as
+            { new_value: string } | undefined;
+          if (lastStatus?.new_value === 'removed') {
+            recordChange(section, 'status', 'removed', 'active');
+          }
+
+          const changedFields = TRACKED_FIELDS.filter((field) => before[field] !== after[field]);
+          for (const field of changedFields) {
+            recordChange(section, field, before[field], after[field]);
+          }
           
-          if (hasChanged) {
+          if (changedFields.length > 0) {
             stats.updated++;
           } else {
             stats.unchanged++;
           }
         } else {
           stats.inserted++;
+          // A section removed by an earlier run was deleted, so it comes back as a new row
+          const lastStatus = lastStatusStmt.get(section.term, section.subjectCode, section.section) as
+            { new_value: string } | undefined;
+          if (lastStatus?.new_value === 'removed') {
+            recordChange(section, 'status', 'removed', 'active');
+          } else {
+            recordChange(section, 'status', null, 'added');
+          }
         }
 
-        // Insert/update section
-        sectionStmt.run(
-          courseId,
-          termId,
-          instructorId,
-          deptId,
-          section.section,
-          section.maxCapacity,
-          section.freeSlots,
-          section.lang,
-          section.level,
-          section.remarks,
-          section.hasPrerequisites ? 1 : 0
-        );
-
-        // Get the section ID
-        const sectionRow = findSection.get(courseId, termId, section.section) as { id: number };
-        const sectionId = sectionRow.id;
-
-        // Clear old slots and insert new ones
-        deleteSlotsForSection.run(sectionId);
-        for (const slot of section.schedule) {
-          const roomId = this.getOrCreateRoom(slot.room);
-          slotStmt.run(
-            sectionId,
-            roomId,
-            slot.day,
-            slot.startTime,
-            slot.endTime,
-            slot.modality || "ONSITE"
-          );
-        }
+        writeSection(section);
       }
     });
 
     transaction(sections);
     
     // Count removed sections (existed before but not in current scrape)
-    for (const key of existingKeys) {
-      if (!newKeys.has(key)) {
-        stats.removed++;
-      }
+    let removedKeys = [...existingKeys].filter((key) => !newKeys.has(key));
+
+    // Anomalous departments keep their sections: their removals are withheld
+    if (removalPolicy.blockAll || removalPolicy.blockedDepartments?.size) {
+      const departmentOf = this.getSectionDepartments(termCode);
+      const committed = removedKeys.filter((key) =>
+        !removalPolicy.blockAll && !removalPolicy.blockedDepartments?.has(departmentOf.get(key) || "UNKNOWN")
+      );
+      stats.removalsBlocked = removedKeys.length - committed.length;
+      removedKeys = committed;
     }
+    stats.removed = removedKeys.length;
+
+    // Committed removals leave the live tables (slots and instructor links cascade);
+    // the history keeps the 'removed' status, and commitStagedRun's snapshot can restore them
+    const deleteSection = this.db.prepare(`
+      DELETE FROM class_section
+      WHERE course_id = (SELECT id FROM course WHERE course_code = ?)
+        AND term_id = (SELECT id FROM term WHERE code = ?)
+        AND section = ?
+    `);
+    const commitRemovals = this.db.transaction(() => {
+      for (const key of removedKeys) {
+        const splitAt = key.indexOf("-");
+        const removed = { term: termCode, subjectCode: key.slice(0, splitAt), section: key.slice(splitAt + 1) };
+        deleteSection.run(removed.subjectCode, removed.term, removed.section);
+        const lastStatus = lastStatusStmt.get(removed.term, removed.subjectCode, removed.section) as
+          { new_value: string } | undefined;
+        if (lastStatus?.new_value !== 'removed') {
+          recordChange(removed, 'status', 'active', 'removed');
+        }
+      }
+    });
+    commitRemovals();
     
     return stats;
   }
 
+  /**
+   * Department of every section of a term, keyed like getExistingSectionKeys
+   */
+  private getSectionDepartments(termCode: string): Map<string, string> {
+    const rows = this.db.prepare(`
+      SELECT c.course_code, cs.section, d.code as department
+      FROM class_section cs
+      JOIN course c ON cs.course_id = c.id
+      JOIN term t ON cs.term_id = t.id
+      LEFT JOIN department d ON cs.department_id = d.id
+      WHERE t.code = ?
+    `).all(termCode) as { course_code: string; section: string; department: string | null }[];
+
+    return new Map(rows.map(r => [`${r.course_code}-${r.section}`, r.department || "UNKNOWN"]));
+  }
+
+  // ============================================
+  // CHECKPOINTS (resumable runs)
+  // ============================================
+
+  /**
+   * Register the units a run has to scrape (units already registered keep their state)
+   */
+  addCheckpoints(scrapeRunId: number, unitKeys: string[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO scrape_checkpoint (scrape_run_id, unit_key) VALUES (?, ?)
+    `);
+    const transaction = this.db.transaction(() => {
+      for (const key of unitKeys) stmt.run(scrapeRunId, key);
+    });
+    transaction();
+  }
+
+  /**
+   * Units of a run that are not done yet (pending or failed)
+   */
+  getPendingUnits(scrapeRunId: number): string[] {
+    const rows = this.db.prepare(`
+      SELECT unit_key FROM scrape_checkpoint
+      WHERE scrape_run_id = ? AND status != 'done'
+      ORDER BY id
+    `).all(scrapeRunId) as { unit_key: string }[];
+
+    return rows.map((r) => r.unit_key);
+  }
+
+  /**
+   * Mark a unit as done. Schedule units pass their sections, which are staged in the
+   * same transaction so a crash never leaves a unit half-staged.
+   */
+  completeCheckpoint(scrapeRunId: number, unitKey: string, itemCount: number, sections: ClassSection[] = []): void {
+    const stageStmt = this.db.prepare(`
+      INSERT INTO staged_section (scrape_run_id, term_code, payload) VALUES (?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      for (const section of sections) {
+        stageStmt.run(scrapeRunId, section.term, JSON.stringify(section));
+      }
+      this.db.prepare(`
+        UPDATE scrape_checkpoint
+        SET status = 'done', item_count = ?, attempts = attempts + 1,
+            error_message = NULL, updated_at = datetime('now')
+        WHERE scrape_run_id = ? AND unit_key = ?
+      `).run(itemCount, scrapeRunId, unitKey);
+    });
+    transaction();
+  }
+
+  /**
+   * Mark a unit as failed after its retries were used up (it is retried on --resume)
+   */
+  failCheckpoint(scrapeRunId: number, unitKey: string, errorMessage: string): void {
+    this.db.prepare(`
+      UPDATE scrape_checkpoint
+      SET status = 'failed', attempts = attempts + 1, error_message = ?, updated_at = datetime('now')
+      WHERE scrape_run_id = ? AND unit_key = ?
+    `).run(errorMessage, scrapeRunId, unitKey);
+  }
+
+  /**
+   * Unit counts of a run and the items scraped by its finished units
+   */
+  getCheckpointProgress(scrapeRunId: number): { done: number; failed: number; pending: number; items: number } {
+    const row = this.db.prepare(`
+      SELECT
+        SUM(status = 'done') as done,
+        SUM(status = 'failed') as failed,
+        SUM(status = 'pending') as pending,
+        SUM(CASE WHEN status = 'done' THEN item_count ELSE 0 END) as items
+      FROM scrape_checkpoint WHERE scrape_run_id = ?
+    `).get(scrapeRunId) as { done: number | null; failed: number | null; pending: number | null; items: number | null };
+
+    return { done: row.done || 0, failed: row.failed || 0, pending: row.pending || 0, items: row.items || 0 };
+  }
+
+  /**
+   * Latest interrupted (still running) or failed run of a kind that has unfinished units
+   */
+  findResumableRun(scrapeType: 'schedule' | 'curriculum', termCode: string | null): number | undefined {
+    const row = this.db.prepare(`
+      SELECT sr.id FROM scrape_run sr
+      WHERE sr.scrape_type = ? AND sr.term_code IS ? AND sr.status IN ('running', 'failed')
+        AND EXISTS (
+          SELECT 1 FROM scrape_checkpoint cp WHERE cp.scrape_run_id = sr.id AND cp.status != 'done'
+        )
+      ORDER BY sr.id DESC LIMIT 1
+    `).get(scrapeType, termCode) as { id: number } | undefined;
+
+    return row?.id;
+  }
+
+  /**
+   * Put a failed or interrupted run back into the running state
+   */
+  resumeScrapeRun(scrapeRunId: number): void {
+    this.db.prepare(`
+      UPDATE scrape_run SET status = 'running', error_message = NULL, completed_at = NULL WHERE id = ?
+    `).run(scrapeRunId);
+  }
+
+  // ============================================
+  // STAGED COMMITS & ROLLBACK
+  // ============================================
+
+  /**
+   * Mark a run as fully scraped; returns the number of staged sections
+   */
+  markRunStaged(scrapeRunId: number): number {
+    const { count } = this.db.prepare(
+      "SELECT COUNT(*) as count FROM staged_section WHERE scrape_run_id = ?"
+    ).get(scrapeRunId) as { count: number };
+
+    this.db.prepare(`
+      UPDATE scrape_run SET status = 'staged', total_scraped = ? WHERE id = ?
+    `).run(count, scrapeRunId);
+    return count;
+  }
+
+  /**
+   * Sections staged by a run, in scrape order
+   */
+  getStagedSections(scrapeRunId: number): ClassSection[] {
+    const rows = this.db.prepare(`
+      SELECT payload FROM staged_section WHERE scrape_run_id = ? ORDER BY id
+    `).all(scrapeRunId) as { payload: string }[];
+
+    return rows.map((r) => JSON.parse(r.payload));
+  }
+
+  /**
+   * Swap a staged run into the live tables in a single transaction. The term is
+   * snapshotted first so the run can be rolled back; readers of the database see
+   * either the previous term or the committed one, never a partial save.
+   */
+  commitStagedRun(scrapeRunId: number, removalPolicy: RemovalPolicy = {}): ScrapeStats {
+    const run = this.db.prepare(
+      "SELECT term_code, status FROM scrape_run WHERE id = ?"
+    ).get(scrapeRunId) as { term_code: string | null; status: ScrapeRunStatus } | undefined;
+
+    if (!run || !run.term_code) {
+      throw new Error(`Scrape run ${scrapeRunId} is not a schedule run`);
+    }
+    // A failed run can be committed once every unit is scraped (e.g. the swap itself failed)
+    const committable = run.status === 'staged' || run.status === 'rejected' ||
+      (run.status === 'failed' && this.getPendingUnits(scrapeRunId).length === 0);
+    if (!committable) {
+      throw new Error(`Scrape run ${scrapeRunId} is ${run.status}, only fully staged runs can be committed`);
+    }
+    const newer = this.db.prepare(`
+      SELECT id FROM scrape_run
+      WHERE term_code = ? AND scrape_type = 'schedule' AND status = 'completed' AND id > ?
+      ORDER BY id DESC LIMIT 1
+    `).get(run.term_code, scrapeRunId) as { id: number } | undefined;
+    if (newer) {
+      throw new Error(`Run ${newer.id} already committed ${run.term_code} after run ${scrapeRunId}`);
+    }
+
+    const sections = this.getStagedSections(scrapeRunId);
+    if (sections.length === 0) {
+      throw new Error(`Scrape run ${scrapeRunId} has no staged sections`);
+    }
+    const termCode = run.term_code;
+
+    const transaction = this.db.transaction(() => {
+      this.snapshotTerm(scrapeRunId, termCode);
+      const stats = this.saveClassSectionsWithStats(sections, scrapeRunId, removalPolicy);
+
+      // Staging of this run and of older runs it supersedes is no longer needed
+      this.db.prepare(
+        "DELETE FROM staged_section WHERE term_code = ? AND scrape_run_id <= ?"
+      ).run(termCode, scrapeRunId);
+      this.pruneTermSnapshots(termCode);
+      this.endScrapeRun(scrapeRunId, stats, 'completed');
+      return stats;
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      // Lookup rows created inside the transaction were rolled back too
+      this.clearCache();
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a term to the snapshot taken right before a run was committed.
+   * The run and every later committed run of the term are marked rolled_back
+   * and their history entries are dropped.
+   */
+  rollbackScrapeRun(scrapeRunId: number): RollbackResult {
+    const snapshot = this.db.prepare(`
+      SELECT sn.term_code, sn.section_count, sn.sections, sn.slots, sr.status
+      FROM term_snapshot sn
+      JOIN scrape_run sr ON sr.id = sn.scrape_run_id
+      WHERE sn.scrape_run_id = ?
+    `).get(scrapeRunId) as {
+      term_code: string; section_count: number; sections: string; slots: string; status: ScrapeRunStatus;
+    } | undefined;
+
+    if (!snapshot) {
+      throw new Error(`No snapshot for scrape run ${scrapeRunId} (only the last ${SNAPSHOTS_PER_TERM} committed runs of a term can be rolled back)`);
+    }
+    if (snapshot.status !== 'completed') {
+      throw new Error(`Scrape run ${scrapeRunId} is ${snapshot.status}, only completed runs can be rolled back`);
+    }
+
+    const undone = (this.db.prepare(`
+      SELECT id FROM scrape_run
+      WHERE term_code = ? AND scrape_type = 'schedule' AND status = 'completed' AND id >= ?
+      ORDER BY id
+    `).all(snapshot.term_code, scrapeRunId) as { id: number }[]).map((r) => r.id);
+    const placeholders = undone.map(() => "?").join(", ");
+
+    const transaction = this.db.transaction(() => {
+      // Slots and instructor links go with their sections (ON DELETE CASCADE)
+      this.db.prepare(`
+        DELETE FROM class_section WHERE term_id = (SELECT id FROM term WHERE code = ?)
+      `).run(snapshot.term_code);
+      this.insertRows("class_section", JSON.parse(snapshot.sections));
+      this.insertRows("schedule_slot", JSON.parse(snapshot.slots));
+      this.backfillSectionInstructors();
+
+      this.db.prepare(`DELETE FROM class_section_history WHERE scrape_run_id IN (${placeholders})`).run(...undone);
+      this.db.prepare(`DELETE FROM term_snapshot WHERE scrape_run_id IN (${placeholders})`).run(...undone);
+      this.db.prepare(`UPDATE scrape_run SET status = 'rolled_back' WHERE id IN (${placeholders})`).run(...undone);
+    });
+    transaction();
+
+    return {
+      termCode: snapshot.term_code,
+      restoredSections: snapshot.section_count,
+      rolledBackRuns: undone,
+    };
+  }
+
+  /**
+   * Copy the live sections and slots of a term (ids included) into term_snapshot
+   */
+  private snapshotTerm(scrapeRunId: number, termCode: string): void {
+    const sections = this.db.prepare(`
+      SELECT cs.* FROM class_section cs
+      JOIN term t ON cs.term_id = t.id
+      WHERE t.code = ?
+      ORDER BY cs.id
+    `).all(termCode);
+    const slots = this.db.prepare(`
+      SELECT ss.* FROM schedule_slot ss
+      JOIN class_section cs ON ss.section_id = cs.id
+      JOIN term t ON cs.term_id = t.id
+      WHERE t.code = ?
+      ORDER BY ss.id
+    `).all(termCode);
+
+    this.db.prepare(`
+      INSERT OR REPLACE INTO term_snapshot (scrape_run_id, term_code, section_count, sections, slots)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(scrapeRunId, termCode, sections.length, JSON.stringify(sections), JSON.stringify(slots));
+  }
+
+  /**
+   * Keep only the most recent snapshots of a term
+   */
+  private pruneTermSnapshots(termCode: string, keep = SNAPSHOTS_PER_TERM): void {
+    this.db.prepare(`
+      DELETE FROM term_snapshot
+      WHERE term_code = ? AND scrape_run_id NOT IN (
+        SELECT scrape_run_id FROM term_snapshot WHERE term_code = ?
+        ORDER BY scrape_run_id DESC LIMIT ?
+      )
+    `).run(termCode, termCode, keep);
+  }
+
+  /**
+   * Insert rows as they were selected (column names taken from the first row)
+   */
+  private insertRows(table: string, rows: Record<string, unknown>[]): void {
+    if (rows.length === 0) return;
+    const columns = Object.keys(rows[0]);
+    const stmt = this.db.prepare(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map((c) => `@${c}`).join(", ")})`
+    );
+    for (const row of rows) stmt.run(row);
+  }
+
+  // ============================================
+  // ANOMALY BASELINES
+  // ============================================
+
+  /**
+   * Fingerprints of the sections currently active for a term (sections whose
+   * latest status is 'removed' are left out)
+   */
+  getSectionFingerprints(termCode: string): SectionFingerprint[] {
+    const rows = this.db.prepare(`
+      SELECT
+        c.course_code,
+        cs.section,
+        d.code as department,
+        i.name as instructor,
+        (SELECT GROUP_CONCAT(r.code, '|') FROM schedule_slot ss
+           LEFT JOIN room r ON ss.room_id = r.id WHERE ss.section_id = cs.id) as rooms,
+        (SELECT COUNT(*) FROM schedule_slot ss WHERE ss.section_id = cs.id) as slot_count
+      FROM class_section cs
+      JOIN course c ON cs.course_id = c.id
+      JOIN term t ON cs.term_id = t.id
+      LEFT JOIN department d ON cs.department_id = d.id
+      LEFT JOIN instructor i ON cs.instructor_id = i.id
+      WHERE t.code = ?
+        AND COALESCE((
+          SELECT h.new_value FROM class_section_history h
+          WHERE h.term_code = t.code AND h.course_code = c.course_code
+            AND h.section = cs.section AND h.field = 'status'
+          ORDER BY h.id DESC LIMIT 1
+        ), 'active') != 'removed'
+    `).all(termCode) as {
+      course_code: string; section: string; department: string | null;
+      instructor: string | null; rooms: string | null; slot_count: number;
+    }[];
+
+    return rows.map((r) => ({
+      key: `${r.course_code}-${r.section}`,
+      department: r.department || "UNKNOWN",
+      prefix: r.course_code.split(" ")[0] || "UNKNOWN",
+      instructor: emptyToNull(r.instructor),
+      rooms: joinRooms(r.rooms ? r.rooms.split("|") : []),
+      tba: r.slot_count === 0,
+    }));
+  }
+
+  /**
+   * Per-department snapshots of the last clean completed runs of a term, oldest first
+   */
+  getDepartmentRunHistory(termCode: string, runs = 5): Map<string, DepartmentProfile[]> {
+    const rows = this.db.prepare(`
+      SELECT department_code, section_count, tba_count, prefix_counts
+      FROM scrape_run_department
+      WHERE anomalous = 0
+        AND scrape_run_id IN (
+          SELECT id FROM scrape_run
+          WHERE term_code = ? AND scrape_type = 'schedule' AND status = 'completed'
+          ORDER BY id DESC LIMIT ?
+        )
+      ORDER BY scrape_run_id ASC
+    `).all(termCode, runs) as {
+      department_code: string; section_count: number; tba_count: number; prefix_counts: string | null;
+    }[];
+
+    const history = new Map<string, DepartmentProfile[]>();
+    for (const r of rows) {
+      const list = history.get(r.department_code) || [];
+      list.push({
+        department: r.department_code,
+        sectionCount: r.section_count,
+        tbaCount: r.tba_count,
+        prefixCounts: r.prefix_counts ? JSON.parse(r.prefix_counts) : {},
+      });
+      history.set(r.department_code, list);
+    }
+    return history;
+  }
+
+  /**
+   * Store this run's per-department profile; anomalous departments never become baseline
+   */
+  saveDepartmentSnapshots(
+    scrapeRunId: number,
+    termCode: string,
+    profiles: DepartmentProfile[],
+    anomalousDepartments: Set<string> = new Set()
+  ): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO scrape_run_department
+        (scrape_run_id, term_code, department_code, section_count, tba_count, prefix_counts, anomalous)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const transaction = this.db.transaction(() => {
+      for (const p of profiles) {
+        stmt.run(
+          scrapeRunId, termCode, p.department, p.sectionCount, p.tbaCount,
+          JSON.stringify(p.prefixCounts), anomalousDepartments.has(p.department) ? 1 : 0
+        );
+      }
+    });
+    transaction();
+  }
+
+  /**
+   * Record the anomalies found for a run and how many removals were withheld
+   */
+  recordRunAnomalies(scrapeRunId: number, anomalies: DepartmentAnomaly[], removalsBlocked: number): void {
+    this.db.prepare(`
+      UPDATE scrape_run SET anomalies = ?, removals_blocked = ? WHERE id = ?
+    `).run(anomalies.length > 0 ? JSON.stringify(anomalies) : null, removalsBlocked, scrapeRunId);
+  }
+
+  /**
+   * Get the change timeline for a course (optionally one section), oldest first
+   */
+  getSectionHistory(
+    courseCode: string,
+    options: { section?: string; termCode?: string; field?: SectionHistoryField; limit?: number } = {}
+  ): SectionHistoryEntry[] {
+    const conditions = ["course_code = ?"];
+    const params: (string | number)[] = [courseCode];
+
+    if (options.section) {
+      conditions.push("section = ?");
+      params.push(options.section);
+    }
+    if (options.termCode) {
+      conditions.push("term_code = ?");
+      params.push(options.termCode);
+    }
+    if (options.field) {
+      conditions.push("field = ?");
+      params.push(options.field);
+    }
+    params.push(options.limit ?? 500);
+
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM class_section_history
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY id DESC
+        LIMIT ?
+      ) ORDER BY id ASC
+    `).all(...params) as any[];
+
+    return rows.map((r) => ({
+      scrapeRunId: r.scrape_run_id,
+      termCode: r.term_code,
+      courseCode: r.course_code,
+      section: r.section,
+      field: r.field,
+      oldValue: r.old_value,
+      newValue: r.new_value,
+      changedAt: new Date(r.changed_at),
+    }));
+  }
+
   /**
    * Get recent scrape runs
    */
@@ -697,7 +1591,19 @@ export class SISIADatabase {
       LIMIT ?
     `).all(limit) as any[];
     
-    return rows.map(r => ({
+    return rows.map(r => this.toScrapeRun(r));
+  }
+
+  /**
+   * Get a scrape run by ID
+   */
+  getScrapeRun(runId: number): ScrapeRun | undefined {
+    const row = this.db.prepare('SELECT * FROM scrape_run WHERE id = ?').get(runId) as any;
+    return row ? this.toScrapeRun(row) : undefined;
+  }
+
+  private toScrapeRun(r: any): ScrapeRun {
+    return {
       id: r.id,
       startedAt: new Date(r.started_at),
       completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
@@ -713,7 +1619,266 @@ export class SISIADatabase {
       durationMs: r.duration_ms,
       status: r.status,
       errorMessage: r.error_message,
+      anomalies: r.anomalies ? JSON.parse(r.anomalies) : undefined,
+      removalsBlocked: r.removals_blocked || 0,
+    };
+  }
+
+  // ============================================
+  // SCHEDULER & LOCKS
+  // ============================================
+
+  /**
+   * Take a named lock; fails while another owner's heartbeat is fresher than staleMs
+   */
+  acquireLock(name: string, owner: string, staleMs: number): boolean {
+    const transaction = this.db.transaction(() => {
+      const current = this.db.prepare(
+        "SELECT owner, heartbeat_at FROM process_lock WHERE name = ?"
+      ).get(name) as { owner: string; heartbeat_at: string } | undefined;
+
+      if (current && current.owner !== owner && Date.now() - Date.parse(current.heartbeat_at) < staleMs) {
+        return false;
+      }
+
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        INSERT OR REPLACE INTO process_lock (name, owner, acquired_at, heartbeat_at) VALUES (?, ?, ?, ?)
+      `).run(name, owner, now, now);
+      return true;
+    });
+    return transaction.immediate();
+  }
+
+  /**
+   * Current holder of a lock, if any
+   */
+  getLock(name: string): { owner: string; acquiredAt: string; heartbeatAt: string } | undefined {
+    const row = this.db.prepare(
+      "SELECT owner, acquired_at, heartbeat_at FROM process_lock WHERE name = ?"
+    ).get(name) as { owner: string; acquired_at: string; heartbeat_at: string } | undefined;
+
+    return row ? { owner: row.owner, acquiredAt: row.acquired_at, heartbeatAt: row.heartbeat_at } : undefined;
+  }
+
+  refreshLock(name: string, owner: string): void {
+    this.db.prepare(
+      "UPDATE process_lock SET heartbeat_at = ? WHERE name = ? AND owner = ?"
+    ).run(new Date().toISOString(), name, owner);
+  }
+
+  releaseLock(name: string, owner: string): void {
+    this.db.prepare("DELETE FROM process_lock WHERE name = ? AND owner = ?").run(name, owner);
+  }
+
+  /**
+   * Register the configured jobs; jobs no longer in the config are dropped
+   */
+  syncSchedulerJobs(jobs: { name: string; jobType: string; cron: string; activeWhen: string }[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO scheduler_job (name, job_type, cron, active_when) VALUES (?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        job_type = excluded.job_type, cron = excluded.cron, active_when = excluded.active_when
+    `);
+
+    const transaction = this.db.transaction(() => {
+      for (const job of jobs) upsert.run(job.name, job.jobType, job.cron, job.activeWhen);
+      const names = jobs.map((j) => j.name);
+      this.db.prepare(
+        `DELETE FROM scheduler_job WHERE name NOT IN (${names.map(() => "?").join(", ") || "''"})`
+      ).run(...names);
+    });
+    transaction();
+  }
+
+  setJobNextRun(name: string, nextRunAt: Date | null): void {
+    this.db.prepare(
+      "UPDATE scheduler_job SET next_run_at = ? WHERE name = ?"
+    ).run(nextRunAt?.toISOString() ?? null, name);
+  }
+
+  recordJobStart(name: string): void {
+    this.db.prepare(`
+      UPDATE scheduler_job
+      SET last_started_at = ?, last_finished_at = NULL, last_status = 'running', last_error = NULL
+      WHERE name = ?
+    `).run(new Date().toISOString(), name);
+  }
+
+  recordJobEnd(name: string, status: 'success' | 'failed' | 'skipped', error: string | null = null): void {
+    this.db.prepare(`
+      UPDATE scheduler_job
+      SET last_finished_at = ?, last_status = ?, last_error = ?,
+          run_count = run_count + 1,
+          failure_count = failure_count + (CASE WHEN ? = 'failed' THEN 1 ELSE 0 END)
+      WHERE name = ?
+    `).run(new Date().toISOString(), status, error, status, name);
+  }
+
+  getSchedulerJobs(): SchedulerJobState[] {
+    const rows = this.db.prepare("SELECT * FROM scheduler_job ORDER BY name").all() as any[];
+
+    return rows.map((r) => ({
+      name: r.name,
+      jobType: r.job_type,
+      cron: r.cron,
+      activeWhen: r.active_when,
+      nextRunAt: r.next_run_at ?? undefined,
+      lastStartedAt: r.last_started_at ?? undefined,
+      lastFinishedAt: r.last_finished_at ?? undefined,
+      lastStatus: r.last_status ?? undefined,
+      lastError: r.last_error ?? undefined,
+      runCount: r.run_count,
+      failureCount: r.failure_count,
+    }));
+  }
+
+  // ============================================
+  // POSTGRES SYNC
+  // ============================================
+
+  /**
+   * Read the whole catalog in one consistent snapshot, with foreign keys resolved to natural keys
+   */
+  getCatalogExport(): CatalogExport {
+    const read = this.db.transaction((): CatalogExport => ({
+      departments: this.db.prepare("SELECT code, name FROM department ORDER BY code").all() as CatalogExport["departments"],
+      terms: this.db.prepare("SELECT code, year, semester FROM term ORDER BY code").all() as CatalogExport["terms"],
+      instructors: this.db.prepare(`
+        SELECT i.name, d.code as department_code
+        FROM instructor i LEFT JOIN department d ON i.department_id = d.id
+        ORDER BY i.name
+      `).all() as CatalogExport["instructors"],
+      rooms: this.db.prepare("SELECT code, building, room_number FROM room ORDER BY code").all() as CatalogExport["rooms"],
+      courses: this.db.prepare(`
+        SELECT c.course_code, c.title, c.units, d.code as department_code
+        FROM course c LEFT JOIN department d ON c.department_id = d.id
+        ORDER BY c.course_code
+      `).all() as CatalogExport["courses"],
+      degree_programs: (this.db.prepare(`
+        SELECT code, name, is_honors, track, specialization, version_year, version_semester
+        FROM degree_program ORDER BY code
+      `).all() as any[]).map((r) => ({ ...r, is_honors: r.is_honors === 1 })),
+      curriculum_courses: (this.db.prepare(`
+        SELECT dp.code as degree_code, c.course_code, cc.year, cc.semester, cc.prerequisites_raw,
+               cc.prerequisites_ast, cc.corequisites_raw, cc.category, cc.is_elective
+        FROM curriculum_course cc
+        JOIN degree_program dp ON cc.degree_id = dp.id
+        JOIN course c ON cc.course_id = c.id
+        ORDER BY dp.code, c.course_code
+      `).all() as any[]).map((r) => ({
+        ...r,
+        prerequisites_ast: r.prerequisites_ast ? JSON.parse(r.prerequisites_ast) : null,
+        is_elective: r.is_elective === 1,
+      })),
+      class_sections: (this.db.prepare(`
+        SELECT t.code as term_code, c.course_code, cs.section, i.name as instructor,
+               d.code as department_code, cs.max_capacity, cs.free_slots, cs.lang, cs.level,
+               cs.remarks, cs.has_prerequisites
+        FROM class_section cs
+        JOIN course c ON cs.course_id = c.id
+        JOIN term t ON cs.term_id = t.id
+        LEFT JOIN instructor i ON cs.instructor_id = i.id
+        LEFT JOIN department d ON cs.department_id = d.id
+        ORDER BY t.code, c.course_code, cs.section
+      `).all() as any[]).map((r) => ({ ...r, has_prerequisites: r.has_prerequisites === 1 })),
+      schedule_slots: this.db.prepare(`
+        SELECT t.code as term_code, c.course_code, cs.section, r.code as room_code,
+               ss.day, ss.start_time, ss.end_time, COALESCE(ss.modality, 'ONSITE') as modality
+        FROM schedule_slot ss
+        JOIN class_section cs ON ss.section_id = cs.id
+        JOIN course c ON cs.course_id = c.id
+        JOIN term t ON cs.term_id = t.id
+        LEFT JOIN room r ON ss.room_id = r.id
+        ORDER BY t.code, c.course_code, cs.section, ss.day, ss.start_time
+      `).all() as CatalogExport["schedule_slots"],
     }));
+
+    return read();
+  }
+
+  /**
+   * Row hashes of a Postgres table as of the last successful push
+   */
+  getSyncHashes(tableName: string): Map<string, string> {
+    const rows = this.db.prepare(
+      "SELECT row_key, row_hash FROM pg_sync_row WHERE table_name = ?"
+    ).all(tableName) as { row_key: string; row_hash: string }[];
+    return new Map(rows.map((r) => [r.row_key, r.row_hash]));
+  }
+
+  /**
+   * Record pushed rows (key -> hash) and deleted keys per table, after Postgres committed them
+   */
+  saveSyncHashes(changes: { tableName: string; pushed: Map<string, string>; deleted: string[] }[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO pg_sync_row (table_name, row_key, row_hash) VALUES (?, ?, ?)
+      ON CONFLICT(table_name, row_key) DO UPDATE SET row_hash = excluded.row_hash
+    `);
+    const remove = this.db.prepare("DELETE FROM pg_sync_row WHERE table_name = ? AND row_key = ?");
+
+    const transaction = this.db.transaction(() => {
+      for (const { tableName, pushed, deleted } of changes) {
+        for (const [key, hash] of pushed) upsert.run(tableName, key, hash);
+        for (const key of deleted) remove.run(tableName, key);
+      }
+    });
+    transaction();
+  }
+
+  /**
+   * Forget every pushed row, so the next sync sends the whole catalog
+   */
+  clearSyncHashes(): void {
+    this.db.prepare("DELETE FROM pg_sync_row").run();
+  }
+
+  getLatestScrapeRunId(): number | undefined {
+    const row = this.db.prepare("SELECT MAX(id) as id FROM scrape_run").get() as { id: number | null };
+    return row.id ?? undefined;
+  }
+
+  startPgSync(target: string, scrapeRunId: number | undefined): number {
+    const result = this.db.prepare(`
+      INSERT INTO pg_sync_run (started_at, target, scrape_run_id, status)
+      VALUES (datetime('now'), ?, ?, 'running')
+    `).run(target, scrapeRunId ?? null);
+    return result.lastInsertRowid as number;
+  }
+
+  endPgSync(
+    syncId: number,
+    status: 'completed' | 'mismatch' | 'failed',
+    counts: { upserted: number; deleted: number },
+    errorMessage?: string
+  ): void {
+    this.db.prepare(`
+      UPDATE pg_sync_run
+      SET completed_at = datetime('now'), upserted = ?, deleted = ?, status = ?, error_message = ?
+      WHERE id = ?
+    `).run(counts.upserted, counts.deleted, status, errorMessage || null, syncId);
+  }
+
+  /**
+   * Last sync that reached Postgres (completed, or completed with a count mismatch)
+   */
+  getLastPgSync(): PgSyncRun | undefined {
+    const r = this.db.prepare(`
+      SELECT * FROM pg_sync_run WHERE status IN ('completed', 'mismatch') ORDER BY id DESC LIMIT 1
+    `).get() as any;
+    if (!r) return undefined;
+
+    return {
+      id: r.id,
+      startedAt: new Date(r.started_at),
+      completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
+      target: r.target,
+      scrapeRunId: r.scrape_run_id ?? undefined,
+      upserted: r.upserted,
+      deleted: r.deleted,
+      status: r.status,
+      errorMessage: r.error_message ?? undefined,
+    };
   }
 
   /**
@@ -722,6 +1887,7 @@ export class SISIADatabase {
   clearCache(): void {
     this.cache.departments.clear();
     this.cache.instructors.clear();
+    this.cache.persons.clear();
     this.cache.rooms.clear();
     this.cache.courses.clear();
     this.cache.terms.clear();
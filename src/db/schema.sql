@@ -79,6 +79,7 @@ CREATE TABLE IF NOT EXISTS curriculum_course (
   year INTEGER,
   semester INTEGER,
   prerequisites_raw TEXT,
+  prerequisites_ast TEXT, -- JSON AND/OR expression tree parsed from prerequisites_raw
   corequisites_raw TEXT,
   category TEXT,
   is_elective INTEGER DEFAULT 0,
@@ -116,6 +117,25 @@ CREATE TABLE IF NOT EXISTS schedule_slot (
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Person: One instructor, however AISIS spells or combines them
+-- (instructor keeps the raw entries, e.g. "GO, CLARK KENDRICK C., NABLE, JOB A.")
+CREATE TABLE IF NOT EXISTS person (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,            -- Fullest spelling seen: "GO, CLARK KENDRICK C."
+  name_key TEXT NOT NULL,        -- Surname and given names: "GO, CLARK KENDRICK"
+  middle_initials TEXT,
+  suffix TEXT,                   -- "JR", "III"
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Section Instructor: Who teaches a section (several rows for co-taught sections)
+CREATE TABLE IF NOT EXISTS section_instructor (
+  section_id INTEGER NOT NULL REFERENCES class_section(id) ON DELETE CASCADE,
+  person_id INTEGER NOT NULL REFERENCES person(id),
+  position INTEGER NOT NULL DEFAULT 0,   -- Order in the AISIS entry
+  PRIMARY KEY (section_id, person_id)
+);
+
 -- ============================================
 -- INDEXES
 -- ============================================
@@ -129,6 +149,8 @@ CREATE INDEX IF NOT EXISTS idx_section_course ON class_section(course_id);
 CREATE INDEX IF NOT EXISTS idx_section_term ON class_section(term_id);
 CREATE INDEX IF NOT EXISTS idx_section_instructor ON class_section(instructor_id);
 CREATE INDEX IF NOT EXISTS idx_section_dept ON class_section(department_id);
+CREATE INDEX IF NOT EXISTS idx_person_key ON person(name_key);
+CREATE INDEX IF NOT EXISTS idx_section_instructor_person ON section_instructor(person_id);
 CREATE INDEX IF NOT EXISTS idx_curriculum_degree ON curriculum_course(degree_id);
 CREATE INDEX IF NOT EXISTS idx_curriculum_course ON curriculum_course(course_id);
 CREATE INDEX IF NOT EXISTS idx_slot_section ON schedule_slot(section_id);
@@ -158,7 +180,7 @@ CREATE TABLE IF NOT EXISTS scrape_run (
   started_at DATETIME NOT NULL,
   completed_at DATETIME,
   term_code TEXT,
-  scrape_type TEXT NOT NULL, -- 'schedule', 'curriculum', 'all'
+  scrape_type TEXT NOT NULL, -- 'schedule', 'curriculum', 'discovery', 'all'
   
   -- Change counters
   inserted INTEGER DEFAULT 0,
@@ -172,13 +194,139 @@ CREATE TABLE IF NOT EXISTS scrape_run (
   duration_ms INTEGER,
   
   -- Status
-  status TEXT DEFAULT 'running', -- 'running', 'completed', 'failed'
-  error_message TEXT
+  status TEXT DEFAULT 'running', -- 'running', 'staged', 'completed', 'rejected', 'failed', 'rolled_back'
+  error_message TEXT,
+
+  -- Anomaly policy (see src/anomalyDetection.ts)
+  anomalies TEXT,                   -- JSON list of detected anomalies, NULL when clean
+  removals_blocked INTEGER DEFAULT 0
 );
 
 CREATE INDEX IF NOT EXISTS idx_scrape_run_term ON scrape_run(term_code);
 CREATE INDEX IF NOT EXISTS idx_scrape_run_started ON scrape_run(started_at);
 
+-- Class Section History: Field-level changes detected between scrape runs
+-- Keyed by term/course/section because class_section rows are replaced on every save
+CREATE TABLE IF NOT EXISTS class_section_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scrape_run_id INTEGER REFERENCES scrape_run(id),
+  term_code TEXT NOT NULL,
+  course_code TEXT NOT NULL,
+  section TEXT NOT NULL,
+  field TEXT NOT NULL, -- 'status', 'free_slots', 'max_capacity', 'instructor', 'room', 'schedule', 'remarks'
+  old_value TEXT,
+  new_value TEXT,
+  changed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_history_section ON class_section_history(term_code, course_code, section);
+CREATE INDEX IF NOT EXISTS idx_section_history_run ON class_section_history(scrape_run_id);
+
+-- Scrape Run Department: Per-department snapshot of each schedule run, the learned baseline
+CREATE TABLE IF NOT EXISTS scrape_run_department (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scrape_run_id INTEGER REFERENCES scrape_run(id),
+  term_code TEXT NOT NULL,
+  department_code TEXT NOT NULL,
+  section_count INTEGER NOT NULL,
+  tba_count INTEGER NOT NULL DEFAULT 0, -- Sections without a scheduled day/time
+  prefix_counts TEXT,                   -- JSON, e.g. {"MATH": 120, "MATHED": 4}
+  anomalous INTEGER DEFAULT 0           -- 1 = excluded from future baselines
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_department_term ON scrape_run_department(term_code, department_code);
+
+-- Staged Section: Scraped sections of a run, validated before they are swapped into class_section
+CREATE TABLE IF NOT EXISTS staged_section (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scrape_run_id INTEGER NOT NULL REFERENCES scrape_run(id),
+  term_code TEXT NOT NULL,
+  payload TEXT NOT NULL -- JSON ClassSection
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_section_run ON staged_section(scrape_run_id);
+
+-- Scrape Checkpoint: One row per unit of a run (department for schedules, degree for curricula)
+-- so an interrupted run can be resumed with only its unfinished units
+CREATE TABLE IF NOT EXISTS scrape_checkpoint (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scrape_run_id INTEGER NOT NULL REFERENCES scrape_run(id),
+  unit_key TEXT NOT NULL,                 -- Department code or degree code
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'done', 'failed'
+  item_count INTEGER DEFAULT 0,           -- Sections or curriculum courses scraped
+  attempts INTEGER DEFAULT 0,             -- Scrape rounds (each with its own retries)
+  error_message TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(scrape_run_id, unit_key)
+);
+
+-- Term Snapshot: Live sections of a term right before a run was committed, for rollback
+CREATE TABLE IF NOT EXISTS term_snapshot (
+  scrape_run_id INTEGER PRIMARY KEY REFERENCES scrape_run(id),
+  term_code TEXT NOT NULL,
+  section_count INTEGER NOT NULL,
+  sections TEXT NOT NULL, -- JSON class_section rows (ids kept)
+  slots TEXT NOT NULL,    -- JSON schedule_slot rows
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_term_snapshot_term ON term_snapshot(term_code);
+
+-- ============================================
+-- SCHEDULER
+-- ============================================
+
+-- Scheduler Job: State of each job of the scrape scheduler (src/scheduler.ts), shown by /api/health
+-- Times are ISO 8601 (UTC)
+CREATE TABLE IF NOT EXISTS scheduler_job (
+  name TEXT PRIMARY KEY,
+  job_type TEXT NOT NULL,        -- 'schedule', 'curriculum', 'discovery'
+  cron TEXT NOT NULL,
+  active_when TEXT NOT NULL DEFAULT 'always', -- 'always', 'enrollment', 'outside_enrollment'
+  next_run_at TEXT,
+  last_started_at TEXT,
+  last_finished_at TEXT,
+  last_status TEXT,              -- 'running', 'success', 'failed', 'skipped'
+  last_error TEXT,
+  run_count INTEGER DEFAULT 0,
+  failure_count INTEGER DEFAULT 0
+);
+
+-- Process Lock: 'scrape' is held by the scraper while it writes, 'scheduler' by the daemon.
+-- A lock whose heartbeat is older than its owner's stale timeout can be taken over.
+CREATE TABLE IF NOT EXISTS process_lock (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,           -- hostname:pid
+  acquired_at TEXT NOT NULL,
+  heartbeat_at TEXT NOT NULL
+);
+
+-- ============================================
+-- POSTGRES SYNC
+-- ============================================
+
+-- Postgres Sync Run: One row per push of the catalog to Postgres (src/pgSync.ts)
+CREATE TABLE IF NOT EXISTS pg_sync_run (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  started_at DATETIME NOT NULL,
+  completed_at DATETIME,
+  target TEXT NOT NULL,          -- host:port/database, never the password
+  scrape_run_id INTEGER,         -- Latest scrape run included in the push
+  upserted INTEGER DEFAULT 0,
+  deleted INTEGER DEFAULT 0,
+  status TEXT DEFAULT 'running', -- 'running', 'completed', 'mismatch' (row counts differ), 'failed'
+  error_message TEXT
+);
+
+-- Postgres Sync Row: Hash of each row as last pushed, so a sync only sends rows that changed
+-- row_key is the natural key (e.g. "2025-2|CSCI 21|A"); schedule slots are hashed per section
+CREATE TABLE IF NOT EXISTS pg_sync_row (
+  table_name TEXT NOT NULL,      -- Postgres table name
+  row_key TEXT NOT NULL,
+  row_hash TEXT NOT NULL,
+  PRIMARY KEY (table_name, row_key)
+);
+
 -- ============================================
 -- CHATBOT-FRIENDLY VIEWS
 -- ============================================
@@ -11,15 +11,38 @@
  *   npm run fast -- --discover       # Discover hidden terms
  *   npm run fast -- --curriculum     # Curricula only
  *   npm run fast -- --all            # Schedules + curricula
+ *   npm run fast -- --record fixtures/2025-2   # Save every AISIS response
+ *   npm run fast -- --replay fixtures/2025-2   # Re-run offline from saved responses (into <dir>/replay.db)
+ *   npm run fast -- --allow-removals # Commit removals even when anomalies are detected
+ *   npm run fast -- --all-terms --resume       # Continue the unfinished departments of interrupted runs
+ *   npm run fast -- --runs           # List recent scrape runs
+ *   npm run fast -- --commit 42      # Commit a rejected run from staging after review
+ *   npm run fast -- --rollback 42    # Restore the term as it was before run 42
+ *
+ * Schedule scrapes are staged first, validated by anomaly detection, then swapped
+ * into the live tables in one transaction. A run that looks broken as a whole is
+ * rejected and stays in staging; the live data the chatbot reads is untouched.
+ *
+ * Every department (and every degree program) is checkpointed in SQLite as soon as it
+ * is scraped. Failed requests are retried with exponential backoff and an expired
+ * session triggers a re-login; a run that still has failed units can be continued
+ * with --resume instead of starting over.
+ *
+ * Only one scrape writes at a time: a run that finds the scrape lock taken exits
+ * with code 75 (see processLock.ts). Scheduled runs are started by src/scheduler.ts.
  */
 
 import { config } from 'dotenv';
-import { httpLogin } from './httpAuth.js';
+import * as path from 'path';
+import { createRelogin, httpLogin, setFixtureMode } from './httpAuth.js';
 import { getScheduleOptionsHTTP, scrapeAllSchedulesHTTP } from './httpScraper.js';
 import { getCurriculumOptionsHTTP, scrapeAllCurriculaHTTP } from './httpCurriculumScraper.js';
 import { SISIADatabase, type ScrapeStats } from './db/database.js';
 import { logger } from './logger.js';
 import { getListedTerms, discoverAllTerms } from './termDiscovery.js';
+import { detectScrapeAnomalies, fingerprintSections, thresholdsFromEnv } from './anomalyDetection.js';
+import { withRetry, type RetryOptions } from './retry.js';
+import { LOCK_BUSY_EXIT_CODE, SCRAPE_LOCK, tryHoldLock, type HeldLock } from './processLock.js';
 
 config();
 logger.startSession('scrape');
@@ -33,6 +56,17 @@ const allTerms = args.includes('--all-terms');
 const discoverOnly = args.includes('--discover');
 const termIndex = args.indexOf('--term');
 const specificTerm = termIndex !== -1 ? args[termIndex + 1] : null;
+const recordIndex = args.indexOf('--record');
+const recordDir = recordIndex !== -1 ? args[recordIndex + 1] : null;
+const replayIndex = args.indexOf('--replay');
+const replayDir = replayIndex !== -1 ? args[replayIndex + 1] : null;
+const allowRemovals = args.includes('--allow-removals');
+const resume = args.includes('--resume');
+const listRuns = args.includes('--runs');
+const commitIndex = args.indexOf('--commit');
+const commitRunId = commitIndex !== -1 ? parseInt(args[commitIndex + 1]) : null;
+const rollbackIndex = args.indexOf('--rollback');
+const rollbackRunId = rollbackIndex !== -1 ? parseInt(args[rollbackIndex + 1]) : null;
 
 function formatStats(stats: ScrapeStats): string {
   const parts: string[] = [];
@@ -40,46 +74,151 @@ function formatStats(stats: ScrapeStats): string {
   if (stats.updated > 0) parts.push(`~${stats.updated} updated`);
   if (stats.unchanged > 0) parts.push(`=${stats.unchanged} unchanged`);
   if (stats.removed > 0) parts.push(`-${stats.removed} removed`);
+  if (stats.removalsBlocked) parts.push(`${stats.removalsBlocked} removals blocked`);
   return parts.join(', ') || 'no changes';
 }
 
+/**
+ * --runs, --commit and --rollback only touch the database, no AISIS login needed
+ */
+function runMaintenance(): void {
+  const db = new SISIADatabase('sisia.db');
+  let lock: HeldLock | null = null;
+
+  try {
+    db.initialize();
+
+    // Commit and rollback write the live tables, so they wait for running scrapes
+    if (!listRuns) {
+      lock = tryHoldLock(db, SCRAPE_LOCK);
+      if (!lock) {
+        reportLockBusy(db);
+        return;
+      }
+    }
+
+    if (rollbackRunId !== null) {
+      const result = db.rollbackScrapeRun(rollbackRunId);
+      console.log(`⏪ ${result.termCode}: restored ${result.restoredSections} sections from before run #${rollbackRunId}`);
+      console.log(`   Rolled back runs: ${result.rolledBackRuns.map(id => `#${id}`).join(', ')}`);
+    } else if (commitRunId !== null) {
+      const run = db.getScrapeRun(commitRunId);
+      // Committing overrides the rejection, but anomalous departments still keep their sections
+      const blockedDepartments = new Set((run?.anomalies || []).map(a => a.department));
+      const stats = db.commitStagedRun(commitRunId, allowRemovals ? {} : { blockedDepartments });
+      db.recordRunAnomalies(commitRunId, run?.anomalies || [], stats.removalsBlocked || 0);
+      console.log(`✅ Committed run #${commitRunId} (${run?.termCode}): ${formatStats(stats)}`);
+    } else {
+      console.log('📜 Recent scrape runs:');
+      for (const r of db.getRecentScrapeRuns(20)) {
+        const flag = r.anomalies?.length ? ` ⚠️ ${r.anomalies.length} anomalies` : '';
+        console.log(`   #${r.id} ${r.startedAt.toLocaleString()} ${r.scrapeType} ${r.termCode || 'all'} [${r.status}]: +${r.stats.inserted} ~${r.stats.updated} -${r.stats.removed}${flag}`);
+      }
+    }
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exitCode = 1;
+  } finally {
+    lock?.release();
+    db.close();
+  }
+}
+
+function reportLockBusy(db: SISIADatabase): void {
+  const holder = db.getLock(SCRAPE_LOCK);
+  console.error(`⏳ Another scrape is running (${holder?.owner}, since ${holder?.acquiredAt}), try again later`);
+  process.exitCode = LOCK_BUSY_EXIT_CODE;
+}
+
 async function main() {
+  if (listRuns || commitRunId !== null || rollbackRunId !== null) {
+    runMaintenance();
+    return;
+  }
+
   const startTime = Date.now();
   console.log('🚀 SISIA Fast Scraper (HTTP Mode)\n');
   console.log(`  Schedule:    ${scrapeSchedule ? 'YES' : 'NO'}`);
   console.log(`  Curriculum:  ${scrapeCurriculum ? 'YES' : 'NO'}`);
   console.log(`  All terms:   ${allTerms ? 'YES' : 'NO'}`);
   if (specificTerm) console.log(`  Term:        ${specificTerm}`);
+  if (recordDir) console.log(`  Recording:   ${recordDir}`);
+  if (replayDir) console.log(`  Replaying:   ${replayDir}`);
+  if (resume) console.log(`  Resume:      YES`);
   console.log();
 
-  const username = process.env.AISIS_USERNAME;
-  const password = process.env.AISIS_PASSWORD;
+  if (recordDir && replayDir) {
+    console.error('❌ --record and --replay cannot be used together');
+    process.exit(1);
+  }
+
+  try {
+    if (recordDir) setFixtureMode('record', recordDir);
+    if (replayDir) setFixtureMode('replay', replayDir);
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exit(1);
+  }
+
+  // Replay mode serves recorded pages, so no AISIS credentials are needed
+  const username = process.env.AISIS_USERNAME || (replayDir ? 'replay' : '');
+  const password = process.env.AISIS_PASSWORD || (replayDir ? 'replay' : '');
 
   if (!username || !password) {
     console.error('❌ Missing credentials. Set AISIS_USERNAME and AISIS_PASSWORD in .env');
     process.exit(1);
   }
 
-  const db = new SISIADatabase('sisia.db');
+  // Replays write to a scratch database next to the fixtures, never the live sisia.db
+  const db = new SISIADatabase(replayDir ? path.join(replayDir, 'replay.db') : 'sisia.db');
+  let lock: HeldLock | null = null;
 
   try {
     db.initialize();
+
+    lock = tryHoldLock(db, SCRAPE_LOCK);
+    if (!lock) {
+      reportLockBusy(db);
+      return;
+    }
+
+    // Ctrl+C or a scheduler timeout frees the lock at once; --resume continues the run
+    const releaseOnSignal = (signal: NodeJS.Signals) => {
+      lock?.release();
+      db.close();
+      process.exit(signal === 'SIGINT' ? 130 : 143);
+    };
+    process.once('SIGINT', releaseOnSignal);
+    process.once('SIGTERM', releaseOnSignal);
     
     // Authenticate via HTTP
     const session = await httpLogin(username, password);
     
     const concurrency = parseInt(process.env.AISIS_CONCURRENCY || '8');
     const batchDelay = parseInt(process.env.AISIS_BATCH_DELAY_MS || '500');
+    const retry: RetryOptions = {
+      retries: parseInt(process.env.AISIS_RETRIES || '3'),
+      baseDelayMs: parseInt(process.env.AISIS_RETRY_DELAY_MS || '1000'),
+      relogin: createRelogin(session, username, password),
+    };
+    let failedUnits = 0;
 
     // Term Discovery Mode
     if (discoverOnly) {
-      const terms = await discoverAllTerms(session);
-      console.log('\n📋 All discovered terms:');
-      terms.forEach(t => {
-        const marker = t.sectionCount ? `(${t.sectionCount} sections)` : '';
-        console.log(`  ${t.code}: ${t.label} ${marker}`);
-      });
-      db.close();
+      const runId = db.startScrapeRun(null, 'discovery');
+      try {
+        const terms = await discoverAllTerms(session);
+        console.log('\n📋 All discovered terms:');
+        terms.forEach(t => {
+          const marker = t.sectionCount ? `(${t.sectionCount} sections)` : '';
+          console.log(`  ${t.code}: ${t.label} ${marker}`);
+          db.getOrCreateTerm(t.code);
+        });
+        db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: terms.length }, 'completed');
+      } catch (err: any) {
+        db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0 }, 'failed', err.message);
+        throw err;
+      }
       return;
     }
 
@@ -89,57 +228,120 @@ async function main() {
     if (specificTerm) {
       termsToScrape = [specificTerm];
     } else if (allTerms) {
-      const listed = await getListedTerms(session);
+      const listed = await withRetry('term list', () => getListedTerms(session), retry);
       termsToScrape = listed.map(t => t.code);
       console.log(`📅 Found ${termsToScrape.length} terms: ${termsToScrape.join(', ')}`);
     } else {
       // Default: current term (first in dropdown)
-      const { periods } = await getScheduleOptionsHTTP(session);
+      const { periods } = await withRetry('schedule options', () => getScheduleOptionsHTTP(session), retry);
       if (periods[0]) {
         termsToScrape = [periods[0].value];
       }
     }
 
-    const allStats: ScrapeStats = { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0 };
+    const allStats: ScrapeStats = { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0, removalsBlocked: 0 };
+    const thresholds = thresholdsFromEnv();
 
     // Schedule Scraping
     if (scrapeSchedule && termsToScrape.length > 0) {
-      const { departments } = await getScheduleOptionsHTTP(session);
+      const { departments } = await withRetry('schedule options', () => getScheduleOptionsHTTP(session), retry);
       db.saveDepartments(departments);
 
       for (const termCode of termsToScrape) {
         console.log(`\n📅 Term: ${termCode}`);
-        console.log(`📚 Departments: ${departments.length}`);
-        
-        // Start scrape run
-        const runId = db.startScrapeRun(termCode, 'schedule');
+
+        // Continue an interrupted run of this term, or start a new one
+        const resumedRunId = resume ? db.findResumableRun('schedule', termCode) : undefined;
+        const runId = resumedRunId ?? db.startScrapeRun(termCode, 'schedule');
+        if (resumedRunId) db.resumeScrapeRun(runId);
+        db.addCheckpoints(runId, departments.map(d => d.code));
+
+        const pending = new Set(db.getPendingUnits(runId));
+        const todo = departments.filter(d => pending.has(d.code));
+        console.log(resumedRunId
+          ? `📚 Resuming run #${runId}: ${todo.length} of ${departments.length} departments left`
+          : `📚 Departments: ${departments.length}`);
 
         try {
-          const sections = await scrapeAllSchedulesHTTP(session, termCode, departments, {
+          let failed = 0;
+          await scrapeAllSchedulesHTTP(session, termCode, todo, {
             concurrency,
             batchDelayMs: batchDelay,
+            retry,
+            onDepartmentDone: (dept, sections) => db.completeCheckpoint(runId, dept.code, sections.length, sections),
+            onDepartmentFailed: (dept, message) => {
+              failed++;
+              db.failCheckpoint(runId, dept.code, message);
+            },
           });
 
+          // Never validate or commit a partial term
+          if (failed > 0) {
+            const progress = db.getCheckpointProgress(runId);
+            db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: progress.items }, 'failed',
+              `${failed} departments failed after retries`);
+            failedUnits += failed;
+            console.log(`\n  ⛔ ${termCode}: ${failed} departments failed, run #${runId} kept for --resume (${progress.done} done)`);
+            continue;
+          }
+
+          // Every department is staged: nothing has reached the live tables yet
+          db.markRunStaged(runId);
+          const sections = db.getStagedSections(runId);
+
           if (sections.length > 0) {
-            const stats = db.saveClassSectionsWithStats(sections);
+            // Compare every department against its learned baseline
+            const report = detectScrapeAnomalies(
+              fingerprintSections(sections),
+              db.getSectionFingerprints(termCode),
+              db.getDepartmentRunHistory(termCode, thresholds.historyRuns),
+              thresholds
+            );
+            for (const anomaly of report.anomalies) {
+              logger.warn('Anomaly', `${anomaly.department} ${anomaly.kind}: ${anomaly.message}`);
+            }
+            if (report.anomalies.length > 0) {
+              const action = allowRemovals
+                ? 'committing anyway (--allow-removals)'
+                : report.blockAll
+                  ? 'rejecting the run'
+                  : `removals blocked for ${[...report.blockedDepartments].join(', ')}`;
+              console.log(`\n  ⚠️  ${report.anomalies.length} anomalies, ${action}`);
+            }
+            db.saveDepartmentSnapshots(runId, termCode, report.profiles, report.blockedDepartments);
+            db.recordRunAnomalies(runId, report.anomalies, 0);
+
+            // Broken as a whole: keep it in staging, the live term stays as it was
+            if (report.blockAll && !allowRemovals) {
+              const stats = { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: sections.length };
+              db.endScrapeRun(runId, stats, 'rejected', `${report.blockedDepartments.size} anomalous departments`);
+              allStats.total += stats.total;
+              console.log(`\n  ⛔ ${termCode}: run #${runId} rejected, live data untouched (review, then --commit ${runId})`);
+              continue;
+            }
+
+            // Snapshot, save and mark completed in one transaction
+            const stats = db.commitStagedRun(runId, allowRemovals ? {} : {
+              blockedDepartments: report.blockedDepartments,
+            });
+            db.recordRunAnomalies(runId, report.anomalies, stats.removalsBlocked || 0);
             
             // Aggregate stats
             allStats.inserted += stats.inserted;
             allStats.updated += stats.updated;
             allStats.unchanged += stats.unchanged;
             allStats.removed += stats.removed;
+            allStats.removalsBlocked = (allStats.removalsBlocked || 0) + (stats.removalsBlocked || 0);
             allStats.total += stats.total;
             
             // Print term stats
-            console.log(`\n  📊 ${termCode}: ${formatStats(stats)}`);
-            
-            // Complete scrape run
-            db.endScrapeRun(runId, stats, 'completed');
+            console.log(`\n  📊 ${termCode}: ${formatStats(stats)} (run #${runId})`);
           } else {
             db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0 }, 'completed');
           }
         } catch (err: any) {
-          db.endScrapeRun(runId, allStats, 'failed', err.message);
+          // Commits are one transaction, so a failing term has written nothing live
+          db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0 }, 'failed', err.message);
           throw err;
         }
       }
@@ -147,21 +349,46 @@ async function main() {
 
     // Curriculum Scraping
     if (scrapeCurriculum) {
-      const { degrees } = await getCurriculumOptionsHTTP(session);
+      const { degrees } = await withRetry('curriculum options', () => getCurriculumOptionsHTTP(session), retry);
       console.log(`\n🎓 Degree Programs: ${degrees.length}`);
 
-      const runId = db.startScrapeRun(null, 'curriculum');
+      const resumedRunId = resume ? db.findResumableRun('curriculum', null) : undefined;
+      const runId = resumedRunId ?? db.startScrapeRun(null, 'curriculum');
+      if (resumedRunId) db.resumeScrapeRun(runId);
+      db.addCheckpoints(runId, degrees.map(d => d.code));
+
+      const pending = new Set(db.getPendingUnits(runId));
+      const todo = degrees.filter(d => pending.has(d.code));
+      if (resumedRunId) {
+        console.log(`  Resuming run #${runId}: ${todo.length} of ${degrees.length} programs left`);
+      }
       
       try {
-        const courses = await scrapeAllCurriculaHTTP(session, degrees, {
+        let failed = 0;
+        await scrapeAllCurriculaHTTP(session, todo, {
           concurrency: 4,
           batchDelayMs: 1000,
+          retry,
           onSave: (degree, courses) => {
             db.saveCurriculumCourses(degree, courses);
-          }
+          },
+          onDegreeDone: (degree, courses) => db.completeCheckpoint(runId, degree.code, courses.length),
+          onDegreeFailed: (degree, message) => {
+            failed++;
+            db.failCheckpoint(runId, degree.code, message);
+          },
         });
         
-        db.endScrapeRun(runId, { inserted: courses.length, updated: 0, unchanged: 0, removed: 0, total: courses.length }, 'completed');
+        // Curricula are saved per program as they arrive, the run only tracks progress
+        const progress = db.getCheckpointProgress(runId);
+        const stats = { inserted: progress.items, updated: 0, unchanged: 0, removed: 0, total: progress.items };
+        if (failed > 0) {
+          db.endScrapeRun(runId, stats, 'failed', `${failed} programs failed after retries`);
+          failedUnits += failed;
+          console.log(`\n  ⛔ ${failed} programs failed, run #${runId} kept for --resume (${progress.done} done)`);
+        } else {
+          db.endScrapeRun(runId, stats, 'completed');
+        }
       } catch (err: any) {
         db.endScrapeRun(runId, { inserted: 0, updated: 0, unchanged: 0, removed: 0, total: 0 }, 'failed', err.message);
         throw err;
@@ -183,6 +410,13 @@ async function main() {
     console.log(`     Updated:        ${allStats.updated}`);
     console.log(`     Unchanged:      ${allStats.unchanged}`);
     console.log(`     Removed:        ${allStats.removed}`);
+    if (allStats.removalsBlocked) {
+      console.log(`     Blocked:        ${allStats.removalsBlocked} (anomalies, see logs)`);
+    }
+    if (failedUnits > 0) {
+      console.log(`     Failed units:   ${failedUnits} (rerun with --resume)`);
+      process.exitCode = 1;
+    }
     console.log();
     console.log('  📦 Database totals:');
     console.log(`     Courses:        ${dbStats.courses}`);
@@ -199,15 +433,17 @@ async function main() {
       recentRuns.forEach(r => {
         const date = r.startedAt.toLocaleDateString();
         const time = r.startedAt.toLocaleTimeString();
-        console.log(`   ${date} ${time} - ${r.termCode || 'all'}: +${r.stats.inserted} ~${r.stats.updated} -${r.stats.removed}`);
+        const flag = r.anomalies?.length ? ` ⚠️ ${r.anomalies.length} anomalies` : '';
+        console.log(`   #${r.id} ${date} ${time} - ${r.termCode || 'all'} [${r.status}]: +${r.stats.inserted} ~${r.stats.updated} -${r.stats.removed}${flag}`);
       });
     }
 
   } catch (error: any) {
     console.error('❌ Scraper error:', error.message);
     console.error(error.stack);
-    process.exit(1);
+    process.exitCode = 1;
   } finally {
+    lock?.release();
     db.close();
   }
 }
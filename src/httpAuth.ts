@@ -8,6 +8,10 @@
  * 3. Use cookies for subsequent requests
  */
 
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
 const BASE_URL = 'https://aisis.ateneo.edu/j_aisis';
 
 export interface HTTPSession {
@@ -17,6 +21,106 @@ export interface HTTPSession {
   authenticated: boolean;
 }
 
+/**
+ * AISIS answered with its login page: the session expired or was invalidated
+ */
+export class SessionExpiredError extends Error {
+  constructor(url: string) {
+    super(`AISIS session expired (login page returned for ${url})`);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  dir: string;
+}
+
+interface FixtureIndexEntry {
+  method: 'GET' | 'POST';
+  url: string;
+  body: string;
+  file: string;
+  recordedAt: string;
+}
+
+// Active fixture mode (null = live requests only)
+let fixtureConfig: FixtureConfig | null = null;
+
+/**
+ * Enable offline fixture mode for httpGet/httpPost
+ * - record: live responses are also saved to `dir`, keyed by URL + form body
+ * - replay: responses are served from `dir`, no network access at all
+ */
+export function setFixtureMode(mode: FixtureMode | null, dir?: string): void {
+  if (!mode) {
+    fixtureConfig = null;
+    return;
+  }
+  if (!dir) {
+    throw new Error(`Fixture ${mode} mode requires a directory`);
+  }
+
+  const resolved = path.resolve(dir);
+  if (mode === 'record') {
+    fs.mkdirSync(resolved, { recursive: true });
+  } else if (!fs.existsSync(resolved)) {
+    throw new Error(`Fixture directory not found: ${resolved}`);
+  }
+
+  fixtureConfig = { mode, dir: resolved };
+  console.log(`📼 Fixture ${mode} mode: ${resolved}`);
+}
+
+export function getFixtureMode(): FixtureConfig | null {
+  return fixtureConfig;
+}
+
+/**
+ * Stable fixture key for a request (method + URL + form body)
+ */
+export function fixtureKey(method: 'GET' | 'POST', url: string, body: string = ''): string {
+  const hash = createHash('sha1').update(`${method} ${url}\n${body}`).digest('hex');
+  return `${method.toLowerCase()}-${hash.substring(0, 16)}`;
+}
+
+function readFixtureIndex(dir: string): Record<string, FixtureIndexEntry> {
+  const indexPath = path.join(dir, 'index.json');
+  if (!fs.existsSync(indexPath)) return {};
+  return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+}
+
+/**
+ * Save a response to the fixture directory and update index.json
+ */
+function recordFixture(method: 'GET' | 'POST', url: string, body: string, html: string): void {
+  if (!fixtureConfig) return;
+
+  const key = fixtureKey(method, url, body);
+  const file = `${key}.html`;
+  fs.writeFileSync(path.join(fixtureConfig.dir, file), html);
+
+  const index = readFixtureIndex(fixtureConfig.dir);
+  index[key] = { method, url, body, file, recordedAt: new Date().toISOString() };
+  fs.writeFileSync(path.join(fixtureConfig.dir, 'index.json'), JSON.stringify(index, null, 2));
+}
+
+/**
+ * Load a previously recorded response (throws if the request was never recorded)
+ */
+function replayFixture(method: 'GET' | 'POST', url: string, body: string): string {
+  const key = fixtureKey(method, url, body);
+  const filepath = path.join(fixtureConfig!.dir, `${key}.html`);
+
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`No recorded fixture for ${method} ${url}${body ? ` (${body})` : ''}`);
+  }
+
+  return fs.readFileSync(filepath, 'utf-8');
+}
+
 /**
  * Parse Set-Cookie header(s) into cookie string
  */
@@ -71,10 +175,35 @@ function extractRndToken(html: string): string | null {
   return null;
 }
 
+/**
+ * Detect the AISIS login form (returned instead of the requested page once a session expires)
+ */
+function isLoginPage(html: string): boolean {
+  return /name\s*=\s*["']?userName/i.test(html) && extractRndToken(html) !== null;
+}
+
+/**
+ * Check a live response before it is parsed or recorded
+ */
+function checkResponse(url: string, response: Response, html: string): void {
+  if (response.status >= 500) {
+    throw new Error(`AISIS returned HTTP ${response.status} for ${url}`);
+  }
+  if (isLoginPage(html)) {
+    throw new SessionExpiredError(url);
+  }
+}
+
 /**
  * Authenticate with AISIS using pure HTTP
  */
 export async function httpLogin(username: string, password: string): Promise<HTTPSession> {
+  // Replay mode never talks to AISIS, so credentials are not needed
+  if (fixtureConfig?.mode === 'replay') {
+    console.log('📼 Replay mode - skipping AISIS login');
+    return { cookies: '', jsessionid: 'replay', rnd: 'replay', authenticated: true };
+  }
+
   console.log('🔐 Authenticating with AISIS (HTTP)...');
   
   // Step 1: GET login page to extract rnd token and initial cookies
@@ -158,10 +287,36 @@ export async function httpLogin(username: string, password: string): Promise<HTT
   };
 }
 
+/**
+ * Re-login callback for long scrapes. The session is refreshed in place so every
+ * holder of it picks up the new cookies; concurrent callers share one login.
+ */
+export function createRelogin(
+  session: HTTPSession,
+  username: string,
+  password: string
+): () => Promise<void> {
+  let pending: Promise<void> | null = null;
+
+  return () => {
+    if (!pending) {
+      console.log('🔄 AISIS session expired, logging in again...');
+      pending = httpLogin(username, password)
+        .then(fresh => { Object.assign(session, fresh); })
+        .finally(() => { pending = null; });
+    }
+    return pending;
+  };
+}
+
 /**
  * Make an authenticated HTTP request
  */
 export async function httpGet(url: string, session: HTTPSession): Promise<string> {
+  if (fixtureConfig?.mode === 'replay') {
+    return replayFixture('GET', url, '');
+  }
+
   const response = await fetch(url, {
     method: 'GET',
     headers: {
@@ -173,7 +328,12 @@ export async function httpGet(url: string, session: HTTPSession): Promise<string
     redirect: 'follow',
   });
   
-  return response.text();
+  const html = await response.text();
+  checkResponse(url, response, html);
+  if (fixtureConfig?.mode === 'record') {
+    recordFixture('GET', url, '', html);
+  }
+  return html;
 }
 
 /**
@@ -186,6 +346,10 @@ export async function httpPost(
 ): Promise<string> {
   const body = new URLSearchParams(formData).toString();
   
+  if (fixtureConfig?.mode === 'replay') {
+    return replayFixture('POST', url, body);
+  }
+  
   const response = await fetch(url, {
     method: 'POST',
     headers: {
@@ -199,7 +363,12 @@ export async function httpPost(
     redirect: 'follow',
   });
   
-  return response.text();
+  const html = await response.text();
+  checkResponse(url, response, html);
+  if (fixtureConfig?.mode === 'record') {
+    recordFixture('POST', url, body, html);
+  }
+  return html;
 }
 
 export const AISIS_URLS = {
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AISIS_URLS, fixtureKey, setFixtureMode, type HTTPSession } from './httpAuth.js';
+import { getCurriculumOptionsHTTP, parseCurriculumHTML, scrapeAllCurriculaHTTP } from './httpCurriculumScraper.js';
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures/2025-2');
+const session: HTTPSession = { cookies: '', jsessionid: 'replay', rnd: 'replay', authenticated: true };
+
+function recordedCurriculum(degCode: string): string {
+  const body = new URLSearchParams({ degCode, command: 'display' }).toString();
+  return fs.readFileSync(path.join(FIXTURE_DIR, `${fixtureKey('POST', AISIS_URLS.CURRICULUM, body)}.html`), 'utf-8');
+}
+
+describe('parseCurriculumHTML', () => {
+  it('matches the golden parse of the recorded BS CS curriculum', () => {
+    expect(parseCurriculumHTML(recordedCurriculum('BS CS_2024_1'), 'BS CS_2024_1')).toMatchSnapshot();
+  });
+
+  it('assigns year and semester from the surrounding headings', () => {
+    const courses = parseCurriculumHTML(recordedCurriculum('BS CS_2024_1'), 'BS CS_2024_1');
+    const placement = Object.fromEntries(courses.map(c => [c.subjectCode, `${c.year}-${c.semester}`]));
+    expect(placement).toEqual({
+      'CSCI 21': '1-1',
+      'MATH 31.1': '1-1',
+      'PATHFIT 1': '1-1',
+      'CSCI 22': '1-2',
+      'MATH 31.2': '1-2',
+      'CSCI 30': '2-1',
+      'MATH 40': '2-1',
+      'NSTP 11': '2-0',
+    });
+  });
+
+  it('parses a graduate curriculum without year headings as a flat list', () => {
+    const courses = parseCurriculumHTML(recordedCurriculum('MS CS_2020_1'), 'MS CS_2020_1');
+    expect(courses.map(c => [c.subjectCode, c.units, c.year, c.semester])).toEqual([
+      ['CSCI 250', 3, 0, 0],
+      ['CSCI 299', 6, 0, 0],
+    ]);
+  });
+});
+
+describe('curriculum scrape in replay mode', () => {
+  beforeAll(() => setFixtureMode('replay', FIXTURE_DIR));
+  afterAll(() => setFixtureMode(null));
+
+  it('reads degree programs from the recorded form', async () => {
+    const { degrees } = await getCurriculumOptionsHTTP(session);
+    expect(degrees.map(d => d.code)).toEqual(['BS CS_2024_1', 'BS MIS_2024_1', 'MS CS_2020_1']);
+  });
+
+  it('scrapes recorded degrees and reports the unrecorded one as failed', async () => {
+    const { degrees } = await getCurriculumOptionsHTTP(session);
+    const failed: string[] = [];
+    const courses = await scrapeAllCurriculaHTTP(session, degrees, {
+      concurrency: 1,
+      batchDelayMs: 0,
+      onProgress: () => {},
+      onDegreeFailed: degree => failed.push(degree.code),
+    });
+
+    expect(courses).toEqual([
+      ...parseCurriculumHTML(recordedCurriculum('BS CS_2024_1'), 'BS CS_2024_1'),
+      ...parseCurriculumHTML(recordedCurriculum('MS CS_2020_1'), 'MS CS_2020_1'),
+    ]);
+    expect(failed).toEqual(['BS MIS_2024_1']);
+  });
+});
@@ -11,6 +11,7 @@ import * as cheerio from 'cheerio';
 import pLimit from 'p-limit';
 import type { HTTPSession } from './httpAuth.js';
 import { httpGet, httpPost, AISIS_URLS } from './httpAuth.js';
+import { withRetry, type RetryOptions } from './retry.js';
 import type { DegreeProgram, CurriculumCourse } from './types.js';
 import { parseDegreeCode } from './parsers/degreeCodeParser.js';
 
@@ -74,7 +75,7 @@ export async function scrapeCurriculumHTTP(
 /**
  * Parse curriculum HTML into courses (V4 - Year Detection Fixed)
  */
-function parseCurriculumHTML(html: string, degCode: string): CurriculumCourse[] {
+export function parseCurriculumHTML(html: string, degCode: string): CurriculumCourse[] {
   const $ = cheerio.load(html);
   const courses: CurriculumCourse[] = [];
   
@@ -227,13 +228,19 @@ export async function scrapeAllCurriculaHTTP(
     batchDelayMs?: number;
     onProgress?: (deg: string, count: number) => void;
     onSave?: (degree: DegreeProgram, courses: CurriculumCourse[]) => void;
+    retry?: RetryOptions;  // Per-degree retries and re-login
+    onDegreeDone?: (degree: DegreeProgram, courses: CurriculumCourse[]) => void;  // Checkpoint hook
+    onDegreeFailed?: (degree: DegreeProgram, message: string) => void;            // Retries used up
   } = {}
 ): Promise<CurriculumCourse[]> {
   const { 
     concurrency = 4,
     batchDelayMs = 500,
     onProgress,
-    onSave 
+    onSave,
+    retry = { retries: 0 },
+    onDegreeDone,
+    onDegreeFailed,
   } = options;
   
   const limit = pLimit(concurrency);
@@ -246,12 +253,13 @@ export async function scrapeAllCurriculaHTTP(
   const tasks = degrees.map((deg, index) => 
     limit(async () => {
       try {
-        const courses = await scrapeCurriculumHTTP(session, deg.code);
+        const courses = await withRetry(deg.code, () => scrapeCurriculumHTTP(session, deg.code), retry);
         allCourses.push(...courses);
         
         if (onSave && courses.length > 0) {
           onSave(deg, courses);
         }
+        onDegreeDone?.(deg, courses);
         
         if (onProgress) {
           onProgress(deg.code, courses.length);
@@ -268,6 +276,7 @@ export async function scrapeAllCurriculaHTTP(
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : 'Unknown error';
         console.error(`  ⚠️ ${deg.code}: ${message}`);
+        onDegreeFailed?.(deg, message);
         return [];
       }
     })
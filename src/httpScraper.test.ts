@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AISIS_URLS, fixtureKey, setFixtureMode, type HTTPSession } from './httpAuth.js';
+import { getScheduleOptionsHTTP, parseScheduleHTML, scrapeAllSchedulesHTTP } from './httpScraper.js';
+import type { ClassSection } from './types.js';
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures/2025-2');
+const session: HTTPSession = { cookies: '', jsessionid: 'replay', rnd: 'replay', authenticated: true };
+
+// scrapedAt is the parse time, everything else is pinned by the golden snapshot
+function golden(sections: ClassSection[]) {
+  return sections.map(({ scrapedAt, ...rest }) => rest);
+}
+
+function recordedPage(method: 'GET' | 'POST', url: string, form?: Record<string, string>): string {
+  const body = form ? new URLSearchParams(form).toString() : '';
+  return fs.readFileSync(path.join(FIXTURE_DIR, `${fixtureKey(method, url, body)}.html`), 'utf-8');
+}
+
+describe('parseScheduleHTML', () => {
+  const html = recordedPage('POST', AISIS_URLS.SCHEDULE, {
+    applicablePeriod: '2025-2',
+    deptCode: 'DISCS',
+    subjCode: 'ALL',
+    command: 'displayResults',
+  });
+
+  it('matches the golden parse of the recorded DISCS page', () => {
+    expect(golden(parseScheduleHTML(html, '2025-2', 'DISCS'))).toMatchSnapshot();
+  });
+
+  it('skips the header row and keeps every section row', () => {
+    const sections = parseScheduleHTML(html, '2025-2', 'DISCS');
+    expect(sections.map(s => `${s.subjectCode} ${s.section}`)).toEqual([
+      'CSCI 21 A', 'CSCI 21 B', 'CSCI 22 C1', 'CSCI 199 X', 'CSCI 250 G',
+    ]);
+  });
+
+  it('expands day ranges and carries the room onto every slot', () => {
+    const [first] = parseScheduleHTML(html, '2025-2', 'DISCS');
+    expect(first.schedule).toEqual([
+      { day: 'Monday', startTime: '08:00', endTime: '09:30', room: 'F-227', modality: 'ONSITE' },
+      { day: 'Thursday', startTime: '08:00', endTime: '09:30', room: 'F-227', modality: 'ONSITE' },
+    ]);
+  });
+
+  it('leaves TBA times without slots', () => {
+    const tba = parseScheduleHTML(html, '2025-2', 'DISCS').find(s => s.subjectCode === 'CSCI 250');
+    expect(tba?.schedule).toEqual([]);
+  });
+});
+
+describe('schedule scrape in replay mode', () => {
+  beforeAll(() => setFixtureMode('replay', FIXTURE_DIR));
+  afterAll(() => setFixtureMode(null));
+
+  it('reads periods and departments from the recorded form', async () => {
+    const { periods, departments } = await getScheduleOptionsHTTP(session);
+    expect(periods.map(p => p.value)).toEqual(['2025-2', '2025-1', '2024-2']);
+    expect(departments.map(d => d.code)).toEqual(['**IE**', 'DISCS', 'MA', 'PE']);
+  });
+
+  it('scrapes a department from recorded pages only', async () => {
+    const sections = await scrapeAllSchedulesHTTP(session, '2025-2', [{ code: 'DISCS', name: 'DISCS' }], {
+      concurrency: 1,
+      batchDelayMs: 0,
+      verify: false,
+      onProgress: () => {},
+    });
+    expect(golden(sections)).toEqual(golden(parseScheduleHTML(
+      recordedPage('POST', AISIS_URLS.SCHEDULE, {
+        applicablePeriod: '2025-2',
+        deptCode: 'DISCS',
+        subjCode: 'ALL',
+        command: 'displayResults',
+      }),
+      '2025-2',
+      'DISCS',
+    )));
+  });
+
+  it('fails on a request that was never recorded', async () => {
+    const failed: string[] = [];
+    const sections = await scrapeAllSchedulesHTTP(session, '2025-2', [{ code: 'MA', name: 'MA' }], {
+      concurrency: 1,
+      batchDelayMs: 0,
+      verify: false,
+      onProgress: () => {},
+      onDepartmentFailed: (dept, message) => failed.push(`${dept.code}: ${message}`),
+    });
+    expect(sections).toEqual([]);
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatch(/^MA: No recorded fixture for POST/);
+  });
+});
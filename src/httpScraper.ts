@@ -7,6 +7,7 @@ import * as cheerio from 'cheerio';
 import pLimit from 'p-limit';
 import type { HTTPSession } from './httpAuth.js';
 import { httpGet, httpPost, AISIS_URLS } from './httpAuth.js';
+import { withRetry, type RetryOptions } from './retry.js';
 import type { ClassSection, Department, ScheduleSlot } from './types.js';
 
 interface ScheduleOptions {
@@ -84,7 +85,7 @@ export async function scrapeScheduleHTTP(
 /**
  * Parse schedule HTML into class sections
  */
-function parseScheduleHTML(html: string, term: string, department: string): ClassSection[] {
+export function parseScheduleHTML(html: string, term: string, department: string): ClassSection[] {
   const $ = cheerio.load(html);
   const sections: ClassSection[] = [];
   
@@ -334,6 +335,9 @@ export async function scrapeAllSchedulesHTTP(
     onProgress?: (dept: string, count: number) => void;
     baselineCounts?: Map<string, number>;
     verify?: boolean;  // Run post-scrape verification
+    retry?: RetryOptions;  // Per-department retries and re-login
+    onDepartmentDone?: (dept: Department, sections: ClassSection[]) => void;  // Checkpoint hook
+    onDepartmentFailed?: (dept: Department, message: string) => void;         // Retries used up
   } = {}
 ): Promise<ClassSection[]> {
   const { 
@@ -345,6 +349,9 @@ export async function scrapeAllSchedulesHTTP(
     onProgress,
     baselineCounts,
     verify = true,  // Verify by default
+    retry = { retries: 0 },
+    onDepartmentDone,
+    onDepartmentFailed,
   } = options;
   
   let currentConcurrency = initialConcurrency;
@@ -374,9 +381,14 @@ export async function scrapeAllSchedulesHTTP(
           const needsInit = !formInitialized;
           formInitialized = true;
           
-          const sections = await scrapeScheduleHTTP(session, period, dept.code, { 
-            ensureFormInit: needsInit 
-          });
+          // Retries start from a fresh form (the session may have been replaced)
+          let firstAttempt = true;
+          const sections = await withRetry(`${period} ${dept.code}`, () => {
+            const ensureFormInit = needsInit || !firstAttempt;
+            firstAttempt = false;
+            return scrapeScheduleHTTP(session, period, dept.code, { ensureFormInit });
+          }, retry);
+          onDepartmentDone?.(dept, sections);
           
           // Check if this department changed (when baseline exists)
           if (baselineCounts && baselineCounts.has(dept.code)) {
@@ -399,6 +411,7 @@ export async function scrapeAllSchedulesHTTP(
           return sections;
         } catch (err: any) {
           console.error(`  ⚠️ ${dept.code}: ${err.message}`);
+          onDepartmentFailed?.(dept, err.message);
           consecutiveErrors++;
           
           // Adaptive backoff: reduce concurrency on errors
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { formatInstructorName, isSameInstructor, parseInstructorName, splitInstructorNames } from './instructorNameParser.js';
+
+describe('splitInstructorNames', () => {
+  it('splits co-taught entries into surname, given name pairs', () => {
+    expect(splitInstructorNames('GO, CLARK KENDRICK C., NABLE, JOB A.')).toEqual(['GO, CLARK KENDRICK C.', 'NABLE, JOB A.']);
+    expect(splitInstructorNames('DELA CRUZ, ANA, REYES, JOSE P.')).toEqual(['DELA CRUZ, ANA', 'REYES, JOSE P.']);
+  });
+
+  it('splits people separated by semicolons', () => {
+    // CSCI 22 C1 in fixtures/2025-2/post-d8a9888c79aa8d22.html
+    expect(splitInstructorNames('DELA CRUZ, ANA; REYES, JOSE P.')).toEqual(['DELA CRUZ, ANA', 'REYES, JOSE P.']);
+    expect(splitInstructorNames('DELA CRUZ, JUAN, JR.; TBA')).toEqual(['DELA CRUZ, JUAN JR.']);
+  });
+
+  it('keeps a trailing suffix segment with the name before it', () => {
+    expect(splitInstructorNames('DELA CRUZ, JUAN, JR., SANTOS, MARIA')).toEqual(['DELA CRUZ, JUAN JR.', 'SANTOS, MARIA']);
+  });
+
+  it('drops placeholders', () => {
+    expect(splitInstructorNames('TBA')).toEqual([]);
+    expect(splitInstructorNames('  ')).toEqual([]);
+    expect(splitInstructorNames(null)).toEqual([]);
+  });
+});
+
+describe('parseInstructorName', () => {
+  it('separates multi-word surnames, middle initials and suffixes', () => {
+    expect(parseInstructorName('Chan Shio,  Christian Paul O.')).toEqual({
+      name: 'CHAN SHIO, CHRISTIAN PAUL O.',
+      surname: 'CHAN SHIO',
+      givenNames: 'CHRISTIAN PAUL',
+      middleInitials: 'O',
+      suffix: null,
+      key: 'CHAN SHIO, CHRISTIAN PAUL',
+    });
+    expect(parseInstructorName('DELA CRUZ JR., JUAN')).toMatchObject({ surname: 'DELA CRUZ', suffix: 'JR', key: 'DELA CRUZ, JUAN' });
+    expect(parseInstructorName('SANTOS, MARIA M.A.')).toMatchObject({ middleInitials: 'MA', key: 'SANTOS, MARIA' });
+  });
+
+  it('reads a single letter or a word with a period as initials', () => {
+    expect(parseInstructorName('REYES, JOSE P')).toMatchObject({ middleInitials: 'P', key: 'REYES, JOSE' });
+    expect(parseInstructorName('REYES, JOSE P.')).toMatchObject({ middleInitials: 'P', key: 'REYES, JOSE' });
+  });
+
+  it('keeps short given names without a period', () => {
+    expect(parseInstructorName('CRUZ, JOHN ED')).toMatchObject({ givenNames: 'JOHN ED', middleInitials: null, key: 'CRUZ, JOHN ED' });
+    expect(parseInstructorName('SY, MARY JO')).toMatchObject({ givenNames: 'MARY JO', middleInitials: null });
+    expect(parseInstructorName('TAN, JOSE AL B.')).toMatchObject({ givenNames: 'JOSE AL', middleInitials: 'B' });
+  });
+});
+
+describe('formatInstructorName', () => {
+  it('writes names that parse back to the same parts', () => {
+    const parts = { surname: 'SANTOS', givenNames: 'MARIA', middleInitials: 'MA', suffix: 'JR' };
+    expect(formatInstructorName(parts)).toBe('SANTOS, MARIA M. A. JR.');
+    expect(parseInstructorName(formatInstructorName(parts))).toMatchObject(parts);
+    expect(formatInstructorName({ surname: 'SANTOS', givenNames: '', middleInitials: null, suffix: 'III' })).toBe('SANTOS III');
+  });
+});
+
+describe('isSameInstructor', () => {
+  const same = (a: string, b: string) => isSameInstructor(parseInstructorName(a), parseInstructorName(b));
+
+  it('merges spellings missing an initial or suffix', () => {
+    expect(same('SANTOS, MARIA', 'SANTOS, MARIA A.')).toBe(true);
+    expect(same('SANTOS, MARIA M.', 'SANTOS, MARIA M.A.')).toBe(true);
+    expect(same('DELA CRUZ, JUAN', 'DELA CRUZ, JUAN JR.')).toBe(true);
+  });
+
+  it('keeps different initials, suffixes and given names apart', () => {
+    expect(same('SANTOS, MARIA A.', 'SANTOS, MARIA B.')).toBe(false);
+    expect(same('DELA CRUZ, JUAN JR.', 'DELA CRUZ, JUAN III')).toBe(false);
+    expect(same('CRUZ, JOHN', 'CRUZ, JOHN ED')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Instructor Name Parser
+ * Splits AISIS instructor entries into individual people and decides which spellings
+ * are the same person
+ *
+ * Examples:
+ * - "GO, CLARK KENDRICK C., NABLE, JOB A." -> ["GO, CLARK KENDRICK C.", "NABLE, JOB A."]
+ * - "CHAN SHIO, CHRISTIAN PAUL O." -> surname "CHAN SHIO", given "CHRISTIAN PAUL", initials "O"
+ * - "DELA CRUZ JR., JUAN" / "DELA CRUZ, JUAN, JR." -> suffix "JR"
+ * - "CRUZ, JOHN ED" -> given "JOHN ED" (short given names without a period are not initials)
+ * - "SANTOS, MARIA" and "SANTOS, MARIA A." -> same person (initial missing on one)
+ * - "SANTOS, MARIA A." and "SANTOS, MARIA B." -> different people
+ */
+
+const SUFFIX_REGEX = /^(JR|SR|II|III|IV|V)\.?$/;
+const INITIALS_REGEX = /^(?:[A-Z]\.?){1,3}$/;
+const PLACEHOLDER_REGEX = /^(TBA|TBD|STAFF|TO BE ANNOUNCED)$/;
+
+export interface ParsedInstructorName {
+  name: string;                   // Cleaned display name: "GO, CLARK KENDRICK C."
+  surname: string;                // "GO"
+  givenNames: string;             // "CLARK KENDRICK"
+  middleInitials: string | null;  // "C"
+  suffix: string | null;          // "JR", "III"
+  key: string;                    // Merge key without initials and suffix: "GO, CLARK KENDRICK"
+}
+
+// A word is initials when it has a period or is a single letter: "C", "C.", "M.A." are,
+// two-letter given names ("ED", "JO", "AL") are not
+function isInitials(word: string): boolean {
+  return INITIALS_REGEX.test(word) && (word.length === 1 || word.includes('.'));
+}
+
+function clean(text: string): string {
+  return text.toUpperCase().replace(/\s+/g, ' ').replace(/\s+\./g, '.').trim();
+}
+
+/**
+ * Split a (possibly co-taught) instructor entry into individual names.
+ * Entries are "SURNAME, GIVEN" pairs joined by commas or semicolons ("DELA CRUZ, ANA;
+ * REYES, JOSE P."); a segment that is only a suffix ("JR.") belongs to the name
+ * before it. Placeholders (TBA) give [].
+ */
+export function splitInstructorNames(entry: string | null | undefined): string[] {
+  if (!entry || PLACEHOLDER_REGEX.test(clean(entry))) return [];
+  return entry.split(';').flatMap(splitNamePairs);
+}
+
+// "SURNAME, GIVEN" pairs of one ";"-separated group
+function splitNamePairs(group: string): string[] {
+  const segments = group.split(',').map(clean).filter(Boolean);
+  const names: string[] = [];
+  let i = 0;
+  while (i < segments.length) {
+    const surname = segments[i];
+    let given = segments[i + 1] && !SUFFIX_REGEX.test(segments[i + 1]) ? segments[i + 1] : '';
+    i += given ? 2 : 1;
+    while (i < segments.length && SUFFIX_REGEX.test(segments[i])) {
+      given = `${given} ${segments[i]}`.trim();
+      i++;
+    }
+    if (PLACEHOLDER_REGEX.test(surname)) continue;
+    names.push(given ? `${surname}, ${given}` : surname);
+  }
+  return names;
+}
+
+/**
+ * Parse one individual's name into parts and a merge key
+ */
+export function parseInstructorName(name: string): ParsedInstructorName {
+  const cleaned = clean(name);
+  const commaAt = cleaned.indexOf(',');
+  const surnameWords = (commaAt >= 0 ? cleaned.slice(0, commaAt) : cleaned).split(' ').filter(Boolean);
+  const givenWords = (commaAt >= 0 ? cleaned.slice(commaAt + 1) : '').split(' ').filter(Boolean);
+
+  // Suffix at the end of either part: "DELA CRUZ JR., JUAN" or "DELA CRUZ, JUAN JR."
+  let suffix: string | null = null;
+  for (const words of [givenWords, surnameWords]) {
+    if (words.length > 1 && SUFFIX_REGEX.test(words[words.length - 1])) {
+      suffix = words.pop()!.replace('.', '');
+      break;
+    }
+  }
+
+  // Trailing initials ("C.", "M.A.", "C") after at least one given name
+  const initials: string[] = [];
+  while (givenWords.length > 1 && isInitials(givenWords[givenWords.length - 1])) {
+    initials.unshift(givenWords.pop()!.replace(/\./g, ''));
+  }
+
+  const surname = surnameWords.join(' ');
+  const givenNames = givenWords.join(' ').replace(/\./g, '');
+  return {
+    name: cleaned,
+    surname,
+    givenNames,
+    middleInitials: initials.length > 0 ? initials.join('') : null,
+    suffix,
+    key: givenNames ? `${surname}, ${givenNames}` : surname,
+  };
+}
+
+/**
+ * Display name from name parts, written so parseInstructorName reads the same parts back:
+ * { surname "SANTOS", given "MARIA", initials "A", suffix "JR" } -> "SANTOS, MARIA A. JR."
+ */
+export function formatInstructorName(
+  parts: Pick<ParsedInstructorName, 'surname' | 'givenNames' | 'middleInitials' | 'suffix'>
+): string {
+  const suffix = parts.suffix && /^(JR|SR)$/.test(parts.suffix) ? `${parts.suffix}.` : parts.suffix;
+  if (!parts.givenNames) return [parts.surname, suffix].filter(Boolean).join(' ');
+
+  const initials = [...(parts.middleInitials || '')].map((initial) => `${initial}.`);
+  return `${parts.surname}, ${[parts.givenNames, ...initials, suffix].filter(Boolean).join(' ')}`;
+}
+
+/**
+ * Merge rule: same surname and given names, and middle initials and suffix agree
+ * wherever both spellings have them (one initial may extend the other: "M" / "MA")
+ */
+export function isSameInstructor(a: ParsedInstructorName, b: ParsedInstructorName): boolean {
+  if (a.key !== b.key) return false;
+  const initialsAgree = !a.middleInitials || !b.middleInitials
+    || a.middleInitials.startsWith(b.middleInitials) || b.middleInitials.startsWith(a.middleInitials);
+  const suffixAgrees = !a.suffix || !b.suffix || a.suffix === b.suffix;
+  return initialsAgree && suffixAgrees;
+}
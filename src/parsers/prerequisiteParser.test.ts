@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parsePrerequisiteExpression,
+  parsePrerequisites,
+  parsePrerequisitesAdvanced,
+  type PrerequisiteNode,
+} from './prerequisiteParser.js';
+
+const course = (code: string): PrerequisiteNode => ({ type: 'course', code });
+const junior: PrerequisiteNode = { type: 'standing', level: 'junior', year: 3 };
+
+describe('parsePrerequisiteExpression', () => {
+  it('returns null when there are no requirements', () => {
+    expect(parsePrerequisiteExpression('')).toBeNull();
+    expect(parsePrerequisiteExpression(null)).toBeNull();
+    expect(parsePrerequisiteExpression('None')).toBeNull();
+  });
+
+  it('parses a single course', () => {
+    expect(parsePrerequisiteExpression('CSCI 21')).toEqual(course('CSCI 21'));
+  });
+
+  it('accepts single-digit course numbers', () => {
+    expect(parsePrerequisiteExpression('PE 1')).toEqual(course('PE 1'));
+    expect(parsePrerequisiteExpression('PATHFIT 1 and PATHFIT 2')).toEqual({
+      type: 'and',
+      children: [course('PATHFIT 1'), course('PATHFIT 2')],
+    });
+  });
+
+  it('never reads unit or standing clauses as courses', () => {
+    expect(parsePrerequisiteExpression('CSCI 21 and Minimum 60 units')).toEqual(course('CSCI 21'));
+    expect(parsePrerequisiteExpression('MINIMUM OF 60 UNITS, Junior standing')).toEqual(junior);
+    expect(parsePrerequisiteExpression('at least 90 units or 4th year standing')).toEqual({ type: 'standing', level: 'senior', year: 4 });
+  });
+
+  it('lets "and" bind tighter than "or"', () => {
+    expect(parsePrerequisiteExpression('CSCI 21 and MATH 10 or CSCI 20')).toEqual({
+      type: 'or',
+      children: [{ type: 'and', children: [course('CSCI 21'), course('MATH 10')] }, course('CSCI 20')],
+    });
+  });
+
+  it('lets a comma bind looser than "or"', () => {
+    expect(parsePrerequisiteExpression('MATH 31.1 or MATH 31.2, Junior standing')).toEqual({
+      type: 'and',
+      children: [{ type: 'or', children: [course('MATH 31.1'), course('MATH 31.2')] }, junior],
+    });
+  });
+
+  it('treats a semicolon like a comma', () => {
+    expect(parsePrerequisiteExpression('CSCI 21 or CSCI 20; MATH 10')).toEqual({
+      type: 'and',
+      children: [{ type: 'or', children: [course('CSCI 21'), course('CSCI 20')] }, course('MATH 10')],
+    });
+  });
+
+  it('reads "A, B, or C" as one list of alternatives', () => {
+    expect(parsePrerequisiteExpression('MATH 10, MATH 20, or MATH 30')).toEqual({
+      type: 'or',
+      children: [course('MATH 10'), course('MATH 20'), course('MATH 30')],
+    });
+  });
+
+  it('respects parentheses', () => {
+    expect(parsePrerequisiteExpression('CSCI 21 and (MATH 31.1 or MATH 31.2)')).toEqual({
+      type: 'and',
+      children: [course('CSCI 21'), { type: 'or', children: [course('MATH 31.1'), course('MATH 31.2')] }],
+    });
+  });
+
+  it('parses co-requisites in prefix and suffix form', () => {
+    expect(parsePrerequisiteExpression('Co-requisite: PHYS 71.1')).toEqual({ type: 'coreq', child: course('PHYS 71.1') });
+    expect(parsePrerequisiteExpression('MATH 21 (co-requisite)')).toEqual({ type: 'coreq', child: course('MATH 21') });
+  });
+
+  it('parses standing and consent clauses', () => {
+    expect(parsePrerequisiteExpression('4th year standing')).toEqual({ type: 'standing', level: 'senior', year: 4 });
+    expect(parsePrerequisiteExpression('CSCI 21 or consent of the instructor')).toEqual({
+      type: 'or',
+      children: [course('CSCI 21'), { type: 'consent', of: 'instructor' }],
+    });
+  });
+});
+
+describe('parsePrerequisitesAdvanced', () => {
+  it('expands the tree into AND-of-OR course groups', () => {
+    expect(parsePrerequisitesAdvanced('CSCI 21 and (MATH 31.1 or MATH 31.2)')).toEqual([
+      ['CSCI 21'],
+      ['MATH 31.1', 'MATH 31.2'],
+    ]);
+  });
+
+  it('drops standing clauses from the groups', () => {
+    expect(parsePrerequisitesAdvanced('MATH 31.1 or MATH 31.2, Junior standing')).toEqual([['MATH 31.1', 'MATH 31.2']]);
+  });
+});
+
+describe('parsePrerequisites', () => {
+  it('lists every course once and flags consent clauses', () => {
+    expect(parsePrerequisites('CS 121 and CS 121 or MATH 101, with consent of instructor')).toEqual({
+      courses: ['CS 121', 'MATH 101'],
+      raw: 'CS 121 and CS 121 or MATH 101, with consent of instructor',
+      hasConsentClause: true,
+    });
+  });
+});
@@ -7,6 +7,7 @@
  * - "MATH 101 or MATH 102" -> ["MATH 101", "MATH 102"] (OR group)
  * - "CS 121 and MATH 101" -> ["CS 121", "MATH 101"] (both required)
  * - "Consent of instructor" -> [] (ignored)
+ * - "CS 121 and (MATH 101 or MATH 102)" -> AND/OR tree (parsePrerequisiteExpression)
  * - "None" -> []
  */
 
@@ -57,19 +58,368 @@ export function parsePrerequisites(text: string): PrerequisiteResult {
 
 /**
  * Parse prerequisite text with OR/AND logic
- * Returns array of arrays for OR groups
+ * Returns array of arrays for OR groups (AND of ORs)
  * e.g., "CS 121 and (MATH 101 or MATH 102)" -> [["CS 121"], ["MATH 101", "MATH 102"]]
+ *
+ * Consent and standing clauses are dropped; use parsePrerequisiteExpression
+ * when those matter.
  */
 export function parsePrerequisitesAdvanced(text: string): string[][] {
-  const result = parsePrerequisites(text);
-  
-  if (result.courses.length === 0) {
-    return [];
+  const tree = parsePrerequisiteExpression(text);
+  if (!tree) return [];
+
+  const groups = toCourseGroups(tree);
+  if (groups === null) {
+    // Too many combinations to expand - fall back to requiring every course
+    return parsePrerequisites(text).courses.map(c => [c]);
+  }
+
+  return groups;
+}
+
+// ============================================
+// EXPRESSION TREE
+// ============================================
+
+// Stored as JSON in curriculum_course.prerequisites_ast; the chat server reads it with its
+// own copy of these types (chat/server/src/utils/prerequisites.ts), keep the two in step
+export type StandingLevel = 'freshman' | 'sophomore' | 'junior' | 'senior' | 'graduate';
+
+export type PrerequisiteNode =
+  | { type: 'course'; code: string }
+  | { type: 'and'; children: PrerequisiteNode[] }
+  | { type: 'or'; children: PrerequisiteNode[] }
+  | { type: 'coreq'; child: PrerequisiteNode }
+  | { type: 'standing'; level: StandingLevel; year: number }
+  | { type: 'consent'; of: string };
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'sep' | 'comma' | 'coreq' }
+  | { kind: 'node'; node: PrerequisiteNode };
+
+const STANDING_YEARS: Record<StandingLevel, number> = {
+  freshman: 1,
+  sophomore: 2,
+  junior: 3,
+  senior: 4,
+  graduate: 5,
+};
+
+const ORDINAL_STANDING: Record<string, StandingLevel> = {
+  '1st': 'freshman', first: 'freshman',
+  '2nd': 'sophomore', second: 'sophomore',
+  '3rd': 'junior', third: 'junior',
+  '4th': 'senior', fourth: 'senior',
+};
+
+// Sticky patterns tried in order at each position
+const TOKEN_PATTERNS: Array<{ regex: RegExp; build: (m: RegExpExecArray) => Token | null }> = [
+  { regex: /\(/y, build: () => ({ kind: 'lparen' }) },
+  { regex: /\)/y, build: () => ({ kind: 'rparen' }) },
+  { regex: /and\s*\/\s*or\b/iy, build: () => ({ kind: 'or' }) },
+  { regex: /co-?\s?requisites?\s*:?|coreqs?\b\s*:?|(?:taken\s+)?concurrently\s+with\b/iy, build: () => ({ kind: 'coreq' }) },
+  {
+    regex: /(?:with\s+)?(?:the\s+)?(?:consent|permission|approval)\s+of\s+(?:the\s+)?([a-z][a-z' ]*?)(?=\s*(?:$|[,;()/]|\band\b|\bor\b))/iy,
+    build: m => ({ kind: 'node', node: { type: 'consent', of: m[1].trim().toLowerCase() } }),
+  },
+  {
+    regex: /(instructor|chair|chairperson|dean|department|program director)'?s?\s+(?:consent|permission|approval)/iy,
+    build: m => ({ kind: 'node', node: { type: 'consent', of: m[1].toLowerCase() } }),
+  },
+  {
+    regex: /(freshman|sophomore|junior|senior|graduate|1st|2nd|3rd|4th|first|second|third|fourth)(?:[\s-]+year)?\s+standing/iy,
+    build: m => {
+      const word = m[1].toLowerCase();
+      const level = (ORDINAL_STANDING[word] || word) as StandingLevel;
+      return { kind: 'node', node: { type: 'standing', level, year: STANDING_YEARS[level] } };
+    },
+  },
+  {
+    // Course prefixes are all capitals and never a word of a unit or standing clause, so
+    // "or 101", "Minimum 60 units" and "AT LEAST 60 UNITS" are never courses;
+    // single-digit numbers cover "PE 1" and "PATHFIT 1"
+    regex: /(?!(?:MINIMUM|MIN|LEAST|TOTAL|OF|AT|AND|OR|UNITS?|YEARS?|GRADE)\b)([A-Z]{2,8})\s*(\d{1,3}(?:\.\d{1,2})?)\b/y,
+    build: m => ({ kind: 'node', node: { type: 'course', code: `${m[1].toUpperCase()} ${m[2]}` } }),
+  },
+  { regex: /;/y, build: () => ({ kind: 'sep' }) },
+  { regex: /,/y, build: () => ({ kind: 'comma' }) },
+  { regex: /\band\b|&|\+/iy, build: () => ({ kind: 'and' }) },
+  { regex: /\bor\b|\//iy, build: () => ({ kind: 'or' }) },
+  { regex: /\bnone\b/iy, build: () => null },
+];
+
+/**
+ * Split prerequisite text into tokens, skipping filler words
+ * ("Prerequisite:", "of", "the", ...)
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    let matched = false;
+    for (const { regex, build } of TOKEN_PATTERNS) {
+      regex.lastIndex = i;
+      const m = regex.exec(text);
+      if (m && m[0].length > 0) {
+        const token = build(m);
+        if (token) tokens.push(token);
+        i += m[0].length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      // Skip one word (or one stray symbol)
+      const word = /[A-Za-z0-9.'-]+|./y;
+      word.lastIndex = i;
+      i += word.exec(text)![0].length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser
+ *
+ * Precedence (loosest first):
+ *   expr    := list (";" list)*                  -> AND
+ *   list    := orExpr ("," ["or"] orExpr)*       -> AND, or OR when written "A, B, or C"
+ *   orExpr  := andExpr (("or" | "/" | "and/or") andExpr)*
+ *   andExpr := unary (("and" | "&")? unary)*     (juxtaposition = AND)
+ *
+ * Commas bind looser than "or": "MATH 31.1 or MATH 31.2, Junior standing" is
+ * (MATH 31.1 or MATH 31.2) and Junior standing.
+ *   unary   := "coreq" orExpr | primary ["(coreq)"]
+ *   primary := "(" expr ")" | course | standing | consent
+ */
+class PrerequisiteExpressionParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): PrerequisiteNode | null {
+    const parts: PrerequisiteNode[] = [];
+
+    while (this.pos < this.tokens.length) {
+      const before = this.pos;
+      const node = this.parseList();
+      if (node) parts.push(node);
+      // Skip separators and anything the grammar could not consume
+      while (this.peek() && (this.peek()!.kind === 'sep' || this.peek()!.kind === 'rparen')) {
+        this.pos++;
+      }
+      if (this.pos === before) this.pos++;
+    }
+
+    return combine('and', parts);
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private startsOperand(token: Token | undefined): boolean {
+    return !!token && (token.kind === 'node' || token.kind === 'lparen' || token.kind === 'coreq');
+  }
+
+  private parseExpr(): PrerequisiteNode | null {
+    const parts: PrerequisiteNode[] = [];
+    const first = this.parseList();
+    if (first) parts.push(first);
+
+    while (this.peek()?.kind === 'sep') {
+      this.pos++;
+      const next = this.parseList();
+      if (next) parts.push(next);
+    }
+
+    return combine('and', parts);
+  }
+
+  private parseList(): PrerequisiteNode | null {
+    const parts: PrerequisiteNode[] = [];
+    let alternatives = false;
+    const first = this.parseOr();
+    if (first) parts.push(first);
+
+    while (this.peek()?.kind === 'comma') {
+      this.pos++;
+      // "A, B, or C" lists alternatives
+      if (this.peek()?.kind === 'or') {
+        this.pos++;
+        alternatives = true;
+      }
+      const next = this.parseOr();
+      if (next) parts.push(next);
+    }
+
+    return combine(alternatives ? 'or' : 'and', parts);
+  }
+
+  private parseOr(): PrerequisiteNode | null {
+    const parts: PrerequisiteNode[] = [];
+    const first = this.parseAnd();
+    if (first) parts.push(first);
+
+    while (this.peek()?.kind === 'or') {
+      this.pos++;
+      const next = this.parseAnd();
+      if (next) parts.push(next);
+    }
+
+    return combine('or', parts);
+  }
+
+  private parseAnd(): PrerequisiteNode | null {
+    const parts: PrerequisiteNode[] = [];
+    const first = this.parseUnary();
+    if (first) parts.push(first);
+
+    while (true) {
+      const token = this.peek();
+      if (token?.kind === 'and') {
+        this.pos++;
+      } else if (!this.startsOperand(token)) {
+        break;
+      }
+      const next = this.parseUnary();
+      if (!next) break;
+      parts.push(next);
+    }
+
+    return combine('and', parts);
+  }
+
+  private parseUnary(): PrerequisiteNode | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    // Prefix form: "Co-requisite: MATH 31.1"
+    if (token.kind === 'coreq') {
+      this.pos++;
+      const child = this.parseOr();
+      return child ? { type: 'coreq', child } : null;
+    }
+
+    let node = this.parsePrimary();
+    if (!node) return null;
+
+    // Suffix forms: "MATH 31.1 (co-requisite)" or "MATH 31.1 coreq"
+    if (this.peek()?.kind === 'lparen' && this.peek(1)?.kind === 'coreq' && this.peek(2)?.kind === 'rparen') {
+      this.pos += 3;
+      node = { type: 'coreq', child: node };
+    } else if (this.peek()?.kind === 'coreq' && !this.startsOperand(this.peek(1))) {
+      this.pos++;
+      node = { type: 'coreq', child: node };
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): PrerequisiteNode | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    if (token.kind === 'lparen') {
+      this.pos++;
+      const inner = this.parseExpr();
+      if (this.peek()?.kind === 'rparen') this.pos++;
+      return inner;
+    }
+
+    if (token.kind === 'node') {
+      this.pos++;
+      return token.node;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Build an AND/OR node, flattening nested nodes of the same type
+ * and collapsing single-child groups
+ */
+function combine(type: 'and' | 'or', parts: PrerequisiteNode[]): PrerequisiteNode | null {
+  const children: PrerequisiteNode[] = [];
+  for (const part of parts) {
+    if (part.type === type) {
+      children.push(...part.children);
+    } else {
+      children.push(part);
+    }
   }
 
-  // For now, return flat list (can be enhanced with OR group parsing)
-  // Each course is its own requirement (AND logic)
-  return result.courses.map(c => [c]);
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+}
+
+/**
+ * Parse raw prerequisite text into an AND/OR/consent/standing expression tree
+ *
+ * @example
+ * parsePrerequisiteExpression("MATH 101 or MATH 102")
+ * → { type: 'or', children: [{ type: 'course', code: 'MATH 101' }, { type: 'course', code: 'MATH 102' }] }
+ *
+ * Returns null when there are no requirements ("None", empty text).
+ */
+export function parsePrerequisiteExpression(text: string | null | undefined): PrerequisiteNode | null {
+  if (!text || text.trim() === '') return null;
+  return new PrerequisiteExpressionParser(tokenize(text.trim())).parse();
+}
+
+/**
+ * Convert a tree to AND-of-OR course groups (conjunctive normal form).
+ * Returns null if expansion would exceed maxGroups.
+ */
+function toCourseGroups(node: PrerequisiteNode, maxGroups: number = 64): string[][] | null {
+  switch (node.type) {
+    case 'course':
+      return [[node.code]];
+    case 'coreq':
+      return toCourseGroups(node.child, maxGroups);
+    case 'standing':
+    case 'consent':
+      return [];
+    case 'and': {
+      const groups: string[][] = [];
+      for (const child of node.children) {
+        const childGroups = toCourseGroups(child, maxGroups);
+        if (childGroups === null) return null;
+        groups.push(...childGroups);
+        if (groups.length > maxGroups) return null;
+      }
+      return groups;
+    }
+    case 'or': {
+      // (A and B) or C  ->  (A or C) and (B or C)
+      let groups: string[][] = [[]];
+      for (const child of node.children) {
+        const childGroups = toCourseGroups(child, maxGroups);
+        if (childGroups === null) return null;
+        // A non-course branch (e.g. consent) can satisfy the whole OR on its own
+        if (childGroups.length === 0) return [];
+        const next: string[][] = [];
+        for (const group of groups) {
+          for (const childGroup of childGroups) {
+            next.push([...new Set([...group, ...childGroup])]);
+          }
+        }
+        if (next.length > maxGroups) return null;
+        groups = next;
+      }
+      return groups;
+    }
+  }
 }
 
 /**
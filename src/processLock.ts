@@ -0,0 +1,45 @@
+/**
+ * Process Locks - Keep scrapes (and scheduler daemons, Postgres syncs) from overlapping
+ *
+ * Locks live in the process_lock table of sisia.db, so manual runs, the scheduler
+ * and /api/health all see the same state. The holder refreshes a heartbeat; a lock
+ * whose holder died is taken over once the heartbeat is older than the stale timeout.
+ */
+
+import { hostname } from 'os';
+import type { SISIADatabase } from './db/database.js';
+
+export const SCRAPE_LOCK = 'scrape';
+export const SCHEDULER_LOCK = 'scheduler';
+export const PG_SYNC_LOCK = 'pg_sync';
+
+// Exit code of a scraper that found the scrape lock taken (EX_TEMPFAIL)
+export const LOCK_BUSY_EXIT_CODE = 75;
+
+export interface HeldLock {
+  owner: string;
+  release: () => void;
+}
+
+export function lockOwner(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Take a lock and keep its heartbeat fresh until released; null when it is held elsewhere
+ */
+export function tryHoldLock(db: SISIADatabase, name: string, staleMs = 10 * 60 * 1000): HeldLock | null {
+  const owner = lockOwner();
+  if (!db.acquireLock(name, owner, staleMs)) return null;
+
+  const timer = setInterval(() => db.refreshLock(name, owner), Math.min(60 * 1000, staleMs / 4));
+  timer.unref();
+
+  return {
+    owner,
+    release: () => {
+      clearInterval(timer);
+      db.releaseLock(name, owner);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Retry - Exponential backoff for AISIS requests
+ *
+ * Transient errors (timeouts, 5xx) are retried after 1s, 2s, 4s, ... (capped, with jitter).
+ * An expired session is not a transient error: it triggers a re-login and an immediate retry.
+ */
+
+import { SessionExpiredError } from './httpAuth.js';
+import { logger } from './logger.js';
+
+export interface RetryOptions {
+  retries?: number;                 // Attempts after the first one (default 3)
+  baseDelayMs?: number;             // First backoff delay, doubled per attempt (default 1000)
+  maxDelayMs?: number;              // Backoff cap (default 30000)
+  relogin?: () => Promise<void>;    // Refresh the AISIS session, see createRelogin
+}
+
+/**
+ * Backoff before the given retry (1-based), with up to 20% jitter
+ */
+export function backoffDelay(retry: number, baseDelayMs = 1000, maxDelayMs = 30000): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/**
+ * Run fn until it succeeds or the retries are used up (the last error is rethrown)
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, relogin } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (attempt >= retries) throw err;
+
+      if (err instanceof SessionExpiredError && relogin) {
+        logger.warn('Retry', `${label}: session expired, re-login (retry ${attempt + 1}/${retries})`);
+        await relogin();
+        continue;
+      }
+
+      const delay = backoffDelay(attempt + 1, baseDelayMs, maxDelayMs);
+      logger.warn('Retry', `${label}: ${message}, retrying in ${delay}ms (retry ${attempt + 1}/${retries})`);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+}
@@ -1,6 +1,9 @@
 /**
  * Sanity Checks - Validate scraped data against known baselines
  * Prevents data loss from AISIS HTML bleeding/misrouting
+ *
+ * These hand-written baselines cover a few critical departments. Every department
+ * is also checked against baselines learned from past runs, see anomalyDetection.ts.
  */
 
 import * as fs from 'fs';
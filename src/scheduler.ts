@@ -0,0 +1,319 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Scrape Scheduler - Built-in daemon for recurring scrapes
+ *
+ * Runs fastScraper jobs on the cron expressions in scheduler.config.json
+ * (or SCHEDULER_CONFIG), e.g. schedules every 30 minutes during enrollment,
+ * curricula weekly and term discovery monthly. Replaces crontab entries and
+ * the n8n workflows.
+ *
+ * Usage:
+ *   npm run scheduler                           # Run the daemon
+ *   npm run scheduler -- --list                 # Jobs and their next run
+ *   npm run scheduler -- --run curriculum-weekly  # Run one job now and exit
+ *
+ * - Jobs run one at a time in a child process; a job that becomes due while
+ *   another runs starts afterwards (missed runs are not queued up)
+ * - The scraper holds the scrape lock, so manual runs never overlap scheduled
+ *   ones: a job that finds it taken is recorded as skipped
+ * - Each run is recorded in scrape_run by the scraper; job state and the daemon
+ *   heartbeat are stored in scheduler_job / process_lock and shown by /api/health
+ */
+
+import { config } from 'dotenv';
+import { spawn, type ChildProcess } from 'child_process';
+import { readFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { SISIADatabase } from './db/database.js';
+import { logger } from './logger.js';
+import { nextCronTime, parseCron, type CronSchedule } from './cron.js';
+import { LOCK_BUSY_EXIT_CODE, SCHEDULER_LOCK, tryHoldLock } from './processLock.js';
+
+config();
+logger.startSession('scheduler');
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const SCRAPER_PATH = join(__dirname, `fastScraper${extname(__filename)}`);
+
+type JobType = 'schedule' | 'curriculum' | 'discovery';
+type ActiveWhen = 'always' | 'enrollment' | 'outside_enrollment';
+
+interface JobConfig {
+  name: string;
+  type: JobType;
+  cron: string;
+  when?: ActiveWhen;          // Only run inside/outside enrollment periods (default: always)
+  args?: string[];            // Extra fastScraper arguments, e.g. ["--all-terms"]
+  timeout_minutes?: number;   // Default 180
+  enabled?: boolean;
+}
+
+interface EnrollmentPeriod {
+  label?: string;
+  from: string;               // MM-DD, a period may wrap into the next year
+  to: string;
+}
+
+interface SchedulerConfig {
+  enrollment_periods?: EnrollmentPeriod[];
+  jobs: JobConfig[];
+}
+
+interface Job extends JobConfig {
+  when: ActiveWhen;
+  schedule: CronSchedule;
+  nextRun: Date | null;       // null = never active (e.g. no enrollment periods configured)
+}
+
+interface JobResult {
+  status: 'success' | 'failed' | 'skipped';
+  error: string | null;
+}
+
+// fastScraper arguments per job type (--resume continues an interrupted run)
+const JOB_ARGS: Record<JobType, string[]> = {
+  schedule: ['--resume'],
+  curriculum: ['--curriculum', '--resume'],
+  discovery: ['--discover'],
+};
+
+const args = process.argv.slice(2);
+const listOnly = args.includes('--list');
+const runIndex = args.indexOf('--run');
+const runJobName = runIndex !== -1 ? args[runIndex + 1] : null;
+
+let runningChild: ChildProcess | null = null;
+
+function loadConfig(): { jobs: Job[]; periods: EnrollmentPeriod[] } {
+  const configPath = resolve(process.env.SCHEDULER_CONFIG || 'scheduler.config.json');
+  const parsed = JSON.parse(readFileSync(configPath, 'utf-8')) as SchedulerConfig;
+  const periods = parsed.enrollment_periods || [];
+
+  for (const period of periods) {
+    if (!/^\d{2}-\d{2}$/.test(period.from) || !/^\d{2}-\d{2}$/.test(period.to)) {
+      throw new Error(`Enrollment period ${period.label || ''} needs MM-DD dates, got ${period.from} to ${period.to}`);
+    }
+  }
+
+  const names = new Set<string>();
+  const jobs = parsed.jobs.filter(j => j.enabled !== false).map(job => {
+    if (!JOB_ARGS[job.type]) {
+      throw new Error(`Job ${job.name}: unknown type "${job.type}" (schedule, curriculum, discovery)`);
+    }
+    if (names.has(job.name)) {
+      throw new Error(`Duplicate job name: ${job.name}`);
+    }
+    names.add(job.name);
+    return { ...job, when: job.when || 'always', schedule: parseCron(job.cron), nextRun: null } as Job;
+  });
+
+  return { jobs, periods };
+}
+
+function inEnrollment(date: Date, periods: EnrollmentPeriod[]): boolean {
+  const day = (date.getMonth() + 1) * 100 + date.getDate();
+  return periods.some(p => {
+    const from = parseInt(p.from.replace('-', ''));
+    const to = parseInt(p.to.replace('-', ''));
+    return from <= to ? day >= from && day <= to : day >= from || day <= to;
+  });
+}
+
+function isActive(job: Job, date: Date, periods: EnrollmentPeriod[]): boolean {
+  if (job.when === 'enrollment') return inEnrollment(date, periods);
+  if (job.when === 'outside_enrollment') return !inEnrollment(date, periods);
+  return true;
+}
+
+/**
+ * Next cron time at which the job is active, looking at most a year ahead
+ */
+function nextActiveRun(job: Job, periods: EnrollmentPeriod[], from: Date = new Date()): Date | null {
+  const horizon = from.getTime() + 366 * 24 * 60 * 60 * 1000;
+  let next = nextCronTime(job.schedule, from);
+  while (next.getTime() <= horizon) {
+    if (isActive(job, next, periods)) return next;
+    next = nextCronTime(job.schedule, next);
+  }
+  return null;
+}
+
+function lastLine(text: string): string | null {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  return lines.length > 0 ? lines[lines.length - 1] : null;
+}
+
+/**
+ * Run fastScraper for a job in a child process (same tsx/node flags as this process)
+ */
+function runJob(job: Job): Promise<JobResult> {
+  const scraperArgs = [...JOB_ARGS[job.type], ...(job.args || [])];
+  logger.info('Scheduler', `▶ ${job.name}: fastScraper ${scraperArgs.join(' ')}`);
+
+  return new Promise(resolvePromise => {
+    const child = spawn(process.execPath, [...process.execArgv, SCRAPER_PATH, ...scraperArgs], {
+      cwd: process.cwd(),
+      env: process.env,
+      stdio: ['ignore', 'inherit', 'pipe'],
+    });
+    runningChild = child;
+
+    let stderrTail = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      stderrTail = (stderrTail + chunk.toString()).slice(-2000);
+    });
+
+    const timeoutMinutes = job.timeout_minutes ?? 180;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, timeoutMinutes * 60 * 1000);
+
+    child.on('error', err => {
+      clearTimeout(timer);
+      runningChild = null;
+      resolvePromise({ status: 'failed', error: err.message });
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      runningChild = null;
+      if (timedOut) {
+        resolvePromise({ status: 'failed', error: `Timed out after ${timeoutMinutes} minutes` });
+      } else if (signal || code === 130 || code === 143) {
+        resolvePromise({ status: 'failed', error: `Interrupted (${signal || `exit code ${code}`})` });
+      } else if (code === 0) {
+        resolvePromise({ status: 'success', error: null });
+      } else if (code === LOCK_BUSY_EXIT_CODE) {
+        resolvePromise({ status: 'skipped', error: 'Another scrape holds the scrape lock' });
+      } else {
+        resolvePromise({ status: 'failed', error: lastLine(stderrTail) || `Exit code ${code}` });
+      }
+    });
+  });
+}
+
+async function runAndRecord(db: SISIADatabase, job: Job): Promise<JobResult> {
+  db.recordJobStart(job.name);
+  const startTime = Date.now();
+  const result = await runJob(job);
+  db.recordJobEnd(job.name, result.status, result.error);
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
+  const message = `${job.name}: ${result.status} after ${elapsed}s${result.error ? ` (${result.error})` : ''}`;
+  if (result.status === 'failed') {
+    logger.error('Scheduler', message);
+  } else {
+    logger.info('Scheduler', message);
+  }
+  return result;
+}
+
+function registerJobs(db: SISIADatabase, jobs: Job[], periods: EnrollmentPeriod[]): void {
+  db.syncSchedulerJobs(jobs.map(j => ({ name: j.name, jobType: j.type, cron: j.cron, activeWhen: j.when })));
+  for (const job of jobs) {
+    job.nextRun = nextActiveRun(job, periods);
+    db.setJobNextRun(job.name, job.nextRun);
+  }
+}
+
+async function runDaemon(db: SISIADatabase, jobs: Job[], periods: EnrollmentPeriod[]): Promise<void> {
+  // The heartbeat (every 30s) tells /api/health the daemon is alive
+  const lock = tryHoldLock(db, SCHEDULER_LOCK, 2 * 60 * 1000);
+  if (!lock) {
+    const holder = db.getLock(SCHEDULER_LOCK);
+    console.error(`❌ Another scheduler is running (${holder?.owner})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  registerJobs(db, jobs, periods);
+  console.log(`🗓️  Scheduler started with ${jobs.length} jobs`);
+  for (const job of jobs) {
+    console.log(`  ${job.name.padEnd(26)} ${job.cron.padEnd(18)} next: ${job.nextRun?.toLocaleString() ?? 'never'}`);
+  }
+
+  let stopping = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    if (stopping) return;
+    console.log('\n🛑 Stopping scheduler...');
+    stopping = true;
+    runningChild?.kill('SIGTERM');
+    wake();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  while (!stopping) {
+    const now = Date.now();
+    const due = jobs
+      .filter((j): j is Job & { nextRun: Date } => j.nextRun !== null && j.nextRun.getTime() <= now)
+      .sort((a, b) => a.nextRun.getTime() - b.nextRun.getTime());
+
+    if (due.length === 0) {
+      // Wake at least once a minute so clock changes are picked up
+      const upcoming = jobs.map(j => j.nextRun?.getTime() ?? Infinity);
+      const delay = Math.max(1000, Math.min(60 * 1000, Math.min(...upcoming) - now));
+      await new Promise<void>(r => {
+        const timer = setTimeout(r, delay);
+        wake = () => {
+          clearTimeout(timer);
+          r();
+        };
+      });
+      continue;
+    }
+
+    const job: Job = due[0];
+    await runAndRecord(db, job);
+    job.nextRun = nextActiveRun(job, periods);
+    db.setJobNextRun(job.name, job.nextRun);
+  }
+
+  lock.release();
+}
+
+async function main() {
+  const { jobs, periods } = loadConfig();
+  const db = new SISIADatabase('sisia.db');
+
+  try {
+    db.initialize();
+
+    if (listOnly) {
+      const now = new Date();
+      console.log(`🗓️  ${jobs.length} jobs (${inEnrollment(now, periods) ? 'in' : 'outside'} enrollment now)\n`);
+      for (const job of jobs) {
+        const next = nextActiveRun(job, periods, now);
+        console.log(`  ${job.name.padEnd(26)} ${job.type.padEnd(11)} ${job.cron.padEnd(18)} ${job.when.padEnd(19)} next: ${next?.toLocaleString() ?? 'never'}`);
+      }
+      return;
+    }
+
+    if (runJobName) {
+      const job = jobs.find(j => j.name === runJobName);
+      if (!job) {
+        throw new Error(`Unknown job "${runJobName}" (${jobs.map(j => j.name).join(', ')})`);
+      }
+      registerJobs(db, jobs, periods);
+      const result = await runAndRecord(db, job);
+      if (result.status !== 'success') process.exitCode = 1;
+      return;
+    }
+
+    await runDaemon(db, jobs, periods);
+  } catch (error: any) {
+    console.error('❌ Scheduler error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
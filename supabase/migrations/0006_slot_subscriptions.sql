@@ -0,0 +1,22 @@
+-- Migration: Slot Availability Subscriptions
+-- Persists WebSocket slot watchlists per user so they survive reconnects
+
+CREATE TABLE IF NOT EXISTS public.slot_subscription (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_code TEXT NOT NULL,  -- Normalized course code (e.g., "CSCI 111")
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, course_code)
+);
+
+-- Index for fast user lookup
+CREATE INDEX IF NOT EXISTS idx_slot_subscription_user_id ON public.slot_subscription(user_id);
+
+-- Row Level Security
+ALTER TABLE public.slot_subscription ENABLE ROW LEVEL SECURITY;
+
+-- Users can only manage their own subscriptions
+CREATE POLICY "Users can manage own slot subscriptions" ON public.slot_subscription
+  FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.slot_subscription IS 'Courses a user watches for free slot changes over /ws';
@@ -0,0 +1,8 @@
+-- Migration: Catalog Sync Columns
+-- Curriculum fields added to the SQLite schema after 0002, so the mirror pushed by
+-- `npm run sync:pg` (src/pgSync.ts) carries everything the scraper stores
+
+ALTER TABLE public.curriculum_courses ADD COLUMN IF NOT EXISTS prerequisites_ast JSONB;  -- AND/OR tree parsed from prerequisites_raw
+ALTER TABLE public.curriculum_courses ADD COLUMN IF NOT EXISTS corequisites_raw TEXT;
+ALTER TABLE public.curriculum_courses ADD COLUMN IF NOT EXISTS is_elective BOOLEAN DEFAULT FALSE;
+
@@ -0,0 +1,34 @@
+-- Migration: Chat Session Memory
+-- Server-side conversation state per chat session (chat/server/src/utils/conversationMemory.ts):
+-- a rolling summary of older turns and the entities resolved so far, so clients no longer
+-- resend the whole history and follow-ups ("what about section B?") keep their context
+
+CREATE TABLE IF NOT EXISTS public.chat_session_memory (
+  session_id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,  -- NULL for public chat sessions
+
+  -- Summary of every chat_message of the session created at or before summarized_until
+  summary TEXT,
+  summarized_until TIMESTAMPTZ,
+
+  -- Resolved entities: {term, courses, sections, instructors, rooms, program}
+  context JSONB NOT NULL DEFAULT '{}',
+
+  -- Prompt tokens of the last turn (what the context bar shows); drives summarization
+  last_prompt_tokens INTEGER,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_session_memory_user ON public.chat_session_memory(user_id);
+
+-- Row Level Security (the API server writes with the service role)
+ALTER TABLE public.chat_session_memory ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own session memory
+CREATE POLICY "users_own_session_memory" ON public.chat_session_memory
+  FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.chat_session_memory IS 'Rolling summary and resolved entities of each chat session';
+COMMENT ON COLUMN public.chat_session_memory.summarized_until IS 'created_at of the newest chat_message folded into summary';
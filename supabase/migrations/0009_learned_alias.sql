@@ -0,0 +1,22 @@
+-- Migration: Learned Aliases
+-- Aliases learned from chats (chat/server/src/utils/aliasLearning.ts): a lookup that failed
+-- with "did you mean" suggestions, then resolved to one of them, maps what was typed to it
+
+CREATE TABLE IF NOT EXISTS public.learned_alias (
+  kind TEXT NOT NULL CHECK (kind IN ('course_prefix', 'course', 'program')),
+  alias TEXT NOT NULL,    -- Normalized key: "compsci", "csci 199", "info sys"
+  target TEXT NOT NULL,   -- Prefix, course code or program code: "CSCI", "CSCI 199.1", "BS MIS"
+
+  -- Chat session the alias was learned in, to trace bad aliases back
+  session_id TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (kind, alias)
+);
+
+-- Row Level Security: only the API server (service role) reads and writes
+ALTER TABLE public.learned_alias ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.learned_alias IS 'Course prefix, course and program aliases learned from resolved chat suggestions';
@@ -0,0 +1,27 @@
+-- Migration: Learned Alias Confirmations
+-- A learned alias (0009) is only used once several distinct learners resolved the same
+-- suggestion (ALIAS_MIN_CONFIRMATIONS, default 3). A learner is a signed-in user, or a chat
+-- session for public chat, so one student cannot teach an alias alone.
+
+CREATE TABLE IF NOT EXISTS public.learned_alias_vote (
+  kind TEXT NOT NULL CHECK (kind IN ('course_prefix', 'course', 'program')),
+  alias TEXT NOT NULL,
+  target TEXT NOT NULL,
+  learner TEXT NOT NULL,  -- "user:<uuid>" or "session:<id>"
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (kind, alias, target, learner)
+);
+
+-- Aliases learned before this migration took effect after a single session; they keep
+-- confirmations = 1 and are ignored until enough learners confirm them again
+ALTER TABLE public.learned_alias ADD COLUMN IF NOT EXISTS confirmations INTEGER NOT NULL DEFAULT 1;
+
+-- session_id now holds the learner that confirmed the alias last
+COMMENT ON COLUMN public.learned_alias.session_id IS 'Learner ("user:<uuid>" or "session:<id>") whose confirmation made the alias take effect';
+
+-- Row Level Security: only the API server (service role) reads and writes
+ALTER TABLE public.learned_alias_vote ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.learned_alias_vote IS 'One row per learner that resolved a "did you mean" suggestion to the same alias target';